@@ -0,0 +1,6 @@
+// Runtime settings of the dashboard, edit this file of a build to deploy it to another host without rebuilding it
+window.ANALYTICS_DASHBOARD_CONFIG = {
+    // Base URL of the server API, e.g. "/api" if a reverse proxy serves the app and the API under the same host.
+    // Empty to use REACT_APP_API_URL of the build, or http://localhost:5050/api without it
+    apiUrl: ""
+};
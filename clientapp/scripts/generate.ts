@@ -0,0 +1,422 @@
+import fs from 'fs';
+import path from 'path';
+import CourseDataGenerator from '../src/data/course-data-generator';
+import LearnerGenerator from '../src/data/learner-generator';
+import { defaultScenario, parseScenario } from '../src/data/learner-scenario';
+import { defaultCalendar, parseCalendar } from '../src/data/calendar-model';
+import XAPIGenerator, { defaultCourseStartDate } from '../src/data/xapi-generator';
+import { generateJobLearners, runGenerationJob } from '../src/data/generation-job';
+import { randomSeed } from '../src/data/random';
+import { apiClient } from '../src/services/api-client';
+import AuthService from '../src/services/auth-service';
+import CourseService from '../src/services/course-service';
+import GenerationJobService from '../src/services/generation-job-service';
+import {
+    CourseData,
+    GenerationJob,
+    GenerationJobSettings,
+    GenerationProgress,
+    LearnerProfile,
+    Verb,
+    XAPIProfile,
+    XAPIStatement
+} from '../src/types/types';
+import bundledProfile from '../src/data/files/xapi_profiles.json';
+
+const USAGE = `Generates a synthetic learner and xAPI statement dataset without a browser
+
+Usage: npm run generate -- [options]
+
+Options:
+  --learners <n>      Number of learners (default: 100)
+  --weeks <n>         Number of simulated weeks (default: 12)
+  --seed <n>          Seed, the same seed, learners and weeks always yield the same dataset
+                      (default: a random seed, printed and written to the dataset)
+  --scenario <file>   JSON or YAML file defining the personas and their share of the cohort
+                      (default: src/data/files/learner_scenario.json)
+  --calendar <file>   JSON or YAML file defining weekday weights, time zones, chronotypes,
+                      holidays and deadlines of the sessions (default: src/data/files/calendar_model.json)
+  --out <file>        Writes the dataset to a file
+  --format <format>   json for a single document with learners and statements,
+                      ndjson for one statement per line and the learners in <file>.learners.json
+                      (default: ndjson for .ndjson files, json otherwise)
+  --post              Stores verbs, learners and statements on the server
+                      as a generation job, its id is printed to resume an interrupted upload
+  --job <id>          Resumes an interrupted generation job, the learners and statements are
+                      regenerated from the job settings and the uploaded statements are skipped
+  --append            Keeps the statements already stored for the course when posting
+  --course <id>       Generates the dataset for a course imported on the server
+                      (default: course bundled with the app)
+  --batch-size <n>    Statements per upload request when posting (default: 1000)
+  --api-url <url>     API of the server (default: ANALYTICS_API_URL or http://localhost:5050/api)
+  --help              Shows this help
+
+The server requires a login for --post and --course, the credentials are read from
+ANALYTICS_USERNAME and ANALYTICS_PASSWORD. Storing statements requires the statement-writer role,
+--post also stores verbs, learners and the generation job and needs an admin account for them.`;
+
+interface CliOptions {
+    learners: number;
+    weeks: number;
+    seed?: number;
+    scenario?: string;
+    calendar?: string;
+    out?: string;
+    format?: 'json' | 'ndjson';
+    post: boolean;
+    job?: string;
+    append: boolean;
+    course?: string;
+    batchSize: number;
+    apiUrl?: string;
+}
+
+/**
+ * Output file the generated statements are streamed to
+ */
+interface DatasetWriter {
+    write: (statement: XAPIStatement) => Promise<void>;
+    close: () => Promise<void>;
+}
+
+/**
+ * In-memory replacement of the browser's local storage, keeps the login session of the services
+ */
+class MemoryStorage implements Storage {
+    private items = new Map<string, string>();
+
+    get length(): number {
+        return this.items.size;
+    }
+
+    clear(): void {
+        this.items.clear();
+    }
+
+    getItem(key: string): string | null {
+        return this.items.get(key) ?? null;
+    }
+
+    key(index: number): string | null {
+        return Array.from(this.items.keys())[index] ?? null;
+    }
+
+    removeItem(key: string): void {
+        this.items.delete(key);
+    }
+
+    setItem(key: string, value: string): void {
+        this.items.set(key, String(value));
+    }
+}
+
+/**
+ * Parses a positive integer option
+ * @param name - Option name for error messages
+ * @param value - Option value
+ * @param allowZero - Whether 0 is accepted
+ * @returns Parsed number
+ * @throws Error if the value is no integer in range
+ */
+const parseCount = (name: string, value: string | undefined, allowZero: boolean = false): number => {
+    const count = Number(value);
+    if (value === undefined || !Number.isInteger(count) || count < (allowZero ? 0 : 1)) {
+        throw new Error(`--${name} expects a ${allowZero ? 'non-negative' : 'positive'} integer, got: ${value}`);
+    }
+    return count;
+};
+
+/**
+ * Parses the command line arguments
+ * @param args - Arguments without node and script path
+ * @returns Parsed options, null if the help was requested
+ * @throws Error if an option is unknown or invalid
+ */
+const parseArgs = (args: string[]): CliOptions | null => {
+    const options: CliOptions = {
+        learners: 100,
+        weeks: 12,
+        post: false,
+        append: false,
+        batchSize: 1000,
+        apiUrl: process.env.ANALYTICS_API_URL
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const [flag, inlineValue] = args[i].split(/=(.*)/s);
+        const value = () => inlineValue ?? args[++i];
+
+        switch (flag) {
+            case '--help':
+            case '-h':
+                return null;
+            case '--learners':
+                options.learners = parseCount('learners', value());
+                break;
+            case '--weeks':
+                options.weeks = parseCount('weeks', value());
+                break;
+            case '--seed':
+                options.seed = parseCount('seed', value(), true);
+                break;
+            case '--scenario':
+                options.scenario = value();
+                break;
+            case '--calendar':
+                options.calendar = value();
+                break;
+            case '--out':
+                options.out = value();
+                break;
+            case '--format': {
+                const format = value();
+                if (format !== 'json' && format !== 'ndjson') {
+                    throw new Error(`--format expects json or ndjson, got: ${format}`);
+                }
+                options.format = format;
+                break;
+            }
+            case '--post':
+                options.post = true;
+                break;
+            case '--job':
+                options.job = value();
+                options.post = true;
+                break;
+            case '--append':
+                options.append = true;
+                break;
+            case '--course':
+                options.course = value();
+                break;
+            case '--batch-size':
+                options.batchSize = parseCount('batch-size', value());
+                break;
+            case '--api-url':
+                options.apiUrl = value();
+                break;
+            default:
+                throw new Error(`Unknown option: ${args[i]}`);
+        }
+    }
+
+    if (!options.out && !options.post) {
+        throw new Error('Nothing to do, pass --out <file> and/or --post');
+    }
+
+    return options;
+};
+
+/**
+ * Logs in with the credentials from the environment
+ * @throws Error if the credentials are missing or invalid
+ */
+const login = async (): Promise<void> => {
+    const { ANALYTICS_USERNAME, ANALYTICS_PASSWORD } = process.env;
+    if (!ANALYTICS_USERNAME || !ANALYTICS_PASSWORD) {
+        throw new Error('Set ANALYTICS_USERNAME and ANALYTICS_PASSWORD to access the server');
+    }
+
+    const user = await new AuthService().login(ANALYTICS_USERNAME, ANALYTICS_PASSWORD);
+    console.log(`Logged in as ${user.username} (${user.role})`);
+};
+
+/**
+ * Loads the course and the verbs the statements are generated for
+ * Imported courses are loaded from the server, the bundled course files are read from disk
+ * @param courseDataGenerator - Parser of the course files
+ * @param courseId - Optional course imported on the server
+ * @returns Course data and its verbs
+ */
+const loadCourse = async (
+    courseDataGenerator: CourseDataGenerator,
+    courseId?: string
+): Promise<{ courseData: CourseData; verbs: Verb[]; profile: XAPIProfile }> => {
+    const filesDir = path.join(__dirname, '../src/data/files');
+    const manifestXml = fs.readFileSync(path.join(filesDir, 'ims_common_cartridge.xml'), 'utf8');
+    const lomData = courseDataGenerator.parseLOMFiles([fs.readFileSync(path.join(filesDir, 'lom11.xml'), 'utf8')]);
+    const bundledProfileData = bundledProfile as XAPIProfile;
+    const bundledCourse = courseDataGenerator.buildCourseData(manifestXml, lomData, bundledProfileData);
+
+    if (!courseId || courseId === bundledCourse.id) {
+        return {
+            courseData: bundledCourse,
+            verbs: courseDataGenerator.parseVerbs(bundledProfileData),
+            profile: bundledProfileData
+        };
+    }
+
+    const courseService = new CourseService();
+    const [courseData, profile] = await Promise.all([
+        courseService.getCourse(courseId),
+        courseService.getProfile(courseId)
+    ]);
+    return { courseData, verbs: courseDataGenerator.parseVerbs(profile), profile };
+};
+
+/**
+ * Waits until a write stream accepts more data
+ * @param stream - Output stream
+ * @param chunk - Data to write
+ */
+const writeChunk = async (stream: fs.WriteStream, chunk: string): Promise<void> => {
+    if (!stream.write(chunk)) {
+        await new Promise(resolve => stream.once('drain', resolve));
+    }
+};
+
+/**
+ * Opens the output file, the statements are written as they are generated
+ * @param options - CLI options with the output file
+ * @param courseData - Course the dataset belongs to
+ * @param settings - Settings the dataset is generated with
+ * @param learners - Generated learner profiles
+ * @returns Writer of the statements
+ */
+const openDatasetWriter = async (
+    options: CliOptions,
+    courseData: CourseData,
+    settings: GenerationJobSettings,
+    learners: LearnerProfile[]
+): Promise<DatasetWriter> => {
+    const out = path.resolve(options.out!);
+    const format = options.format || (out.endsWith('.ndjson') ? 'ndjson' : 'json');
+    fs.mkdirSync(path.dirname(out), { recursive: true });
+
+    const stream = fs.createWriteStream(out);
+    let written = 0;
+
+    if (format === 'json') {
+        // The statements array is streamed, the rest of the document is written around it
+        const header = JSON.stringify({
+            course: { id: courseData.id, title: courseData.title },
+            seed: settings.seed,
+            weeks: settings.weeks,
+            learners
+        });
+        await writeChunk(stream, `${header.slice(0, -1)},"statements":[`);
+    } else {
+        const learnersFile = `${out.replace(/\.ndjson$/, '')}.learners.json`;
+        fs.writeFileSync(learnersFile, JSON.stringify(learners, null, 2));
+        console.log(`Wrote ${learners.length} learners to ${learnersFile}`);
+    }
+
+    return {
+        write: async (statement) => {
+            const line = JSON.stringify(statement);
+            await writeChunk(stream, format === 'json' ? `${written > 0 ? ',' : ''}${line}` : `${line}\n`);
+            written++;
+        },
+        close: async () => {
+            if (format === 'json') {
+                await writeChunk(stream, ']}');
+            }
+            await new Promise<void>((resolve, reject) => stream.end((error?: Error | null) => error ? reject(error) : resolve()));
+            console.log(`Wrote ${written} statements to ${out}`);
+        }
+    };
+};
+
+/**
+ * Logs the generation progress whenever another tenth of the learners is done
+ * @returns Progress callback of the generators
+ */
+const progressLogger = (): ((progress: GenerationProgress) => void) => {
+    let logged = 0;
+    return ({ phase, completed, total, statements }) => {
+        if (phase !== 'sessions' || (completed < total && completed < logged + total / 10)) return;
+        logged = completed;
+        console.log(`Generated statements of ${completed} / ${total} learners` +
+            (statements !== undefined ? `, ${statements} statements` : ''));
+    };
+};
+
+/**
+ * Runs the generators with the options from the command line
+ */
+const main = async (): Promise<void> => {
+    const options = parseArgs(process.argv.slice(2));
+    if (!options) {
+        console.log(USAGE);
+        return;
+    }
+
+    apiClient.configure(options.apiUrl);
+
+    // The services keep the login session in local storage
+    if (!globalThis.localStorage) {
+        globalThis.localStorage = new MemoryStorage();
+    }
+    if (options.post || options.course) {
+        await login();
+    }
+
+    // Resumed jobs are regenerated from their settings
+    const jobService = new GenerationJobService();
+    let job: GenerationJob | undefined = options.job ? await jobService.getJob(options.job) : undefined;
+    if (job?.status === 'completed') {
+        throw new Error(`Generation job ${job.id} is already completed`);
+    }
+
+    const courseDataGenerator = new CourseDataGenerator();
+    const { courseData, verbs, profile } = await loadCourse(courseDataGenerator, job ? job.courseId : options.course);
+
+    const settings: GenerationJobSettings = job?.settings ?? {
+        learners: options.learners,
+        firstLearnerId: 1,
+        weeks: options.weeks,
+        seed: options.seed ?? randomSeed(),
+        replaceExisting: !options.append,
+        courseStartDate: defaultCourseStartDate().toISOString(),
+        scenario: options.scenario
+            ? parseScenario(fs.readFileSync(options.scenario, 'utf8'), options.scenario)
+            : defaultScenario,
+        calendar: options.calendar
+            ? parseCalendar(fs.readFileSync(options.calendar, 'utf8'), options.calendar)
+            : defaultCalendar
+    };
+    const calendar = settings.calendar || defaultCalendar;
+    console.log(`Generating ${settings.learners} learners of scenario ${settings.scenario.name} over ${settings.weeks} weeks ` +
+        `with calendar ${calendar.name} for course ${courseData.id} with seed ${settings.seed}`);
+
+    if (options.post && !job) {
+        await courseDataGenerator.loadVerbs(profile);
+        job = await jobService.createJob(courseData.id, settings);
+        console.log(`Started generation job ${job.id}, resume it with --job ${job.id} if the upload is interrupted`);
+    }
+
+    const learners = job
+        ? generateJobLearners(job)
+        : new LearnerGenerator(settings.scenario).generateLearnerProfiles(settings.learners, settings.seed)
+            .map(learner => ({ ...learner, courseId: courseData.id }));
+    console.table(new LearnerGenerator(settings.scenario).getDistributionInfo(learners));
+
+    const writer = options.out ? await openDatasetWriter(options, courseData, settings, learners) : undefined;
+    const onProgress = progressLogger();
+
+    if (job) {
+        const { generated, uploaded } = await runGenerationJob(courseData, verbs, job, {
+            batchSize: options.batchSize,
+            onProgress,
+            onStatement: writer?.write
+        });
+        console.log(`Generated ${generated} statements for ${learners.length} learners, uploaded ${uploaded}` +
+            (job.uploaded > 0 ? ` after the ${job.uploaded} uploaded before` : ''));
+    } else if (writer) {
+        const statements = new XAPIGenerator(courseData, verbs, learners).streamStatements(settings.weeks, settings.seed, {
+            courseStartDate: new Date(settings.courseStartDate),
+            calendar,
+            onProgress
+        });
+        for await (const statement of statements) {
+            await writer.write(statement);
+        }
+    }
+
+    await writer?.close();
+};
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
@@ -7,6 +7,10 @@ import {
     CardContent,
     CardHeader,
     Paper,
+    Button,
+    Select,
+    MenuItem,
+    SelectChangeEvent,
     useTheme
 } from '@mui/material';
 import DashboardIcon from '@mui/icons-material/Dashboard';
@@ -17,13 +21,23 @@ import DataUsageIcon from '@mui/icons-material/DataUsage';
 import PersonIcon from '@mui/icons-material/Person';
 import TeachingIcon from '@mui/icons-material/School';
 import ContentCreateIcon from '@mui/icons-material/Create';
-import { Verb, LearnerProfile, XAPIStatement, CourseData } from './types/types';
+import LogoutIcon from '@mui/icons-material/Logout';
+import TuneIcon from '@mui/icons-material/Tune';
+import { Verb, LearnerProfile, XAPIStatement, StoredSession, CourseData, CourseSummary, AuthUser, UserRole } from './types/types';
 import { XAPIService } from './services/xapi-service';
 import LearnerService from './services/learner-service';
 import VerbService from './services/verb-service';
+import CourseService from './services/course-service';
+import SessionService from './services/session-service';
+import AuthService from './services/auth-service';
 import CourseDataGenerator from './data/course-data-generator';
 import LearnerGenerator from './data/learner-generator';
 import XAPIStatistics from './components/xapi-statistics';
+import Simulation from './components/simulation';
+import CourseImport from './components/course-import';
+import Login from './components/login';
+import { ExcludeVoided, MergeStatements } from './helper/helper';
+import { isAbortError } from './services/api-client';
 
 interface TabPanelProps {
     children?: React.ReactNode;
@@ -51,13 +65,30 @@ const TabPanel = (props: TabPanelProps) => {
     );
 };
 
+/**
+ * Stored time of the newest statement, the statement stream continues after it
+ * @param statements - Loaded statements
+ * @returns ISO timestamp or undefined without statements
+ */
+const newestStored = (statements: XAPIStatement[]): string | undefined => statements.reduce<string | undefined>(
+    (newest, statement) => statement.stored && (!newest || statement.stored > newest) ? statement.stored : newest,
+    undefined
+);
+
 const App = () => {
     const theme = useTheme();
+    const [user, setUser] = useState<AuthUser | null>(() => new AuthService().getCurrentUser());
     const [currentTab, setCurrentTab] = useState(0);
     const [learnerProfiles, setLearnerProfiles] = useState<LearnerProfile[]>([]);
     const [statements, setStatements] = useState<XAPIStatement[]>([]);
+    const [sessions, setSessions] = useState<StoredSession[]>([]);
     const [verbs, setVerbs] = useState<Verb[]>([]);
     const [courseData, setCourseData] = useState<CourseData | null>(null);
+    const [courses, setCourses] = useState<CourseSummary[]>([]);
+    // Course followed by the statement stream and the newest stored statement loaded before
+    const [liveCourse, setLiveCourse] = useState<{ courseId: string; since?: string } | null>(null);
+    // Course whose statements are loaded in full, only done once a dashboard needs every statement
+    const [statementsCourseId, setStatementsCourseId] = useState<string | null>(null);
 
     const services = {
         learner: new LearnerService(),
@@ -65,44 +96,193 @@ const App = () => {
         verb: new VerbService(),
         xApi: new XAPIService(),
         courseData: new CourseDataGenerator(),
+        course: new CourseService(),
+        session: new SessionService(),
     };
 
     useEffect(() => {
-        loadData();
-    }, []);
+        if (user) loadData();
+    }, [user]);
+
+    /**
+     * Follows the statements stored after the loaded ones and merges them into the dashboards
+     * The stream is restarted whenever a course is loaded and ended on logout
+     */
+    useEffect(() => {
+        if (!user || !liveCourse) return;
+
+        const controller = new AbortController();
+        new XAPIService().followStatements(
+            liveCourse,
+            incoming => setStatements(current => MergeStatements(current, incoming)),
+            controller.signal
+        ).catch(error => console.warn('Statement stream closed:', error));
+
+        return () => controller.abort();
+    }, [user, liveCourse]);
 
-    const loadData = async () => {
+    /**
+     * Loads the selected course together with its learners and sessions
+     * Learners load their own statements only. The statements of the whole course are loaded once a dashboard
+     * needs them, the other views load their metrics from the analytics endpoints.
+     * @param courseId - Course to load, by default the most recently imported course
+     */
+    const loadData = async (courseId?: string) => {
         try {
-            const courseData = await services.courseData.loadCourseData();
+            const courses = await services.course.getCourses().catch(error => {
+                console.warn('Error loading courses:', error);
+                return [] as CourseSummary[];
+            });
+            setCourses(courses);
+
+            const courseData = await services.courseData.loadCourseData(courseId);
             setCourseData(courseData);
 
-            const learners = await services.learner.getLearnerProfiles();
+            const learners = await services.learner.getLearnerProfiles(courseData.id);
             setLearnerProfiles(learners);
 
             const verbs = await services.verb.getVerbs();
             setVerbs(verbs);
 
-            const statements = await services.xApi.getStatements();
-            setStatements(statements);
+            if (user?.role === 'learner') {
+                // The server only returns the own profile to learners
+                const ownStatements = learners.length > 0
+                    ? await services.xApi.getStatements({ courseId: courseData.id, mbox: learners[0].email })
+                    : [];
+                setStatements(ExcludeVoided(ownStatements));
+                setLiveCourse({ courseId: courseData.id, since: newestStored(ownStatements) });
+            } else if (courseData.id !== statementsCourseId) {
+                setStatements([]);
+                setLiveCourse({ courseId: courseData.id });
+            }
+            // The statements of the course are loaded again if the shown dashboard needs them
+            setStatementsCourseId(null);
+
+            const sessions = await services.session.getSessions({ courseId: courseData.id });
+            setSessions(sessions);
 
             await services.learnerGenerator.getDistributionInfo(learners);
 
         } catch (error) {
             console.log(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+
+            // Return to the login form once the session expired
+            if (!new AuthService().getCurrentUser()) setUser(null);
         }
     };
 
+    const handleLogin = (loggedInUser: AuthUser) => {
+        setCurrentTab(0);
+        setUser(loggedInUser);
+    };
+
+    const handleLogout = () => {
+        new AuthService().logout();
+        setUser(null);
+        setLearnerProfiles([]);
+        setStatements([]);
+        setLiveCourse(null);
+        setStatementsCourseId(null);
+        setSessions([]);
+        setCourseData(null);
+        setCourses([]);
+    };
+
     const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
         setCurrentTab(newValue);
     };
 
+    const handleCourseChange = (event: SelectChangeEvent) => {
+        loadData(event.target.value);
+    };
+
+    // The bundled course is not stored on the server, it is listed while it is shown
+    const courseOptions = courseData && !courses.some(course => course.id === courseData.id)
+        ? [{ id: courseData.id, title: courseData.title }, ...courses]
+        : courses;
+
     const dashboardProps = {
         learnerProfiles,
         statements,
+        sessions,
         verbs,
         courseData
     };
 
+    // Dashboards and the roles allowed to open them, admins see all dashboards
+    // courseStatements marks the dashboards computing their widgets from every statement of the course
+    const tabs: { label: string; icon: React.ReactElement; roles: UserRole[]; courseStatements?: boolean; content: React.ReactNode }[] = [
+        {
+            label: 'Data Statistics',
+            icon: <DataUsageIcon />,
+            roles: ['admin'],
+            content: courseData && <XAPIStatistics {...dashboardProps} courseData={courseData} />
+        },
+        {
+            label: 'Simulation',
+            icon: <TuneIcon />,
+            roles: ['admin'],
+            content: courseData && (
+                <Simulation
+                    courseData={courseData}
+                    learnerProfiles={learnerProfiles}
+                    verbs={verbs}
+                    onGenerated={() => loadData(courseData.id)}
+                />
+            )
+        },
+        {
+            label: 'Learner Dashboard',
+            icon: <PersonIcon />,
+            roles: ['learner'],
+            content: <LearnerDashboard {...dashboardProps} currentUser={user} />
+        },
+        {
+            label: 'Educator Dashboard',
+            icon: <TeachingIcon />,
+            roles: ['educator'],
+            courseStatements: true,
+            content: (
+                <EducatorDashboard
+                    {...dashboardProps}
+                    onStatementsChanged={() => courseData && loadData(courseData.id)}
+                />
+            )
+        },
+        {
+            label: 'Content Creator Dashboard',
+            icon: <ContentCreateIcon />,
+            roles: ['content-creator'],
+            courseStatements: true,
+            content: <ContentCreatorDashboard {...dashboardProps} />
+        }
+    ];
+    const visibleTabs = tabs.filter(tab => user && (user.role === 'admin' || tab.roles.includes(user.role)));
+    const canImport = user?.role === 'admin' || user?.role === 'content-creator';
+    const needsCourseStatements = visibleTabs[currentTab]?.courseStatements === true;
+
+    /**
+     * Loads the statements of the whole course once a dashboard needs them, they are kept for the other
+     * dashboards and followed by the statement stream afterwards
+     */
+    useEffect(() => {
+        if (!courseData || !needsCourseStatements || statementsCourseId === courseData.id) return;
+
+        const controller = new AbortController();
+        new XAPIService().getStatements({ courseId: courseData.id }, controller.signal)
+            .then(courseStatements => {
+                if (controller.signal.aborted) return;
+                setStatements(ExcludeVoided(courseStatements));
+                setStatementsCourseId(courseData.id);
+                setLiveCourse({ courseId: courseData.id, since: newestStored(courseStatements) });
+            })
+            .catch(error => {
+                if (!isAbortError(error)) console.error('Error loading course statements:', error);
+            });
+
+        return () => controller.abort();
+    }, [courseData, needsCourseStatements, statementsCourseId]);
+
     return (
         <Box
             sx={{
@@ -150,80 +330,108 @@ const App = () => {
                             </Typography>
                         </Box>
                     }
+                    action={
+                        <Box sx={{ display: 'flex', alignItems: 'center', height: '100%', pt: 0.5 }}>
+                            {user && courseData && (
+                                <Select
+                                    size="small"
+                                    value={courseData.id}
+                                    onChange={handleCourseChange}
+                                    inputProps={{ 'aria-label': 'Select Course' }}
+                                    sx={{
+                                        mr: 2,
+                                        minWidth: 240,
+                                        color: 'white',
+                                        '& .MuiOutlinedInput-notchedOutline': {
+                                            borderColor: 'rgba(255,255,255,0.7)'
+                                        },
+                                        '&:hover .MuiOutlinedInput-notchedOutline': {
+                                            borderColor: 'white'
+                                        },
+                                        '& .MuiSvgIcon-root': {
+                                            color: 'white'
+                                        }
+                                    }}
+                                >
+                                    {courseOptions.map(course => (
+                                        <MenuItem key={course.id} value={course.id}>
+                                            {course.title || course.id}
+                                        </MenuItem>
+                                    ))}
+                                </Select>
+                            )}
+                            {canImport && <CourseImport onImported={course => loadData(course.id)} />}
+                            {user && (
+                                <Button
+                                    variant="text"
+                                    startIcon={<LogoutIcon />}
+                                    onClick={handleLogout}
+                                    sx={{ ml: 2, color: 'white', textTransform: 'none' }}
+                                >
+                                    {user.username}
+                                </Button>
+                            )}
+                        </Box>
+                    }
                     sx={{
                         background: 'linear-gradient(135deg, #2196F3, #3F51B5)',
                         padding: theme.spacing(2),
                         boxShadow: '0 4px 10px rgba(0,0,0,0.15)'
                     }}
                 />
-                <CardContent
-                    sx={{
-                        p: 0,
-                        flex: 1,
-                        display: 'flex',
-                        flexDirection: 'column',
-                        overflow: 'hidden',
-                        '&:last-child': { pb: 0 }
-                    }}
-                >
-                    <Box sx={{ borderBottom: 1, borderColor: 'divider' }}>
-                        <Tabs
-                            value={currentTab}
-                            onChange={handleTabChange}
-                            variant="fullWidth"
-                            sx={{
-                                minHeight: '48px',
-                                '& .MuiTab-root': {
-                                    py: 1,
-                                    fontSize: '1rem',
+                {user ? (
+                    <CardContent
+                        sx={{
+                            p: 0,
+                            flex: 1,
+                            display: 'flex',
+                            flexDirection: 'column',
+                            overflow: 'hidden',
+                            '&:last-child': { pb: 0 }
+                        }}
+                    >
+                        <Box sx={{ borderBottom: 1, borderColor: 'divider' }}>
+                            <Tabs
+                                value={currentTab}
+                                onChange={handleTabChange}
+                                variant="fullWidth"
+                                sx={{
                                     minHeight: '48px',
-                                    maxHeight: '48px'
-                                }
-                            }}
-                        >
-                            <Tab
-                                icon={<DataUsageIcon />}
-                                iconPosition="start"
-                                label="Data Statistics"
-                            />
-                            <Tab
-                                icon={<PersonIcon />}
-                                iconPosition="start"
-                                label="Learner Dashboard"
-                            />
-                            <Tab
-                                icon={<TeachingIcon />}
-                                iconPosition="start"
-                                label="Educator Dashboard"
-                            />
-                            <Tab
-                                icon={<ContentCreateIcon />}
-                                iconPosition="start"
-                                label="Content Creator Dashboard"
-                            />
-                        </Tabs>
-                    </Box>
-                    <Box sx={{
-                        px: 2,
-                        flex: 1,
-                        display: 'flex',
-                        flexDirection: 'column',
-                        overflow: 'hidden'
-                    }}>
-                        <TabPanel value={currentTab} index={0}>
-                            {courseData && <XAPIStatistics {...dashboardProps} courseData={courseData} />}
-                        </TabPanel>
-                        <TabPanel value={currentTab} index={1}>
-                            <LearnerDashboard {...dashboardProps} />
-                        </TabPanel>
-                        <TabPanel value={currentTab} index={2}>
-                            <EducatorDashboard {...dashboardProps} />
-                        </TabPanel>
-                        <TabPanel value={currentTab} index={3}>
-                            <ContentCreatorDashboard {...dashboardProps} />
-                        </TabPanel>
-                    </Box>
-                </CardContent>
+                                    '& .MuiTab-root': {
+                                        py: 1,
+                                        fontSize: '1rem',
+                                        minHeight: '48px',
+                                        maxHeight: '48px'
+                                    }
+                                }}
+                            >
+                                {visibleTabs.map(tab => (
+                                    <Tab
+                                        key={tab.label}
+                                        icon={tab.icon}
+                                        iconPosition="start"
+                                        label={tab.label}
+                                    />
+                                ))}
+                            </Tabs>
+                        </Box>
+                        <Box sx={{
+                            px: 2,
+                            flex: 1,
+                            display: 'flex',
+                            flexDirection: 'column',
+                            overflow: 'hidden'
+                        }}>
+                            {visibleTabs.map((tab, index) => (
+                                <TabPanel key={tab.label} value={currentTab} index={index}>
+                                    {tab.content}
+                                </TabPanel>
+                            ))}
+                        </Box>
+                    </CardContent>
+                ) : (
+                    <Login onLogin={handleLogin} />
+                )}
             </Paper >
         </Box >
     );
@@ -16,6 +16,7 @@ import CourseOverview from './content-creator/course-overview';
 import ActivityRatings from './content-creator/activity-ratings';
 import ActivityTime from './content-creator/activity-time';
 import ActivitiesCompletedBefore from './content-creator/activities-completed-before';
+import ItemAnalysis from './content-creator/item-analysis';
 import RatingsRec from '../services/ratings-rec';
 
 interface ContentCreatorsDashboardProps {
@@ -38,41 +39,44 @@ const ContentCreatorsDashboard: React.FC<ContentCreatorsDashboardProps> = ({
     statements,
     courseData
 }) => {
-    const [SelectedCourseName, setSelectedCourseName] = useState<string>('');
+    const [selectedActivityName, setSelectedActivityName] = useState<string>('');
 
     /**
-     * Extracts unique course names from xAPI statements.
+     * Extracts unique activity names from xAPI statements.
      * 
-     * @returns {string[]} Array of unique course names
+     * @returns {string[]} Array of unique activity names
      */
-    const availableCourses = useMemo(() => {
-        const uniqueCourses = Array.from(new Set(statements.map(statement => statement.object.definition.name.en)));
-        return uniqueCourses;
+    const availableActivities = useMemo(() => {
+        // Questions, objectives, searches and badges name their activity or course as parent
+        const uniqueActivities = Array.from(new Set(statements
+            .filter(statement => !statement.context.contextActivities?.parent)
+            .map(statement => statement.object.definition.name.en)));
+        return uniqueActivities;
     }, [statements]);
 
     React.useEffect(() => {
-        if (availableCourses.length > 0 && !SelectedCourseName) {
-            setSelectedCourseName(availableCourses[0]); 
+        if (availableActivities.length > 0 && !availableActivities.includes(selectedActivityName)) {
+            setSelectedActivityName(availableActivities[0]); 
         }
-    }, [availableCourses, SelectedCourseName]);
+    }, [availableActivities, selectedActivityName]);
 
     /**
-     * Filters statements to only include those related to the selected course.
+     * Filters statements to only include those related to the selected activity.
      * 
-     * @returns {Object} Object containing filtered statements for the selected course
+     * @returns {Object} Object containing filtered statements for the selected activity
      */
     const filteredData = useMemo(() => {
-        if (!SelectedCourseName) return { statements: [] };
+        if (!selectedActivityName) return { statements: [] };
 
         return {
             statements: statements.filter(statement =>
-                statement.object.definition.name.en === SelectedCourseName
+                statement.object.definition.name.en === selectedActivityName
             )
         };
-    }, [SelectedCourseName, statements]);
+    }, [selectedActivityName, statements]);
 
-    const handleCourseChange = (event: SelectChangeEvent) => {
-        setSelectedCourseName(event.target.value);
+    const handleActivityChange = (event: SelectChangeEvent) => {
+        setSelectedActivityName(event.target.value);
     };
 
     return (
@@ -86,13 +90,13 @@ const ContentCreatorsDashboard: React.FC<ContentCreatorsDashboardProps> = ({
         }}>
             <Box sx={{ width: '100%' }}>
                 <FormControl fullWidth size="small">
-                    <InputLabel id="learner-select-label" sx={{ color: '#1565C0' }}>Select Activity</InputLabel>
+                    <InputLabel id="activity-select-label" sx={{ color: '#1565C0' }}>Select Activity</InputLabel>
                     <Select
-                        labelId="learner-select-label"
-                        id="learner-select"
-                        value={SelectedCourseName}
-                        label="Select Learner"
-                        onChange={handleCourseChange}
+                        labelId="activity-select-label"
+                        id="activity-select"
+                        value={selectedActivityName}
+                        label="Select Activity"
+                        onChange={handleActivityChange}
                         sx={{
                             bgcolor: '#E3F2FD',
                             '& .MuiOutlinedInput-notchedOutline': {
@@ -116,9 +120,9 @@ const ContentCreatorsDashboard: React.FC<ContentCreatorsDashboardProps> = ({
                             }
                         }}
                     >
-                        {availableCourses.map((course) => (
-                            <MenuItem key={course} value={course}>
-                                {course}
+                        {availableActivities.map((activity) => (
+                            <MenuItem key={activity} value={activity}>
+                                {activity}
                             </MenuItem>
                         ))}
                     </Select>
@@ -176,7 +180,7 @@ const ContentCreatorsDashboard: React.FC<ContentCreatorsDashboardProps> = ({
                                 </Grid>
 
                                 {/* Course Ratings Chart */}
-                                <Grid size={{ xs: 12, md: 5.4 }} sx={{ height: '100%', p: 0.5 }}>
+                                <Grid size={{ xs: 12, md: 3.4 }} sx={{ height: '100%', p: 0.5 }}>
                                     {filteredData.statements.length > 0 && courseData && (
                                         <ActivityRatings
                                             statements={filteredData.statements}
@@ -185,7 +189,7 @@ const ContentCreatorsDashboard: React.FC<ContentCreatorsDashboardProps> = ({
                                 </Grid>
 
                                 {/* Course Time Chart */}
-                                <Grid size={{ xs: 12, md: 5.4 }} sx={{ height: '100%', p: 0.5 }}>
+                                <Grid size={{ xs: 12, md: 3.4 }} sx={{ height: '100%', p: 0.5 }}>
                                     {filteredData.statements.length > 0 && courseData && (
                                         <ActivityTime
                                             statements={filteredData.statements}
@@ -194,6 +198,16 @@ const ContentCreatorsDashboard: React.FC<ContentCreatorsDashboardProps> = ({
                                     )}
                                 </Grid>
 
+                                {/* Item Analysis of the activity's questions */}
+                                <Grid size={{ xs: 12, md: 4 }} sx={{ height: '100%', p: 0.5 }}>
+                                    {filteredData.statements.length > 0 && (
+                                        <ItemAnalysis
+                                            statements={statements}
+                                            activityIri={filteredData.statements[0].object.id}
+                                        />
+                                    )}
+                                </Grid>
+
                             </Grid>
                         </CardContent>
                     </Card>
@@ -368,7 +382,7 @@ const ContentCreatorsDashboard: React.FC<ContentCreatorsDashboardProps> = ({
                                         <ActivitiesCompletedBefore
                                             statements={statements}
                                             courseData={courseData}
-                                            SelectedCourseName={SelectedCourseName}
+                                            selectedActivityName={selectedActivityName}
                                         />
                                     </Grid>
                                 )}
@@ -7,19 +7,19 @@ import { XAPIStatement } from '../../types/types';
  * @interface ActivitiesCompletedBeforeProps
  * @property {XAPIStatement[]} statements - Array of xAPI statements containing completion data
  * @property {any} courseData - Data structure containing course sections and activities
- * @property {string} SelectedCourseName - Name of the currently selected course
+ * @property {string} selectedActivityName - Name of the currently selected activity
  */
 interface ActivitiesCompletedBeforeProps {
     statements: XAPIStatement[];
     courseData: any; 
-    SelectedCourseName: string;
+    selectedActivityName: string;
 }
 
 /**
- * Component that shows which activities were completed before the selected course
+ * Component that shows which activities were completed before the selected activity
  * 
- * This component analyzes xAPI statements to determine which courses students completed
- * prior to the currently selected course, displaying them as a sorted list with
+ * This component analyzes xAPI statements to determine which activities students completed
+ * prior to the currently selected activity, displaying them as a sorted list with
  * progress bars indicating the percentage of students who completed each activity.
  * 
  * @component
@@ -29,28 +29,28 @@ interface ActivitiesCompletedBeforeProps {
 const ActivitiesCompletedBefore: React.FC<ActivitiesCompletedBeforeProps> = ({
     statements,
     courseData,
-    SelectedCourseName,
+    selectedActivityName,
 }) => {
 
     /**
-     * Finds the activity ID for the selected course name
+     * Finds the activity ID for the selected activity name
      * 
-     * @returns {string|undefined} The ID of the selected course activity
+     * @returns {string|undefined} The ID of the selected activity
      */
     const activityId = useMemo(() => {
         const activity = courseData.sections.find((s: any) =>
-            s.activities.find((a: any) => a.title === SelectedCourseName)
-        )?.activities.find((a: any) => a.title === SelectedCourseName);
+            s.activities.find((a: any) => a.title === selectedActivityName)
+        )?.activities.find((a: any) => a.title === selectedActivityName);
         return activity?.id; 
-    }, [courseData, SelectedCourseName]);
+    }, [courseData, selectedActivityName]);
 
     /**
-     * Retrieves the course title from its ID
+     * Retrieves the activity title from its ID
      * 
      * @param {string} id - The activity ID to look up
      * @returns {string} The title of the activity or the ID if not found
      */
-    const getCourseTitleById = (id: string) => {
+    const getActivityTitleById = (id: string) => {
         const activity = courseData.sections
             .flatMap((section: any) => section.activities)
             .find((activity: any) => activity.id === id);
@@ -58,22 +58,22 @@ const ActivitiesCompletedBefore: React.FC<ActivitiesCompletedBeforeProps> = ({
     };
 
     /**
-     * Processes xAPI statements to determine activities completed before the selected course
+     * Processes xAPI statements to determine activities completed before the selected activity
      * 
      * This complex data processing:
-     * 1. Identifies students who completed the current course
-     * 2. For each student, finds which other courses they completed before the current one
+     * 1. Identifies students who completed the selected activity
+     * 2. For each student, finds which other activities they completed before the selected one
      * 3. Calculates completion counts and percentages for each activity
      * 
      * @returns {Object} Object containing completion data and total student count
      */
-    const { coursesCompletedBefore, totalStudents } = useMemo(() => {
-        if (!activityId) return { coursesCompletedBefore: {}, totalStudents: 0 };
+    const { activitiesCompletedBefore, totalStudents } = useMemo(() => {
+        if (!activityId) return { activitiesCompletedBefore: {}, totalStudents: 0 };
 
-        const courseCompletionCounts: { [key: string]: Set<string> } = {}; 
+        const activityCompletionCounts: { [key: string]: Set<string> } = {}; 
         const allStudents = new Set<string>();
 
-        const studentsCompletedCurrentCourse = new Set<string>(); 
+        const studentsCompletedCurrentActivity = new Set<string>(); 
 
         statements.forEach((statement) => {
             if (statement.verb.id !== 'http://adlnet.gov/expapi/verbs/completed') return; 
@@ -88,10 +88,10 @@ const ActivitiesCompletedBefore: React.FC<ActivitiesCompletedBeforeProps> = ({
             allStudents.add(studentEmail);
 
             if (completedActivityId === activityId) {
-                studentsCompletedCurrentCourse.add(studentEmail);
+                studentsCompletedCurrentActivity.add(studentEmail);
             } else {
-                if (studentsCompletedCurrentCourse.has(studentEmail)) {
-                    const currentCourseTimestamp = statements
+                if (studentsCompletedCurrentActivity.has(studentEmail)) {
+                    const currentActivityTimestamp = statements
                         .filter(
                             (s) =>
                                 s.verb.id === 'http://adlnet.gov/expapi/verbs/completed' &&
@@ -101,17 +101,17 @@ const ActivitiesCompletedBefore: React.FC<ActivitiesCompletedBeforeProps> = ({
                         )
                         .map((s) => s.timestamp)[0];
 
-                    if (new Date(statement.timestamp) < new Date(currentCourseTimestamp)) {
-                        if (!courseCompletionCounts[completedActivityId]) {
-                            courseCompletionCounts[completedActivityId] = new Set();
+                    if (new Date(statement.timestamp) < new Date(currentActivityTimestamp)) {
+                        if (!activityCompletionCounts[completedActivityId]) {
+                            activityCompletionCounts[completedActivityId] = new Set();
                         }
-                        courseCompletionCounts[completedActivityId].add(studentEmail);
+                        activityCompletionCounts[completedActivityId].add(studentEmail);
                     }
                 } else {
-                    if (!courseCompletionCounts[completedActivityId]) {
-                        courseCompletionCounts[completedActivityId] = new Set();
+                    if (!activityCompletionCounts[completedActivityId]) {
+                        activityCompletionCounts[completedActivityId] = new Set();
                     }
-                    courseCompletionCounts[completedActivityId].add(studentEmail);
+                    activityCompletionCounts[completedActivityId].add(studentEmail);
                 }
             }
         });
@@ -121,7 +121,7 @@ const ActivitiesCompletedBefore: React.FC<ActivitiesCompletedBeforeProps> = ({
 
         // Convert Set to count the unique students and calculate percentages
         const result = Object.fromEntries(
-            Object.entries(courseCompletionCounts).map(([key, value]) => [
+            Object.entries(activityCompletionCounts).map(([key, value]) => [
                 key,
                 {
                     count: value.size,
@@ -130,25 +130,25 @@ const ActivitiesCompletedBefore: React.FC<ActivitiesCompletedBeforeProps> = ({
             ])
         );
 
-        return { coursesCompletedBefore: result, totalStudents };
+        return { activitiesCompletedBefore: result, totalStudents };
     }, [statements, activityId, courseData]);
 
     /**
-     * Sorts courses by completion percentage and adds titles
+     * Sorts activities by completion percentage and adds titles
      * 
      * @returns {Array<{activityId: string, count: number, percentage: number, title: string}>}
-     *          Sorted array of course completion data
+     *          Sorted array of activity completion data
      */
-    const sortedCourses = useMemo(() => {
-        return Object.entries(coursesCompletedBefore)
+    const sortedActivities = useMemo(() => {
+        return Object.entries(activitiesCompletedBefore)
             .sort(([, a], [, b]) => b.percentage - a.percentage)
             .map(([activityId, { count, percentage }]) => ({
                 activityId,
                 count,
                 percentage,
-                title: getCourseTitleById(activityId),
+                title: getActivityTitleById(activityId),
             }));
-    }, [coursesCompletedBefore]);
+    }, [activitiesCompletedBefore]);
 
     return (
         <Box sx={{
@@ -177,12 +177,12 @@ const ActivitiesCompletedBefore: React.FC<ActivitiesCompletedBeforeProps> = ({
         }}
         >
             {
-                sortedCourses.length === 0 ? (
+                sortedActivities.length === 0 ? (
                     <Typography variant="body1" >
-                        No courses completed before the current course.
+                        No activities completed before the selected activity.
                     </Typography>
                 ) : (
-                    sortedCourses.map(({ activityId, count, percentage, title }) => (
+                    sortedActivities.map(({ activityId, count, percentage, title }) => (
                         <Box key={activityId} sx={{
                             marginBottom: 1,
                             p: 1,
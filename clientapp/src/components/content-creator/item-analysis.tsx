@@ -0,0 +1,140 @@
+import React, { useMemo } from 'react';
+import { Box, Typography, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper, Tooltip, useTheme } from '@mui/material';
+import { XAPIStatement } from '../../types/types';
+import { analyzeItems } from '../../helper/item-statistics';
+
+/**
+ * Props interface for the ItemAnalysis component
+ * @interface ItemAnalysisProps
+ * @property {XAPIStatement[]} statements - Array of xAPI statements containing answered questions
+ * @property {string} activityIri - Object id of the selected activity, the parent of its questions
+ */
+interface ItemAnalysisProps {
+    statements: XAPIStatement[];
+    activityIri: string;
+}
+
+/**
+ * Component that displays the classical item analysis of the questions of an activity
+ *
+ * Lists the p-value, point-biserial correlation and choice distribution of each question
+ * and flags questions that are too hard or too easy, discriminate poorly or have
+ * distractors that are hardly chosen or chosen more often by strong than by weak learners.
+ *
+ * @component
+ * @param {ItemAnalysisProps} props - Component props
+ * @returns {React.ReactElement} The rendered component
+ */
+const ItemAnalysis: React.FC<ItemAnalysisProps> = ({ statements, activityIri }) => {
+    const theme = useTheme();
+
+    const items = useMemo(() => analyzeItems(statements, activityIri), [statements, activityIri]);
+
+    const formatShare = (share: number) => `${Math.round(share * 100)}%`;
+
+    return (
+        <Box sx={{
+            width: '100%',
+            height: '100%',
+            display: 'flex',
+            flexDirection: 'column'
+        }}>
+            <Typography
+                sx={{
+                    fontSize: '1.2rem',
+                    textAlign: 'center',
+                    fontWeight: 600,
+                    color: theme.palette.primary.main,
+                    textShadow: '1px 1px 2px rgba(0,0,0,0.1)',
+                    flexShrink: 0,
+                    mb: 1
+                }}
+            >
+                Item Analysis
+            </Typography>
+
+            {items.length === 0 ? (
+                <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center' }}>
+                    No answered questions for this activity
+                </Typography>
+            ) : (
+                <TableContainer
+                    component={Paper}
+                    sx={{
+                        flex: 1,
+                        minHeight: 0,
+                        overflow: 'auto',
+                        mb: 2,
+                        backgroundColor: 'transparent'
+                    }}
+                >
+                    <Table stickyHeader size="small" sx={{
+                        '& .MuiTableCell-root': {
+                            padding: '4px',
+                            fontSize: '0.75rem'
+                        },
+                        '& .MuiTableCell-head': {
+                            backgroundColor: theme.palette.primary.main,
+                            color: 'white',
+                            fontWeight: 'bold'
+                        }
+                    }}>
+                        <TableHead>
+                            <TableRow>
+                                <TableCell>Question</TableCell>
+                                <TableCell align="right">n</TableCell>
+                                <Tooltip title="Share of correct answers">
+                                    <TableCell align="right">p</TableCell>
+                                </Tooltip>
+                                <Tooltip title="Point-biserial correlation with the rest of the attempt">
+                                    <TableCell align="right">r<sub>pb</sub></TableCell>
+                                </Tooltip>
+                                <Tooltip title="Share of each choice, the key is bold. Hover for the upper and lower group">
+                                    <TableCell>Choices</TableCell>
+                                </Tooltip>
+                            </TableRow>
+                        </TableHead>
+                        <TableBody>
+                            {items.map(item => (
+                                <Tooltip key={item.id} title={item.flags.join(', ')} placement="left" disableHoverListener={item.flags.length === 0}>
+                                    <TableRow sx={{
+                                        backgroundColor: item.flags.length > 0 ? 'rgba(211, 47, 47, 0.08)' : undefined
+                                    }}>
+                                        <TableCell sx={{
+                                            overflow: 'hidden',
+                                            textOverflow: 'ellipsis',
+                                            whiteSpace: 'nowrap',
+                                            color: item.flags.length > 0 ? 'error.main' : undefined
+                                        }}>
+                                            {item.flags.length > 0 && '⚠ '}{item.name}
+                                        </TableCell>
+                                        <TableCell align="right">{item.responses}</TableCell>
+                                        <TableCell align="right">{item.pValue.toFixed(2)}</TableCell>
+                                        <TableCell align="right">{item.pointBiserial !== null ? item.pointBiserial.toFixed(2) : 'N/A'}</TableCell>
+                                        <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                                            {item.choices.map(choice => (
+                                                <Tooltip
+                                                    key={choice.id}
+                                                    title={`Upper group ${formatShare(choice.upperShare)}, lower group ${formatShare(choice.lowerShare)}`}
+                                                >
+                                                    <Box component="span" sx={{
+                                                        mr: 0.75,
+                                                        fontWeight: choice.isKey ? 'bold' : 'normal'
+                                                    }}>
+                                                        {choice.id.toUpperCase()} {formatShare(choice.share)}
+                                                    </Box>
+                                                </Tooltip>
+                                            ))}
+                                        </TableCell>
+                                    </TableRow>
+                                </Tooltip>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </TableContainer>
+            )}
+        </Box>
+    );
+};
+
+export default ItemAnalysis;
@@ -0,0 +1,128 @@
+import React, { useRef, useState } from 'react';
+import {
+    Alert,
+    Button,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    Stack
+} from '@mui/material';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import FolderOpenIcon from '@mui/icons-material/FolderOpen';
+import CoursePackageImporter from '../data/course-package-importer';
+import { CourseData } from '../types/types';
+
+interface CourseImportProps {
+    onImported: (course: CourseData) => void;
+}
+
+/**
+ * Button and dialog for importing an offline course package
+ *
+ * Accepts an .imscc archive or a directory containing imsmanifest.xml,
+ * the LOM metadata files and optionally an xAPI profile.
+ *
+ * @component
+ * @param {CourseImportProps} props - Component props
+ * @param {Function} props.onImported - Called with the course after it was stored
+ * @returns {React.ReactElement} The rendered component
+ */
+const CourseImport: React.FC<CourseImportProps> = ({ onImported }) => {
+    const [open, setOpen] = useState(false);
+    const [importing, setImporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const archiveInputRef = useRef<HTMLInputElement | null>(null);
+    const directoryInputRef = useRef<HTMLInputElement | null>(null);
+
+    /**
+     * Imports the selected files and closes the dialog on success
+     */
+    const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files || []);
+        event.target.value = '';
+        if (files.length === 0) return;
+
+        setImporting(true);
+        setError(null);
+        try {
+            const course = await new CoursePackageImporter().importPackage(files);
+            setOpen(false);
+            onImported(course);
+        } catch (importError) {
+            setError(importError instanceof Error ? importError.message : 'Unknown error');
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    return (
+        <>
+            <Button
+                variant="outlined"
+                startIcon={<UploadFileIcon />}
+                onClick={() => setOpen(true)}
+                sx={{ color: 'white', borderColor: 'rgba(255,255,255,0.7)' }}
+            >
+                Import Course
+            </Button>
+
+            <Dialog open={open} onClose={() => !importing && setOpen(false)} maxWidth="sm" fullWidth>
+                <DialogTitle>Import Course Package</DialogTitle>
+                <DialogContent>
+                    <DialogContentText sx={{ mb: 2 }}>
+                        Select an IMS Common Cartridge archive (.imscc) or a directory containing
+                        imsmanifest.xml, the LOM metadata files and optionally an xAPI profile (.json).
+                    </DialogContentText>
+
+                    <Stack direction="row" spacing={2}>
+                        <Button
+                            variant="contained"
+                            startIcon={<UploadFileIcon />}
+                            disabled={importing}
+                            onClick={() => archiveInputRef.current?.click()}
+                        >
+                            Select Archive
+                        </Button>
+                        <Button
+                            variant="contained"
+                            startIcon={<FolderOpenIcon />}
+                            disabled={importing}
+                            onClick={() => directoryInputRef.current?.click()}
+                        >
+                            Select Directory
+                        </Button>
+                        {importing && <CircularProgress size={32} />}
+                    </Stack>
+
+                    <input
+                        ref={archiveInputRef}
+                        type="file"
+                        accept=".imscc,.zip"
+                        hidden
+                        onChange={handleFiles}
+                    />
+                    <input
+                        ref={(input) => {
+                            directoryInputRef.current = input;
+                            input?.setAttribute('webkitdirectory', '');
+                        }}
+                        type="file"
+                        multiple
+                        hidden
+                        onChange={handleFiles}
+                    />
+
+                    {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={() => setOpen(false)} disabled={importing}>Close</Button>
+                </DialogActions>
+            </Dialog>
+        </>
+    );
+};
+
+export default CourseImport;
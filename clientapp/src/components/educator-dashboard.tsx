@@ -1,20 +1,56 @@
-﻿import { Box, Card, CardContent, Typography } from '@mui/material';
+﻿import { Box, Button, Card, CardContent, TextField, Typography } from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
 import Grid from '@mui/material/Grid2';
 import React, { useMemo, useState } from 'react';
 import CumulativeRec from '../services/cumulative-rec';
 import StudentGradeRec from '../services/grades-rec';
-import { CourseData, LearnerProfile, Verb, XAPIStatement } from '../types/types';
+import { XAPIService } from '../services/xapi-service';
+import SessionService from '../services/session-service';
+import { isAbortError } from '../services/api-client';
+import { ExcludeVoided, MergeStatementChanges } from '../helper/helper';
+import { useStatementChanges, useThrottledValue } from '../helper/statement-stream';
+import { CourseData, LearnerProfile, MetricsRange, StoredSession, Verb, XAPIStatement } from '../types/types';
 import AttemptsEducator from './educator/attempts-educator';
 import AverageScoreEducator from './educator/average-score-educator';
 import CourseBoxplot from './educator/course-boxplot';
 import LineTimeChartCumulative from './educator/learning-time-cumulaitve';
 import StudentPerformanceTable from './educator/performance-table';
+import StatementCorrections from './educator/statement-corrections';
+
+/**
+ * Local midnight of a date input value, new Date('YYYY-MM-DD') would be midnight in UTC
+ * @param date - Date of the date input as YYYY-MM-DD
+ * @param days - Days added to the date
+ * @returns Start of the day in local time
+ */
+const localDay = (date: string, days = 0): Date => {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day + days);
+};
+
+/**
+ * Start of a date range, the range starts at local midnight of the start date
+ * @param dateFrom - Date of the date input or empty string
+ * @returns Inclusive start of the range or undefined without start date
+ */
+const rangeStart = (dateFrom: string): Date | undefined =>
+    dateFrom ? localDay(dateFrom) : undefined;
+
+/**
+ * End of a date range, the end date is inclusive, so the range ends at local midnight of the following day
+ * @param dateTo - Date of the date input or empty string
+ * @returns Exclusive end of the range or undefined without end date
+ */
+const rangeEnd = (dateTo: string): Date | undefined =>
+    dateTo ? localDay(dateTo, 1) : undefined;
 
 interface LearnerDashboardProps {
     learnerProfiles: LearnerProfile[];
     statements: XAPIStatement[];
+    sessions: StoredSession[];
     verbs: Verb[];
     courseData: CourseData | null;
+    onStatementsChanged?: () => void;
 }
 
 /**
@@ -24,34 +60,109 @@ interface LearnerDashboardProps {
  * @param {Object} props - Component props
  * @param {LearnerProfile[]} props.learnerProfiles - Array of learner profiles
  * @param {XAPIStatement[]} props.statements - Array of xAPI statements for analysis
+ * @param {StoredSession[]} props.sessions - Learning sessions of the course
  * @param {Verb[]} props.verbs - Array of available xAPI verbs
  * @param {CourseData | null} props.courseData - Structured course data containing sections and activities
+ * @param {Function} props.onStatementsChanged - Reloads the statements after a result was voided or corrected
  * 
  * @returns {React.ReactElement} A dashboard interface with multiple analytics visualizations
  */
 const EducatorsDashboard: React.FC<LearnerDashboardProps> = ({
     learnerProfiles,
     statements,
+    sessions,
     verbs,
-    courseData
+    courseData,
+    onStatementsChanged
 }) => {
-    const [selectedLearnerId, setSelectedLearnerId] = useState<string>('');
+    const [dateFrom, setDateFrom] = useState<string>('');
+    const [dateTo, setDateTo] = useState<string>('');
+    const [filteredData, setFilteredData] = useState<{ statements: XAPIStatement[]; sessions: StoredSession[] }>({ statements, sessions });
+    // Time window of the widgets aggregated by the server
+    const metricsRange = useMemo<MetricsRange>(() => ({ from: rangeStart(dateFrom), to: rangeEnd(dateTo) }), [dateFrom, dateTo]);
+    const hasRange = Boolean(dateFrom || dateTo);
+    const refreshedStatements = useThrottledValue(statements);
 
+    /**
+     * Without a range all statements and sessions of the app are shown.
+     */
     React.useEffect(() => {
-        if (learnerProfiles.length > 0 && !selectedLearnerId) {
-            setSelectedLearnerId(learnerProfiles[0].id);
-        }
-    }, [learnerProfiles, selectedLearnerId]);
+        if (!hasRange) setFilteredData({ statements, sessions });
+    }, [hasRange, statements, sessions]);
+
+    /**
+     * Loads the statements of the selected course and date range from the server once per range.
+     * Streamed statements are merged into them below instead of loading them again.
+     */
+    React.useEffect(() => {
+        if (!hasRange) return;
+
+        const controller = new AbortController();
+        new XAPIService().getStatements({ courseId: courseData?.id, ...metricsRange }, controller.signal)
+            .then(rangeStatements => {
+                if (!controller.signal.aborted) setFilteredData(data => ({ ...data, statements: ExcludeVoided(rangeStatements) }));
+            })
+            .catch(error => {
+                if (!isAbortError(error)) console.error('Error loading statements for date range:', error);
+            });
+
+        return () => controller.abort();
+    }, [hasRange, metricsRange, courseData]);
+
+    /**
+     * Loads the sessions of the selected course and date range, they are reconstructed by the server,
+     * so streamed statements reload them at most once per refresh interval
+     */
+    React.useEffect(() => {
+        if (!hasRange) return;
 
-    const filteredData = useMemo(() => {
-        if (!selectedLearnerId) return { statements: [] };
+        const controller = new AbortController();
+        new SessionService().getSessions({ courseId: courseData?.id, ...metricsRange }, controller.signal)
+            .then(rangeSessions => {
+                if (!controller.signal.aborted) setFilteredData(data => ({ ...data, sessions: rangeSessions }));
+            })
+            .catch(error => {
+                if (!isAbortError(error)) console.error('Error loading sessions for date range:', error);
+            });
 
-        return {
-            statements: statements.filter(statement =>
-                statement.actor.mbox === learnerProfiles.find(l => l.id === selectedLearnerId)?.email
-            )
+        return () => controller.abort();
+    }, [hasRange, metricsRange, courseData, refreshedStatements]);
+
+    // Streamed statements within the range are added, voided statements removed
+    useStatementChanges(statements, changes => {
+        if (!hasRange) return;
+
+        const { from, to } = metricsRange;
+        const inRange = (statement: XAPIStatement) => {
+            const timestamp = new Date(statement.timestamp);
+            return (!from || timestamp >= from) && (!to || timestamp < to);
         };
-    }, [selectedLearnerId, statements, learnerProfiles]);
+        setFilteredData(data => {
+            const merged = MergeStatementChanges(data.statements, changes, inRange);
+            return merged === data.statements ? data : { ...data, statements: merged };
+        });
+    });
+
+    /**
+     * Downloads the statements of the selected course and date range as NDJSON file.
+     */
+    const handleExport = async () => {
+        try {
+            const blob = await new XAPIService().exportStatements({
+                courseId: courseData?.id,
+                ...metricsRange
+            });
+
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `statements-${courseData?.id ?? 'all'}.ndjson`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error('Error exporting statements:', error);
+        }
+    };
 
     return (
         <Box sx={{
@@ -62,6 +173,45 @@ const EducatorsDashboard: React.FC<LearnerDashboardProps> = ({
             p: { xs: 1 },
             overflow: 'hidden'
         }}>
+            <Box sx={{ display: 'flex', gap: 2, width: '100%' }}>
+                <TextField
+                    label="From"
+                    type="date"
+                    size="small"
+                    fullWidth
+                    value={dateFrom}
+                    onChange={(event) => setDateFrom(event.target.value)}
+                    slotProps={{ inputLabel: { shrink: true } }}
+                    sx={{ bgcolor: '#E8F5E9' }}
+                />
+                <TextField
+                    label="To"
+                    type="date"
+                    size="small"
+                    fullWidth
+                    value={dateTo}
+                    onChange={(event) => setDateTo(event.target.value)}
+                    slotProps={{ inputLabel: { shrink: true } }}
+                    sx={{ bgcolor: '#E8F5E9' }}
+                />
+                <Button
+                    variant="outlined"
+                    startIcon={<DownloadIcon />}
+                    onClick={handleExport}
+                    sx={{ flexShrink: 0 }}
+                >
+                    Export
+                </Button>
+                {courseData && onStatementsChanged && (
+                    <StatementCorrections
+                        statements={statements}
+                        learners={learnerProfiles}
+                        courseData={courseData}
+                        onChanged={onStatementsChanged}
+                    />
+                )}
+            </Box>
+
             <Box sx={{
                 display: 'flex',
                 flexDirection: { xs: 'column', lg: 'row' },
@@ -119,28 +269,29 @@ const EducatorsDashboard: React.FC<LearnerDashboardProps> = ({
 
                                 {/* Course Completion Pie Chart */}
                                 <Grid size={{ xs: 12, md: 6.8 }} sx={{ height: '100%', p: 0.5 }}>
-                                    {filteredData.statements.length > 0 && courseData && selectedLearnerId && (
+                                    {filteredData.statements.length > 0 && courseData && (
                                         <LineTimeChartCumulative
-                                            statements={statements}
+                                            sessions={filteredData.sessions}
                                             learnerProfiles={learnerProfiles} />
                                     )}
                                 </Grid>
 
                                 {/* Learning Time Chart */}
                                 <Grid size={{ xs: 12, md: 2 }} sx={{ height: '100%', p: 0.5 }}>
-                                    {filteredData.statements.length > 0 && courseData && selectedLearnerId && (
+                                    {filteredData.statements.length > 0 && courseData && (
                                         <AverageScoreEducator
-                                            statements={statements}
                                             learners={learnerProfiles}
-                                            courseData={courseData} />
+                                            courseData={courseData}
+                                            range={metricsRange}
+                                            statements={statements} />
                                     )}
                                 </Grid>
 
                                 {/* Learning Time Chart */}
                                 <Grid size={{ xs: 12, md: 2 }} sx={{ height: '100%', p: 0.5 }}>
-                                    {filteredData.statements.length > 0 && courseData && selectedLearnerId && (
+                                    {filteredData.statements.length > 0 && courseData && (
                                         <AttemptsEducator
-                                            statements={statements}
+                                            statements={filteredData.statements}
                                             courseData={courseData}
                                             learners={learnerProfiles}
                                         />
@@ -193,19 +344,20 @@ const EducatorsDashboard: React.FC<LearnerDashboardProps> = ({
 
                                 {/* Learning Time Per Section Diagram */}
                                 <Grid size={{ xs: 12, md: 5.4 }} sx={{ height: '100%', p: 2 }}>
-                                    {filteredData.statements.length > 0 && courseData && selectedLearnerId && (
+                                    {filteredData.statements.length > 0 && courseData && (
                                         <CourseBoxplot
-                                            statements={statements}
                                             courseData={courseData}
+                                            range={metricsRange}
+                                            statements={statements}
                                         />
                                     )}
                                 </Grid>
 
                                 {/* Average Score Per Module Diagram */}
                                 <Grid size={{ xs: 12, md: 5.4 }} sx={{ height: '100%', p: 1 }}>
-                                    {filteredData.statements.length > 0 && courseData && selectedLearnerId && (
+                                    {filteredData.statements.length > 0 && courseData && (
                                         <StudentPerformanceTable
-                                            statements={statements}
+                                            statements={filteredData.statements}
                                         />
                                     )}
                                 </Grid>
@@ -274,7 +426,7 @@ const EducatorsDashboard: React.FC<LearnerDashboardProps> = ({
                                         pb: 1
                                     }}>
                                         <StudentGradeRec
-                                            statements={statements}
+                                            statements={filteredData.statements}
                                             courseData={courseData}
                                         />
                                     </Grid>
@@ -332,7 +484,7 @@ const EducatorsDashboard: React.FC<LearnerDashboardProps> = ({
                                         pb: 1
                                     }}>
                                         <CumulativeRec
-                                            statements={statements}
+                                            statements={filteredData.statements}
                                             learnerProfiles={learnerProfiles}
                                         />
                                     </Grid>
@@ -1,7 +1,8 @@
-import React, { useMemo } from 'react';
+import React from 'react';
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer, Label, Legend } from 'recharts';
 import { Box, Typography, useTheme } from '@mui/material';
 import { XAPIStatement, LearnerProfile, CourseData } from '../../types/types';
+import { useStatementAggregate } from '../../helper/statement-aggregate';
 
 /**
  * Props interface for the AttemptsEducator component
@@ -34,55 +35,55 @@ const AttemptsEducator: React.FC<AttemptsEducatorProps> = ({ statements, learner
     /**
      * Calculates attempt statistics from xAPI statements
      * 
-     * Processes all statements to:
+     * Processes the statements of the learners to:
      * 1. Count passed and failed attempts for each activity
      * 2. Calculate total passed and failed attempts across all activities
      * 3. Determine the average number of attempts per activity
      * 
+     * Streamed statements are added to the counts without processing the loaded statements again.
+     * 
      * @returns {Object} Statistics about attempts including passed, failed, total, and average counts
     */
-    const attemptsData = useMemo(() => {
-        const attemptsMap: Record<string, { failed: number; passed: number }> = {};
-
-        learners.forEach(learner => {
-            statements.forEach(statement => {
-                if (statement.actor.mbox === learner.email) {
-                    if (statement.verb.id === "http://adlnet.gov/expapi/verbs/passed") {
-                        const activityId = statement.object.id;
-                        if (!attemptsMap[activityId]) {
-                            attemptsMap[activityId] = { failed: 0, passed: 0 };
-                        }
-                        attemptsMap[activityId].passed += 1;
-                    } else if (statement.verb.id === "http://adlnet.gov/expapi/verbs/failed") {
-                        const activityId = statement.object.id;
-                        if (!attemptsMap[activityId]) {
-                            attemptsMap[activityId] = { failed: 0, passed: 0 };
-                        }
-                        attemptsMap[activityId].failed += 1;
-                    }
-                }
-            });
-        });
-
-        const totalAttempts = Object.values(attemptsMap).reduce(
-            (acc, { failed, passed }) => {
-                acc.failed += failed;
-                acc.passed += passed;
-                return acc;
-            },
-            { failed: 0, passed: 0 }
-        );
-
-        const totalActivities = Object.keys(attemptsMap).length;
-        const averageAttempts = (totalAttempts.failed + totalAttempts.passed) / totalActivities;
-
-        return {
-            failed: totalAttempts.failed,
-            passed: totalAttempts.passed,
-            totalAttempts: totalAttempts.failed + totalAttempts.passed,
-            averageAttempts
-        };
-    }, [statements, learners]);
+    const attemptsData = useStatementAggregate(statements, {
+        create: () => ({
+            emails: new Set(learners.map(learner => learner.email)),
+            attemptsMap: {} as Record<string, { failed: number; passed: number }>
+        }),
+        add: ({ emails, attemptsMap }, statement) => {
+            if (!emails.has(statement.actor.mbox)) return;
+
+            const outcome = statement.verb.id === "http://adlnet.gov/expapi/verbs/passed" ? 'passed'
+                : statement.verb.id === "http://adlnet.gov/expapi/verbs/failed" ? 'failed'
+                : null;
+            if (!outcome) return;
+
+            const activityId = statement.object.id;
+            if (!attemptsMap[activityId]) {
+                attemptsMap[activityId] = { failed: 0, passed: 0 };
+            }
+            attemptsMap[activityId][outcome] += 1;
+        },
+        result: ({ attemptsMap }) => {
+            const totalAttempts = Object.values(attemptsMap).reduce(
+                (acc, { failed, passed }) => {
+                    acc.failed += failed;
+                    acc.passed += passed;
+                    return acc;
+                },
+                { failed: 0, passed: 0 }
+            );
+
+            const totalActivities = Object.keys(attemptsMap).length;
+            const averageAttempts = (totalAttempts.failed + totalAttempts.passed) / totalActivities;
+
+            return {
+                failed: totalAttempts.failed,
+                passed: totalAttempts.passed,
+                totalAttempts: totalAttempts.failed + totalAttempts.passed,
+                averageAttempts
+            };
+        }
+    }, [learners]);
 
     /**
      * Calculates the percentage of successful attempts
@@ -1,58 +1,71 @@
-import React, { useMemo} from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer, Label, Legend } from 'recharts';
 import { Box, Typography, useTheme } from '@mui/material';
-import { XAPIStatement, LearnerProfile, CourseData } from '../../types/types';
+import { LearnerProfile, CourseData, LearnerMetrics, MetricsRange, XAPIStatement } from '../../types/types';
+import AnalyticsService from '../../services/analytics-service';
+import { isAbortError } from '../../services/api-client';
+import { useThrottledValue } from '../../helper/statement-stream';
 
 /**
  * Props interface for the AverageScoreEducator component
  * @interface AverageScoreEducatorProps
- * @property {XAPIStatement[]} statements - Array of xAPI statements containing score data
  * @property {LearnerProfile[]} learners - Array of learner profiles
  * @property {CourseData} courseData - Data about the course
+ * @property {MetricsRange} range - Optional time window of the scores
+ * @property {XAPIStatement[]} statements - Statements of the course, streamed statements refresh the metrics
 */
 interface AverageScoreEducatorProps {
-    statements: XAPIStatement[];
     learners: LearnerProfile[];
     courseData: CourseData;
+    range?: MetricsRange;
+    statements: XAPIStatement[];
 }
 
 /**
  * Component that displays the average score across all learners as a donut chart
  * 
- * This component calculates the average of all learners' scores from xAPI statements
+ * This component averages the per learner scores aggregated by the server
  * and displays it as a percentage in a donut chart visualization.
  * 
  * @component
  * @param {AverageScoreEducatorProps} props - Component props
  * @returns {React.ReactElement} The rendered component
 */
-const AverageScoreEducator: React.FC<AverageScoreEducatorProps> = ({ statements, learners, courseData }) => {
+const AverageScoreEducator: React.FC<AverageScoreEducatorProps> = ({ learners, courseData, range, statements }) => {
     const theme = useTheme();
+    const [learnerMetrics, setLearnerMetrics] = useState<LearnerMetrics[]>([]);
+    const refreshedStatements = useThrottledValue(statements);
+
+    useEffect(() => {
+        const controller = new AbortController();
+
+        new AnalyticsService().getLearnerMetrics(courseData.id, range, controller.signal)
+            .then(metrics => {
+                if (!controller.signal.aborted) setLearnerMetrics(metrics);
+            })
+            .catch(error => {
+                if (!isAbortError(error)) console.error('Error loading learner metrics:', error);
+            });
+
+        return () => controller.abort();
+    }, [learners, courseData, range, refreshedStatements]);
 
     /**
      * Calculates the average score across all learners
      * 
-     * For each learner, finds all their scoring statements, calculates their average,
+     * Takes the average score of every learner with scored statements,
      * then computes the overall average across all learners.
      * 
      * @returns {number} The average score as a rounded percentage (0-100)
     */
     const averageScore = useMemo(() => {
-        const scores: number[] = [];
-
-        learners.forEach(learner => {
-            const userScores = statements
-                .filter(statement => statement.actor.mbox === learner.email && statement.verb.id === 'http://adlnet.gov/expapi/verbs/scored')
-                .map(statement => statement.result!.score!.scaled! * 100); 
-
-            if (userScores.length > 0) {
-                const userAvgScore = userScores.reduce((sum, score) => sum + score, 0) / userScores.length;
-                scores.push(userAvgScore);
-            }
-        });
+        const emails = new Set(learners.map(learner => learner.email));
+        const scores = learnerMetrics
+            .filter(metrics => emails.has(metrics.learner) && metrics.averageScore !== null)
+            .map(metrics => metrics.averageScore!);
 
         return scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0;
-    }, [statements, learners]);
+    }, [learnerMetrics, learners]);
   
     const chartData = [
         { name: 'Average Score', value: averageScore },
@@ -1,13 +1,17 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Chart, LinearScale, CategoryScale, Title, Tooltip, Legend } from 'chart.js';
 import { BoxPlotController, BoxAndWiskers } from '@sgratzl/chartjs-chart-boxplot';
-import { XAPIStatement } from '../../types/types';
+import { ActivityMetrics, MetricsRange, XAPIStatement } from '../../types/types';
+import AnalyticsService from '../../services/analytics-service';
+import { isAbortError } from '../../services/api-client';
+import { useThrottledValue } from '../../helper/statement-stream';
 import { Box, Typography } from '@mui/material';
 
 // Register the required Chart.js components for boxplot visualization
 Chart.register(BoxPlotController, BoxAndWiskers, LinearScale, CategoryScale, Title, Tooltip, Legend);
 
 interface CourseData {
+    id: string;
     sections: {
         activities: {
             id: string;
@@ -20,11 +24,14 @@ interface CourseData {
 /**
  * Props interface for the CourseBoxplot component
  * @interface CourseBoxplotProps
- * @property {XAPIStatement[]} statements - Array of xAPI statements containing scoring data
+ * @property {CourseData} courseData - Course structure used to label the activities
+ * @property {MetricsRange} range - Optional time window of the scores
+ * @property {XAPIStatement[]} statements - Statements of the course, streamed statements refresh the metrics
 */
 interface CourseBoxplotProps {
-    statements: XAPIStatement[];
     courseData: CourseData;
+    range?: MetricsRange;
+    statements: XAPIStatement[];
     maxLabelLength?: number;
     useLineBreaks?: boolean; 
 }
@@ -32,7 +39,7 @@ interface CourseBoxplotProps {
 /**
  * Component that creates a boxplot visualization of score distributions across different courses
  * 
- * This component analyzes xAPI statements to extract course scores and visualize their statistical
+ * This component loads the scores per activity aggregated by the server and visualizes their statistical
  * distribution (min, max, median, quartiles, outliers) using boxplots. Each boxplot represents
  * the distribution of scores for a specific course module.
  * 
@@ -41,13 +48,30 @@ interface CourseBoxplotProps {
  * @returns {React.ReactElement} The rendered component
 */
 const CourseBoxplot: React.FC<CourseBoxplotProps> = ({
-    statements,
     courseData,
+    range,
+    statements,
     maxLabelLength = 20, 
     useLineBreaks = false 
 }) => {
     const chartRef = useRef<HTMLCanvasElement | null>(null);
     const chartInstanceRef = useRef<Chart | null>(null);
+    const [activityMetrics, setActivityMetrics] = useState<ActivityMetrics[]>([]);
+    const refreshedStatements = useThrottledValue(statements);
+
+    useEffect(() => {
+        const controller = new AbortController();
+
+        new AnalyticsService().getActivityMetrics(courseData.id, range, controller.signal)
+            .then(metrics => {
+                if (!controller.signal.aborted) setActivityMetrics(metrics);
+            })
+            .catch(error => {
+                if (!isAbortError(error)) console.error('Error loading activity metrics:', error);
+            });
+
+        return () => controller.abort();
+    }, [courseData, range, refreshedStatements]);
 
     const getActivityField = (activityId: string | undefined, field: string) => {
         if (activityId && courseData.sections) {
@@ -88,7 +112,7 @@ const CourseBoxplot: React.FC<CourseBoxplotProps> = ({
      * Effect hook to create and update the boxplot chart
      * 
      * This effect:
-     * 1. Extracts scores from xAPI statements for each course
+     * 1. Collects the scores of each course from the activity metrics
      * 2. Processes the data into a format required by the boxplot chart
      * 3. Creates or updates the Chart.js instance
      * 4. Handles cleanup when component unmounts
@@ -105,31 +129,18 @@ const CourseBoxplot: React.FC<CourseBoxplotProps> = ({
         const fullTitles: Record<string, string> = {};
         const activityNumbers: Record<string, number> = {};
 
-        statements
-            .filter(
-                (statement) =>
-                    statement.verb.id === 'http://adlnet.gov/expapi/verbs/scored' && statement.result?.score?.raw !== undefined
-            )
-            .forEach((statement) => {
-                const activityId =
-                    statement.object.definition.extensions?.[
-                    'https://w3id.org/learning-analytics/learning-management-system/external-id'
-                    ];
-
-                if (activityId) {
-                    if (!courseScores[activityId]) {
-                        courseScores[activityId] = [];
-
-                        const title = getActivityField(activityId, 'title') || activityId;
-                        fullTitles[activityId] = title; 
-
-                        if (useLineBreaks) {
-                            activityTitles[activityId] = title; 
-                        } else {
-                            activityTitles[activityId] = truncateText(title, maxLabelLength);
-                        }
-                    }
-                    courseScores[activityId].push(statement.result!.score!.raw!);
+        activityMetrics
+            .filter((metrics) => metrics.scores.length > 0)
+            .forEach(({ activityId, scores }) => {
+                courseScores[activityId] = scores;
+
+                const title = getActivityField(activityId, 'title') || activityId;
+                fullTitles[activityId] = title; 
+
+                if (useLineBreaks) {
+                    activityTitles[activityId] = title; 
+                } else {
+                    activityTitles[activityId] = truncateText(title, maxLabelLength);
                 }
             });
 
@@ -227,7 +238,7 @@ const CourseBoxplot: React.FC<CourseBoxplotProps> = ({
                 chartInstanceRef.current.destroy();
             }
         };
-    }, [statements, courseData, maxLabelLength, useLineBreaks]);
+    }, [activityMetrics, courseData, maxLabelLength, useLineBreaks]);
 
     return (
         <Box sx={{
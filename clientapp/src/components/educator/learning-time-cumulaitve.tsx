@@ -1,17 +1,16 @@
 import React, { useMemo, useState } from "react";
 import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, Legend, ReferenceLine } from "recharts";
-import { XAPIStatement, LearnerProfile } from '../../types/types';
+import { StoredSession, LearnerProfile } from '../../types/types';
 import { Box, Typography, Dialog, DialogTitle, DialogContent, List, ListItem, ListItemText } from '@mui/material';
-import { ParseDuration } from '../../helper/helper';
 
 /**
  * Props interface for the LineTimeChartCumulative component
  * @interface LineTimeChartCumulativeProps
- * @property {XAPIStatement[]} statements - Array of xAPI statements containing learning activity data
+ * @property {StoredSession[]} sessions - Learning sessions of the learners
  * @property {LearnerProfile[]} learnerProfiles - Array of learner profile objects with email identifiers
 */
 interface LineTimeChartCumulativeProps {
-    statements: XAPIStatement[];
+    sessions: StoredSession[];
     learnerProfiles: LearnerProfile[];
 }
 
@@ -37,7 +36,7 @@ interface LearnerDataItem {
  * @param {LineTimeChartCumulativeProps} props - Component props
  * @returns {React.ReactElement} The rendered component
 */
-const LineTimeChartCumulative = ({ statements, learnerProfiles }: LineTimeChartCumulativeProps) => {
+const LineTimeChartCumulative = ({ sessions, learnerProfiles }: LineTimeChartCumulativeProps) => {
     const [selectedDate, setSelectedDate] = useState<string | null>(null);
     const [dialogOpen, setDialogOpen] = useState<boolean>(false);
     const [selectedDateData, setSelectedDateData] = useState<LearnerDataItem[]>([]);
@@ -96,7 +95,7 @@ const LineTimeChartCumulative = ({ statements, learnerProfiles }: LineTimeChartC
     }, [learnerProfiles]);
 
     /**
-     * Processes xAPI statements to calculate cumulative learning time per learner over time
+     * Accumulates the session durations per learner over time
      * 
      * @returns {Record<string, any>[]} Array of data points for the chart, with cumulative times for each learner
     */
@@ -106,28 +105,27 @@ const LineTimeChartCumulative = ({ statements, learnerProfiles }: LineTimeChartC
             learnerData[learner.email] = [];
         });
 
-        const sortedStatements = [...statements].sort((a, b) =>
-            new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+        const sortedSessions = [...sessions].sort((a, b) =>
+            new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
         );
 
         const cumulativeTime: Record<string, number> = {};
 
-        sortedStatements.forEach((statement) => {
-            const learnerEmail = statement.actor.mbox;
+        sortedSessions.forEach((session) => {
+            const learnerEmail = session.learner;
             if (!learnerData[learnerEmail]) return;
 
-            const duration = statement.result?.duration ? ParseDuration(statement.result.duration) : 0;
-            cumulativeTime[learnerEmail] = (cumulativeTime[learnerEmail] || 0) + duration;
+            cumulativeTime[learnerEmail] = (cumulativeTime[learnerEmail] || 0) + session.totalDuration;
 
             learnerData[learnerEmail].push({
-                date: new Date(statement.timestamp).toISOString().split("T")[0],
-                time: cumulativeTime[learnerEmail],
+                date: new Date(session.startTime).toISOString().split("T")[0],
+                time: Math.round(cumulativeTime[learnerEmail]),
             });
         });
 
         const mergedData: Record<string, any>[] = [];
-        const allDates = Array.from(new Set(sortedStatements.map(s =>
-            new Date(s.timestamp).toISOString().split("T")[0]
+        const allDates = Array.from(new Set(sortedSessions.map(s =>
+            new Date(s.startTime).toISOString().split("T")[0]
         )));
 
         allDates.forEach(date => {
@@ -140,7 +138,7 @@ const LineTimeChartCumulative = ({ statements, learnerProfiles }: LineTimeChartC
         });
 
         return mergedData;
-    }, [statements, learnerProfiles]);
+    }, [sessions, learnerProfiles]);
 
     /**
      * Handles chart click events and opens dialog with details for the selected date
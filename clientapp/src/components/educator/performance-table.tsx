@@ -2,6 +2,7 @@ import React, { useMemo, useState } from 'react';
 import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
 import { Box, Typography, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper, TableSortLabel } from '@mui/material';
 import { XAPIStatement } from '../../types/types';
+import { useStatementAggregate } from '../../helper/statement-aggregate';
 
 /**
  * Props interface for the StudentPerformanceTable component
@@ -43,7 +44,7 @@ const StudentPerformanceTable: React.FC<StudentPerformanceProps> = ({ statements
     /**
      * Processes xAPI statements to extract student performance data
      * 
-     * Aggregates data for each student including:
+     * Aggregates data for each student, streamed statements are added to the existing aggregate:
      * - All grade values
      * - Total attempts at activities
      * - Number of successful completions
@@ -51,14 +52,12 @@ const StudentPerformanceTable: React.FC<StudentPerformanceProps> = ({ statements
      * @returns {Array<{id: string, mbox: string, grades: number[], average: string, attempts: string}>} 
      *          Processed student performance data with calculated metrics
     */
-    const studentData = useMemo(() => {
-        const studentMap = new Map<string, { id: string; mbox: string; grades: number[]; totalAttempts: number; passedCount: number }>();
-
-        statements.forEach(statement => {
+    const studentData = useStatementAggregate(statements, {
+        create: () => new Map<string, { id: string; mbox: string; grades: number[]; totalAttempts: number; passedCount: number }>(),
+        add: (studentMap, statement) => {
             if (!statement.actor.mbox) return;
             const mbox = statement.actor.mbox;
             const verbId = statement.verb.id;
-            const activityId = statement.object.definition.extensions?.['https://w3id.org/learning-analytics/learning-management-system/external-id'];
             const grade = statement.result?.score?.raw;
 
             if (!studentMap.has(mbox)) {
@@ -83,9 +82,8 @@ const StudentPerformanceTable: React.FC<StudentPerformanceProps> = ({ statements
             if (verbId === 'http://adlnet.gov/expapi/verbs/failed' || verbId === 'http://adlnet.gov/expapi/verbs/passed') {
                 student.totalAttempts += 1;
             }
-        });
-
-        return Array.from(studentMap.values()).map(student => {
+        },
+        result: studentMap => Array.from(studentMap.values()).map(student => {
             const averageGrade = student.grades.length > 0
                 ? (student.grades.reduce((sum, grade) => sum + grade, 0) / student.grades.length).toFixed(1)
                 : 'N/A';
@@ -97,12 +95,13 @@ const StudentPerformanceTable: React.FC<StudentPerformanceProps> = ({ statements
             return {
                 id: student.id,
                 mbox: student.mbox,
-                grades: student.grades,
+                // Copied, the aggregate keeps adding streamed grades to its array
+                grades: [...student.grades],
                 average: averageGrade,
                 attempts: averageAttempts
             };
-        });
-    }, [statements]);
+        })
+    });
 
     /**
      * Sorts the student data based on the current sort column and direction
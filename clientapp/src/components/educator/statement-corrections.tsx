@@ -0,0 +1,333 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    Alert,
+    Box,
+    Button,
+    Checkbox,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    FormControlLabel,
+    IconButton,
+    MenuItem,
+    Stack,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    TextField,
+    Tooltip,
+    Typography
+} from '@mui/material';
+import EditIcon from '@mui/icons-material/Edit';
+import BlockIcon from '@mui/icons-material/Block';
+import FactCheckIcon from '@mui/icons-material/FactCheck';
+import { XAPIService } from '../../services/xapi-service';
+import { isAbortError } from '../../services/api-client';
+import { StatementCorrection, StatementScore } from '../../types/api';
+import { CourseData, LearnerProfile, XAPIStatement } from '../../types/types';
+
+const OUTCOME_VERBS = ['http://adlnet.gov/expapi/verbs/passed', 'http://adlnet.gov/expapi/verbs/failed'];
+
+/**
+ * Props interface for the StatementCorrections component
+ * @interface StatementCorrectionsProps
+ * @property {XAPIStatement[]} statements - Statements of the course, voided statements excluded
+ * @property {LearnerProfile[]} learners - Learner profiles of the course
+ * @property {CourseData} courseData - Course the statements belong to
+ * @property {Function} onChanged - Called after a statement was voided or corrected
+*/
+interface StatementCorrectionsProps {
+    statements: XAPIStatement[];
+    learners: LearnerProfile[];
+    courseData: CourseData;
+    onChanged: () => void;
+}
+
+/**
+ * Statement being voided or corrected with the values of the form
+ */
+interface PendingCorrection {
+    statement: XAPIStatement;
+    action: 'void' | 'correct';
+    raw: string;
+    success: boolean;
+    reason: string;
+}
+
+/**
+ * Formats the score of a result like "40 / 100"
+ */
+const formatScore = (result?: { score?: StatementScore }) =>
+    result?.score?.raw !== undefined
+        ? `${result.score.raw}${result.score.max !== undefined ? ` / ${result.score.max}` : ''}`
+        : '-';
+
+const verbName = (verbId: string) => verbId.split('/').pop();
+
+/**
+ * Button and dialog for retracting or correcting erroneous results of a learner
+ *
+ * Lists the scored statements of the selected learner. A statement is retracted by voiding it,
+ * a corrected score replaces it with a corrected copy. Both are recorded with the reason in
+ * the audit trail shown below the statements.
+ *
+ * @component
+ * @param {StatementCorrectionsProps} props - Component props
+ * @returns {React.ReactElement} The rendered component
+*/
+const StatementCorrections: React.FC<StatementCorrectionsProps> = ({ statements, learners, courseData, onChanged }) => {
+    const [open, setOpen] = useState(false);
+    const [learner, setLearner] = useState('');
+    const [pending, setPending] = useState<PendingCorrection | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [corrections, setCorrections] = useState<StatementCorrection[]>([]);
+    const [reload, setReload] = useState(0);
+
+    /**
+     * Loads the audit trail of the course while the dialog is open
+     */
+    useEffect(() => {
+        if (!open) return;
+
+        const controller = new AbortController();
+        new XAPIService().getCorrections(courseData.id, controller.signal)
+            .then(setCorrections)
+            .catch(loadError => {
+                if (!isAbortError(loadError)) setError(loadError instanceof Error ? loadError.message : 'Unknown error');
+            });
+
+        return () => controller.abort();
+    }, [open, courseData, reload]);
+
+    /**
+     * Scored statements of the selected learner, newest first
+     */
+    const scoredStatements = useMemo(() => statements
+        .filter(statement => statement.actor.mbox === learner && statement.result?.score?.raw !== undefined)
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp)), [statements, learner]);
+
+    const startCorrection = (statement: XAPIStatement, action: PendingCorrection['action']) => {
+        setError(null);
+        setPending({
+            statement,
+            action,
+            raw: String(statement.result?.score?.raw ?? ''),
+            success: statement.result?.success ?? false,
+            reason: ''
+        });
+    };
+
+    /**
+     * Voids or corrects the pending statement and refreshes the dashboard
+     * The scaled score follows the raw score like in the generated statements, raw divided by max
+     */
+    const handleSubmit = async () => {
+        if (!pending) return;
+
+        setSaving(true);
+        setError(null);
+        try {
+            const service = new XAPIService();
+            const { statement, reason } = pending;
+            if (pending.action === 'void') {
+                await service.voidStatement(statement.id, reason);
+            } else {
+                const raw = Number(pending.raw);
+                const max = statement.result?.score?.max;
+                await service.correctStatement(statement.id, {
+                    score: { raw, ...(max && { scaled: raw / max }) },
+                    ...(OUTCOME_VERBS.includes(statement.verb.id) && { success: pending.success }),
+                    reason
+                });
+            }
+            setPending(null);
+            setReload(count => count + 1);
+            onChanged();
+        } catch (submitError) {
+            setError(submitError instanceof Error ? submitError.message : 'Unknown error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const canSubmit = pending && pending.reason.trim() !== '' &&
+        (pending.action === 'void' || (pending.raw.trim() !== '' && !isNaN(Number(pending.raw))));
+
+    return (
+        <>
+            <Button
+                variant="outlined"
+                startIcon={<FactCheckIcon />}
+                onClick={() => setOpen(true)}
+                sx={{ flexShrink: 0 }}
+            >
+                Corrections
+            </Button>
+
+            <Dialog open={open} onClose={() => !saving && setOpen(false)} maxWidth="md" fullWidth>
+                <DialogTitle>Correct Results</DialogTitle>
+                <DialogContent>
+                    <DialogContentText sx={{ mb: 2 }}>
+                        Retract an erroneous result or correct its score, e.g. after a quiz crashed.
+                        Results are never removed, they are voided and no longer counted.
+                    </DialogContentText>
+
+                    <TextField
+                        select
+                        label="Learner"
+                        size="small"
+                        fullWidth
+                        value={learner}
+                        onChange={(event) => {
+                            setLearner(event.target.value);
+                            setPending(null);
+                        }}
+                    >
+                        {learners.map(profile => (
+                            <MenuItem key={profile.email} value={profile.email}>{profile.email}</MenuItem>
+                        ))}
+                    </TextField>
+
+                    {learner && (
+                        <TableContainer sx={{ maxHeight: 240, mt: 2 }}>
+                            <Table stickyHeader size="small">
+                                <TableHead>
+                                    <TableRow>
+                                        <TableCell>Date</TableCell>
+                                        <TableCell>Activity</TableCell>
+                                        <TableCell>Verb</TableCell>
+                                        <TableCell>Score</TableCell>
+                                        <TableCell align="right" />
+                                    </TableRow>
+                                </TableHead>
+                                <TableBody>
+                                    {scoredStatements.map(statement => (
+                                        <TableRow key={statement.id} selected={pending?.statement.id === statement.id}>
+                                            <TableCell>{new Date(statement.timestamp).toLocaleString()}</TableCell>
+                                            <TableCell>{statement.object.definition?.name?.en ?? statement.object.id}</TableCell>
+                                            <TableCell>{verbName(statement.verb.id)}</TableCell>
+                                            <TableCell>{formatScore(statement.result)}</TableCell>
+                                            <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                                                <Tooltip title="Correct score">
+                                                    <IconButton size="small" onClick={() => startCorrection(statement, 'correct')}>
+                                                        <EditIcon fontSize="small" />
+                                                    </IconButton>
+                                                </Tooltip>
+                                                <Tooltip title="Void">
+                                                    <IconButton size="small" onClick={() => startCorrection(statement, 'void')}>
+                                                        <BlockIcon fontSize="small" />
+                                                    </IconButton>
+                                                </Tooltip>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                    {scoredStatements.length === 0 && (
+                                        <TableRow>
+                                            <TableCell colSpan={5}>No scored results</TableCell>
+                                        </TableRow>
+                                    )}
+                                </TableBody>
+                            </Table>
+                        </TableContainer>
+                    )}
+
+                    {pending && (
+                        <Stack direction="row" spacing={2} alignItems="center" sx={{ mt: 2 }}>
+                            {pending.action === 'correct' && (
+                                <>
+                                    <TextField
+                                        label="Score"
+                                        type="number"
+                                        size="small"
+                                        value={pending.raw}
+                                        onChange={(event) => setPending({ ...pending, raw: event.target.value })}
+                                        sx={{ width: 120 }}
+                                    />
+                                    {OUTCOME_VERBS.includes(pending.statement.verb.id) && (
+                                        <FormControlLabel
+                                            label="Passed"
+                                            control={
+                                                <Checkbox
+                                                    checked={pending.success}
+                                                    onChange={(event) => setPending({ ...pending, success: event.target.checked })}
+                                                />
+                                            }
+                                        />
+                                    )}
+                                </>
+                            )}
+                            <TextField
+                                label="Reason"
+                                size="small"
+                                fullWidth
+                                value={pending.reason}
+                                onChange={(event) => setPending({ ...pending, reason: event.target.value })}
+                            />
+                            <Button
+                                variant="contained"
+                                color={pending.action === 'void' ? 'error' : 'primary'}
+                                disabled={!canSubmit || saving}
+                                onClick={handleSubmit}
+                                sx={{ flexShrink: 0 }}
+                            >
+                                {pending.action === 'void' ? 'Void' : 'Correct'}
+                            </Button>
+                            <Button onClick={() => setPending(null)} disabled={saving}>Cancel</Button>
+                        </Stack>
+                    )}
+
+                    {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+
+                    <Typography sx={{ mt: 3, mb: 1, fontWeight: 600 }}>Audit Trail</Typography>
+                    <Box>
+                        <TableContainer sx={{ maxHeight: 200 }}>
+                            <Table stickyHeader size="small">
+                                <TableHead>
+                                    <TableRow>
+                                        <TableCell>Date</TableCell>
+                                        <TableCell>Educator</TableCell>
+                                        <TableCell>Learner</TableCell>
+                                        <TableCell>Action</TableCell>
+                                        <TableCell>Score</TableCell>
+                                        <TableCell>Reason</TableCell>
+                                    </TableRow>
+                                </TableHead>
+                                <TableBody>
+                                    {corrections.map(correction => (
+                                        <TableRow key={correction.voidingStatementId}>
+                                            <TableCell>{new Date(correction.createdAt).toLocaleString()}</TableCell>
+                                            <TableCell>{correction.user}</TableCell>
+                                            <TableCell>{correction.learner}</TableCell>
+                                            <TableCell>{correction.action === 'void' ? 'voided' : 'corrected'}</TableCell>
+                                            <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                                                {formatScore(correction.previousResult ?? undefined)}
+                                                {correction.correctedResult && ` → ${formatScore(correction.correctedResult)}`}
+                                            </TableCell>
+                                            <TableCell>{correction.reason}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                    {corrections.length === 0 && (
+                                        <TableRow>
+                                            <TableCell colSpan={6}>No corrections yet</TableCell>
+                                        </TableRow>
+                                    )}
+                                </TableBody>
+                            </Table>
+                        </TableContainer>
+                    </Box>
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={() => setOpen(false)} disabled={saving}>Close</Button>
+                </DialogActions>
+            </Dialog>
+        </>
+    );
+};
+
+export default StatementCorrections;
@@ -1,4 +1,4 @@
-﻿import React, { useState, useMemo } from 'react';
+﻿import React, { useState } from 'react';
 import {
     Card,
     CardContent,
@@ -12,8 +12,13 @@ import {
 } from '@mui/material';
 import Grid from '@mui/material/Grid2';
 import CourseCompletion from './learner/course-completion';
-import { LearnerProfile, XAPIStatement, CourseData } from '../types/types';
+import { LearnerProfile, XAPIStatement, StoredSession, CourseData, AuthUser } from '../types/types';
 import RecommendationService from '../services/recommendation-service';
+import { XAPIService } from '../services/xapi-service';
+import SessionService from '../services/session-service';
+import { isAbortError } from '../services/api-client';
+import { MergeStatementChanges } from '../helper/helper';
+import { useStatementChanges, useThrottledValue } from '../helper/statement-stream';
 import LearningTimeChart from './learner/learning-time';
 import LearningTimePerSection from './learner/average-time-per-module';
 import LearningAttempts from './learner/attempts-to-pass';
@@ -27,6 +32,7 @@ interface LearnerDashboardProps {
     learnerProfiles: LearnerProfile[];
     statements: XAPIStatement[];
     courseData: CourseData | null;
+    currentUser: AuthUser | null;
 }
 
 /**
@@ -38,36 +44,81 @@ interface LearnerDashboardProps {
  * @param {LearnerProfile[]} props.learnerProfiles - Array of learner profiles
  * @param {XAPIStatement[]} props.statements - Array of xAPI statements for analysis
  * @param {CourseData | null} props.courseData - Structured course data containing sections and activities
+ * @param {AuthUser | null} props.currentUser - Logged in user, learners only see their own data
  * 
  * @returns {React.ReactElement} A dashboard interface with multiple analytics visualizations
  */
 const LearnerDashboard: React.FC<LearnerDashboardProps> = ({
     learnerProfiles,
     statements,
-    courseData
+    courseData,
+    currentUser
 }) => {
     const [selectedLearnerId, setSelectedLearnerId] = useState<string>('');
 
+    // Learners cannot select other learners, the server only returns their own profile
+    // Its email may be pseudonymized, so it is not matched against the login email
+    const isLearner = currentUser?.role === 'learner';
+    const selectableProfiles = React.useMemo(() => isLearner
+        ? learnerProfiles.slice(0, 1)
+        : learnerProfiles, [learnerProfiles, isLearner]);
+
     React.useEffect(() => {
-        if (learnerProfiles.length > 0 && !selectedLearnerId) {
-            setSelectedLearnerId(learnerProfiles[0].id);
+        if (!selectableProfiles.some(l => l.id === selectedLearnerId)) {
+            setSelectedLearnerId(selectableProfiles.length > 0 ? selectableProfiles[0].id : '');
         }
-    }, [learnerProfiles, selectedLearnerId]);
+    }, [selectableProfiles, selectedLearnerId]);
+
+    const [filteredData, setFilteredData] = useState<{ statements: XAPIStatement[]; sessions: StoredSession[] }>({ statements: [], sessions: [] });
+    const email = selectableProfiles.find(l => l.id === selectedLearnerId)?.email;
+    const refreshedStatements = useThrottledValue(statements);
 
     /**
-     * Filters statements to only include those related to the selected learner.
-     * 
-     * @returns {Object} Object containing filtered statements for the selected learner
+     * Loads only the statements of the selected learner in the selected course from the server.
+     * Streamed statements are merged into them below instead of loading them again.
      */
-    const filteredData = useMemo(() => {
-        if (!selectedLearnerId) return { statements: [] };
+    React.useEffect(() => {
+        if (!email) {
+            setFilteredData({ statements: [], sessions: [] });
+            return;
+        }
+
+        const controller = new AbortController();
+        new XAPIService().getStatements({ mbox: email, courseId: courseData?.id }, controller.signal)
+            .then(learnerStatements => {
+                if (!controller.signal.aborted) setFilteredData(data => ({ ...data, statements: learnerStatements }));
+            })
+            .catch(error => {
+                if (!isAbortError(error)) console.error('Error loading learner statements:', error);
+            });
 
-        return {
-            statements: statements.filter(statement =>
-                statement.actor.mbox === learnerProfiles.find(l => l.id === selectedLearnerId)?.email
-            )
-        };
-    }, [selectedLearnerId, statements, learnerProfiles]);
+        return () => controller.abort();
+    }, [email, courseData]);
+
+    /**
+     * Loads the sessions of the selected learner, they are reconstructed by the server,
+     * so streamed statements reload them at most once per refresh interval
+     */
+    React.useEffect(() => {
+        if (!email) return;
+
+        const controller = new AbortController();
+        new SessionService().getSessions({ learner: email, courseId: courseData?.id }, controller.signal)
+            .then(learnerSessions => {
+                if (!controller.signal.aborted) setFilteredData(data => ({ ...data, sessions: learnerSessions }));
+            })
+            .catch(error => {
+                if (!isAbortError(error)) console.error('Error loading learner sessions:', error);
+            });
+
+        return () => controller.abort();
+    }, [email, courseData, refreshedStatements]);
+
+    // Streamed statements of the selected learner are added, voided statements removed
+    useStatementChanges(statements, changes => setFilteredData(data => {
+        const merged = MergeStatementChanges(data.statements, changes, statement => statement.actor.mbox === email);
+        return merged === data.statements ? data : { ...data, statements: merged };
+    }));
 
     const handleLearnerChange = (event: SelectChangeEvent) => {
         setSelectedLearnerId(event.target.value);
@@ -83,50 +134,56 @@ const LearnerDashboard: React.FC<LearnerDashboardProps> = ({
             overflow: 'hidden'
         }}>
             <Box sx={{ width: '100%' }}>
-                <FormControl fullWidth size="small">
-                    <InputLabel id="learner-select-label" sx={{ color: '#1565C0' }}>Select Learner</InputLabel>
-                    <Select
-                        labelId="learner-select-label"
-                        id="learner-select"
-                        value={selectedLearnerId}
-                        label="Select Learner"
-                        onChange={handleLearnerChange}
-                        sx={{
-                            bgcolor: '#E3F2FD',
-                            '& .MuiOutlinedInput-notchedOutline': {
-                                borderColor: '#90CAF9'
-                            },
-                            '&:hover .MuiOutlinedInput-notchedOutline': {
-                                borderColor: '#1565C0'
-                            },
-                            '&.Mui-focused .MuiOutlinedInput-notchedOutline': {
-                                borderColor: '#1565C0'
-                            }
-                        }}
-                        MenuProps={{
-                            PaperProps: {
-                                sx: {
-                                    maxHeight: 400,
-                                    backgroundColor: '#E3F2FD',
-                                    borderRadius: 2,
-                                    border: '1px solid #90CAF9'
+                {isLearner ? (
+                    <Typography variant="h6" sx={{ color: '#1565C0' }}>
+                        {currentUser?.email}
+                    </Typography>
+                ) : (
+                    <FormControl fullWidth size="small">
+                        <InputLabel id="learner-select-label" sx={{ color: '#1565C0' }}>Select Learner</InputLabel>
+                        <Select
+                            labelId="learner-select-label"
+                            id="learner-select"
+                            value={selectedLearnerId}
+                            label="Select Learner"
+                            onChange={handleLearnerChange}
+                            sx={{
+                                bgcolor: '#E3F2FD',
+                                '& .MuiOutlinedInput-notchedOutline': {
+                                    borderColor: '#90CAF9'
+                                },
+                                '&:hover .MuiOutlinedInput-notchedOutline': {
+                                    borderColor: '#1565C0'
+                                },
+                                '&.Mui-focused .MuiOutlinedInput-notchedOutline': {
+                                    borderColor: '#1565C0'
+                                }
+                            }}
+                            MenuProps={{
+                                PaperProps: {
+                                    sx: {
+                                        maxHeight: 400,
+                                        backgroundColor: '#E3F2FD',
+                                        borderRadius: 2,
+                                        border: '1px solid #90CAF9'
+                                    }
                                 }
-                            }
-                        }}
-                    >
-                        {[...learnerProfiles]
-                            .sort((a, b) => {
-                                const numA = parseInt(a.email.match(/\d+/)?.[0] || '0');
-                                const numB = parseInt(b.email.match(/\d+/)?.[0] || '0');
-                                return numA - numB;
-                            })
-                            .map((learner) => (
-                                <MenuItem key={learner.id} value={learner.id}>
-                                    {learner.email} ({learner.personaType})
-                                </MenuItem>
-                            ))}
-                    </Select>
-                </FormControl>
+                            }}
+                        >
+                            {[...learnerProfiles]
+                                .sort((a, b) => {
+                                    const numA = parseInt(a.email.match(/\d+/)?.[0] || '0');
+                                    const numB = parseInt(b.email.match(/\d+/)?.[0] || '0');
+                                    return numA - numB;
+                                })
+                                .map((learner) => (
+                                    <MenuItem key={learner.id} value={learner.id}>
+                                        {learner.email} ({learner.personaType})
+                                    </MenuItem>
+                                ))}
+                        </Select>
+                    </FormControl>
+                )}
             </Box>
 
             <Box sx={{
@@ -196,7 +253,7 @@ const LearnerDashboard: React.FC<LearnerDashboardProps> = ({
                                 <Grid size={{ xs: 12, md: 7 }} sx={{ height: '100%', p: 0.5 }}>
                                     {filteredData.statements.length > 0 && courseData && selectedLearnerId && (
                                         <LearningTimeChart
-                                            statements={filteredData.statements}
+                                            sessions={filteredData.sessions}
                                             courseData={courseData}
                                             learner={learnerProfiles.find(l => l.id === selectedLearnerId)!}
                                         />
@@ -324,11 +381,10 @@ const LearnerDashboard: React.FC<LearnerDashboardProps> = ({
 
                                 {/* Average Score Chart Community */}
                                 <Grid size={{ xs: 12, md: 2.5 }} sx={{ height: '100%' }}>
-                                    {statements.length > 0 && courseData && selectedLearnerId && (
+                                    {courseData && selectedLearnerId && (
                                         <AverageScoreChartCommunity
                                             courseData={courseData}
-                                            statements={statements}
-                                            learners={learnerProfiles} />
+                                            statements={statements} />
                                     )}
                                 </Grid>
 
@@ -345,11 +401,10 @@ const LearnerDashboard: React.FC<LearnerDashboardProps> = ({
 
                                 {/* Learning Attempts Chart Community */}
                                 <Grid size={{ xs: 12, md: 2.5 }} sx={{ height: '100%' }}>
-                                    {statements.length > 0 && courseData && selectedLearnerId && (
+                                    {courseData && selectedLearnerId && (
                                         <LearningAttemptsCommunity
-                                            statements={statements}
                                             courseData={courseData}
-                                            learners={learnerProfiles}
+                                            statements={statements}
                                         />
                                     )}
                                 </Grid>
@@ -1,29 +1,25 @@
 import { Card, CardContent, CardHeader, Typography, Box, Divider } from '@mui/material';
 import { LearnerProfile } from '../types/types';
+import { defaultScenario } from '../data/learner-scenario';
 
 interface DistributionProps {
     learnerProfiles: LearnerProfile[];
 }
 
-const PERSONA_ORDER = [
-    'struggler',
-    'average',
-    'sprinter',
-    'gritty',
-    'coaster',
-    'outlierA',
-    'outlierB',
-    'outlierC',
-    'outlierD'
-];
+// Personas of the default scenario, listed even without learners if the cohort was generated from it
+const PERSONA_ORDER = defaultScenario.personas.map(persona => persona.type);
+
+// Colors of persona types without a fixed color, assigned by their position in the distribution
+const ADDITIONAL_COLORS = ['#F4A261', '#2A9D8F', '#E76F51', '#8AB17D', '#6D597A', '#E9C46A', '#5C7AEA', '#C08497'];
 
 /**
  * Returns a consistent color for each persona type for visual identification.
  * 
  * @param type - The persona type identifier
+ * @param index - Position of the type in the distribution, picks the color of unknown types
  * @returns Hex color code associated with the persona type
 */
-const getColorForPersonaType = (type: string): string => {
+const getColorForPersonaType = (type: string, index: number): string => {
     const colors = {
         struggler: '#FF6B6B',
         average: '#4ECDC4',
@@ -35,7 +31,7 @@ const getColorForPersonaType = (type: string): string => {
         outlierC: '#A5D6A7',
         outlierD: '#B39DDB'
     };
-    return colors[type as keyof typeof colors] || '#808080';
+    return colors[type as keyof typeof colors] || ADDITIONAL_COLORS[index % ADDITIONAL_COLORS.length];
 };
 
 /**
@@ -56,9 +52,13 @@ const LearnerDistribution = ({ learnerProfiles }: DistributionProps) => {
         const distribution: { [key: string]: { count: number; percentage: string } } = {};
         const total = learnerProfiles.length;
 
-        PERSONA_ORDER.forEach(type => {
-            distribution[type] = { count: 0, percentage: '0%' };
-        });
+        // Types of other scenarios are listed in the order they occur
+        const usesDefaultScenario = learnerProfiles.every(profile => PERSONA_ORDER.includes(profile.personaType));
+        if (usesDefaultScenario) {
+            PERSONA_ORDER.forEach(type => {
+                distribution[type] = { count: 0, percentage: '0%' };
+            });
+        }
 
         learnerProfiles.forEach(profile => {
             if (!distribution[profile.personaType]) {
@@ -98,7 +98,7 @@ const LearnerDistribution = ({ learnerProfiles }: DistributionProps) => {
                 </Box>
                 <Divider sx={{ mb: 3 }} />
                 <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
-                    {Object.entries(distribution).map(([type, data]) => (
+                    {Object.entries(distribution).map(([type, data], index) => (
                         <Box key={type} sx={{ width: '100%' }}>
                             <Box sx={{
                                 display: 'flex',
@@ -112,7 +112,7 @@ const LearnerDistribution = ({ learnerProfiles }: DistributionProps) => {
                                             width: 12,
                                             height: 12,
                                             borderRadius: '50%',
-                                            backgroundColor: getColorForPersonaType(type)
+                                            backgroundColor: getColorForPersonaType(type, index)
                                         }}
                                     />
                                     <Typography sx={{
@@ -135,7 +135,7 @@ const LearnerDistribution = ({ learnerProfiles }: DistributionProps) => {
                             }}>
                                 <Box sx={{
                                     width: data.percentage,
-                                    bgcolor: getColorForPersonaType(type),
+                                    bgcolor: getColorForPersonaType(type, index),
                                     height: '100%',
                                     transition: 'width 0.5s ease-in-out'
                                 }} />
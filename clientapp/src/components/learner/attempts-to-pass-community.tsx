@@ -1,63 +1,58 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer, Label, Legend } from 'recharts';
 import { Box, Typography, useTheme } from '@mui/material';
-import { XAPIStatement, LearnerProfile, CourseData } from '../../types/types';
+import { CourseData, LearnerMetrics, XAPIStatement } from '../../types/types';
+import AnalyticsService from '../../services/analytics-service';
+import { isAbortError } from '../../services/api-client';
+import { useThrottledValue } from '../../helper/statement-stream';
 
 interface LearningAttemptsCommunity {
-    statements: XAPIStatement[];
-    learners: LearnerProfile[];
     courseData: CourseData;
+    statements: XAPIStatement[];
 }
 
 /**
  * Visualizes the community's aggregate pass/fail attempts as a donut chart.
+ * The attempts are aggregated by the server, learners only see the metrics of the others without their identity.
  * 
  * @component
  * @param {Object} props - Component props
- * @param {XAPIStatement[]} props.statements - Array of xAPI statements for analysis
- * @param {LearnerProfile[]} props.learners - Array of learner profiles
  * @param {CourseData} props.courseData - Structured course data containing sections and activities
+ * @param {XAPIStatement[]} props.statements - Statements of the course, streamed statements refresh the metrics
  * 
  * @returns {React.ReactElement} A donut chart displaying community pass/fail attempts with percentage
  */
-const LearningAttemptsCommunity: React.FC<LearningAttemptsCommunity> = ({ statements, learners, courseData }) => {
+const LearningAttemptsCommunity: React.FC<LearningAttemptsCommunity> = ({ courseData, statements }) => {
     const theme = useTheme();
+    const [learnerMetrics, setLearnerMetrics] = useState<LearnerMetrics[]>([]);
+    const refreshedStatements = useThrottledValue(statements);
 
     const COLORS = ['#5E35B1', '#D1C4E9'];
 
+    useEffect(() => {
+        const controller = new AbortController();
+
+        new AnalyticsService().getLearnerMetrics(courseData.id, undefined, controller.signal)
+            .then(metrics => {
+                if (!controller.signal.aborted) setLearnerMetrics(metrics);
+            })
+            .catch(error => {
+                if (!isAbortError(error)) console.error('Error loading community metrics:', error);
+            });
+
+        return () => controller.abort();
+    }, [courseData, refreshedStatements]);
+
     /**
-     * Calculates and organizes community learning attempt statistics from xAPI statements.
+     * Sums the pass/fail attempts of all learners.
      * 
      * @returns {Object} Statistics about learning attempts across all learners
      * @property {number} failed - Total number of failed attempts across the community
      * @property {number} passed - Total number of passed attempts across the community
      * @property {number} totalAttempts - Total number of all attempts (passed + failed)
-     * @property {number} averageAttempts - Average number of attempts per activity
      */
     const attemptsData = useMemo(() => {
-        const attemptsMap: Record<string, { failed: number; passed: number }> = {};
-
-        learners.forEach(learner => {
-            statements.forEach(statement => {
-                if (statement.actor.mbox === learner.email) {
-                    if (statement.verb.id === "http://adlnet.gov/expapi/verbs/passed") {
-                        const activityId = statement.object.id;
-                        if (!attemptsMap[activityId]) {
-                            attemptsMap[activityId] = { failed: 0, passed: 0 };
-                        }
-                        attemptsMap[activityId].passed += 1;
-                    } else if (statement.verb.id === "http://adlnet.gov/expapi/verbs/failed") {
-                        const activityId = statement.object.id;
-                        if (!attemptsMap[activityId]) {
-                            attemptsMap[activityId] = { failed: 0, passed: 0 };
-                        }
-                        attemptsMap[activityId].failed += 1;
-                    }
-                }
-            });
-        });
-
-        const totalAttempts = Object.values(attemptsMap).reduce(
+        const totalAttempts = learnerMetrics.reduce(
             (acc, { failed, passed }) => {
                 acc.failed += failed;
                 acc.passed += passed;
@@ -66,16 +61,12 @@ const LearningAttemptsCommunity: React.FC<LearningAttemptsCommunity> = ({ statem
             { failed: 0, passed: 0 }
         );
 
-        const totalActivities = Object.keys(attemptsMap).length;
-        const averageAttempts = (totalAttempts.failed + totalAttempts.passed) / totalActivities;
-
         return {
             failed: totalAttempts.failed,
             passed: totalAttempts.passed,
-            totalAttempts: totalAttempts.failed + totalAttempts.passed, 
-            averageAttempts
+            totalAttempts: totalAttempts.failed + totalAttempts.passed
         };
-    }, [statements, learners]);
+    }, [learnerMetrics]);
 
     const passPercentage = (attemptsData.passed / attemptsData.totalAttempts) * 100;
 
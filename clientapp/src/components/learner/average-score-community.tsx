@@ -1,50 +1,58 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer, Label, Legend } from 'recharts';
 import { Box, Typography, useTheme } from '@mui/material';
-import { XAPIStatement, LearnerProfile, CourseData } from '../../types/types';
+import { CourseData, LearnerMetrics, XAPIStatement } from '../../types/types';
+import AnalyticsService from '../../services/analytics-service';
+import { isAbortError } from '../../services/api-client';
+import { useThrottledValue } from '../../helper/statement-stream';
 
 interface AverageScoreCommunity {
-    statements: XAPIStatement[];
-    learners: LearnerProfile[];
     courseData: CourseData; 
+    statements: XAPIStatement[];
 }
 
 /**
  * Visualizes the community's average score as a donut chart.
+ * The scores are aggregated by the server, learners only see the metrics of the others without their identity.
  * 
  * @component
  * @param {Object} props - Component props
- * @param {XAPIStatement[]} props.statements - Array of xAPI statements for analysis
- * @param {LearnerProfile[]} props.learners - Array of learner profiles
  * @param {CourseData} props.courseData - Structured course data
+ * @param {XAPIStatement[]} props.statements - Statements of the course, streamed statements refresh the metrics
  * 
  * @returns {React.ReactElement} A donut chart displaying the community's average score as a percentage
  */
-const AverageScoreChartCommunity: React.FC<AverageScoreCommunity> = ({ statements, learners, courseData }) => {
+const AverageScoreChartCommunity: React.FC<AverageScoreCommunity> = ({ courseData, statements }) => {
     const theme = useTheme();
+    const [learnerMetrics, setLearnerMetrics] = useState<LearnerMetrics[]>([]);
+    const refreshedStatements = useThrottledValue(statements);
+
+    useEffect(() => {
+        const controller = new AbortController();
+
+        new AnalyticsService().getLearnerMetrics(courseData.id, undefined, controller.signal)
+            .then(metrics => {
+                if (!controller.signal.aborted) setLearnerMetrics(metrics);
+            })
+            .catch(error => {
+                if (!isAbortError(error)) console.error('Error loading community metrics:', error);
+            });
+
+        return () => controller.abort();
+    }, [courseData, refreshedStatements]);
 
     /**
-     * Calculates the community's average score from scored xAPI statements.
-     * First calculates each learner's average, then averages those scores.
+     * Calculates the community's average score from the per learner averages.
      * 
      * @returns {number} Community average score as a percentage (0-100)
      */
     const averageScore = useMemo(() => {
-        const scores: number[] = [];
-
-        learners.forEach(learner => {
-            const userScores = statements
-                .filter(statement => statement.actor.mbox === learner.email && statement.verb.id === 'http://adlnet.gov/expapi/verbs/scored')
-                .map(statement => statement.result!.score!.scaled! * 100);
-
-            if (userScores.length > 0) {
-                const userAvgScore = userScores.reduce((sum, score) => sum + score, 0) / userScores.length;
-                scores.push(userAvgScore);
-            }
-        });
+        const scores = learnerMetrics
+            .filter(metrics => metrics.averageScore !== null)
+            .map(metrics => metrics.averageScore!);
 
         return scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0;
-    }, [statements, learners]);
+    }, [learnerMetrics]);
 
     const chartData = [
         { name: 'Average Score', value: averageScore },
@@ -1,13 +1,11 @@
 import React, { useMemo } from 'react';
 import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
 import { Box, Typography, useTheme } from '@mui/material';
-import { XAPIStatement, LearnerProfile, CourseData } from '../../types/types';
+import { StoredSession, LearnerProfile, CourseData } from '../../types/types';
 import dayjs from 'dayjs';
-import duration from 'dayjs/plugin/duration';
-dayjs.extend(duration);
 
 interface LearningTimeProps {
-    statements: XAPIStatement[];
+    sessions: StoredSession[];
     courseData: CourseData;
     learner: LearnerProfile;
 }
@@ -17,18 +15,17 @@ interface LearningTimeProps {
  * 
  * @component
  * @param {Object} props - Component props
- * @param {XAPIStatement[]} props.statements - Array of xAPI statements for analysis
+ * @param {StoredSession[]} props.sessions - Learning sessions of the learner
  * @param {CourseData} props.courseData - Structured course data containing sections and activities
  * @param {LearnerProfile} props.learner - The learner profile data
  * 
  * @returns {React.ReactElement} A line chart displaying learning time per day
  */
-const LearningTimeChart: React.FC<LearningTimeProps> = ({ statements, learner }) => {
+const LearningTimeChart: React.FC<LearningTimeProps> = ({ sessions, learner }) => {
     const theme = useTheme();
 
     /**
-     * Processes xAPI statements to extract daily learning time data.
-     * Filters for the current learner and "exited" verb statements with duration.
+     * Sums the duration of the learner's sessions per day of their start.
      * 
      * @returns {Array} Array of objects containing date and time spent data
      * @property {string} date - The date in YYYY-MM-DD format
@@ -37,22 +34,17 @@ const LearningTimeChart: React.FC<LearningTimeProps> = ({ statements, learner })
     const learningData = useMemo(() => {
         const timeMap: Record<string, number> = {};
 
-        statements
-            .filter(statement => statement.actor.mbox === learner.email && statement.verb.id === "http://adlnet.gov/expapi/verbs/exited")
-            .forEach(statement => {
-                const date = dayjs(statement.timestamp).format('YYYY-MM-DD');
-                const duration = statement.result?.duration
-                    ? dayjs.duration(statement.result.duration).asMinutes()
-                    : 0;
-                if (duration > 0) {
-                    timeMap[date] = (timeMap[date] || 0) + duration;
-                }
+        sessions
+            .filter(session => session.learner === learner.email && session.totalDuration > 0)
+            .forEach(session => {
+                const date = dayjs(session.startTime).format('YYYY-MM-DD');
+                timeMap[date] = (timeMap[date] || 0) + session.totalDuration;
             });
 
         return Object.entries(timeMap)
-            .map(([date, time]) => ({ date, time }))
+            .map(([date, time]) => ({ date, time: Math.round(time) }))
             .sort((a, b) => dayjs(a.date).isBefore(dayjs(b.date)) ? -1 : 1); 
-    }, [statements, learner]);
+    }, [sessions, learner]);
 
     return (
         <Box sx={{
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import {
+    Alert,
+    Box,
+    Button,
+    Card,
+    CardContent,
+    CircularProgress,
+    Stack,
+    TextField,
+    Typography
+} from '@mui/material';
+import LockIcon from '@mui/icons-material/Lock';
+import AuthService from '../services/auth-service';
+import { AuthUser } from '../types/types';
+
+interface LoginProps {
+    onLogin: (user: AuthUser) => void;
+}
+
+/**
+ * Login form shown before any dashboard is accessible
+ *
+ * @component
+ * @param {LoginProps} props - Component props
+ * @param {Function} props.onLogin - Called with the user after a successful login
+ * @returns {React.ReactElement} The rendered component
+ */
+const Login: React.FC<LoginProps> = ({ onLogin }) => {
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [loggingIn, setLoggingIn] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    /**
+     * Logs in with the entered credentials
+     */
+    const handleSubmit = async (event: React.FormEvent) => {
+        event.preventDefault();
+
+        setLoggingIn(true);
+        setError(null);
+        try {
+            const authService = new AuthService();
+            const user = await authService.login(username, password);
+
+            // Statement writer accounts belong to xAPI clients and have no dashboard
+            if (user.role === 'statement-writer') {
+                authService.logout();
+                setError('This account may only store statements and cannot open the dashboards');
+                return;
+            }
+            onLogin(user);
+        } catch (loginError) {
+            setError(loginError instanceof Error ? loginError.message : 'Unknown error');
+        } finally {
+            setLoggingIn(false);
+        }
+    };
+
+    return (
+        <Box sx={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', p: 2 }}>
+            <Card sx={{ width: '100%', maxWidth: 400 }}>
+                <CardContent>
+                    <Box component="form" onSubmit={handleSubmit}>
+                        <Stack spacing={2}>
+                            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, color: '#1565C0' }}>
+                                <LockIcon />
+                                <Typography variant="h6">Login</Typography>
+                            </Box>
+                            <TextField
+                                label="Username"
+                                size="small"
+                                autoComplete="username"
+                                value={username}
+                                onChange={event => setUsername(event.target.value)}
+                                required
+                                autoFocus
+                            />
+                            <TextField
+                                label="Password"
+                                type="password"
+                                size="small"
+                                autoComplete="current-password"
+                                value={password}
+                                onChange={event => setPassword(event.target.value)}
+                                required
+                            />
+                            {error && <Alert severity="error">{error}</Alert>}
+                            <Button
+                                type="submit"
+                                variant="contained"
+                                disabled={loggingIn}
+                                startIcon={loggingIn ? <CircularProgress size={16} /> : undefined}
+                            >
+                                Login
+                            </Button>
+                        </Stack>
+                    </Box>
+                </CardContent>
+            </Card>
+        </Box>
+    );
+};
+
+export default Login;
@@ -0,0 +1,705 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+    Alert,
+    Box,
+    Button,
+    Card,
+    CardContent,
+    CardHeader,
+    FormControlLabel,
+    LinearProgress,
+    Radio,
+    RadioGroup,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    TextField,
+    Typography
+} from '@mui/material';
+import Grid from '@mui/material/Grid2';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import RestartAltIcon from '@mui/icons-material/RestartAlt';
+import TimelineIcon from '@mui/icons-material/Timeline';
+import LearnerGenerator from '../data/learner-generator';
+import { defaultCourseStartDate } from '../data/xapi-generator';
+import { runGenerationJob } from '../data/generation-job';
+import { randomSeed } from '../data/random';
+import CourseDataGenerator from '../data/course-data-generator';
+import { DEFAULT_ACTIVITY_CONFIG } from '../data/activity-generator';
+import { defaultScenario, parseScenario, validateScenario } from '../data/learner-scenario';
+import { defaultCalendar, parseCalendar, validateCalendar, WEEKDAYS } from '../data/calendar-model';
+import GenerationJobService from '../services/generation-job-service';
+import SessionService from '../services/session-service';
+import {
+    ActivityConfig,
+    CalendarModel,
+    CourseData,
+    DropoutModel,
+    GenerationJob,
+    GenerationProgress,
+    LearnerProfile,
+    LearnerScenario,
+    PersonaMetric,
+    Verb,
+    Weekday
+} from '../types/types';
+
+interface SimulationProps {
+    courseData: CourseData;
+    learnerProfiles: LearnerProfile[];
+    verbs: Verb[];
+    onGenerated: () => void;
+}
+
+// Statements per upload request, keeps requests below the size limit of the server
+const UPLOAD_BATCH_SIZE = 5000;
+
+const PHASE_LABELS: Record<GenerationProgress['phase'], string> = {
+    learners: 'Generating learners',
+    sessions: 'Simulating learning sessions',
+    uploading: 'Uploading statements'
+};
+
+// Editable activity rules with their input constraints
+const ACTIVITY_FIELDS: { key: keyof ActivityConfig; label: string; helperText: string; min: number; max?: number; step: number }[] = [
+    { key: 'maxAttempts', label: 'Max attempts', helperText: 'Attempts per activity before a learner moves on', min: 1, step: 1 },
+    { key: 'passingScore', label: 'Passing score', helperText: 'Score (0-100) needed to pass an activity', min: 0, max: 100, step: 1 },
+    { key: 'progressThreshold', label: 'Progress threshold', helperText: 'Progress (0-1) after which an activity is scored', min: 0, max: 1, step: 0.05 },
+    { key: 'minSessionTime', label: 'Min session time', helperText: 'Minutes a session needs for another activity', min: 1, step: 1 },
+    { key: 'skipAheadProbability', label: 'Skip-ahead probability', helperText: 'Chance (0-1) of starting an activity before its prerequisites, unless set by the persona', min: 0, max: 1, step: 0.05 },
+    { key: 'itemBankSize', label: 'Item bank size', helperText: 'Questions in the item bank of each activity', min: 1, step: 1 },
+    { key: 'questionsPerAttempt', label: 'Questions per attempt', helperText: 'Questions drawn from the item bank for each attempt', min: 1, step: 1 }
+];
+
+/**
+ * Formats a date as value of a date input
+ * @param date - Date to format
+ * @returns Date in the format YYYY-MM-DD
+ */
+const toDateInputValue = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Describes a persona metric, constant or per phase
+ * @param metric - Metric definition
+ * @returns Readable description
+ */
+const describeMetric = (metric: PersonaMetric): string =>
+    typeof metric === 'object' ? `${metric.start} → ${metric.middle} → ${metric.end}` : String(metric);
+
+// Weekdays in the order of a course week in the calendar card
+const CALENDAR_WEEKDAYS: Weekday[] = [...WEEKDAYS.slice(1), WEEKDAYS[0]];
+
+/**
+ * Describes the dropout model of a persona
+ * @param dropout - Dropout settings of the persona
+ * @returns Readable description
+ */
+const describeDropout = (dropout?: Partial<DropoutModel>): string =>
+    dropout
+        ? `${((dropout.hazard ?? 0) * 100).toFixed(1)}% per week, returns ${((dropout.reengagement ?? 0) * 100).toFixed(0)}%`
+        : 'none';
+
+/**
+ * Admin tab for configuring and running the synthetic data generator
+ *
+ * Edits the cohort size, simulated weeks, course start date, activity rules, persona mix and calendar model,
+ * previews the expected learner distribution and replaces or appends the dataset of the course.
+ *
+ * @component
+ * @param {SimulationProps} props - Component props
+ * @param {CourseData} props.courseData - Course the data is generated for
+ * @param {LearnerProfile[]} props.learnerProfiles - Learners already stored for the course
+ * @param {Verb[]} props.verbs - Stored verbs, the verbs of the bundled profile are stored if empty
+ * @param {Function} props.onGenerated - Called after the dataset was stored
+ * @returns {React.ReactElement} The rendered component
+ */
+const Simulation: React.FC<SimulationProps> = ({ courseData, learnerProfiles, verbs, onGenerated }) => {
+    const [learnerCount, setLearnerCount] = useState('100');
+    const [numberOfWeeks, setNumberOfWeeks] = useState('12');
+    const [seed, setSeed] = useState('');
+    const [startDate, setStartDate] = useState(() => toDateInputValue(defaultCourseStartDate()));
+    const [activityConfig, setActivityConfig] = useState<ActivityConfig>(DEFAULT_ACTIVITY_CONFIG);
+    const [scenario, setScenario] = useState<LearnerScenario>(defaultScenario);
+    const [calendar, setCalendar] = useState<CalendarModel>(defaultCalendar);
+    const [mode, setMode] = useState<'replace' | 'append'>('replace');
+    const [progress, setProgress] = useState<GenerationProgress | null>(null);
+    const [running, setRunning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [result, setResult] = useState<string | null>(null);
+    const [unfinishedJobs, setUnfinishedJobs] = useState<GenerationJob[]>([]);
+    const scenarioInputRef = useRef<HTMLInputElement | null>(null);
+    const calendarInputRef = useRef<HTMLInputElement | null>(null);
+
+    const totalShare = scenario.personas.reduce((sum, persona) => sum + persona.share, 0);
+
+    const expectedDistribution = useMemo(() => {
+        const count = Number(learnerCount);
+        if (!Number.isInteger(count) || count < 1) return {};
+        return new LearnerGenerator(scenario).getExpectedDistribution(count);
+    }, [scenario, learnerCount]);
+
+    const expectedTotal = Object.values(expectedDistribution).reduce((sum, entry) => sum + entry.count, 0);
+
+    /**
+     * Checks the numeric settings
+     * @returns Error messages, empty if all settings are valid
+     */
+    const validateSettings = (): string[] => {
+        const errors: string[] = [];
+        const isCount = (value: string) => Number.isInteger(Number(value)) && Number(value) >= 1;
+
+        if (!isCount(learnerCount)) errors.push('Number of learners must be a positive integer');
+        if (!isCount(numberOfWeeks)) errors.push('Number of weeks must be a positive integer');
+        if (seed !== '' && !(Number.isInteger(Number(seed)) && Number(seed) >= 0)) errors.push('Seed must be a non-negative integer');
+        if (isNaN(new Date(startDate).getTime())) errors.push('Course start date is invalid');
+
+        ACTIVITY_FIELDS.forEach(field => {
+            const value = activityConfig[field.key];
+            if (!isFinite(value) || value < field.min || (field.max !== undefined && value > field.max)) {
+                errors.push(field.max !== undefined
+                    ? `${field.label} must be between ${field.min} and ${field.max}`
+                    : `${field.label} must be at least ${field.min}`);
+            }
+        });
+        if (activityConfig.questionsPerAttempt > activityConfig.itemBankSize) {
+            errors.push('Questions per attempt must not exceed the item bank size');
+        }
+
+        return errors;
+    };
+
+    /**
+     * Updates the share of a persona, entered as percentage
+     */
+    const handleShareChange = (type: string, percentage: string) => {
+        const share = Number(percentage) / 100;
+        setScenario(current => ({
+            ...current,
+            personas: current.personas.map(persona =>
+                persona.type === type ? { ...persona, share: isFinite(share) ? share : 0 } : persona)
+        }));
+    };
+
+    /**
+     * Replaces the persona mix with a scenario file
+     */
+    const handleScenarioFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        try {
+            setScenario(parseScenario(await file.text(), file.name));
+            setError(null);
+        } catch (scenarioError) {
+            setError(scenarioError instanceof Error ? scenarioError.message : 'Unknown error');
+        }
+    };
+
+    /**
+     * Updates the session weight of a weekday
+     */
+    const handleWeekdayWeightChange = (day: Weekday, value: string) => {
+        const weight = Number(value);
+        setCalendar(current => ({
+            ...current,
+            weekdayWeights: { ...current.weekdayWeights, [day]: isFinite(weight) ? weight : 0 }
+        }));
+    };
+
+    /**
+     * Replaces the calendar model with a calendar file
+     */
+    const handleCalendarFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        try {
+            setCalendar(parseCalendar(await file.text(), file.name));
+            setError(null);
+        } catch (calendarError) {
+            setError(calendarError instanceof Error ? calendarError.message : 'Unknown error');
+        }
+    };
+
+    /**
+     * Loads the interrupted generation jobs of the course
+     */
+    const loadUnfinishedJobs = useCallback(async () => {
+        try {
+            setUnfinishedJobs(await new GenerationJobService().getUnfinishedJobs(courseData.id));
+        } catch {
+            setUnfinishedJobs([]);
+        }
+    }, [courseData.id]);
+
+    useEffect(() => {
+        loadUnfinishedJobs();
+    }, [loadUnfinishedJobs]);
+
+    /**
+     * Stores the learners of a generation job and streams its statements to the server
+     * @param job - New or interrupted job
+     */
+    const runJob = async (job: GenerationJob) => {
+        setRunning(true);
+        setError(null);
+        setResult(null);
+        try {
+            const generatorVerbs = verbs.length > 0 ? verbs : await new CourseDataGenerator().loadVerbs();
+            const { learners, uploaded } = await runGenerationJob(courseData, generatorVerbs, job, {
+                batchSize: UPLOAD_BATCH_SIZE,
+                onProgress: setProgress
+            });
+
+            const resumed = job.uploaded > 0 ? `, resumed after ${job.uploaded} statements` : '';
+            setResult(`${job.settings!.replaceExisting ? 'Generated' : 'Appended'} ${learners} learners and ${job.uploaded + uploaded} statements${resumed}`);
+            onGenerated();
+        } catch (generationError) {
+            setError(generationError instanceof Error ? generationError.message : 'Unknown error');
+        } finally {
+            setRunning(false);
+            setProgress(null);
+            loadUnfinishedJobs();
+        }
+    };
+
+    /**
+     * Generates learners and statements and stores them for the course
+     */
+    const handleGenerate = async () => {
+        const settingErrors = validateSettings();
+        if (settingErrors.length > 0) {
+            setError(settingErrors.join('\n'));
+            return;
+        }
+
+        try {
+            const validScenario = validateScenario(scenario);
+            const validCalendar = validateCalendar(calendar);
+            const append = mode === 'append';
+
+            // Appended learners continue the ids of the stored learners
+            const firstLearnerId = append
+                ? learnerProfiles.reduce((max, learner) => Math.max(max, Number(learner.id) || 0), 0) + 1
+                : 1;
+
+            if (Object.values(new LearnerGenerator(validScenario).getExpectedDistribution(Number(learnerCount)))
+                .every(entry => entry.count === 0)) {
+                throw new Error('The persona mix yields no learners, increase the shares or the number of learners');
+            }
+
+            // Jobs always have a seed, so an interrupted upload can be resumed with the same statements
+            const job = await new GenerationJobService().createJob(courseData.id, {
+                learners: Number(learnerCount),
+                firstLearnerId,
+                weeks: Number(numberOfWeeks),
+                seed: seed === '' ? randomSeed() : Number(seed),
+                replaceExisting: !append,
+                courseStartDate: new Date(`${startDate}T00:00:00`).toISOString(),
+                scenario: validScenario,
+                calendar: validCalendar,
+                activityConfig
+            });
+            await runJob(job);
+        } catch (generationError) {
+            setError(generationError instanceof Error ? generationError.message : 'Unknown error');
+        }
+    };
+
+    /**
+     * Continues an interrupted generation job where its upload stopped
+     * @param jobId - Id of the job
+     */
+    const handleResume = async (jobId: string) => {
+        try {
+            await runJob(await new GenerationJobService().getJob(jobId));
+        } catch (resumeError) {
+            setError(resumeError instanceof Error ? resumeError.message : 'Unknown error');
+        }
+    };
+
+    /**
+     * Reconstructs the sessions of learners without generated sessions from the stored statements
+     */
+    const handleReconstruct = async () => {
+        setRunning(true);
+        setError(null);
+        setResult(null);
+        try {
+            const { learners, sessions } = await new SessionService().reconstructSessions(courseData.id);
+            setResult(`Reconstructed ${sessions} sessions of ${learners} learners from their statements`);
+            onGenerated();
+        } catch (reconstructError) {
+            setError(reconstructError instanceof Error ? reconstructError.message : 'Unknown error');
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    const progressValue = progress && progress.total > 0 ? (progress.completed / progress.total) * 100 : 0;
+
+    return (
+        <Box sx={{ height: '100%', overflow: 'auto', py: 2 }}>
+            <Grid container spacing={3}>
+                <Grid size={{ xs: 12, md: 6 }}>
+                    <Card sx={{ height: '100%' }}>
+                        <CardHeader title="Cohort" sx={{ bgcolor: 'grey.100', borderBottom: 1, borderColor: 'grey.300' }} />
+                        <CardContent>
+                            <Grid container spacing={2}>
+                                <Grid size={{ xs: 12, sm: 6 }}>
+                                    <TextField
+                                        label="Number of learners"
+                                        type="number"
+                                        size="small"
+                                        fullWidth
+                                        value={learnerCount}
+                                        onChange={event => setLearnerCount(event.target.value)}
+                                        slotProps={{ htmlInput: { min: 1, step: 1 } }}
+                                    />
+                                </Grid>
+                                <Grid size={{ xs: 12, sm: 6 }}>
+                                    <TextField
+                                        label="Number of weeks"
+                                        type="number"
+                                        size="small"
+                                        fullWidth
+                                        value={numberOfWeeks}
+                                        onChange={event => setNumberOfWeeks(event.target.value)}
+                                        slotProps={{ htmlInput: { min: 1, step: 1 } }}
+                                    />
+                                </Grid>
+                                <Grid size={{ xs: 12, sm: 6 }}>
+                                    <TextField
+                                        label="Course start date"
+                                        type="date"
+                                        size="small"
+                                        fullWidth
+                                        value={startDate}
+                                        onChange={event => setStartDate(event.target.value)}
+                                        slotProps={{ inputLabel: { shrink: true } }}
+                                    />
+                                </Grid>
+                                <Grid size={{ xs: 12, sm: 6 }}>
+                                    <TextField
+                                        label="Seed"
+                                        type="number"
+                                        size="small"
+                                        fullWidth
+                                        value={seed}
+                                        onChange={event => setSeed(event.target.value)}
+                                        helperText="Optional, the same seed reproduces the same dataset"
+                                        slotProps={{ htmlInput: { min: 0, step: 1 } }}
+                                    />
+                                </Grid>
+                            </Grid>
+                        </CardContent>
+                    </Card>
+                </Grid>
+                <Grid size={{ xs: 12, md: 6 }}>
+                    <Card sx={{ height: '100%' }}>
+                        <CardHeader title="Activity Rules" sx={{ bgcolor: 'grey.100', borderBottom: 1, borderColor: 'grey.300' }} />
+                        <CardContent>
+                            <Grid container spacing={2}>
+                                {ACTIVITY_FIELDS.map(field => (
+                                    <Grid key={field.key} size={{ xs: 12, sm: 6 }}>
+                                        <TextField
+                                            label={field.label}
+                                            type="number"
+                                            size="small"
+                                            fullWidth
+                                            value={activityConfig[field.key]}
+                                            onChange={event => setActivityConfig(current => ({
+                                                ...current,
+                                                [field.key]: Number(event.target.value)
+                                            }))}
+                                            helperText={field.helperText}
+                                            slotProps={{ htmlInput: { min: field.min, max: field.max, step: field.step } }}
+                                        />
+                                    </Grid>
+                                ))}
+                            </Grid>
+                        </CardContent>
+                    </Card>
+                </Grid>
+                <Grid size={{ xs: 12 }}>
+                    <Card>
+                        <CardHeader
+                            title="Persona Mix"
+                            subheader={`Scenario: ${scenario.name}`}
+                            action={
+                                <Box sx={{ display: 'flex', gap: 1 }}>
+                                    <Button
+                                        startIcon={<UploadFileIcon />}
+                                        onClick={() => scenarioInputRef.current?.click()}
+                                        disabled={running}
+                                    >
+                                        Load Scenario
+                                    </Button>
+                                    <Button
+                                        startIcon={<RestartAltIcon />}
+                                        onClick={() => setScenario(defaultScenario)}
+                                        disabled={running}
+                                    >
+                                        Default
+                                    </Button>
+                                    <input
+                                        ref={scenarioInputRef}
+                                        type="file"
+                                        accept=".json,.yaml,.yml"
+                                        hidden
+                                        onChange={handleScenarioFile}
+                                    />
+                                </Box>
+                            }
+                            sx={{ bgcolor: 'grey.100', borderBottom: 1, borderColor: 'grey.300' }}
+                        />
+                        <CardContent>
+                            <Table size="small">
+                                <TableHead>
+                                    <TableRow>
+                                        <TableCell>Persona</TableCell>
+                                        <TableCell>Consistency</TableCell>
+                                        <TableCell>Scores</TableCell>
+                                        <TableCell>Duration</TableCell>
+                                        <TableCell>Effort</TableCell>
+                                        <TableCell>Skip Ahead</TableCell>
+                                        <TableCell>Dropout</TableCell>
+                                        <TableCell sx={{ width: 120 }}>Share (%)</TableCell>
+                                        <TableCell sx={{ width: 220 }}>Expected Learners</TableCell>
+                                    </TableRow>
+                                </TableHead>
+                                <TableBody>
+                                    {scenario.personas.map(persona => {
+                                        const expected = expectedDistribution[persona.type];
+                                        return (
+                                            <TableRow key={persona.type}>
+                                                <TableCell>
+                                                    <Typography variant="body2" sx={{ fontWeight: 500 }}>{persona.type}</Typography>
+                                                    {persona.description && (
+                                                        <Typography variant="caption" color="text.secondary">{persona.description}</Typography>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell>{describeMetric(persona.metrics.consistency)}</TableCell>
+                                                <TableCell>{describeMetric(persona.metrics.scores)}</TableCell>
+                                                <TableCell>{describeMetric(persona.metrics.duration)}</TableCell>
+                                                <TableCell>{describeMetric(persona.metrics.effort)}</TableCell>
+                                                <TableCell>{persona.skipAhead ?? activityConfig.skipAheadProbability}</TableCell>
+                                                <TableCell>{describeDropout(persona.dropout)}</TableCell>
+                                                <TableCell>
+                                                    <TextField
+                                                        type="number"
+                                                        size="small"
+                                                        value={Number((persona.share * 100).toFixed(2))}
+                                                        onChange={event => handleShareChange(persona.type, event.target.value)}
+                                                        slotProps={{ htmlInput: { min: 0, max: 100, step: 0.5, 'aria-label': `Share of ${persona.type}` } }}
+                                                    />
+                                                </TableCell>
+                                                <TableCell>
+                                                    <Typography variant="body2">
+                                                        {expected ? `${expected.count} (${expected.percentage})` : '-'}
+                                                    </Typography>
+                                                    <LinearProgress
+                                                        variant="determinate"
+                                                        value={expected ? parseFloat(expected.percentage) : 0}
+                                                        sx={{ height: 6, borderRadius: 1 }}
+                                                    />
+                                                </TableCell>
+                                            </TableRow>
+                                        );
+                                    })}
+                                </TableBody>
+                            </Table>
+                            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+                                Total share {(totalShare * 100).toFixed(1)}%, {expectedTotal} learners will be generated.
+                            </Typography>
+                        </CardContent>
+                    </Card>
+                </Grid>
+                <Grid size={{ xs: 12 }}>
+                    <Card>
+                        <CardHeader
+                            title="Calendar"
+                            subheader={`Calendar model: ${calendar.name}`}
+                            action={
+                                <Box sx={{ display: 'flex', gap: 1 }}>
+                                    <Button
+                                        startIcon={<UploadFileIcon />}
+                                        onClick={() => calendarInputRef.current?.click()}
+                                        disabled={running}
+                                    >
+                                        Load Calendar
+                                    </Button>
+                                    <Button
+                                        startIcon={<RestartAltIcon />}
+                                        onClick={() => setCalendar(defaultCalendar)}
+                                        disabled={running}
+                                    >
+                                        Default
+                                    </Button>
+                                    <input
+                                        ref={calendarInputRef}
+                                        type="file"
+                                        accept=".json,.yaml,.yml"
+                                        hidden
+                                        onChange={handleCalendarFile}
+                                    />
+                                </Box>
+                            }
+                            sx={{ bgcolor: 'grey.100', borderBottom: 1, borderColor: 'grey.300' }}
+                        />
+                        <CardContent>
+                            <Typography variant="subtitle2" sx={{ mb: 1 }}>Weekday weights</Typography>
+                            <Grid container spacing={2}>
+                                {CALENDAR_WEEKDAYS.map(day => (
+                                    <Grid key={day} size={{ xs: 6, sm: 3, md: 12 / 7 }}>
+                                        <TextField
+                                            label={day.charAt(0).toUpperCase() + day.slice(1)}
+                                            type="number"
+                                            size="small"
+                                            fullWidth
+                                            value={calendar.weekdayWeights[day]}
+                                            onChange={event => handleWeekdayWeightChange(day, event.target.value)}
+                                            slotProps={{ htmlInput: { min: 0, step: 0.1 } }}
+                                        />
+                                    </Grid>
+                                ))}
+                            </Grid>
+                            <Table size="small" sx={{ mt: 2 }}>
+                                <TableBody>
+                                    <TableRow>
+                                        <TableCell sx={{ width: 180 }}>Time zones</TableCell>
+                                        <TableCell>
+                                            {calendar.timeZones.length > 0
+                                                ? calendar.timeZones.map(entry => `${entry.timeZone} (${(entry.share * 100).toFixed(0)}%)`).join(', ')
+                                                : 'Local time zone of the browser'}
+                                        </TableCell>
+                                    </TableRow>
+                                    <TableRow>
+                                        <TableCell>Chronotypes</TableCell>
+                                        <TableCell>
+                                            {Object.keys(calendar.chronotypes).map(name => {
+                                                const chronotype = calendar.chronotypes[name];
+                                                const personas = Object.keys(calendar.personaChronotypes)
+                                                    .filter(type => calendar.personaChronotypes[type] === name);
+                                                const assigned = name === calendar.defaultChronotype
+                                                    ? 'all other personas'
+                                                    : personas.join(', ') || 'no personas';
+                                                return (
+                                                    <Typography key={name} variant="body2">
+                                                        {name}: {chronotype.startHour}-{chronotype.endHour} h
+                                                        {chronotype.peakHour !== undefined && `, peak ${chronotype.peakHour} h`} ({assigned})
+                                                    </Typography>
+                                                );
+                                            })}
+                                        </TableCell>
+                                    </TableRow>
+                                    <TableRow>
+                                        <TableCell>Blackout periods</TableCell>
+                                        <TableCell>
+                                            {calendar.blackoutPeriods.length > 0
+                                                ? calendar.blackoutPeriods.map(period =>
+                                                    `${period.name ? `${period.name} ` : ''}${period.start} - ${period.end}`).join(', ')
+                                                : 'None'}
+                                        </TableCell>
+                                    </TableRow>
+                                    <TableRow>
+                                        <TableCell>Deadlines</TableCell>
+                                        <TableCell>
+                                            {calendar.deadlines.length > 0
+                                                ? calendar.deadlines.map(deadline =>
+                                                    `${deadline.name || 'Assessment'} end of week ${deadline.week}`).join(', ')
+                                                : 'None'}
+                                        </TableCell>
+                                    </TableRow>
+                                </TableBody>
+                            </Table>
+                        </CardContent>
+                    </Card>
+                </Grid>
+                <Grid size={{ xs: 12 }}>
+                    <Card>
+                        <CardHeader title="Run" sx={{ bgcolor: 'grey.100', borderBottom: 1, borderColor: 'grey.300' }} />
+                        <CardContent>
+                            <Box sx={{ display: 'flex', alignItems: 'center', gap: 3, flexWrap: 'wrap' }}>
+                                <RadioGroup
+                                    row
+                                    value={mode}
+                                    onChange={event => setMode(event.target.value as 'replace' | 'append')}
+                                >
+                                    <FormControlLabel
+                                        value="replace"
+                                        control={<Radio />}
+                                        label="Replace the learners and statements of the course"
+                                        disabled={running}
+                                    />
+                                    <FormControlLabel
+                                        value="append"
+                                        control={<Radio />}
+                                        label="Append to the stored data"
+                                        disabled={running}
+                                    />
+                                </RadioGroup>
+                                <Button
+                                    variant="contained"
+                                    startIcon={<PlayArrowIcon />}
+                                    onClick={handleGenerate}
+                                    disabled={running}
+                                >
+                                    Generate
+                                </Button>
+                                <Button
+                                    variant="outlined"
+                                    startIcon={<TimelineIcon />}
+                                    onClick={handleReconstruct}
+                                    disabled={running}
+                                >
+                                    Reconstruct Sessions
+                                </Button>
+                            </Box>
+                            {unfinishedJobs.length > 0 && (
+                                <Alert severity="warning" sx={{ mt: 2 }}>
+                                    Interrupted runs of this course can be resumed where their upload stopped:
+                                    {unfinishedJobs.map(job => (
+                                        <Box key={job.id} sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 1 }}>
+                                            <Typography variant="body2">
+                                                {new Date(job.createdAt).toLocaleString()}, {job.uploaded} statements uploaded
+                                                {job.error && ` (${job.error})`}
+                                            </Typography>
+                                            <Button size="small" variant="outlined" onClick={() => handleResume(job.id)} disabled={running}>
+                                                Resume
+                                            </Button>
+                                        </Box>
+                                    ))}
+                                </Alert>
+                            )}
+                            {mode === 'append' && seed !== '' && (
+                                <Alert severity="info" sx={{ mt: 2 }}>
+                                    Appending with a seed used before repeats its statement ids, which the server rejects.
+                                </Alert>
+                            )}
+                            {progress && (
+                                <Box sx={{ mt: 2 }}>
+                                    <Typography variant="body2" color="text.secondary" gutterBottom>
+                                        {PHASE_LABELS[progress.phase]} ({progress.completed} / {progress.total})
+                                        {progress.statements !== undefined && `, ${progress.statements} statements`}
+                                    </Typography>
+                                    <LinearProgress variant="determinate" value={progressValue} />
+                                </Box>
+                            )}
+                            {error && <Alert severity="error" sx={{ mt: 2, whiteSpace: 'pre-line' }}>{error}</Alert>}
+                            {result && <Alert severity="success" sx={{ mt: 2 }}>{result}</Alert>}
+                        </CardContent>
+                    </Card>
+                </Grid>
+            </Grid>
+        </Box>
+    );
+};
+
+export default Simulation;
@@ -1,5 +1,14 @@
-import { useState, useMemo } from 'react';
-import { Verb, XAPIStatement, CourseData, LearnerProfile } from '../types/types';
+import { useState, useMemo, useEffect } from 'react';
+import {
+    Verb,
+    CourseData,
+    LearnerProfile,
+    LearnerMetrics,
+    ActivityMetrics,
+    SectionMetrics,
+    AnalyticsOverview,
+    XAPIStatement
+} from '../types/types';
 import {
     Card,
     CardContent,
@@ -19,7 +28,9 @@ import {
     SvgIconComponent,
 } from '@mui/icons-material';
 import LearnerDistribution from './learner-distribution';
-import { ParseDuration } from '../helper/helper';
+import AnalyticsService from '../services/analytics-service';
+import { isAbortError } from '../services/api-client';
+import { useThrottledValue } from '../helper/statement-stream';
 
 interface StatisticsProps {
     learnerProfiles: LearnerProfile[];
@@ -48,7 +59,7 @@ interface UsageListProps {
  * Displays statistics about learners, activities, and overall course engagement
  * 
  * @param learnerProfiles - Array of learner profiles
- * @param statements - Array of xAPI statements
+ * @param statements - Statements of the course, streamed statements refresh the metrics
  * @param verbs - Array of available verbs
  * @param courseData - Course structure and metadata
  * @returns Dashboard tab with multiple tabs for different data views
@@ -56,22 +67,46 @@ interface UsageListProps {
 const XAPIStatistics = ({ learnerProfiles, statements, verbs, courseData }: StatisticsProps) => {
     const [activeTab, setActiveTab] = useState<TabValue>('learners');
 
+    const [metrics, setMetrics] = useState<{
+        learners: LearnerMetrics[];
+        activities: ActivityMetrics[];
+        sections: SectionMetrics[];
+        overview: AnalyticsOverview;
+    } | null>(null);
+    const refreshedStatements = useThrottledValue(statements);
+
+    /**
+     * Loads the metrics aggregated by the server whenever the course or learners change,
+     * streamed statements reload them at most once per refresh interval
+    */
+    useEffect(() => {
+        const controller = new AbortController();
+        const analyticsService = new AnalyticsService();
+
+        Promise.all([
+            analyticsService.getLearnerMetrics(courseData.id, undefined, controller.signal),
+            analyticsService.getActivityMetrics(courseData.id, undefined, controller.signal),
+            analyticsService.getSectionMetrics(courseData, undefined, controller.signal),
+            analyticsService.getOverview(courseData.id, undefined, controller.signal)
+        ])
+            .then(([learners, activities, sections, overview]) => {
+                if (!controller.signal.aborted) setMetrics({ learners, activities, sections, overview });
+            })
+            .catch(error => {
+                if (!isAbortError(error)) console.error('Error loading statistics:', error);
+            });
+
+        return () => controller.abort();
+    }, [courseData, learnerProfiles, refreshedStatements]);
+
     /**
-     * Calculates and memoizes various statistics from xAPI statements
+     * Derives the displayed statistics from the server side metrics
      * Processes activity usage, section usage, verb usage, scores, completion rates, etc.
     */
     const stats = useMemo(() => {
         const activityUsage: Record<string, number> = {};
         const sectionUsage: Record<string, number> = {};
         const verbUsage: Record<string, number> = {};
-        const completedActivities = new Map<string, Set<string>>();
-        const learnerScores = new Map<string, number[]>(); 
-        const learnerDurations = new Map<string, number>();
-
-        learnerProfiles.forEach(learner => {
-            completedActivities.set(learner.email, new Set());
-            learnerDurations.set(learner.email, 0);
-        });
 
         courseData.sections.forEach(section => {
             sectionUsage[section.title] = 0;
@@ -80,86 +115,50 @@ const XAPIStatistics = ({ learnerProfiles, statements, verbs, courseData }: Stat
             });
         });
 
-        // Process each statement
-        statements.forEach(statement => {
-
-            const learnerEmail = statement.actor.mbox;
-
-            const verbId = statement.verb.id;
-            verbUsage[verbId] = (verbUsage[verbId] || 0) + 1;
-
-            const activityId = statement.object.definition.extensions?.[
-                'https://w3id.org/learning-analytics/learning-management-system/external-id'
-            ];
-            if (!activityId) return;
-
-            activityUsage[activityId] = (activityUsage[activityId] || 0) + 1;
-
-            const section = courseData.sections.find(s =>
-                s.activities.some(a => a.id === activityId)
-            );
-            if (section) {
-                sectionUsage[section.title] = (sectionUsage[section.title] || 0) + 1;
-            }
-
-            const isCompleted =
-                (statement.verb.id === 'http://adlnet.gov/expapi/verbs/completed') ||
-                (statement.result?.completion === true);
-
-            if (isCompleted) {
-                completedActivities.get(learnerEmail)!.add(activityId);
-            }
-
-            if (statement.result?.score?.raw !== undefined) {
-                if (!learnerScores.has(activityId)) {
-                    learnerScores.set(activityId, []);
-                }
-                learnerScores.get(activityId)!.push(statement.result.score.raw);
-            }
-
-            if (statement.result?.duration) {
-                const duration = ParseDuration(statement.result.duration);
-                const currentDuration = learnerDurations.get(learnerEmail) || 0;
-                const newDuration = currentDuration + duration;
-                learnerDurations.set(
-                    learnerEmail,
-                    newDuration
-                );
-            }
+        metrics?.activities.forEach(activity => {
+            activityUsage[activity.activityId] = activity.statements;
+        });
+        metrics?.sections.forEach(section => {
+            sectionUsage[section.section] = section.statements;
         });
+        metrics?.overview.verbUsage.forEach(({ verb, count }) => {
+            verbUsage[verb] = count;
+        });
+
+        const emails = new Set(learnerProfiles.map(learner => learner.email));
+        const profileMetrics = (metrics?.learners ?? []).filter(learner => emails.has(learner.learner));
 
         const totalActivities = courseData.sections.reduce(
             (acc, section) => acc + section.activities.length,
             0
         );
 
-        const avgCompletedPerLearner = completedActivities.size > 0
-            ? Array.from(completedActivities.values())
-                .reduce((acc, set) => acc + set.size, 0) / completedActivities.size
-            : 0;
+        const avgCompletedPerLearner = profileMetrics
+            .reduce((acc, learner) => acc + learner.completedActivities, 0) / Math.max(learnerProfiles.length, 1);
+
+        const scoredActivities = (metrics?.activities ?? []).filter(activity => activity.averageScore !== null);
+        const averageScore = scoredActivities
+            .reduce((acc, activity) => acc + activity.averageScore!, 0) / Math.max(scoredActivities.length, 1);
 
-        const averageScore =
-            Array.from(learnerScores.values())
-                .reduce((acc, scores) => acc + scores.reduce((a, b) => a + b, 0) / scores.length, 0) /
-            Math.max(learnerScores.size, 1);
+        const totalDuration = profileMetrics
+            .reduce((acc, learner) => acc + learner.totalDuration, 0);
+        const avgDuration = totalDuration / Math.max(learnerProfiles.length, 1);
 
-        const totalDuration = Array.from(learnerDurations.values())
-            .reduce((acc, duration) => acc + duration, 0);
-        const avgDuration = totalDuration / Math.max(learnerDurations.size, 1);
+        const totalStatements = metrics?.overview.totalStatements ?? 0;
 
         return {
             activityUsage,
             sectionUsage,
             verbUsage,
-            totalStatements: statements.length,
+            totalStatements,
             uniqueLearners: learnerProfiles.length,
-            statementsPerLearner: statements.length / learnerProfiles.length,
+            statementsPerLearner: totalStatements / learnerProfiles.length,
             averageScore,
             avgCompletedPerLearner,
             avgDuration,
             totalActivities
         };
-    }, [statements, courseData, learnerProfiles]);
+    }, [metrics, courseData, learnerProfiles]);
 
     /**
      * Displays a single statistic with icon, title, value and description
@@ -0,0 +1,51 @@
+import fs from 'fs';
+import path from 'path';
+import ActivityGenerator, { DEFAULT_ACTIVITY_CONFIG } from './activity-generator';
+import CourseDataGenerator from './course-data-generator';
+import { mulberry32 } from './random';
+import { LearnerProfile, XAPIProfile } from '../types/types';
+import bundledProfile from './files/xapi_profiles.json';
+
+const filesDir = path.join(__dirname, 'files');
+const courseDataGenerator = new CourseDataGenerator();
+const courseData = courseDataGenerator.buildCourseData(
+    fs.readFileSync(path.join(filesDir, 'ims_common_cartridge.xml'), 'utf8'),
+    courseDataGenerator.parseLOMFiles([fs.readFileSync(path.join(filesDir, 'lom11.xml'), 'utf8')]),
+    bundledProfile as XAPIProfile);
+
+const learner: LearnerProfile = {
+    id: 'learner',
+    email: 'learner@example.com',
+    personaType: 'struggling',
+    skipAhead: 0,
+    metrics: { consistency: 0.5, scores: 0.2, duration: 1, effort: 0.5 }
+};
+
+describe('ActivityGenerator', () => {
+    test('a learner failing a prerequisite in all attempts moves on section by section', () => {
+        // Nobody reaches the passing score, every activity ends after its last attempt
+        const generator = new ActivityGenerator(courseData, courseDataGenerator.parseVerbs(bundledProfile), 10, mulberry32(3),
+            { ...DEFAULT_ACTIVITY_CONFIG, passingScore: 101 });
+        const finished = new Set<string>();
+        const started: string[] = [];
+
+        for (let session = 0; session < 500; session++) {
+            const activities = generator.selectActivities(learner, 240, new Date(2024, 6, 11 + session), 1);
+            if (activities.length === 0) break;
+
+            activities.forEach(({ activity, completed }) => {
+                const section = courseData.sections.findIndex(candidate => candidate.activities.includes(activity));
+                const previousSection = courseData.sections.slice(0, section).reverse()
+                    .find(candidate => candidate.activities.length > 0);
+                const prerequisites = activity.prerequisites || previousSection?.activities.map(prerequisite => prerequisite.id) || [];
+
+                expect(prerequisites.filter(id => !finished.has(id))).toEqual([]);
+                started.push(activity.id);
+                if (completed) finished.add(activity.id);
+            });
+        }
+
+        const lastSection = [...courseData.sections].reverse().find(section => section.activities.length > 0)!;
+        expect(lastSection.activities.every(activity => started.includes(activity.id))).toBe(true);
+    });
+});
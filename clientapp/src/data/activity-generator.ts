@@ -1,4 +1,7 @@
-﻿import { CourseData, Verb, LearnerProfile, LearningInteraction, Activity, SessionActivity } from '../types/types';
+﻿import { v4 as uuidv4 } from 'uuid';
+import { CourseData, Verb, LearnerProfile, LearningInteraction, Activity, SessionActivity, ActivityConfig, AssessmentItem } from '../types/types';
+import { Random, randomBytes, randomNormal } from './random';
+import ItemBank from './item-bank';
 
 interface ActivityProgress {
     currentProgress: number;
@@ -6,6 +9,22 @@ interface ActivityProgress {
     lastVerb?: string;
     initialized: boolean;
     completed: boolean;
+    // Left unfinished in the last session, continued with a resumed event
+    suspended: boolean;
+    bestScore: number;
+}
+
+interface AttemptResult {
+    week: number;
+    score: number;
+    passed: boolean;
+}
+
+interface AssessmentResult {
+    // Shared by the answered and scored statements of the attempt
+    registration: string;
+    score: number;
+    answers: { item: AssessmentItem; response: string; success: boolean }[];
 }
 
 enum EventType {
@@ -17,30 +36,54 @@ enum EventType {
     FAILED = 'failed',
     COMPLETED = 'completed',
     RATED = 'rated',
-    EXITED = 'exited'
+    EXITED = 'exited',
+    SEARCHED = 'searched',
+    ANSWERED = 'answered',
+    PRESCRIBED = 'prescribed',
+    ACHIEVED = 'achieved',
+    SUSPENDED = 'suspended',
+    RESUMED = 'resumed'
 }
 
-interface ActivityConfig {
-    maxAttempts: number;
-    passingScore: number;
-    progressThreshold: number;
-    minSessionTime: number;
-    baseActivityDuration: number;
-}
+const ActivityTypes = {
+    OBJECTIVE: 'http://adlnet.gov/expapi/activities/objective',
+    RESOURCE: 'http://adlnet.gov/expapi/activities/resource',
+    BADGE: 'http://id.tincanapi.com/activitytype/badge'
+};
+
+export const Extensions = {
+    COURSE_ID: 'https://awt-lt.fokus.fraunhofer.de/api/traceData/profiles/extensions/course_id',
+    SEARCH_TERM: 'https://awt-lt.fokus.fraunhofer.de/api/traceData/profiles/extensions/search-term',
+    RESULTS_COUNT: 'https://awt-lt.fokus.fraunhofer.de/api/traceData/profiles/extensions/results-count'
+};
+
+// Chance of searching the course before starting an activity
+const SEARCH_PROBABILITY = 0.2;
+// Ability of a learner with a score metric of 0.5 is 0, each 0.1 of the metric adds 0.5
+const ABILITY_SCALE = 5;
+// Ability gained by each retry of an activity
+const RETRY_GAIN = 0.5;
+// Spread of the ability between attempts of a learner without any consistency
+const ABILITY_VARIATION = 1;
+// Recommendations name the recommender system as instructor, as recommended by the Target-score template
+const RECOMMENDER_MBOX = 'mailto:recommender@example.com';
 
 // Configuration
-const CONFIG: ActivityConfig = {
+export const DEFAULT_ACTIVITY_CONFIG: ActivityConfig = {
     maxAttempts: 3,
     passingScore: 50,
     progressThreshold: 0.8,
     minSessionTime: 15,
-    baseActivityDuration: 60
+    baseActivityDuration: 60,
+    skipAheadProbability: 0.1,
+    itemBankSize: 10,
+    questionsPerAttempt: 5
 };
 
 /**
  * ActivityGenerator manages the learning activity lifecycle including:
- * - Activity selection and progression
- * - Progress tracking and scoring
+ * - Activity selection and progression along the prerequisite graph
+ * - Progress tracking and scoring with question-level assessments
  * - Learning event generation
  * - Session time management
  */
@@ -53,13 +96,43 @@ class ActivityGenerator {
     private numberOfWeeks: number;
     private activityTotalDuration: Map<string, Map<string, number>> = new Map();
     private activityDurationTotal: number;
+    private readonly random: Random;
+    private readonly prerequisites: Map<string, string[]>;
+    private attemptHistory: Map<string, AttemptResult[]> = new Map();
+    private readonly itemBank: ItemBank;
 
-    constructor(courseData: CourseData, verbs: Verb[], numberOfWeeks: number, config: ActivityConfig = CONFIG,) {
+    constructor(courseData: CourseData, verbs: Verb[], numberOfWeeks: number, random: Random = Math.random, config: ActivityConfig = DEFAULT_ACTIVITY_CONFIG,) {
         this.courseData = courseData;
         this.verbs = verbs;
         this.numberOfWeeks = numberOfWeeks;
+        this.random = random;
         this.config = config;
         this.activityDurationTotal = 0;
+        this.prerequisites = this.buildPrerequisites();
+        this.itemBank = new ItemBank(random, config.itemBankSize, config.questionsPerAttempt);
+    }
+
+    /**
+     * Builds the prerequisite graph of the course.
+     * Declared prerequisites are used as they are, all other activities
+     * require the activities of the previous section in manifest order.
+     * 
+     * @returns Prerequisite activity ids keyed by activity id
+     */
+    private buildPrerequisites(): Map<string, string[]> {
+        const prerequisites = new Map<string, string[]>();
+        let previousSection: string[] = [];
+
+        this.courseData.sections.forEach(section => {
+            if (section.activities.length === 0) return;
+
+            section.activities.forEach(activity => {
+                prerequisites.set(activity.id, activity.prerequisites || previousSection);
+            });
+            previousSection = section.activities.map(activity => activity.id);
+        });
+
+        return prerequisites;
     }
 
     /**
@@ -118,11 +191,15 @@ class ActivityGenerator {
 
             let completed = false;
             let score = 0;
+            let assessment: AssessmentResult | undefined;
 
             if (willScore) {
                 progress.attempts++;
-                score = this.calculateScore(profile, currentActivity, currentWeek);
+                assessment = this.takeAssessment(profile, currentActivity, currentWeek);
+                score = assessment.score;
                 completed = score >= this.config.passingScore || progress.attempts >= this.config.maxAttempts;
+                progress.bestScore = Math.max(progress.bestScore, score);
+                this.recordAttempt(profile.id, { week: currentWeek, score, passed: score >= this.config.passingScore });
             }
 
             const endTime = new Date(currentTime.getTime() + activityDuration * 60000);
@@ -142,7 +219,8 @@ class ActivityGenerator {
                     progress,
                     willScore,
                     this.getTotalActivityDuration(profile.id, currentActivity.id),
-                    currentActivity
+                    currentActivity,
+                    assessment
                 )
             });
 
@@ -156,6 +234,12 @@ class ActivityGenerator {
             if (completed) {
                 progress.completed = true
                 this.currentActivities.delete(profile.id);
+
+                const badge = this.createSectionBadgeEvent(profile.id, currentActivity, endTime);
+                if (badge) {
+                    activities[activities.length - 1].interactions.push(badge);
+                }
+
                 // Get next activity immediately if there's enough time
                 if (remainingTime >= this.config.minSessionTime) {
                     currentActivity = this.getCurrentOrSelectActivity(profile);
@@ -175,6 +259,7 @@ class ActivityGenerator {
     /**
      * Retrieves current activity or selects a new random one.
      * Maintains activity continuity across sessions until completion/max attempts.
+     * New activities are picked from those with completed prerequisites, unless the learner skips ahead.
      * 
      * @param profile - Learner profile for activity tracking
      * @returns Current or new activity, undefined if no eligible activities
@@ -187,23 +272,29 @@ class ActivityGenerator {
             return availableActivities.find(a => a.id === currentActivityId);
         }
 
-        const eligibleActivities = availableActivities.filter(activity => {
-            const progress = this.getActivityProgress(profile.id, activity.id);
-            return !progress.completed && progress.attempts < this.config.maxAttempts;
-        });
+        const eligibleActivities = availableActivities.filter(activity =>
+            !this.isFinished(this.getActivityProgress(profile.id, activity.id)));
 
         if (eligibleActivities.length === 0) return undefined;
 
-        // Calculate total probability of eligible activities
-        const totalProbability = eligibleActivities.reduce((sum, activity) =>
+        // Locked activities are opened by skipping ahead
+        const unlockedActivities = eligibleActivities.filter(activity => this.isUnlocked(profile.id, activity));
+        const skipAhead = unlockedActivities.length < eligibleActivities.length &&
+            this.random() < (profile.skipAhead ?? this.config.skipAheadProbability);
+        const candidateActivities = skipAhead ? eligibleActivities
+            : unlockedActivities.length > 0 ? unlockedActivities
+            : this.getEarliestSectionActivities(eligibleActivities);
+
+        // Calculate total probability of candidate activities
+        const totalProbability = candidateActivities.reduce((sum, activity) =>
             sum + activity.probability, 0);
 
-        // Get random value scaled to total probability of eligible activities
-        const random = Math.random() * totalProbability;
+        // Get random value scaled to total probability of candidate activities
+        const random = this.random() * totalProbability;
         let cumulativeProbability = 0;
 
         // Select activity based on weighted probability
-        for (const activity of eligibleActivities) {
+        for (const activity of candidateActivities) {
             cumulativeProbability += activity.probability;
             if (random <= cumulativeProbability) {
                 this.currentActivities.set(profile.id, activity.id);
@@ -212,6 +303,68 @@ class ActivityGenerator {
         }
     }
 
+    /**
+     * Records the result of a scored attempt.
+     * 
+     * @param learnerId - Unique learner identifier
+     * @param result - Week, score and outcome of the attempt
+     */
+    private recordAttempt(learnerId: string, result: AttemptResult): void {
+        if (!this.attemptHistory.has(learnerId)) {
+            this.attemptHistory.set(learnerId, []);
+        }
+        this.attemptHistory.get(learnerId)!.push(result);
+    }
+
+    /**
+     * Gets the scored attempts of a learner since a course week.
+     * 
+     * @param learnerId - Unique learner identifier
+     * @param sinceWeek - First week to include
+     * @returns Scores (0-100) and outcomes of the attempts
+     */
+    public getRecentAttempts(learnerId: string, sinceWeek: number): { score: number; passed: boolean }[] {
+        return (this.attemptHistory.get(learnerId) || [])
+            .filter(attempt => attempt.week >= sinceWeek)
+            .map(({ score, passed }) => ({ score, passed }));
+    }
+
+    /**
+     * Checks if a learner is done with an activity, either completed or out of attempts.
+     * 
+     * @param progress - Progress of the learner in the activity
+     * @returns True if the activity is not started again
+     */
+    private isFinished(progress: ActivityProgress): boolean {
+        return progress.completed || progress.attempts >= this.config.maxAttempts;
+    }
+
+    /**
+     * Checks if a learner finished all prerequisites of an activity.
+     * A prerequisite failed in all attempts counts as finished, so the learner moves on to the next section.
+     * 
+     * @param learnerId - Unique learner identifier
+     * @param activity - Activity to check
+     * @returns True if the activity may be started
+     */
+    private isUnlocked(learnerId: string, activity: Activity): boolean {
+        return (this.prerequisites.get(activity.id) || [])
+            .every(prerequisiteId => this.isFinished(this.getActivityProgress(learnerId, prerequisiteId)));
+    }
+
+    /**
+     * Gets the activities of the earliest section with unfinished activities.
+     * Used if declared prerequisites form a cycle and lock every remaining activity.
+     * 
+     * @param eligibleActivities - Unfinished activities of the learner
+     * @returns Unfinished activities of the earliest section
+     */
+    private getEarliestSectionActivities(eligibleActivities: Activity[]): Activity[] {
+        const section = this.courseData.sections.find(candidate =>
+            candidate.activities.some(activity => eligibleActivities.includes(activity)));
+        return eligibleActivities.filter(activity => section?.activities.includes(activity));
+    }
+
     /**
      * Gets or initializes progress tracking for an activity.
      * Creates new progress record if none exists.
@@ -232,7 +385,9 @@ class ActivityGenerator {
                 attempts: 0,
                 completed: false,
                 lastVerb: '',
-                initialized: false
+                initialized: false,
+                suspended: false,
+                bestScore: 0
             });
         }
 
@@ -269,13 +424,14 @@ class ActivityGenerator {
         if (minutes > 0) duration += `${minutes}M`;
         if (seconds > 0) duration += `${seconds}S`;
 
-        return duration;
+        // A bare 'PT' is not a valid ISO 8601 duration
+        return duration === 'PT' ? 'PT0S' : duration;
     }
 
     /**
      * Generates standardized learning events for an activity session.
-     * Events follow xAPI verb patterns: initialized → launched → progressed → 
-     * [scored → passed/failed → completed → rated] or exited
+     * Events follow xAPI verb patterns: [searched] → initialized → launched → [resumed] → progressed →
+     * [answered → scored → passed/failed(→ prescribed) → completed → rated] or [suspended →] exited
      * 
      * @param startTime - Event sequence start time
      * @param duration - Activity duration in minutes
@@ -285,6 +441,7 @@ class ActivityGenerator {
      * @param willScore - Whether scoring will occur
      * @param totalDuration - Total time spent on this activity across sessions
      * @param currentActivity - The activity object being processed
+     * @param assessment - Answers of the attempt (if scored)
      * @returns Ordered array of learning events
      */
     private generateEvents(
@@ -295,31 +452,25 @@ class ActivityGenerator {
         progress: ActivityProgress,
         willScore: boolean,
         totalDuration: number,
-        currentActivity: Activity
+        currentActivity: Activity,
+        assessment?: AssessmentResult
     ): LearningInteraction[] {
         const events: LearningInteraction[] = [];
         let currentTime = new Date(startTime.getTime());
         const activityDuration = duration * 60000;
         const timeStep = Math.floor(activityDuration / 8);
 
-        const getVerb = (verbName: string): Verb => {
-            const verb = this.verbs.find(v => v.prefLabel === verbName);
-            if (!verb) {
-                return {
-                    id: `http://adlnet.gov/expapi/verbs/${verbName}`,
-                    type: 'Verb',
-                    prefLabel: verbName,
-                    definition: `Default definition for ${verbName}`
-                };
+        try {
+            // Learners look up activities they have not started yet
+            if (!progress.suspended && this.random() < SEARCH_PROBABILITY) {
+                events.push(this.createSearchEvent(currentActivity, currentTime));
+                currentTime = new Date(currentTime.getTime() + Math.min(timeStep, 30000));
             }
-            return verb;
-        };
 
-        try {
             // Initialize on first attempt
             if (progress.attempts === 1 && !progress.initialized) {
                 events.push({
-                    verb: getVerb(EventType.INITIALIZED),
+                    verb: this.getVerb(EventType.INITIALIZED),
                     timestamp: new Date(currentTime),
                     result: {
                         success: true,
@@ -333,16 +484,28 @@ class ActivityGenerator {
 
             // Always start with launched for each session
             events.push({
-                verb: getVerb(EventType.LAUNCHED),
+                verb: this.getVerb(EventType.LAUNCHED),
                 timestamp: new Date(currentTime),
                 result: undefined
             });
+
+            // Continue an attempt left unfinished in an earlier session
+            if (progress.suspended) {
+                events.push({
+                    verb: this.getVerb(EventType.RESUMED),
+                    timestamp: new Date(currentTime),
+                    result: {
+                        progress: progress.currentProgress
+                    }
+                });
+                progress.suspended = false;
+            }
             currentTime = new Date(currentTime.getTime() + timeStep);
 
             // Add progress event
             if (duration > 5) {
                 events.push({
-                    verb: getVerb(EventType.PROGRESSED),
+                    verb: this.getVerb(EventType.PROGRESSED),
                     timestamp: new Date(currentTime),
                     result: {
                         progress: progress.currentProgress,
@@ -357,8 +520,13 @@ class ActivityGenerator {
 
             // Scoring and completion logic
             if (willScore) {
+                if (assessment) {
+                    events.push(...this.createAnswerEvents(assessment, currentTime, timeStep));
+                    currentTime = new Date(currentTime.getTime() + timeStep);
+                }
+
                 events.push({
-                    verb: getVerb(EventType.SCORED),
+                    verb: this.getVerb(EventType.SCORED),
                     timestamp: new Date(currentTime),
                     result: {
                         score: {
@@ -367,14 +535,15 @@ class ActivityGenerator {
                             max: 100,
                             scaled: score / 100
                         }
-                    }
+                    },
+                    registration: assessment?.registration
                 });
                 lastVerb = EventType.SCORED;
                 currentTime = new Date(currentTime.getTime() + timeStep);
 
                 if (score >= this.config.passingScore) {
                     events.push({
-                        verb: getVerb(EventType.PASSED),
+                        verb: this.getVerb(EventType.PASSED),
                         timestamp: new Date(currentTime),
                         result: {
                             score: {
@@ -391,7 +560,7 @@ class ActivityGenerator {
 
                     if (completed) {
                         events.push({
-                            verb: getVerb(EventType.COMPLETED),
+                            verb: this.getVerb(EventType.COMPLETED),
                             timestamp: new Date(currentTime),
                             result: {
                                 completion: true,
@@ -403,15 +572,16 @@ class ActivityGenerator {
                         currentTime = new Date(currentTime.getTime() + timeStep);
 
                         // Add rated after completion
+                        const rating = this.generateRating(currentActivity);
                         events.push({
-                            verb: getVerb(EventType.RATED),
+                            verb: this.getVerb(EventType.RATED),
                             timestamp: new Date(currentTime),
                             result: {
                                 score: {
-                                    raw: this.generateRating(currentActivity),
+                                    raw: rating,
                                     min: 1,
                                     max: 10,
-                                    scaled: score / 10
+                                    scaled: rating / 10
                                 },
                                 completion: true,
                                 success: true
@@ -421,7 +591,7 @@ class ActivityGenerator {
                     }
                 } else {
                     events.push({
-                        verb: getVerb(EventType.FAILED),
+                        verb: this.getVerb(EventType.FAILED),
                         timestamp: new Date(currentTime),
                         result: {
                             score: {
@@ -435,13 +605,32 @@ class ActivityGenerator {
                         }
                     });
                     lastVerb = EventType.FAILED;
+
+                    // The recommender prescribes the passing score as target of the next attempt
+                    if (!completed) {
+                        events.push(this.createPrescriptionEvent(currentActivity, currentTime));
+                    }
                 }
             }
 
+            // Unfinished attempts are suspended and resumed in a later session
+            if (!completed) {
+                events.push({
+                    verb: this.getVerb(EventType.SUSPENDED),
+                    timestamp: new Date(currentTime),
+                    result: {
+                        progress: progress.currentProgress,
+                        completion: false,
+                        duration: this.getDuration(startTime, currentTime)
+                    }
+                });
+                progress.suspended = true;
+            }
+
             // Exit if not completed/rated
             if (lastVerb !== EventType.RATED) {
                 events.push({
-                    verb: getVerb(EventType.EXITED),
+                    verb: this.getVerb(EventType.EXITED),
                     timestamp: new Date(currentTime),
                     result: {
                         duration: this.getDuration(startTime, currentTime)
@@ -456,7 +645,7 @@ class ActivityGenerator {
         } catch (error) {
             console.error('Error generating events:', error);
             return [{
-                verb: getVerb(EventType.INITIALIZED),
+                verb: this.getVerb(EventType.INITIALIZED),
                 timestamp: startTime,
                 result: undefined
             }];
@@ -473,7 +662,7 @@ class ActivityGenerator {
     private generateRating(currentActivity: Activity): number {
         const adjustment = currentActivity.rating;
 
-        const rawRandom = Math.random();
+        const rawRandom = this.random();
 
         let skewedRandom;
         if (adjustment >= 0.5) {
@@ -517,27 +706,216 @@ class ActivityGenerator {
     }
 
     /**
-     * Calculates activity score based on:
-     * - Base score (learner's score metric * 100)
-     * - Difficulty adjustment ((1 - difficulty) * 20)
-     * - Attempt bonus ((attempts - 1) * 15)
-     * - Random variation based on consistency
+     * Finds a verb of the profile by its label.
+     * Verbs missing from the stored verbs get an ADL verb id.
      * 
-     * @returns Score between 0-100
+     * @param verbName - Verb label like completed
+     * @returns The matching verb
      */
-    private calculateScore(
-        profile: LearnerProfile,
-        activity: Activity,
-        currentWeek: number,
-    ): number {
+    private getVerb(verbName: string): Verb {
+        const verb = this.verbs.find(v => v.prefLabel === verbName);
+        if (!verb) {
+            return {
+                id: `http://adlnet.gov/expapi/verbs/${verbName}`,
+                type: 'Verb',
+                prefLabel: verbName,
+                definition: `Default definition for ${verbName}`
+            };
+        }
+        return verb;
+    }
+
+    /**
+     * Gets the IRI of the course, parent of course wide objects like the search and badges.
+     * 
+     * @returns Course IRI
+     */
+    private getCourseIri(): string {
+        return `https://example.com/courses/${encodeURIComponent(this.courseData.id)}`;
+    }
+
+    /**
+     * Simulates an assessment attempt: questions are drawn from the item bank of the activity
+     * and answered by the ability of the learner, the score is the share of correct answers.
+     * 
+     * @param profile - Learner taking the assessment
+     * @param activity - Assessed activity
+     * @param currentWeek - Current week number (affects phase-based metrics)
+     * @returns Answers and score (0-100) of the attempt
+     */
+    private takeAssessment(profile: LearnerProfile, activity: Activity, currentWeek: number): AssessmentResult {
         const progress = this.getActivityProgress(profile.id, activity.id);
-        const baseScore = this.getMetricValue(profile, 'scores', currentWeek) * 100;
-        const difficultyImpact = (1 - activity.difficulty) * 30;
-        const attemptBonus = (progress.attempts - 1) * 20;
+        const ability = this.getAbility(profile, progress.attempts, currentWeek);
+        const answers = this.itemBank.drawForm(activity).map(item => ({ item, ...this.itemBank.answer(item, ability) }));
+        const correctCount = answers.filter(answer => answer.success).length;
+
+        return {
+            registration: uuidv4({ random: randomBytes(this.random) }),
+            score: Math.round((correctCount / answers.length) * 100),
+            answers
+        };
+    }
+
+    /**
+     * Gets the ability of a learner in an attempt on the scale of the item difficulties.
+     * The ability follows the score metric of the learner, rises with each retry
+     * and varies between attempts the less consistent the learner is.
+     * 
+     * @param profile - Learner taking the assessment
+     * @param attempts - Number of the attempt, starting at 1
+     * @param currentWeek - Current week number (affects phase-based metrics)
+     * @returns Ability, 0 for a learner with a score metric of 0.5
+     */
+    private getAbility(profile: LearnerProfile, attempts: number, currentWeek: number): number {
+        const baseAbility = (this.getMetricValue(profile, 'scores', currentWeek) - 0.5) * ABILITY_SCALE;
         const consistency = this.getMetricValue(profile, 'consistency', currentWeek);
-        const variation = Math.floor(Math.random() * ((1 - consistency) * 15)) - ((1 - consistency) * 7.5);
+        const variation = randomNormal(this.random) * (1 - consistency) * ABILITY_VARIATION;
+
+        return baseAbility + (attempts - 1) * RETRY_GAIN + variation;
+    }
+
+    /**
+     * Generates the answered events of an attempt, one per question.
+     * 
+     * @param assessment - Answers of the attempt
+     * @param startTime - Time of the first answer
+     * @param timeSpan - Milliseconds spent answering all questions
+     * @returns Answered events sharing the registration of the attempt
+     */
+    private createAnswerEvents(assessment: AssessmentResult, startTime: Date, timeSpan: number): LearningInteraction[] {
+        const step = Math.floor(timeSpan / assessment.answers.length);
+
+        return assessment.answers.map(({ item, response, success }, index) => {
+            const timestamp = new Date(startTime.getTime() + index * step);
+
+            return {
+                verb: this.getVerb(EventType.ANSWERED),
+                timestamp,
+                object: item.question,
+                result: {
+                    response,
+                    success,
+                    score: {
+                        raw: success ? 1 : 0,
+                        min: 0,
+                        max: 1,
+                        scaled: success ? 1 : 0
+                    },
+                    duration: this.getDuration(timestamp, new Date(timestamp.getTime() + step))
+                },
+                registration: assessment.registration
+            };
+        });
+    }
+
+    /**
+     * Generates a search of the course for a term of the activity title.
+     * 
+     * @param activity - Activity the learner looks for
+     * @param timestamp - Time of the search
+     * @returns Searched event with the search term and number of matching activities
+     */
+    private createSearchEvent(activity: Activity, timestamp: Date): LearningInteraction {
+        const terms = activity.title.split(/[\s/,.()-]+/).filter(term => term.length > 3);
+        const term = (terms.length > 0 ? terms[Math.floor(this.random() * terms.length)] : activity.title).toLowerCase();
+        const resultsCount = this.courseData.sections
+            .flatMap(section => section.activities)
+            .filter(candidate => candidate.title.toLowerCase().includes(term))
+            .length;
+
+        return {
+            verb: this.getVerb(EventType.SEARCHED),
+            timestamp: new Date(timestamp),
+            object: {
+                id: `${this.getCourseIri()}/search`,
+                type: ActivityTypes.RESOURCE,
+                name: `Search in ${this.courseData.title}`,
+                parentId: this.getCourseIri()
+            },
+            extensions: {
+                [Extensions.SEARCH_TERM]: term,
+                [Extensions.RESULTS_COUNT]: resultsCount
+            }
+        };
+    }
 
-        return Math.round(Math.min(100, Math.max(0, baseScore + difficultyImpact + attemptBonus + variation)));
+    /**
+     * Generates the recommendation to retry a failed activity with the passing score as target.
+     * 
+     * @param activity - Failed activity
+     * @param timestamp - Time of the recommendation
+     * @returns Prescribed event naming the recommender as instructor
+     */
+    private createPrescriptionEvent(activity: Activity, timestamp: Date): LearningInteraction {
+        return {
+            verb: this.getVerb(EventType.PRESCRIBED),
+            timestamp: new Date(timestamp),
+            object: {
+                id: `${activity.href}#objective`,
+                type: ActivityTypes.OBJECTIVE,
+                name: `Objective of ${activity.title}`,
+                parentId: activity.href
+            },
+            result: {
+                score: {
+                    raw: this.config.passingScore,
+                    min: 0,
+                    max: 100,
+                    scaled: this.config.passingScore / 100
+                }
+            },
+            instructor: { mbox: RECOMMENDER_MBOX },
+            extensions: {
+                [Extensions.COURSE_ID]: this.courseData.id
+            }
+        };
+    }
+
+    /**
+     * Generates the badge of a section once a learner passed all of its activities.
+     * 
+     * @param learnerId - Unique learner identifier
+     * @param activity - Activity completed last
+     * @param timestamp - Time the badge is awarded
+     * @returns Achieved event, undefined if the section is not passed yet
+     */
+    private createSectionBadgeEvent(learnerId: string, activity: Activity, timestamp: Date): LearningInteraction | undefined {
+        const sectionIndex = this.courseData.sections.findIndex(section =>
+            section.activities.some(candidate => candidate.id === activity.id));
+        if (sectionIndex === -1) return undefined;
+
+        const section = this.courseData.sections[sectionIndex];
+        const results = section.activities.map(candidate => this.getActivityProgress(learnerId, candidate.id));
+        if (!results.every(result => result.completed && result.bestScore >= this.config.passingScore)) {
+            return undefined;
+        }
+
+        const averageScore = Math.round(results.reduce((sum, result) => sum + result.bestScore, 0) / results.length);
+        const totalDuration = section.activities
+            .reduce((sum, candidate) => sum + this.getTotalActivityDuration(learnerId, candidate.id), 0);
+
+        return {
+            verb: this.getVerb(EventType.ACHIEVED),
+            timestamp: new Date(timestamp),
+            object: {
+                id: `${this.getCourseIri()}/badges/section-${sectionIndex + 1}`,
+                type: ActivityTypes.BADGE,
+                name: `${section.title} badge`,
+                description: `Passed all activities of ${section.title}`,
+                parentId: this.getCourseIri()
+            },
+            result: {
+                score: {
+                    raw: averageScore,
+                    min: 0,
+                    max: 100,
+                    scaled: averageScore / 100
+                },
+                success: true,
+                completion: true,
+                duration: this.formatDuration(totalDuration)
+            }
+        };
     }
 
     /**
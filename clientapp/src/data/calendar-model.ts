@@ -0,0 +1,275 @@
+import { parse as parseYaml } from 'yaml';
+import { AssessmentDeadline, CalendarModel, ScenarioValidationIssue, Weekday } from '../types/types';
+import bundledCalendar from './files/calendar_model.json';
+
+// Ordered like Date.getDay()
+export const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const DEADLINE_DEFAULTS: Omit<AssessmentDeadline, 'name' | 'week'> = { leadDays: 3, boost: 3, extraSessions: 1 };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Thrown if a calendar document does not match the calendar model schema
+ */
+export class CalendarValidationError extends Error {
+    issues: ScenarioValidationIssue[];
+
+    constructor(issues: ScenarioValidationIssue[]) {
+        super(`Invalid calendar model:\n${issues.map(issue => `  ${issue.location}: ${issue.message}`).join('\n')}`);
+        this.name = 'CalendarValidationError';
+        this.issues = issues;
+    }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumberBetween = (value: unknown, min: number, max: number): value is number =>
+    typeof value === 'number' && isFinite(value) && value >= min && value <= max;
+
+/**
+ * Checks if a time zone is known to the runtime
+ * @param timeZone - IANA time zone name
+ */
+const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Checks if a YYYY-MM-DD string is a calendar date
+ * @param value - Date string
+ */
+const isValidDate = (value: unknown): value is string => {
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+    const [year, month, day] = value.split('-').map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+/**
+ * Validates a parsed calendar document
+ * Time zones, blackout periods, deadlines and persona chronotypes are optional,
+ * missing deadline settings are filled with defaults
+ * @param document - Parsed JSON or YAML document
+ * @returns The document as calendar model
+ * @throws CalendarValidationError listing all issues found
+ */
+export function validateCalendar(document: unknown): CalendarModel {
+    const issues: ScenarioValidationIssue[] = [];
+
+    if (!isObject(document)) {
+        throw new CalendarValidationError([{ location: '$', message: 'Calendar model must be an object' }]);
+    }
+    if (typeof document.name !== 'string' || !document.name.trim()) {
+        issues.push({ location: '$.name', message: 'Name is required' });
+    }
+    if (document.description !== undefined && typeof document.description !== 'string') {
+        issues.push({ location: '$.description', message: 'Description must be a string' });
+    }
+
+    if (!isObject(document.weekdayWeights)) {
+        issues.push({ location: '$.weekdayWeights', message: `Weights of ${WEEKDAYS.join(', ')} are required` });
+    } else {
+        WEEKDAYS.forEach(day => {
+            const weight = document.weekdayWeights[day];
+            if (typeof weight !== 'number' || !isFinite(weight) || weight < 0) {
+                issues.push({ location: `$.weekdayWeights.${day}`, message: 'Weight must be a number of at least 0' });
+            }
+        });
+        if (issues.length === 0 && WEEKDAYS.every(day => document.weekdayWeights[day] === 0)) {
+            issues.push({ location: '$.weekdayWeights', message: 'At least one day needs a weight above 0' });
+        }
+    }
+
+    const timeZones = document.timeZones ?? [];
+    if (!Array.isArray(timeZones)) {
+        issues.push({ location: '$.timeZones', message: 'Time zones must be a list' });
+    } else {
+        timeZones.forEach((entry: unknown, index: number) => {
+            const location = `$.timeZones[${index}]`;
+            if (!isObject(entry)) {
+                issues.push({ location, message: 'Time zone must be an object' });
+                return;
+            }
+            if (typeof entry.timeZone !== 'string' || !isValidTimeZone(entry.timeZone)) {
+                issues.push({ location: `${location}.timeZone`, message: 'Time zone must be an IANA time zone like Europe/Berlin' });
+            }
+            if (!isNumberBetween(entry.share, 0, 1)) {
+                issues.push({ location: `${location}.share`, message: 'Share must be a number between 0 and 1' });
+            }
+        });
+        if (timeZones.length > 0 && !timeZones.some((entry: unknown) => isObject(entry) && isNumberBetween(entry.share, 0, 1) && entry.share > 0)) {
+            issues.push({ location: '$.timeZones', message: 'At least one time zone needs a share above 0' });
+        }
+    }
+
+    const chronotypes = document.chronotypes;
+    if (!isObject(chronotypes) || Object.keys(chronotypes).length === 0) {
+        issues.push({ location: '$.chronotypes', message: 'At least one chronotype is required' });
+    } else {
+        Object.keys(chronotypes).forEach(name => {
+            const chronotype = chronotypes[name];
+            const location = `$.chronotypes.${name}`;
+            if (!isObject(chronotype)) {
+                issues.push({ location, message: 'Chronotype must be an object' });
+                return;
+            }
+            if (!isNumberBetween(chronotype.startHour, 0, 23)) {
+                issues.push({ location: `${location}.startHour`, message: 'Start hour must be a number between 0 and 23' });
+            }
+            if (!isNumberBetween(chronotype.endHour, 1, 24) || chronotype.endHour <= chronotype.startHour) {
+                issues.push({ location: `${location}.endHour`, message: 'End hour must be a number up to 24 after the start hour' });
+            }
+            if (chronotype.peakHour !== undefined &&
+                !isNumberBetween(chronotype.peakHour, chronotype.startHour, chronotype.endHour)) {
+                issues.push({ location: `${location}.peakHour`, message: 'Peak hour must be between the start and end hour' });
+            }
+        });
+    }
+
+    const isChronotype = (name: unknown) => typeof name === 'string' && isObject(chronotypes) && isObject(chronotypes[name]);
+    if (!isChronotype(document.defaultChronotype)) {
+        issues.push({ location: '$.defaultChronotype', message: 'Default chronotype must name one of the chronotypes' });
+    }
+
+    const personaChronotypes = document.personaChronotypes ?? {};
+    if (!isObject(personaChronotypes)) {
+        issues.push({ location: '$.personaChronotypes', message: 'Persona chronotypes must map persona types to chronotypes' });
+    } else {
+        Object.keys(personaChronotypes).forEach(type => {
+            if (!isChronotype(personaChronotypes[type])) {
+                issues.push({ location: `$.personaChronotypes.${type}`, message: `Unknown chronotype ${personaChronotypes[type]}` });
+            }
+        });
+    }
+
+    const blackoutPeriods = document.blackoutPeriods ?? [];
+    if (!Array.isArray(blackoutPeriods)) {
+        issues.push({ location: '$.blackoutPeriods', message: 'Blackout periods must be a list' });
+    } else {
+        blackoutPeriods.forEach((period: unknown, index: number) => {
+            const location = `$.blackoutPeriods[${index}]`;
+            if (!isObject(period)) {
+                issues.push({ location, message: 'Blackout period must be an object' });
+                return;
+            }
+            if (!isValidDate(period.start)) {
+                issues.push({ location: `${location}.start`, message: 'Start must be a date like 2024-12-23' });
+            }
+            if (!isValidDate(period.end)) {
+                issues.push({ location: `${location}.end`, message: 'End must be a date like 2025-01-01' });
+            } else if (isValidDate(period.start) && period.end < period.start) {
+                issues.push({ location: `${location}.end`, message: 'End must not be before the start' });
+            }
+        });
+    }
+
+    const deadlines = document.deadlines ?? [];
+    if (!Array.isArray(deadlines)) {
+        issues.push({ location: '$.deadlines', message: 'Deadlines must be a list' });
+    } else {
+        deadlines.forEach((deadline: unknown, index: number) => {
+            const location = `$.deadlines[${index}]`;
+            if (!isObject(deadline)) {
+                issues.push({ location, message: 'Deadline must be an object' });
+                return;
+            }
+            if (!Number.isInteger(deadline.week) || deadline.week < 1) {
+                issues.push({ location: `${location}.week`, message: 'Week must be a positive integer' });
+            }
+            if (deadline.leadDays !== undefined && !(Number.isInteger(deadline.leadDays) && deadline.leadDays >= 0)) {
+                issues.push({ location: `${location}.leadDays`, message: 'Lead days must be a non-negative integer' });
+            }
+            if (deadline.boost !== undefined && !(typeof deadline.boost === 'number' && isFinite(deadline.boost) && deadline.boost >= 1)) {
+                issues.push({ location: `${location}.boost`, message: 'Boost must be a number of at least 1' });
+            }
+            if (deadline.extraSessions !== undefined && !(Number.isInteger(deadline.extraSessions) && deadline.extraSessions >= 0)) {
+                issues.push({ location: `${location}.extraSessions`, message: 'Extra sessions must be a non-negative integer' });
+            }
+        });
+    }
+
+    if (issues.length > 0) {
+        throw new CalendarValidationError(issues);
+    }
+
+    return {
+        ...document,
+        timeZones,
+        personaChronotypes,
+        blackoutPeriods,
+        deadlines: deadlines.map((deadline: AssessmentDeadline) => ({ ...DEADLINE_DEFAULTS, ...deadline }))
+    } as CalendarModel;
+}
+
+/**
+ * Parses and validates a calendar model file
+ * @param text - File content
+ * @param fileName - Optional file name, .json files are parsed as JSON, all others as YAML
+ * @returns Validated calendar model
+ * @throws CalendarValidationError if the file cannot be parsed or is no valid calendar model
+ */
+export function parseCalendar(text: string, fileName: string = ''): CalendarModel {
+    let document: unknown;
+    try {
+        document = fileName.toLowerCase().endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new CalendarValidationError([{ location: '$', message: `Cannot parse calendar model: ${message}` }]);
+    }
+
+    return validateCalendar(document);
+}
+
+/**
+ * Calendar model bundled with the app, used if no other model is given
+ */
+export const defaultCalendar: CalendarModel = validateCalendar(bundledCalendar);
+
+/**
+ * Gets the offset of a time zone to UTC at a point in time
+ * @param timeZone - IANA time zone name
+ * @param date - Point in time, the offset changes with daylight saving time
+ * @returns Offset in minutes, positive east of UTC
+ */
+export function getTimeZoneOffset(timeZone: string, date: Date): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hour12: false,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric'
+    }).formatToParts(date);
+    const part = (type: string) => Number(parts.find(entry => entry.type === type)?.value);
+
+    // Some runtimes format midnight as hour 24
+    const localTime = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour') % 24, part('minute'), part('second'));
+    return Math.round((localTime - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Creates the point in time of a wall clock time in a time zone
+ * @param year - Year
+ * @param month - Month, 0-based like Date
+ * @param day - Day of the month
+ * @param hours - Hours, larger values continue on the next day
+ * @param minutes - Minutes
+ * @param timeZone - IANA time zone name
+ * @returns The matching date
+ */
+export function createZonedDate(year: number, month: number, day: number, hours: number, minutes: number, timeZone: string): Date {
+    const wallClock = Date.UTC(year, month, day, hours, minutes);
+    // The second pass corrects the offset if daylight saving time changes between both points in time
+    let offset = getTimeZoneOffset(timeZone, new Date(wallClock));
+    offset = getTimeZoneOffset(timeZone, new Date(wallClock - offset * 60000));
+    return new Date(wallClock - offset * 60000);
+}
@@ -1,7 +1,9 @@
 import LOMDataService from "../services/lom-service";
 import VerbService from "../services/verb-service";
+import CourseService from "../services/course-service";
 import { XMLParser } from 'fast-xml-parser';
-import { CourseData, Verb, Activity, LomData, CourseSection, XAPITemplate } from '../types/types';
+import { CourseData, Verb, Activity, LomData, CourseSection, XAPITemplate, XAPIProfile } from '../types/types';
+import bundledProfile from './files/xapi_profiles.json';
 
 
 export const usedVerbs = [
@@ -16,7 +18,10 @@ export const usedVerbs = [
     'rated',
     'searched',
     'progressed',
-    'launched'
+    'launched',
+    'answered',
+    'suspended',
+    'resumed'
 ];
 
 type ActivityId =
@@ -75,6 +80,7 @@ const ratingAdjustment = {
 class CourseDataGenerator {
     private lomDataService = new LOMDataService();
     private verbService = new VerbService();
+    private courseService = new CourseService();
     private templates: Map<string, any>;
     private verbToActivityType: Map<string, string>;
 
@@ -84,55 +90,92 @@ class CourseDataGenerator {
     }
 
     /**
-     * Parses an XML string into a DOM Document
-     * @param xmlString - The XML content to parse
-     * @returns Parsed XML Document
+     * Parses an IMS Common Cartridge manifest into a JavaScript object using `fast-xml-parser`.
+     * Namespace prefixes are removed and repeated elements are always returned as arrays.
+     * @param xmlText - The manifest XML content
+     * @returns Parsed manifest object
      */
-    private parseXMLString(xmlString: string): Document {
-        const parser = new DOMParser();
-        return parser.parseFromString(xmlString, 'application/xml');
+    private parseManifestXMLString(xmlText: string): any {
+        const parser = new XMLParser({
+            ignoreAttributes: false,
+            attributeNamePrefix: "",
+            textNodeName: "value",
+            removeNSPrefix: true,
+            parseTagValue: false,
+            trimValues: true,
+            isArray: (name) => ['item', 'resource', 'file', 'string'].includes(name)
+        });
+        return parser.parse(xmlText);
     }
 
     /**
-     * Safely extracts text content from an XML element
-     * @param element - The XML element to extract text from
+     * Safely extracts the text of a parsed element
+     * @param element - Parsed element, either text or an object with a value
      * @returns Trimmed text content or empty string
      */
-    private getTextContent(element: Element | null): string {
-        return element?.textContent?.trim() || '';
+    private getTextContent(element: any): string {
+        const value = Array.isArray(element) ? element[0] : element;
+        if (value === undefined || value === null) return '';
+        if (typeof value === 'object') return String(value.value ?? '').trim();
+        return String(value).trim();
+    }
+
+    /**
+     * Finds the LOM metadata of an activity
+     * Prefers the metadata file referenced by the activity's resource and falls back to the title
+     * @param href - File reference of the activity's resource
+     * @param title - Activity title
+     * @param lomData - Array of LOM metadata objects
+     * @param lomByPath - LOM metadata keyed by their path in the course package
+     * @returns Matching LOM metadata or undefined
+     */
+    private findLOM(href: string | undefined, title: string, lomData: LomData[], lomByPath: Map<string, LomData>): LomData | undefined {
+        if (href) {
+            const fileName = href.split('/').pop() || href;
+            const byPath = lomByPath.get(href) || lomByPath.get(fileName);
+            if (byPath) return byPath;
+
+            const byIdentifier = lomData.find(lom => lom.general.identifier.entry === href.replace(/\.xml$/, ''));
+            if (byIdentifier) return byIdentifier;
+        }
+
+        return lomData.find(lom => lom.classification.taxonPath.taxon.entry.string._ === title);
     }
 
     /**
-     * Creates an Activity object from XML item element and LOM metadata
-     * @param item - XML item element containing activity data
-     * @param xmlDoc - The complete XML document
+     * Creates an Activity object from a manifest item and LOM metadata
+     * @param item - Parsed manifest item containing activity data
+     * @param resources - Parsed manifest resources
      * @param lomData - Array of LOM metadata objects
+     * @param lomByPath - LOM metadata keyed by their path in the course package
+     * @param activityByLomId - Collects the activity ids by the identifier of their LOM metadata
      * @returns Activity object with combined data
      */
-    private createActivity(item: Element, xmlDoc: Document, lomData: LomData[]): Activity {
+    private createActivity(
+        item: any,
+        resources: any[],
+        lomData: LomData[],
+        lomByPath: Map<string, LomData>,
+        activityByLomId: Map<string, string>
+    ): Activity {
         const activity: Activity = {} as Activity;
 
-        const identifier = item.getAttribute('identifier') || '';
+        const identifier = item.identifier || '';
         activity.id = identifier;
-        activity.title = this.getTextContent(item.querySelector('title'));
+        activity.title = this.getTextContent(item.title);
 
-        // Get type and href from XML data 
-        const resource = xmlDoc.querySelector(`resource[identifier="${activity.id}"]`);
+        // Get href from the referenced resource
+        const resource = resources.find(r => r.identifier === item.identifierref);
 
-        const href = resource?.querySelector('file')?.getAttribute('href');
+        const href = resource?.file?.[0]?.href;
         if (href !== null && href !== undefined) {
             activity.href = href;
         }
 
         // Find matching LOM data
-        const matchingLOM = lomData.find(lom => {
-            const activityName = lom.classification.taxonPath.taxon.entry.string._;
-            return (
-                activityName === activity.title
-            );
-        });
+        const matchingLOM = this.findLOM(href, activity.title, lomData, lomByPath);
 
-        // Fill activity data from LOM
+        // Fill activity data from LOM, activities without metadata get neutral defaults
         if (matchingLOM) {
             activity.difficulty = this.mapLOMDifficultyToNumber(matchingLOM.educational.difficulty.value);
             activity.interactivityType = matchingLOM.educational.interactivityType.value;
@@ -142,11 +185,32 @@ class CourseDataGenerator {
             activity.estimatedDuration = this.parseTypicalLearningTime(matchingLOM.educational.typicalLearningTime.duration);
             activity.learningResourceType = matchingLOM.educational.learningResourceType.value;
             activity.description = '';
-        };
+
+            if (matchingLOM.general.identifier.entry) {
+                activityByLomId.set(String(matchingLOM.general.identifier.entry), identifier);
+            }
+
+            // Required resources are resolved to activity ids once all activities are created
+            const required = (matchingLOM.relation || [])
+                .filter(relation => relation.kind.value === 'requires' && relation.resource.identifier.entry)
+                .map(relation => String(relation.resource.identifier.entry));
+            if (required.length > 0) {
+                activity.prerequisites = required;
+            }
+        } else {
+            activity.difficulty = this.mapLOMDifficultyToNumber('');
+            activity.interactivityType = '';
+            activity.interactivityLevel = '';
+            activity.semanticDensity = '';
+            activity.typicalLearningTime = 'PT30M0S';
+            activity.estimatedDuration = this.parseTypicalLearningTime('PT30M0S');
+            activity.learningResourceType = '';
+            activity.description = '';
+        }
 
         // Set objectType from templates
-        activity.objectType = item.getAttribute('type') && this.verbToActivityType.get(item.getAttribute('type') || '') ?
-            this.verbToActivityType.get(item.getAttribute('type') || '') || '' :
+        activity.objectType = item.type && this.verbToActivityType.get(item.type) ?
+            this.verbToActivityType.get(item.type) || '' :
             'http://adlnet.gov/expapi/activities/course'
 
         // map probability for each activity
@@ -163,6 +227,18 @@ class CourseDataGenerator {
         return activity;
     }
 
+    /**
+     * Collects all items below a manifest item that reference a resource
+     * @param item - Parsed manifest item
+     * @returns Activity items in document order
+     */
+    private collectActivityItems(item: any): any[] {
+        return (item.item || []).flatMap((child: any) => [
+            ...(child.identifierref ? [child] : []),
+            ...this.collectActivityItems(child)
+        ]);
+    }
+
     /**
      * Maps LOM difficulty strings to numerical values
      * @param difficulty - LOM difficulty string
@@ -203,56 +279,109 @@ class CourseDataGenerator {
     }
 
     /**
-     * Loads and processes course data from XML manifest
+     * Builds the course structure from an IMS Common Cartridge manifest
+     * @param manifestXml - The manifest XML content
+     * @param lomData - Array of LOM metadata objects
+     * @param profile - xAPI profile mapping verbs to activity types
+     * @param lomByPath - LOM metadata keyed by their path in the course package
+     * @returns Structured course data
+     * @throws Error if the document is not a manifest
+     */
+    buildCourseData(manifestXml: string, lomData: LomData[], profile: XAPIProfile, lomByPath: Map<string, LomData> = new Map()): CourseData {
+        this.setProfileTemplates(profile);
+
+        const manifest = this.parseManifestXMLString(manifestXml).manifest;
+        if (!manifest) {
+            throw new Error('Invalid course package: imsmanifest.xml has no manifest element');
+        }
+
+        // Get title and description
+        const general = manifest.metadata?.lom?.general;
+
+        const courseStructure: CourseData = {
+            id: manifest.identifier || '',
+            title: this.getTextContent(general?.title?.string),
+            description: this.getTextContent(general?.description?.string),
+            sections: []
+        };
+
+        // Get organization structure
+        const organization = Array.isArray(manifest.organizations?.organization)
+            ? manifest.organizations.organization[0]
+            : manifest.organizations?.organization;
+        const rootItems: any[] = organization?.item?.[0]?.item || [];
+        const resources: any[] = manifest.resources?.resource || [];
+
+        const activityByLomId = new Map<string, string>();
+        courseStructure.sections = rootItems.map((section): CourseSection => ({
+            title: this.getTextContent(section.title),
+            activities: this.collectActivityItems(section)
+                .map(item => this.createActivity(item, resources, lomData, lomByPath, activityByLomId))
+        }));
+
+        // Prerequisites reference the LOM identifier or the manifest identifier of an activity
+        const activityIds = new Set(courseStructure.sections.flatMap(section => section.activities.map(activity => activity.id)));
+        courseStructure.sections.forEach(section => section.activities.forEach(activity => {
+            if (!activity.prerequisites) return;
+            activity.prerequisites = activity.prerequisites
+                .map(entry => activityByLomId.get(entry) || entry)
+                .filter((id, index, ids) => activityIds.has(id) && id !== activity.id && ids.indexOf(id) === index);
+        }));
+
+        return courseStructure;
+    }
+
+    /**
+     * Loads course data, imported courses are served from the database
+     * Falls back to the course files bundled with the app if the course was not imported
+     * @param courseId - Optional course to load, by default the most recently imported course
      * @returns Promise resolving to structured course data
      */
-    async loadCourseData(): Promise<CourseData> {
+    async loadCourseData(courseId?: string): Promise<CourseData> {
         try {
-            await this.loadxApiProfileTemplates();
+            const courses = await this.courseService.getCourses();
+            const selected = courseId ? courses.find(course => course.id === courseId) : courses[0];
+            if (selected) {
+                const [course, profile] = await Promise.all([
+                    this.courseService.getCourse(selected.id),
+                    this.courseService.getProfile(selected.id)
+                ]);
+                this.setProfileTemplates(profile);
+                return course;
+            }
+        } catch (error) {
+            console.warn('Stored courses unavailable, using bundled course files:', error);
+        }
+
+        return this.loadBundledCourseData();
+    }
 
-            const response = await fetch('https://dash.fokus.fraunhofer.de/tests/tan/awt/ws2425/course/imsmanifest.xml');
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
+    /**
+     * Builds course data from the manifest, LOM metadata and xAPI profile bundled with the app
+     * LOM metadata stored in the database takes precedence over the bundled file
+     * @returns Promise resolving to structured course data
+     */
+    private async loadBundledCourseData(): Promise<CourseData> {
+        try {
+            // Imported on demand, the XML assets only resolve to URLs in the browser build
+            const [{ default: bundledManifestUrl }, { default: bundledLomUrl }] = await Promise.all([
+                import('./files/ims_common_cartridge.xml'),
+                import('./files/lom11.xml')
+            ]);
+            const manifestXml = await this.fetchText(bundledManifestUrl);
+
+            let lomData: LomData[] = [];
+            try {
+                // LOM data of imported courses is stored with their course id
+                lomData = (await this.lomDataService.getLomData()).filter(lom => !lom.courseId);
+            } catch (error) {
+                console.warn('Stored LOM data unavailable, using bundled LOM file:', error);
             }
-            const xmlText = await response.text();
-            const xmlDoc = this.parseXMLString(xmlText);
-
-            // Get manifest identifier
-            const manifest = xmlDoc.documentElement;
-            const manifestId = manifest.getAttribute('identifier') || '';
-
-            // Get title and description
-            const titleElement = xmlDoc.querySelector('lomimscc\\:title lomimscc\\:string, title string');
-            const descriptionElement = xmlDoc.querySelector('lomimscc\\:description lomimscc\\:string, description string');
-
-            const courseStructure: CourseData = {
-                id: manifestId,
-                title: this.getTextContent(titleElement),
-                description: this.getTextContent(descriptionElement),
-                sections: []
-            };
-
-            // Get organization structure
-            const organization = xmlDoc.querySelector('organization');
-            const rootItems = organization?.querySelector('item')?.querySelectorAll(':scope > item');
-            const lomData = await this.lomDataService.getLomData();
-
-            if (rootItems) {
-                const sections: CourseSection[] = Array.from(rootItems).map(section => {
-                    const sectionTitle = this.getTextContent(section.querySelector('title'));
-                    const activities = Array.from(section.querySelectorAll('item[identifierref]'))
-                        .map(item => this.createActivity(item, xmlDoc, lomData));
-
-                    return {
-                        title: sectionTitle,
-                        activities
-                    };
-                });
-
-                courseStructure.sections = sections;
+            if (lomData.length === 0) {
+                lomData = this.parseLOMFiles([await this.fetchText(bundledLomUrl)]);
             }
 
-            return courseStructure;
+            return this.buildCourseData(manifestXml, lomData, bundledProfile as XAPIProfile);
         } catch (error) {
             console.error('Error loading course data:', error);
             throw error;
@@ -260,37 +389,41 @@ class CourseDataGenerator {
     }
 
     /**
-     * Loads xAPI profile templates and maps verbs to activity types.
-     * @returns Promise that resolves when templates are loaded
-     * @throws Error if profile loading fails
-    */
-    private async loadxApiProfileTemplates(): Promise<void> {
-        try {
-            const profile = await fetch('https://dash.fokus.fraunhofer.de/tests/tan/awt/ws2425/xapi/xapi_profiles.json').then(r => r.json());
-            profile.templates.forEach((template: XAPITemplate) => {
-                this.verbToActivityType.set(
-                    template.verb.split('/').pop() || '',
-                    template.objectActivityType
-                );
-            });
-        } catch (error) {
-            console.error('Error loading xAPI profile:', error);
-            throw error;
+     * Fetches a text file
+     * @param url - URL of the file
+     * @returns Promise resolving to the file content
+     * @throws Error if the request fails
+     */
+    private async fetchText(url: string): Promise<string> {
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
         }
+        return response.text();
+    }
+
+    /**
+     * Maps verbs to activity types from the xAPI profile templates.
+     * @param profile - xAPI profile document
+    */
+    private setProfileTemplates(profile: XAPIProfile): void {
+        this.verbToActivityType.clear();
+        profile.templates.forEach((template: XAPITemplate) => {
+            this.verbToActivityType.set(
+                template.verb.split('/').pop() || '',
+                template.objectActivityType
+            );
+        });
     }
 
     /**
      * Loads and processes verbs from XAPI profile
+     * @param profile - xAPI profile document, defaults to the bundled profile
      * @returns Promise resolving to array of Verb objects
      */
-    async loadVerbs(): Promise<Verb[]> {
+    async loadVerbs(profile: XAPIProfile = bundledProfile as XAPIProfile): Promise<Verb[]> {
         try {
-            const response = await fetch('https://dash.fokus.fraunhofer.de/tests/tan/awt/ws2425/xapi/xapi_profiles.json')
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-            }
-            const json = await response.json();
-            const verbs = this.parseVerbs(json);
+            const verbs = this.parseVerbs(profile);
             await this.verbService.storeVerbsInMongoDB(verbs);
 
             return verbs;
@@ -303,10 +436,10 @@ class CourseDataGenerator {
     /**
      * Parse verbs from XAPI profile and filter to required ones
      */
-    private parseVerbs(profileJson: any): Verb[] {
+    parseVerbs(profile: XAPIProfile): Verb[] {
         const verbs: Verb[] = [];
 
-        profileJson.concepts.forEach((concept: any) => {
+        profile.concepts.forEach(concept => {
             if (concept.type === 'Verb') {
                 const verbName = concept.prefLabel.en;
                 if (usedVerbs.includes(verbName)) {
@@ -342,59 +475,17 @@ class CourseDataGenerator {
     }
 
     /**
-     * Fetches and parses multiple LOM XML files.
+     * Parses multiple LOM XML files.
+     * @param xmlTexts - Contents of the LOM XML files
      * @returns An array of LomData objects.
      */
-    async loadLOM(): Promise<LomData[]> {
-        try {
-            const manifestUrls = [
-                "https://dash.fokus.fraunhofer.de/tests/tan/awt/ws2425/objectMetadata/11.xml",
-                "https://dash.fokus.fraunhofer.de/tests/tan/awt/ws2425/objectMetadata/04.xml",
-                "https://dash.fokus.fraunhofer.de/tests/tan/awt/ws2425/objectMetadata/07.xml",
-                "https://dash.fokus.fraunhofer.de/tests/tan/awt/ws2425/objectMetadata/09.xml",
-                "https://dash.fokus.fraunhofer.de/tests/tan/awt/ws2425/objectMetadata/06.xml",
-                "https://dash.fokus.fraunhofer.de/tests/tan/awt/ws2425/objectMetadata/03.xml",
-                "https://dash.fokus.fraunhofer.de/tests/tan/awt/ws2425/objectMetadata/10.xml",
-                "https://dash.fokus.fraunhofer.de/tests/tan/awt/ws2425/objectMetadata/05.xml",
-                "https://dash.fokus.fraunhofer.de/tests/tan/awt/ws2425/objectMetadata/08.xml",
-                "https://dash.fokus.fraunhofer.de/tests/tan/awt/ws2425/objectMetadata/01.xml",
-                "https://dash.fokus.fraunhofer.de/tests/tan/awt/ws2425/objectMetadata/02.xml",
-                "https://dash.fokus.fraunhofer.de/tests/tan/awt/ws2425/objectMetadata/15.xml",
-                "https://dash.fokus.fraunhofer.de/tests/tan/awt/ws2425/objectMetadata/14.xml",
-                "https://dash.fokus.fraunhofer.de/tests/tan/awt/ws2425/objectMetadata/12.xml",
-                "https://dash.fokus.fraunhofer.de/tests/tan/awt/ws2425/objectMetadata/13.xml"
-            ];
-
-            // Fetch and transform data
-            const responses = await Promise.all(
-                manifestUrls.map(url =>
-                    fetch(url)
-                        .then(response => {
-                            if (!response.ok) {
-                                throw new Error(`HTTP error! status: ${response.status}`);
-                            }
-                            return response.text();
-                        })
-                )
-            );
-
-            const lomData = await Promise.all(
-                responses.map(async xmlText => {
-                    const parsedData = await this.parseXMLString(xmlText);
-                    return this.parseLOM(parsedData);
-                })
-            );
-
-            return lomData
-        } catch (error) {
-            console.error('Error loading lom:', error);
-            throw error;
-        }
+    parseLOMFiles(xmlTexts: string[]): LomData[] {
+        return xmlTexts.map(xmlText => this.parseLOM(this.parseLOMXMLString(xmlText)));
     }
 
     /**
      * Parses a Learning Object Metadata (LOM) XML document into a structured LomData object.
-     * @param parsedXml - The parsed XML document.
+     * @param parsedXml - The XML document parsed by parseLOMXMLString.
      * @returns A structured LomData object with general, educational, and classification data.
      */
     private parseLOM(parsedXml: any): LomData {
@@ -444,12 +535,33 @@ class CourseDataGenerator {
                         }
                     }
                 }
-            }
+            },
+            relation: this.parseRelations(parsedXml.lom?.relation)
         };
 
         return lomData;
     }
 
+    /**
+     * Parses the relations of a LOM document to other resources.
+     * @param relation - The parsed relation element, an array if the document has several.
+     * @returns The relations with their kind and the identifier of the related resource.
+     */
+    private parseRelations(relation: any): NonNullable<LomData['relation']> {
+        const relations: any[] = Array.isArray(relation) ? relation : relation ? [relation] : [];
+
+        return relations.map(entry => ({
+            kind: {
+                value: String(this.extractValue(entry, 'kind.value') ?? '')
+            },
+            resource: {
+                identifier: {
+                    entry: String(entry?.resource?.identifier?.entry ?? '')
+                }
+            }
+        }));
+    }
+
     /**
      * Extracts a value from a nested object using a dot-separated path.
      * @param obj - The object to extract the value from.
@@ -0,0 +1,148 @@
+import JSZip from 'jszip';
+import CourseDataGenerator from './course-data-generator';
+import CourseService from '../services/course-service';
+import { CourseData, CoursePackage, LomData, XAPIProfile } from '../types/types';
+import bundledProfile from './files/xapi_profiles.json';
+
+/**
+ * Checks whether a parsed JSON file is an xAPI profile with concepts and statement templates
+ * @param value - Parsed JSON value
+ * @returns True for objects with a concepts and a templates list
+ */
+const isXAPIProfile = (value: unknown): value is XAPIProfile =>
+    typeof value === 'object' && value !== null && 'templates' in value && 'concepts' in value &&
+    Array.isArray(value.templates) && Array.isArray(value.concepts);
+
+/**
+ * Importer for offline IMS Common Cartridge course packages
+ *
+ * Accepts an .imscc (zip) file or the files of a package directory containing
+ * imsmanifest.xml, LOM metadata files and optionally an xAPI profile.
+ * Packages without a profile use the profile bundled with the app.
+ */
+class CoursePackageImporter {
+    private courseDataGenerator = new CourseDataGenerator();
+    private courseService = new CourseService();
+
+    /**
+     * Imports a course package and stores it in the database
+     * @param files - A single .imscc/.zip file or all files of a package directory
+     * @returns Promise resolving to the imported course
+     * @throws Error if the package is invalid or cannot be stored
+     */
+    async importPackage(files: File[]): Promise<CourseData> {
+        try {
+            const packageFiles = await this.readFiles(files);
+            const coursePackage = this.parsePackage(packageFiles);
+            await this.courseService.importCourse(coursePackage);
+
+            return coursePackage.course;
+        } catch (error) {
+            console.error('Error importing course package:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Reads the text content of all package files
+     * @param files - A single archive or the files of a directory
+     * @returns Map of package relative paths to file content
+     */
+    private async readFiles(files: File[]): Promise<Map<string, string>> {
+        const packageFiles = new Map<string, string>();
+
+        if (files.length === 1 && /\.(imscc|zip)$/i.test(files[0].name)) {
+            const zip = await JSZip.loadAsync(files[0]);
+            const entries = Object.values(zip.files).filter(entry => !entry.dir && this.isPackageFile(entry.name));
+            for (const entry of entries) {
+                packageFiles.set(entry.name, await entry.async('string'));
+            }
+            return packageFiles;
+        }
+
+        // Directory uploads report paths including the selected directory
+        for (const file of files.filter(file => this.isPackageFile(file.name))) {
+            const path = (file.webkitRelativePath || file.name).split('/');
+            packageFiles.set(path.length > 1 ? path.slice(1).join('/') : path[0], await file.text());
+        }
+        return packageFiles;
+    }
+
+    /**
+     * Checks whether a file can be part of the course description
+     * @param name - File name or path
+     * @returns True for XML and JSON files
+     */
+    private isPackageFile(name: string): boolean {
+        return /\.(xml|json)$/i.test(name);
+    }
+
+    /**
+     * Builds course structure, LOM metadata and xAPI profile from the package files
+     * @param packageFiles - Map of package relative paths to file content
+     * @returns The parsed course package
+     * @throws Error if the package has no manifest
+     */
+    parsePackage(packageFiles: Map<string, string>): CoursePackage {
+        const paths = Array.from(packageFiles.keys());
+
+        // The manifest closest to the package root describes the course
+        const manifestPath = paths
+            .filter(path => path.split('/').pop()?.toLowerCase() === 'imsmanifest.xml')
+            .sort((a, b) => a.split('/').length - b.split('/').length)[0];
+        if (!manifestPath) {
+            throw new Error('Invalid course package: imsmanifest.xml not found');
+        }
+
+        const lomByPath = new Map<string, LomData>();
+        let profile: XAPIProfile | undefined;
+
+        paths.filter(path => path !== manifestPath).forEach(path => {
+            const content = packageFiles.get(path) || '';
+
+            if (path.toLowerCase().endsWith('.json')) {
+                const json = this.parseJson(content);
+                if (isXAPIProfile(json)) {
+                    profile = json;
+                }
+                return;
+            }
+
+            const parsed = this.courseDataGenerator.parseLOMXMLString(content);
+            if (parsed.lom) {
+                const [lom] = this.courseDataGenerator.parseLOMFiles([content]);
+                lomByPath.set(path, lom);
+                lomByPath.set(path.split('/').pop() || path, lom);
+            }
+        });
+
+        const lom = Array.from(new Set(lomByPath.values()));
+        const coursePackage: CoursePackage = {
+            course: this.courseDataGenerator.buildCourseData(
+                packageFiles.get(manifestPath) || '',
+                lom,
+                profile || bundledProfile as XAPIProfile,
+                lomByPath
+            ),
+            lom,
+            profile: profile || bundledProfile as XAPIProfile
+        };
+
+        return coursePackage;
+    }
+
+    /**
+     * Parses JSON without throwing on malformed files
+     * @param content - File content
+     * @returns Parsed value or null
+     */
+    private parseJson(content: string): unknown {
+        try {
+            return JSON.parse(content);
+        } catch {
+            return null;
+        }
+    }
+}
+
+export default CoursePackageImporter;
@@ -0,0 +1,102 @@
+import LearnerGenerator from './learner-generator';
+import XAPIGenerator from './xapi-generator';
+import LearnerService from '../services/learner-service';
+import GenerationJobService from '../services/generation-job-service';
+import { CourseData, GeneratedLearnerData, GenerationJob, GenerationProgress, LearnerProfile, Verb, XAPIStatement } from '../types/types';
+
+// Learners per upload request
+const LEARNER_BATCH_SIZE = 2000;
+
+/**
+ * Options of a generation job run
+ */
+export interface GenerationJobRunOptions {
+    // Statements per upload request
+    batchSize?: number;
+    onProgress?: (progress: GenerationProgress) => void;
+    // Receives every generated statement before it is uploaded, also those a resumed job skips
+    onStatement?: (statement: XAPIStatement) => void | Promise<void>;
+}
+
+/**
+ * Regenerates the learners of a generation job from its settings
+ * @param job - Job with settings
+ * @returns Learner profiles enrolled in the course of the job
+ * @throws Error if the job has no settings
+ */
+export function generateJobLearners(job: GenerationJob): LearnerProfile[] {
+    if (!job.settings) {
+        throw new Error(`Generation job ${job.id} has no settings`);
+    }
+    const { scenario, learners, seed, firstLearnerId } = job.settings;
+
+    return new LearnerGenerator(scenario)
+        .generateLearnerProfiles(learners, seed, firstLearnerId)
+        .map(profile => ({ ...profile, courseId: job.courseId }));
+}
+
+/**
+ * Runs or resumes a generation job
+ * The learners are regenerated from the job settings and stored once, the statements and sessions are streamed
+ * to the server in batches. Statements a resumed job already uploaded are generated again but skipped.
+ * @param courseData - Course of the job
+ * @param verbs - Verbs of the course
+ * @param job - Job with settings, as returned by the server
+ * @param options - Upload batch size, progress callback and statement callback
+ * @returns Number of learners and of generated and uploaded statements
+ */
+export async function runGenerationJob(
+    courseData: CourseData,
+    verbs: Verb[],
+    job: GenerationJob,
+    options: GenerationJobRunOptions = {}
+): Promise<{ learners: number; generated: number; uploaded: number }> {
+    const jobService = new GenerationJobService();
+    const learners = generateJobLearners(job);
+    const settings = job.settings!;
+
+    if (!job.learnersStored) {
+        try {
+            const learnerService = new LearnerService();
+            for (let start = 0; start < learners.length; start += LEARNER_BATCH_SIZE) {
+                options.onProgress?.({ phase: 'learners', completed: start, total: learners.length });
+                // Only the first batch replaces the stored learners
+                const append = start > 0 || !settings.replaceExisting;
+                await learnerService.storeLearnerProfiles(learners.slice(start, start + LEARNER_BATCH_SIZE), job.courseId, append);
+            }
+            await jobService.updateJob(job.id, { learnersStored: true });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            await jobService.updateJob(job.id, { status: 'failed', error: message }).catch(() => undefined);
+            throw error;
+        }
+    }
+    options.onProgress?.({ phase: 'learners', completed: learners.length, total: learners.length });
+
+    const generator = new XAPIGenerator(courseData, verbs, learners);
+    const generationOptions = {
+        courseStartDate: new Date(settings.courseStartDate),
+        activityConfig: settings.activityConfig,
+        calendar: settings.calendar,
+        batchSize: options.batchSize,
+        jobId: job.id,
+        onProgress: options.onProgress
+    };
+
+    let generatedLearners: AsyncIterable<GeneratedLearnerData> = generator.streamLearners(settings.weeks, settings.seed, generationOptions);
+    const { onStatement } = options;
+    if (onStatement) {
+        const source = generatedLearners;
+        generatedLearners = (async function* () {
+            for await (const learner of source) {
+                for (const statement of learner.statements) {
+                    await onStatement(statement);
+                }
+                yield learner;
+            }
+        })();
+    }
+
+    const { generated, uploaded } = await generator.saveGeneratedData(generatedLearners, settings.replaceExisting, generationOptions);
+    return { learners: learners.length, generated, uploaded };
+}
@@ -0,0 +1,156 @@
+import { Activity, AssessmentItem } from '../types/types';
+import { Random, randomNormal } from './random';
+
+const CHOICES = ['a', 'b', 'c', 'd'];
+const QUESTION_TYPE = 'http://adlnet.gov/expapi/activities/cmi.interaction';
+
+// Activity difficulty (0-1) is spread over this range of item difficulties around 0
+const DIFFICULTY_RANGE = 3;
+// Spread of the item difficulties within an activity
+const DIFFICULTY_SPREAD = 0.6;
+// Discrimination of a typical item and spread of the log discrimination
+const TYPICAL_DISCRIMINATION = 1.5;
+const DISCRIMINATION_SPREAD = 0.3;
+// Share of flawed items, either ambiguous or keyed with the wrong choice
+const FLAWED_ITEM_SHARE = 0.08;
+// Share of distractors hardly anyone picks
+const IMPLAUSIBLE_DISTRACTOR_SHARE = 0.05;
+
+/**
+ * Item bank of the simulated assessments
+ * Every activity gets a bank of multiple choice questions with difficulty and discrimination,
+ * each attempt draws a form of questions from the bank and answers them by the learner's ability
+ */
+class ItemBank {
+    private readonly random: Random;
+    private readonly bankSize: number;
+    private readonly formSize: number;
+    private items: Map<string, AssessmentItem[]> = new Map();
+
+    /**
+     * @param random - Random number source of the generation run
+     * @param bankSize - Questions per activity
+     * @param formSize - Questions per attempt, at most the bank size
+     */
+    constructor(random: Random, bankSize: number, formSize: number) {
+        this.random = random;
+        this.bankSize = Math.max(1, bankSize);
+        this.formSize = Math.min(this.bankSize, Math.max(1, formSize));
+    }
+
+    /**
+     * Gets the item bank of an activity, created on first use so all learners share the same questions.
+     * Item difficulties center on the activity difficulty.
+     *
+     * @param activity - Activity the questions belong to
+     * @returns Items of the activity
+     */
+    getItems(activity: Activity): AssessmentItem[] {
+        if (!this.items.has(activity.id)) {
+            const items = Array.from({ length: this.bankSize }, (_, index) => this.createItem(activity, index));
+            this.items.set(activity.id, items);
+        }
+
+        return this.items.get(activity.id)!;
+    }
+
+    /**
+     * Draws the questions of an attempt from the item bank of an activity.
+     *
+     * @param activity - Assessed activity
+     * @returns Items in the order they are presented
+     */
+    drawForm(activity: Activity): AssessmentItem[] {
+        const items = [...this.getItems(activity)];
+
+        // Partial Fisher-Yates shuffle
+        for (let i = 0; i < this.formSize; i++) {
+            const j = i + Math.floor(this.random() * (items.length - i));
+            [items[i], items[j]] = [items[j], items[i]];
+        }
+
+        return items.slice(0, this.formSize);
+    }
+
+    /**
+     * Chance of a learner answering an item correctly, following the three parameter logistic model.
+     *
+     * @param item - Answered item
+     * @param ability - Ability of the learner, 0 for an average learner
+     * @returns Chance between the guessing chance and 1
+     */
+    getCorrectProbability(item: AssessmentItem, ability: number): number {
+        return item.guessing + (1 - item.guessing) / (1 + Math.exp(-item.discrimination * (ability - item.difficulty)));
+    }
+
+    /**
+     * Simulates the answer of a learner, wrong answers pick a distractor by its weight.
+     *
+     * @param item - Answered item
+     * @param ability - Ability of the learner
+     * @returns Chosen choice id and whether it is the keyed answer
+     */
+    answer(item: AssessmentItem, ability: number): { response: string; success: boolean } {
+        const key = item.question.correctResponsesPattern![0];
+        if (this.random() < this.getCorrectProbability(item, ability)) {
+            return { response: key, success: true };
+        }
+
+        const distractors = Object.entries(item.distractorWeights);
+        const total = distractors.reduce((sum, [, weight]) => sum + weight, 0);
+        let threshold = this.random() * total;
+        for (const [choice, weight] of distractors) {
+            threshold -= weight;
+            if (threshold < 0) return { response: choice, success: false };
+        }
+
+        return { response: distractors[distractors.length - 1][0], success: false };
+    }
+
+    /**
+     * Creates a question with random IRT parameters and distractor weights.
+     * Ambiguous items barely discriminate, miskeyed items discriminate negatively
+     * and strong learners pick the actually correct distractor.
+     *
+     * @param activity - Activity the question belongs to
+     * @param index - Position of the question in the bank
+     * @returns Item of the bank
+     */
+    private createItem(activity: Activity, index: number): AssessmentItem {
+        const key = CHOICES[Math.floor(this.random() * CHOICES.length)];
+        const distractors = CHOICES.filter(choice => choice !== key);
+
+        const distractorWeights: Record<string, number> = {};
+        distractors.forEach(choice => {
+            distractorWeights[choice] = this.random() < IMPLAUSIBLE_DISTRACTOR_SHARE ? 0.02 : 0.5 + this.random();
+        });
+
+        let discrimination = TYPICAL_DISCRIMINATION * Math.exp(randomNormal(this.random) * DISCRIMINATION_SPREAD);
+        if (this.random() < FLAWED_ITEM_SHARE) {
+            if (this.random() < 0.5) {
+                discrimination = 0.1;
+            } else {
+                discrimination = -0.8;
+                distractorWeights[distractors[0]] = 3;
+            }
+        }
+
+        return {
+            question: {
+                id: `${activity.href}#question-${index + 1}`,
+                type: QUESTION_TYPE,
+                name: `${activity.title} - Question ${index + 1}`,
+                parentId: activity.href,
+                interactionType: 'choice',
+                correctResponsesPattern: [key],
+                choices: CHOICES.map(choice => ({ id: choice, description: { en: `Option ${choice.toUpperCase()}` } }))
+            },
+            difficulty: (activity.difficulty - 0.5) * DIFFICULTY_RANGE + randomNormal(this.random) * DIFFICULTY_SPREAD,
+            discrimination,
+            guessing: 1 / CHOICES.length,
+            distractorWeights
+        };
+    }
+}
+
+export default ItemBank;
@@ -0,0 +1,30 @@
+import LearnerGenerator from './learner-generator';
+import { LearnerScenario, PersonaDefinition } from '../types/types';
+
+const persona = (type: string, share: number): PersonaDefinition => ({
+    type,
+    share,
+    metrics: { consistency: 'average', scores: 'average', duration: 'average', effort: 'average' }
+});
+
+describe('LearnerGenerator', () => {
+    test('the cohort has exactly the requested number of learners', () => {
+        const generator = new LearnerGenerator();
+
+        [1, 5, 7, 10, 33, 100].forEach(total => {
+            expect(generator.generateLearnerProfiles(total, 42)).toHaveLength(total);
+        });
+    });
+
+    test('learners left after rounding down go to the personas with the largest remainders', () => {
+        const scenario: LearnerScenario = { name: 'test', personas: [persona('a', 0.5), persona('b', 0.3), persona('c', 0.2)] };
+        const countTypes = (total: number) => new LearnerGenerator(scenario).generateLearnerProfiles(total, 1)
+            .reduce((counts, learner) => ({ ...counts, [learner.personaType]: (counts[learner.personaType] || 0) + 1 }),
+                {} as Record<string, number>);
+
+        // Quotas 2.5, 1.5 and 1, the tie goes to the earlier persona
+        expect(countTypes(5)).toEqual({ a: 3, b: 1, c: 1 });
+        // Quotas 3.5, 2.1 and 1.4
+        expect(countTypes(7)).toEqual({ a: 4, b: 2, c: 1 });
+    });
+});
@@ -1,196 +1,31 @@
 import LearnerService from '../services/learner-service';
-import { LearnerProfile } from '../types/types';
+import { LearnerProfile, LearnerScenario, MetricLevel, PersonaDefinition, PersonaMetric } from '../types/types';
+import { Random, createRandom } from './random';
+import { DEFAULT_DROPOUT_MODEL, defaultScenario } from './learner-scenario';
 
 
-type MetricValue = 'very low' | 'low' | 'average' | 'high' | 'very high';
-
-interface Persona {
-    id: string;
-    type: 'struggler' | 'average' | 'sprinter' | 'gritty' | 'coaster';
-    consistency: MetricValue;
-    scores: MetricValue;
-    duration: MetricValue;
-    effort: MetricValue;
-}
-
-interface Outlier {
-    id: string;
-    type: 'outlierA' | 'outlierB' | 'outlierC' | 'outlierD';
-    consistency: {
-        start: MetricValue,
-        middle: MetricValue,
-        end: MetricValue,
-    };
-    scores: {
-        start: MetricValue,
-        middle: MetricValue,
-        end: MetricValue,
-    }
-    duration: {
-        start: MetricValue,
-        middle: MetricValue,
-        end: MetricValue,
-    }
-    effort: {
-        start: MetricValue,
-        middle: MetricValue,
-        end: MetricValue,
-    }
-}
-
-const personas: Persona[] = [
-    {
-        id: '1',
-        type: 'struggler',
-        consistency: 'average',
-        scores: 'very low',
-        duration: 'average',
-        effort: 'low'
-    },
-    {
-        id: '2',
-        type: 'average',
-        consistency: 'average',
-        scores: 'average',
-        duration: 'average',
-        effort: 'average'
-    },
-    {
-        id: '3',
-        type: 'sprinter',
-        consistency: 'very low',
-        scores: 'low',
-        duration: 'low',
-        effort: 'very low'
-    },
-    {
-        id: '4',
-        type: 'gritty',
-        consistency: 'high',
-        scores: 'very high',
-        duration: 'high',
-        effort: 'very high'
-    },
-    {
-        id: '5',
-        type: 'coaster',
-        consistency: 'average',
-        scores: 'average',
-        duration: 'average',
-        effort: 'low'
-    }
-];
-
-const outliers: Outlier[] = [
-    {
-        id: '6',
-        type: 'outlierA',
-        consistency: {
-            start: 'high',
-            middle: 'average',
-            end: 'low'
-        },
-        scores: {
-            start: 'high',
-            middle: 'average',
-            end: 'low'
-        },
-        duration: {
-            start: 'high',
-            middle: 'average',
-            end: 'low'
-        },
-        effort: {
-            start: 'high',
-            middle: 'average',
-            end: 'low'
-        }
-    },
-    {
-        id: '7',
-        type: 'outlierB',
-        consistency: {
-            start: 'average',
-            middle: 'low',
-            end: 'very low'
-        },
-        scores: {
-            start: 'average',
-            middle: 'average',
-            end: 'average'
-        },
-        duration: {
-            start: 'average',
-            middle: 'average',
-            end: 'average'
-        },
-        effort: {
-            start: 'low',
-            middle: 'low',
-            end: 'low'
-        },
-    },
-    {
-        id: '8',
-        type: 'outlierC',
-        consistency: {
-            start: 'very high',
-            middle: 'very high',
-            end: 'very high'
-        },
-        scores: {
-            start: 'average',
-            middle: 'average',
-            end: 'average'
-        },
-        duration: {
-            start: 'average',
-            middle: 'average',
-            end: 'average'
-        },
-        effort: {
-            start: 'very high',
-            middle: 'very high',
-            end: 'very high'
-        },
-    },
-    {
-        id: '9',
-        type: 'outlierD',
-        consistency: {
-            start: 'very high',
-            middle: 'very high',
-            end: 'very high'
-        },
-        scores: {
-            start: 'very high',
-            middle: 'very high',
-            end: 'very high'
-        },
-        duration: {
-            start: 'average',
-            middle: 'average',
-            end: 'average'
-        },
-        effort: {
-            start: 'high',
-            middle: 'high',
-            end: 'high'
-        },
-    },
-];
-
 /**
- * Responsible for generating realistic learner profiles based on predefined personas and outliers
+ * Responsible for generating realistic learner profiles based on the personas of a scenario
  * Uses a percentage-based distribution to create a realistic representation of a learning cohort
  */
 class LearnerGenerator {
 
+    /**
+     * Scenario defining the personas and their share of the cohort
+     * Personas with metrics per phase (start/middle/end) model outliers whose behavior changes over time
+     */
+    private readonly scenario: LearnerScenario;
+
+    /**
+     * Random number source of the current generation run
+     */
+    private random: Random = Math.random;
+
     /**
      * Mapping of descriptive values to numerical scores
      * Used to convert qualitative descriptions into quantitative metrics
      */
-    private readonly valueMap: Record<MetricValue, number> = {
+    private readonly valueMap: Record<MetricLevel, number> = {
         'very low': 0.2,   // 20% performance/engagement
         'low': 0.4,        // 40% performance/engagement
         'average': 0.6,    // 60% performance/engagement
@@ -198,30 +33,9 @@ class LearnerGenerator {
         'very high': 1.0   // 100% performance/engagement
     };
 
-    /**
-     * Distribution percentages for regular personas
-     * Based on typical distribution in learning environments
-     * Total adds up to 100% (1.0)
-     */
-    private readonly personaDistribution = {
-        'struggler': 0.30, // Students who consistently face challenges
-        'average': 0.39,   // Typical performers
-        'sprinter': 0.08,  // Quick but inconsistent learners
-        'gritty': 0.10,    // High-performing, highly motivated learners
-        'coaster': 0.13    // Minimal effort, adequate performers
-    };
-
-    /**
-     * Distribution percentages for outlier cases
-     * Represents exceptional cases that don't fit regular patterns
-     * Intentionally small percentages to reflect rare cases
-     */
-    private readonly outlierDistribution = {
-        'outlierA': 0.02, // Declining performance over time
-        'outlierB': 0.01, // Consistent scores but declining engagement
-        'outlierC': 0.01, // High effort but average performance
-        'outlierD': 0.01  // Exceptional performance with average effort
-    };
+    constructor(scenario: LearnerScenario = defaultScenario) {
+        this.scenario = scenario;
+    }
 
     /**
      * Generates a random variation around a base value
@@ -234,65 +48,52 @@ class LearnerGenerator {
     private generateRandomVariation(baseValue: number, variance: number = 0.1): number {
         const min = Math.max(0, baseValue - variance);
         const max = Math.min(1, baseValue + variance);
-        return Number((min + Math.random() * (max - min)).toFixed(2));
+        return Number((min + this.random() * (max - min)).toFixed(2));
     }
 
     /**
      * Converts descriptive string values to numerical values
-     * Maps qualitative descriptions to quantitative metrics
+     * Maps qualitative descriptions to quantitative metrics, numbers are used as they are
      * 
-     * @param value - Descriptive string (e.g., 'very low', 'high')
+     * @param value - Descriptive string (e.g., 'very low', 'high') or number between 0 and 1
      * @returns Numerical value between 0 and 1
      */
-    private convertStringToNumber(value: string): number {
-        return this.valueMap[value as MetricValue] || 0.6; // Default to average if unknown
+    private convertStringToNumber(value: MetricLevel | number): number {
+        if (typeof value === 'number') return value;
+        return this.valueMap[value] || 0.6; // Default to average if unknown
     }
 
     /**
-     * Generates metrics for a regular persona
-     * Creates consistent metrics based on persona characteristics with some random variation
+     * Generates a single metric with some random variation
+     * Constant metrics yield a single value, metrics per phase a value for start, middle and end
      * 
-     * @param persona - The persona to base metrics on
-     * @returns Object containing numerical metrics
+     * @param metric - Metric definition of the persona
+     * @returns Numerical metric
      */
-    private generateMetricsFromPersona(persona: Persona): LearnerProfile['metrics'] {
-        return {
-            consistency: this.generateRandomVariation(this.convertStringToNumber(persona.consistency)),
-            scores: this.generateRandomVariation(this.convertStringToNumber(persona.scores)),
-            duration: this.generateRandomVariation(this.convertStringToNumber(persona.duration)),
-            effort: this.generateRandomVariation(this.convertStringToNumber(persona.effort))
-        };
+    private generateMetric(metric: PersonaMetric): number | { start: number; middle: number; end: number; } {
+        if (typeof metric === 'object') {
+            return {
+                start: this.generateRandomVariation(this.convertStringToNumber(metric.start)),
+                middle: this.generateRandomVariation(this.convertStringToNumber(metric.middle)),
+                end: this.generateRandomVariation(this.convertStringToNumber(metric.end))
+            };
+        }
+        return this.generateRandomVariation(this.convertStringToNumber(metric));
     }
 
     /**
-     * Generates metrics for an outlier profile
-     * Creates metrics that change over time (start/middle/end) based on outlier characteristics
+     * Generates metrics for a persona
+     * Creates metrics based on persona characteristics with some random variation
      * 
-     * @param outlier - The outlier profile to base metrics on
-     * @returns Object containing metrics with temporal progression
+     * @param persona - The persona to base metrics on
+     * @returns Object containing numerical metrics
      */
-    private generateMetricsFromOutlier(outlier: Outlier): LearnerProfile['metrics'] {
+    private generateMetricsFromPersona(persona: PersonaDefinition): LearnerProfile['metrics'] {
         return {
-            consistency: {
-                start: this.generateRandomVariation(this.convertStringToNumber(outlier.consistency.start)),
-                middle: this.generateRandomVariation(this.convertStringToNumber(outlier.consistency.middle)),
-                end: this.generateRandomVariation(this.convertStringToNumber(outlier.consistency.end))
-            },
-            scores: {
-                start: this.generateRandomVariation(this.convertStringToNumber(outlier.scores.start)),
-                middle: this.generateRandomVariation(this.convertStringToNumber(outlier.scores.middle)),
-                end: this.generateRandomVariation(this.convertStringToNumber(outlier.scores.end))
-            },
-            duration: {
-                start: this.generateRandomVariation(this.convertStringToNumber(outlier.duration.start)),
-                middle: this.generateRandomVariation(this.convertStringToNumber(outlier.duration.middle)),
-                end: this.generateRandomVariation(this.convertStringToNumber(outlier.duration.end))
-            },
-            effort: {
-                start: this.generateRandomVariation(this.convertStringToNumber(outlier.effort.start)),
-                middle: this.generateRandomVariation(this.convertStringToNumber(outlier.effort.middle)),
-                end: this.generateRandomVariation(this.convertStringToNumber(outlier.effort.end))
-            }
+            consistency: this.generateMetric(persona.metrics.consistency),
+            scores: this.generateMetric(persona.metrics.scores),
+            duration: this.generateMetric(persona.metrics.duration),
+            effort: this.generateMetric(persona.metrics.effort)
         };
     }
 
@@ -301,7 +102,7 @@ class LearnerGenerator {
      * Format: learner_[type]_[id]@example.com
      * 
      * @param id - Unique identifier for the learner
-     * @param type - Persona or outlier type
+     * @param type - Persona type
      * @returns Generated email address
      */
     private generateEmail(id: string, type: string): string {
@@ -309,75 +110,81 @@ class LearnerGenerator {
     }
 
     /**
-     * Calculates the number of learners for each persona and outlier type
-     * Based on the defined distributions and total number of learners
+     * Calculates the number of learners for each persona type
+     * The total is split in proportion to the shares defined in the scenario with the largest remainder method,
+     * so the counts always add up to the total number of learners
      * 
      * @param totalLearners - Total number of learners to generate
-     * @returns Maps containing the count for each persona and outlier type
+     * @returns Map containing the count for each persona type
      */
-    private calculateCounts(totalLearners: number): {
-        personaCounts: Map<string, number>,
-        outlierCounts: Map<string, number>
-    } {
-        const personaCounts = new Map<string, number>();
-        const outlierCounts = new Map<string, number>();
-
-        // Calculate counts for regular personas
-        for (const [type, percentage] of Object.entries(this.personaDistribution)) {
-            personaCounts.set(type, Math.round(totalLearners * percentage));
-        }
-
-        // Calculate counts for outliers
-        for (const [type, percentage] of Object.entries(this.outlierDistribution)) {
-            outlierCounts.set(type, Math.round(totalLearners * percentage));
-        }
-
-        return { personaCounts, outlierCounts };
+    private calculateCounts(totalLearners: number): Map<string, number> {
+        const totalShare = this.scenario.personas.reduce((sum, persona) => sum + persona.share, 0);
+        const quotas = this.scenario.personas.map(persona => totalLearners * persona.share / totalShare);
+        const counts = quotas.map(Math.floor);
+
+        // The learners left after rounding down go to the personas with the largest remainders, earlier personas first on ties
+        const remaining = totalLearners - counts.reduce((sum, count) => sum + count, 0);
+        quotas.map((quota, index) => ({ index, remainder: quota - counts[index] }))
+            .sort((a, b) => b.remainder - a.remainder)
+            .slice(0, remaining)
+            .forEach(({ index }) => counts[index]++);
+
+        return new Map(this.scenario.personas.map((persona, index) => [persona.type, counts[index]]));
     }
 
     /**
      * Main method to generate learner profiles
-     * Creates a set of profiles based on the defined personas and outliers
+     * Creates a set of profiles based on the personas of the scenario
      * 
      * @param totalLearners - Total number of learner profiles to generate
-     * @param personas - Array of persona definitions
-     * @param outliers - Array of outlier definitions
+     * @param seed - Optional seed, the same seed and learner count always yield the same profiles
+     * @param firstId - Id of the first profile, higher ids avoid clashes with learners already stored
      * @returns Array of generated learner profiles
      */
-    private generateLearnerProfiles(totalLearners: number): LearnerProfile[] {
-        const { personaCounts, outlierCounts } = this.calculateCounts(totalLearners);
+    generateLearnerProfiles(totalLearners: number, seed?: number, firstId: number = 1): LearnerProfile[] {
+        this.random = createRandom(seed);
+        const personaCounts = this.calculateCounts(totalLearners);
         const profiles: LearnerProfile[] = [];
-        let profileId = 1;
+        let profileId = firstId;
 
-        // Generate regular persona profiles
-        personas.forEach(persona => {
+        this.scenario.personas.forEach(persona => {
             const count = personaCounts.get(persona.type) || 0;
             for (let i = 0; i < count; i++) {
                 profiles.push({
                     id: `${profileId}`,
                     email: this.generateEmail(`${profileId}`, persona.type),
                     personaType: persona.type,
+                    ...(persona.skipAhead !== undefined && { skipAhead: persona.skipAhead }),
+                    ...(persona.dropout && { dropout: { ...DEFAULT_DROPOUT_MODEL, ...persona.dropout } }),
                     metrics: this.generateMetricsFromPersona(persona)
                 });
                 profileId++;
             }
         });
 
-        // Generate outlier profiles
-        outliers.forEach(outlier => {
-            const count = outlierCounts.get(outlier.type) || 0;
-            for (let i = 0; i < count; i++) {
-                profiles.push({
-                    id: `${profileId}`,
-                    email: this.generateEmail(`${profileId}`, outlier.type),
-                    personaType: outlier.type,
-                    metrics: this.generateMetricsFromOutlier(outlier)
-                });
-                profileId++;
-            }
+        return profiles;
+    }
+
+    /**
+     * Calculates the distribution the scenario yields for a number of learners before generating them
+     * Shares are rounded per persona, so the total may differ slightly from the requested number
+     * 
+     * @param totalLearners - Total number of learners to generate
+     * @returns Object containing count and percentage for each persona type
+     */
+    getExpectedDistribution(totalLearners: number): { [key: string]: { count: number, percentage: string } } {
+        const personaCounts = this.calculateCounts(totalLearners);
+        const total = Array.from(personaCounts.values()).reduce((sum, count) => sum + count, 0);
+        const distribution: { [key: string]: { count: number, percentage: string } } = {};
+
+        personaCounts.forEach((count, type) => {
+            distribution[type] = {
+                count,
+                percentage: `${(total > 0 ? (count / total) * 100 : 0).toFixed(1)}%`
+            };
         });
 
-        return profiles;
+        return distribution;
     }
 
     /**
@@ -410,17 +217,21 @@ class LearnerGenerator {
     /**
     * Example usage combining LearnerGenerator and LearnerService
     * Shows the complete flow from generation to storage
+    * @param totalLearners - Number of learners to generate
+    * @param courseId - Optional course the learners are enrolled in
+    * @param seed - Optional seed to reproduce the generated profiles
     */
-    async generateAndStoreLearners(totalLearners: number) {
+    async generateAndStoreLearners(totalLearners: number, courseId?: string, seed?: number) {
         try {
             const learnerService = new LearnerService();
 
             // Generate learner profiles
-            const learnerProfiles = this.generateLearnerProfiles(totalLearners);
+            const learnerProfiles = this.generateLearnerProfiles(totalLearners, seed)
+                .map(profile => courseId ? { ...profile, courseId } : profile);
             console.log('Learner profiles: ', learnerProfiles);
 
             // Store profiles in database
-            const storeResult = await learnerService.storeLearnerProfiles(learnerProfiles);
+            const storeResult = await learnerService.storeLearnerProfiles(learnerProfiles, courseId);
             console.log('Store result:', storeResult);
 
             // Get distribution info
@@ -0,0 +1,179 @@
+import { parse as parseYaml } from 'yaml';
+import { DropoutModel, LearnerScenario, MetricLevel, ScenarioValidationIssue } from '../types/types';
+import bundledScenario from './files/learner_scenario.json';
+
+export const METRIC_LEVELS: MetricLevel[] = ['very low', 'low', 'average', 'high', 'very high'];
+
+const METRIC_NAMES = ['consistency', 'scores', 'duration', 'effort'] as const;
+
+const PHASES = ['start', 'middle', 'end'] as const;
+
+// Completes the dropout models of the personas
+export const DEFAULT_DROPOUT_MODEL: DropoutModel = {
+    hazard: 0,
+    failureImpact: 0,
+    scoreImpact: 0,
+    reengagement: 0,
+    minBreakWeeks: 2
+};
+
+const DROPOUT_CHANCES = ['hazard', 'failureImpact', 'scoreImpact', 'reengagement'] as const;
+
+// Persona types become part of the generated learner emails
+const PERSONA_TYPE_PATTERN = /^[A-Za-z][A-Za-z0-9_-]*$/;
+
+/**
+ * Thrown if a scenario document does not match the scenario schema
+ */
+export class ScenarioValidationError extends Error {
+    issues: ScenarioValidationIssue[];
+
+    constructor(issues: ScenarioValidationIssue[]) {
+        super(`Invalid learner scenario:\n${issues.map(issue => `  ${issue.location}: ${issue.message}`).join('\n')}`);
+        this.name = 'ScenarioValidationError';
+        this.issues = issues;
+    }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks a single metric value, either a level name or a number between 0 and 1
+ * @param value - Metric value
+ * @param location - JSON path of the value
+ * @param issues - Collected issues
+ */
+const validateMetricValue = (value: unknown, location: string, issues: ScenarioValidationIssue[]): void => {
+    if (typeof value === 'number') {
+        if (!isFinite(value) || value < 0 || value > 1) {
+            issues.push({ location, message: `Metric value ${value} is outside [0, 1]` });
+        }
+    } else if (!METRIC_LEVELS.includes(value as MetricLevel)) {
+        issues.push({ location, message: `Metric value must be a number between 0 and 1 or one of: ${METRIC_LEVELS.join(', ')}` });
+    }
+};
+
+/**
+ * Validates a parsed scenario document
+ * Personas need a unique type, a share between 0 and 1 and a value for every metric,
+ * constant or per phase (start, middle, end)
+ * @param document - Parsed JSON or YAML document
+ * @returns The document as learner scenario
+ * @throws ScenarioValidationError listing all issues found
+ */
+export function validateScenario(document: unknown): LearnerScenario {
+    const issues: ScenarioValidationIssue[] = [];
+
+    if (!isObject(document)) {
+        throw new ScenarioValidationError([{ location: '$', message: 'Scenario must be an object' }]);
+    }
+    if (typeof document.name !== 'string' || !document.name.trim()) {
+        issues.push({ location: '$.name', message: 'Name is required' });
+    }
+    if (document.description !== undefined && typeof document.description !== 'string') {
+        issues.push({ location: '$.description', message: 'Description must be a string' });
+    }
+    if (!Array.isArray(document.personas) || document.personas.length === 0) {
+        issues.push({ location: '$.personas', message: 'At least one persona is required' });
+        throw new ScenarioValidationError(issues);
+    }
+
+    const types = new Set<string>();
+    document.personas.forEach((persona: unknown, index: number) => {
+        const location = `$.personas[${index}]`;
+        if (!isObject(persona)) {
+            issues.push({ location, message: 'Persona must be an object' });
+            return;
+        }
+
+        if (typeof persona.type !== 'string' || !PERSONA_TYPE_PATTERN.test(persona.type)) {
+            issues.push({ location: `${location}.type`, message: 'Type must start with a letter and contain only letters, digits, - and _' });
+        } else if (types.has(persona.type)) {
+            issues.push({ location: `${location}.type`, message: `Duplicate persona type ${persona.type}` });
+        } else {
+            types.add(persona.type);
+        }
+
+        if (typeof persona.share !== 'number' || !isFinite(persona.share) || persona.share < 0 || persona.share > 1) {
+            issues.push({ location: `${location}.share`, message: 'Share must be a number between 0 and 1' });
+        }
+        if (persona.description !== undefined && typeof persona.description !== 'string') {
+            issues.push({ location: `${location}.description`, message: 'Description must be a string' });
+        }
+        if (persona.skipAhead !== undefined &&
+            (typeof persona.skipAhead !== 'number' || !isFinite(persona.skipAhead) || persona.skipAhead < 0 || persona.skipAhead > 1)) {
+            issues.push({ location: `${location}.skipAhead`, message: 'Skip-ahead probability must be a number between 0 and 1' });
+        }
+        if (persona.dropout !== undefined) {
+            if (!isObject(persona.dropout)) {
+                issues.push({ location: `${location}.dropout`, message: 'Dropout model must be an object' });
+            } else {
+                DROPOUT_CHANCES.forEach(name => {
+                    const value = persona.dropout[name];
+                    if (value !== undefined && (typeof value !== 'number' || !isFinite(value) || value < 0 || value > 1)) {
+                        issues.push({ location: `${location}.dropout.${name}`, message: 'Chance must be a number between 0 and 1' });
+                    }
+                });
+                const minBreakWeeks = persona.dropout.minBreakWeeks;
+                if (minBreakWeeks !== undefined && !(Number.isInteger(minBreakWeeks) && minBreakWeeks >= 1)) {
+                    issues.push({ location: `${location}.dropout.minBreakWeeks`, message: 'Minimum break must be a positive number of weeks' });
+                }
+            }
+        }
+
+        if (!isObject(persona.metrics)) {
+            issues.push({ location: `${location}.metrics`, message: `Metrics ${METRIC_NAMES.join(', ')} are required` });
+            return;
+        }
+        METRIC_NAMES.forEach(name => {
+            const metric = persona.metrics[name];
+            const metricLocation = `${location}.metrics.${name}`;
+
+            if (metric === undefined) {
+                issues.push({ location: metricLocation, message: `Metric ${name} is required` });
+            } else if (isObject(metric)) {
+                PHASES.forEach(phase => validateMetricValue(metric[phase], `${metricLocation}.${phase}`, issues));
+            } else {
+                validateMetricValue(metric, metricLocation, issues);
+            }
+        });
+    });
+
+    const totalShare = document.personas.reduce((sum: number, persona: unknown) =>
+        sum + (isObject(persona) && typeof persona.share === 'number' ? persona.share : 0), 0);
+    if (issues.length === 0 && totalShare <= 0) {
+        issues.push({ location: '$.personas', message: 'At least one persona needs a share above 0' });
+    }
+
+    if (issues.length > 0) {
+        throw new ScenarioValidationError(issues);
+    }
+
+    return document as LearnerScenario;
+}
+
+/**
+ * Parses and validates a scenario file
+ * @param text - File content
+ * @param fileName - Optional file name, .json files are parsed as JSON, all others as YAML
+ * @returns Validated learner scenario
+ * @throws ScenarioValidationError if the file cannot be parsed or is no valid scenario
+ */
+export function parseScenario(text: string, fileName: string = ''): LearnerScenario {
+    let document: unknown;
+    try {
+        // YAML is a superset of JSON, JSON files are parsed strictly for clearer errors
+        document = fileName.toLowerCase().endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new ScenarioValidationError([{ location: '$', message: `Cannot parse scenario: ${message}` }]);
+    }
+
+    return validateScenario(document);
+}
+
+/**
+ * Scenario bundled with the app, used if no other scenario is given
+ */
+export const defaultScenario: LearnerScenario = validateScenario(bundledScenario);
@@ -0,0 +1,27 @@
+import { createRandom, mulberry32, randomBytes } from './random';
+
+describe('random', () => {
+    test('the same seed yields the same sequence', () => {
+        const first = mulberry32(42);
+        const second = mulberry32(42);
+        const other = mulberry32(43);
+        const sequence = Array.from({ length: 5 }, () => first());
+
+        expect(Array.from({ length: 5 }, () => second())).toEqual(sequence);
+        expect(Array.from({ length: 5 }, () => other())).not.toEqual(sequence);
+        sequence.forEach(value => {
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThan(1);
+        });
+    });
+
+    test('without seed Math.random is used', () => {
+        expect(createRandom()).toBe(Math.random);
+        expect(createRandom(0)).not.toBe(Math.random);
+    });
+
+    test('random bytes are reproducible', () => {
+        expect(randomBytes(mulberry32(1))).toEqual(randomBytes(mulberry32(1)));
+        expect(randomBytes(mulberry32(1))).toHaveLength(16);
+    });
+});
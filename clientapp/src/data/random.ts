@@ -0,0 +1,64 @@
+/**
+ * Source of uniformly distributed numbers in [0, 1), same contract as Math.random
+ */
+export type Random = () => number;
+
+/**
+ * Creates the mulberry32 pseudo random number generator
+ * Small and fast 32 bit generator, the same seed always yields the same sequence
+ * @param seed - 32 bit integer seed
+ * @returns Random number source
+ */
+export function mulberry32(seed: number): Random {
+    let state = seed >>> 0;
+
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Creates the random number source of a generator run
+ * @param seed - Optional seed, without seed Math.random is used and every run differs
+ * @returns Random number source
+ */
+export function createRandom(seed?: number): Random {
+    return seed === undefined ? Math.random : mulberry32(seed);
+}
+
+/**
+ * Returns 16 random bytes, used as input for version 4 UUIDs
+ * @param random - Random number source
+ * @returns Random bytes
+ */
+export function randomBytes(random: Random): Uint8Array {
+    const bytes = new Uint8Array(16);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = Math.floor(random() * 256);
+    }
+    return bytes;
+}
+
+/**
+ * Draws a standard normally distributed number with the Box-Muller transform
+ * @param random - Random number source
+ * @returns Number with mean 0 and standard deviation 1
+ */
+export function randomNormal(random: Random): number {
+    // 1 - random() avoids the logarithm of 0
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Picks a seed for runs that have to be reproducible without a given seed
+ * @returns Non-negative 31 bit integer
+ */
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 0x80000000);
+}
@@ -1,5 +1,10 @@
 import ActivityGenerator from './activity-generator';
-import { CourseData, Verb, LearnerProfile, LearningSession } from '../types/types';
+import { CourseData, Verb, LearnerProfile, LearningSession, ActivityConfig, CalendarModel, Chronotype } from '../types/types';
+import { Random } from './random';
+import { createZonedDate, defaultCalendar, WEEKDAYS } from './calendar-model';
+
+// Weeks of attempts the dropout chance depends on
+const RECENT_WEEKS = 2;
 
 
 /**
@@ -9,17 +14,30 @@ class LearningSessionGenerator {
     private readonly courseData: CourseData;
     private readonly numberOfWeeks: number;
     private readonly verbs: Verb[];
+    private readonly random: Random;
+    private readonly calendar: CalendarModel;
     private activityGenerator: ActivityGenerator;
 
-    constructor(courseData: CourseData, numberOfWeeks: number, verbs: Verb[]) {
+    constructor(
+        courseData: CourseData,
+        numberOfWeeks: number,
+        verbs: Verb[],
+        random: Random = Math.random,
+        activityConfig?: ActivityConfig,
+        calendar: CalendarModel = defaultCalendar
+    ) {
         this.courseData = courseData;
         this.numberOfWeeks = numberOfWeeks;
         this.verbs = verbs;
-        this.activityGenerator = new ActivityGenerator(this.courseData, this.verbs, this.numberOfWeeks)
+        this.random = random;
+        this.calendar = calendar;
+        this.activityGenerator = new ActivityGenerator(this.courseData, this.verbs, this.numberOfWeeks, this.random, activityConfig)
     }
 
     /**
      * Generates learning sessions for a learner over the specified number of weeks.
+     * Sessions are scheduled on the days and hours of the calendar model in the time zone of the learner.
+     * Learners with a dropout model may abandon the course after a week and return after a break.
      * @param learnerProfile - The profile of the learner for whom the sessions will be generated.
      * @param startDate - The start date for the course.
      * @returns An array of learning sessions for the learner.
@@ -29,19 +47,35 @@ class LearningSessionGenerator {
         startDate: Date,
     ): LearningSession[] {
         const sessions: LearningSession[] = [];
+        const timeZone = this.pickTimeZone();
+        const chronotype = this.getChronotype(learnerProfile);
+        // Weeks since the learner dropped out, undefined while active
+        let inactiveWeeks: number | undefined;
 
         // Generate sessions for each week
         for (let week = 0; week < this.numberOfWeeks; week++) {
+            if (inactiveWeeks !== undefined) {
+                inactiveWeeks++;
+                if (!this.isReengaging(learnerProfile, inactiveWeeks)) continue;
+                inactiveWeeks = undefined;
+            }
+
             const weekStart = new Date(startDate);
             weekStart.setDate(weekStart.getDate() + (week * 7));
 
-            // Get sessions for this week based on profile and current phase
-            const sessionsPerWeek = this.getSessionsPerWeek(learnerProfile, week);
+            // Get sessions for this week based on profile, current phase and upcoming deadlines
+            const dayWeights = this.getDayWeights(weekStart, week);
+            const sessionsPerWeek = this.getSessionsPerWeek(learnerProfile, week) + this.getDeadlineSessions(week);
+            const sessionDays = this.pickSessionDays(dayWeights, sessionsPerWeek);
 
             // Create sessions for this week
-            for (let i = 0; i < sessionsPerWeek; i++) {
-                const session = this.createSession(learnerProfile, weekStart, i, week);
+            sessionDays.forEach(dayOffset => {
+                const session = this.createSession(learnerProfile, weekStart, dayOffset, week, chronotype, timeZone);
                 sessions.push(session);
+            });
+
+            if (this.isDroppingOut(learnerProfile, week)) {
+                inactiveWeeks = 0;
             }
 
             //console.log(`CurrentWeek: ${week}, learner: ${learnerProfile.personaType}`)
@@ -71,17 +105,152 @@ class LearningSessionGenerator {
         const varianceChance = consistency >= 0.8 ? 0.9 : // High consistency = mostly stable
             consistency <= 0.2 ? 0.3 : // Low consistency = more variance
                 0.7; // Default
-        const variance = Math.random() < varianceChance ? 0 : (Math.random() < 0.5 ? -1 : 1);
+        const variance = this.random() < varianceChance ? 0 : (this.random() < 0.5 ? -1 : 1);
 
         return Math.max(1, Math.min(6, baseSessions + variance));
     }
 
+    /**
+     * Decides if a learner drops out after a week.
+     * The chance rises with the failed attempts and the missed points of the recent weeks.
+     * @param profile - The profile of the learner.
+     * @param currentWeek - The week that just ended.
+     * @returns True if the learner stops learning.
+     */
+    private isDroppingOut(profile: LearnerProfile, currentWeek: number): boolean {
+        const dropout = profile.dropout;
+        if (!dropout) return false;
+
+        const attempts = this.activityGenerator.getRecentAttempts(profile.id, currentWeek - RECENT_WEEKS + 1);
+        const failures = attempts.filter(attempt => !attempt.passed).length;
+        const missedPoints = attempts.length > 0
+            ? 1 - attempts.reduce((sum, attempt) => sum + attempt.score, 0) / (attempts.length * 100)
+            : 0;
+
+        const hazard = dropout.hazard + failures * dropout.failureImpact + Math.max(0, missedPoints) * dropout.scoreImpact;
+        return this.random() < Math.min(1, hazard);
+    }
+
+    /**
+     * Decides if a learner who dropped out returns in the current week.
+     * @param profile - The profile of the learner.
+     * @param inactiveWeeks - Weeks since the learner dropped out, including the current week.
+     * @returns True if the learner is active again.
+     */
+    private isReengaging(profile: LearnerProfile, inactiveWeeks: number): boolean {
+        const dropout = profile.dropout;
+        if (!dropout || dropout.reengagement <= 0 || inactiveWeeks <= dropout.minBreakWeeks) return false;
+
+        return this.random() < dropout.reengagement;
+    }
+
+    /**
+     * Picks the time zone of a learner by the shares of the calendar model.
+     * @returns The IANA time zone name, or undefined to use the local time zone.
+     */
+    private pickTimeZone(): string | undefined {
+        const timeZones = this.calendar.timeZones.filter(entry => entry.share > 0);
+        if (timeZones.length === 0) return undefined;
+
+        const totalShare = timeZones.reduce((sum, entry) => sum + entry.share, 0);
+        let threshold = this.random() * totalShare;
+        const match = timeZones.find(entry => (threshold -= entry.share) < 0);
+        return (match || timeZones[timeZones.length - 1]).timeZone;
+    }
+
+    /**
+     * Gets the chronotype of a learner from its persona type.
+     * @param profile - The profile of the learner.
+     * @returns The chronotype the session start hours are drawn from.
+     */
+    private getChronotype(profile: LearnerProfile): Chronotype {
+        const name = this.calendar.personaChronotypes[profile.personaType] || this.calendar.defaultChronotype;
+        return this.calendar.chronotypes[name] || this.calendar.chronotypes[this.calendar.defaultChronotype];
+    }
+
+    /**
+     * Calculates the relative chance of a session on each day of a course week.
+     * Days are weighted by their weekday, boosted before deadlines and excluded during blackout periods.
+     * @param weekStart - The start date of the week.
+     * @param currentWeek - The current week of the course.
+     * @returns Seven weights, starting with the first day of the week.
+     */
+    private getDayWeights(weekStart: Date, currentWeek: number): number[] {
+        const weights: number[] = [];
+
+        for (let dayOffset = 0; dayOffset < 7; dayOffset++) {
+            const date = new Date(weekStart);
+            date.setDate(date.getDate() + dayOffset);
+            const courseDay = currentWeek * 7 + dayOffset;
+            const isoDate = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+            if (this.calendar.blackoutPeriods.some(period => isoDate >= period.start && isoDate <= period.end)) {
+                weights.push(0);
+                continue;
+            }
+
+            let weight = this.calendar.weekdayWeights[WEEKDAYS[date.getDay()]];
+            this.calendar.deadlines.forEach(deadline => {
+                const dueDay = deadline.week * 7 - 1;
+                if (courseDay >= dueDay - deadline.leadDays && courseDay <= dueDay) {
+                    weight *= deadline.boost;
+                }
+            });
+            weights.push(weight);
+        }
+
+        return weights;
+    }
+
+    /**
+     * Counts the additional sessions of deadlines whose lead days overlap the given week.
+     * @param currentWeek - The current week of the course.
+     * @returns The number of additional sessions.
+     */
+    private getDeadlineSessions(currentWeek: number): number {
+        const firstDay = currentWeek * 7;
+        const lastDay = firstDay + 6;
+
+        return this.calendar.deadlines
+            .filter(deadline => {
+                const dueDay = deadline.week * 7 - 1;
+                return dueDay >= firstDay && dueDay - deadline.leadDays <= lastDay;
+            })
+            .reduce((sum, deadline) => sum + deadline.extraSessions, 0);
+    }
+
+    /**
+     * Picks distinct session days of a week by their weights.
+     * @param dayWeights - Relative chance of a session on each day of the week.
+     * @param count - The number of sessions, limited to the days with a weight above 0.
+     * @returns The picked offsets from the start of the week in ascending order.
+     */
+    private pickSessionDays(dayWeights: number[], count: number): number[] {
+        const candidates = dayWeights
+            .map((weight, dayOffset) => ({ weight, dayOffset }))
+            .filter(candidate => candidate.weight > 0);
+        const days: number[] = [];
+
+        while (days.length < count && candidates.length > 0) {
+            const totalWeight = candidates.reduce((sum, candidate) => sum + candidate.weight, 0);
+            let threshold = this.random() * totalWeight;
+            let index = candidates.findIndex(candidate => (threshold -= candidate.weight) < 0);
+            if (index === -1) index = candidates.length - 1;
+
+            days.push(candidates.splice(index, 1)[0].dayOffset);
+        }
+
+        return days.sort((a, b) => a - b);
+    }
+
     /**
      * Creates a single learning session for the given learner and week.
      * @param profile - The profile of the learner.
      * @param weekStart - The start date of the week.
      * @param dayOffset - The offset from the start of the week (in days) for the session.
      * @param currentWeek - The current week of the course.
+     * @param chronotype - The chronotype of the learner.
+     * @param timeZone - The time zone of the learner, the local time zone if undefined.
      * @returns The created learning session.
      */
     private createSession(
@@ -89,10 +258,12 @@ class LearningSessionGenerator {
         weekStart: Date,
         dayOffset: number,
         currentWeek: number,
+        chronotype: Chronotype,
+        timeZone?: string,
     ): LearningSession {
         const sessionDate = new Date(weekStart);
         sessionDate.setDate(sessionDate.getDate() + dayOffset);
-        const startTime = this.getSessionStartTime(sessionDate);
+        const startTime = this.getSessionStartTime(sessionDate, chronotype, timeZone);
 
         const sessionDuration = this.getSessionDuration(profile, currentWeek);
 
@@ -115,16 +286,36 @@ class LearningSessionGenerator {
     }
 
     /**
-     * Gets a reasonable start time for a session, between 9 AM and 8 PM with random minutes.
+     * Gets a start time for a session within the hours of the learner's chronotype.
+     * Hours are drawn from a triangular distribution around the peak hour, or uniformly without one.
      * @param date - The date for which the start time should be generated.
+     * @param chronotype - The chronotype of the learner.
+     * @param timeZone - The time zone of the learner, the local time zone if undefined.
      * @returns The generated start time.
      */
-    private getSessionStartTime(date: Date): Date {
+    private getSessionStartTime(date: Date, chronotype: Chronotype, timeZone?: string): Date {
+        const { startHour, endHour, peakHour } = chronotype;
+        const range = endHour - startHour;
+        const sample = this.random();
+
+        let time: number;
+        if (peakHour === undefined) {
+            time = startHour + sample * range;
+        } else {
+            const peakShare = (peakHour - startHour) / range;
+            time = sample < peakShare
+                ? startHour + Math.sqrt(sample * range * (peakHour - startHour))
+                : endHour - Math.sqrt((1 - sample) * range * (endHour - peakHour));
+        }
+
+        const hour = Math.floor(time);
+        const minutes = Math.floor((time - hour) * 60);
+
+        if (timeZone) {
+            return createZonedDate(date.getFullYear(), date.getMonth(), date.getDate(), hour, minutes, timeZone);
+        }
+
         const startTime = new Date(date);
-        // Random hour between 9 AM and 8 PM
-        const hour = 9 + Math.floor(Math.random() * 11);
-        // Random minutes (0-59)
-        const minutes = Math.floor(Math.random() * 60);
         startTime.setHours(hour, minutes, 0, 0);
         return startTime;
     }
@@ -157,7 +348,7 @@ class LearningSessionGenerator {
             consistency <= 0.2 ? 15 : // Low consistency = large variance
                 10; // Medium variance
 
-        const variance = Math.floor(Math.random() * (varianceRange * 2 + 1)) - varianceRange;
+        const variance = Math.floor(this.random() * (varianceRange * 2 + 1)) - varianceRange;
 
         // Scale duration: 
         // - Minimum duration is 45 minutes (0.75 * BASE_DURATION)
@@ -0,0 +1,46 @@
+import fs from 'fs';
+import path from 'path';
+import CourseDataGenerator from './course-data-generator';
+import LearnerGenerator from './learner-generator';
+import XAPIGenerator from './xapi-generator';
+import { Extensions } from './activity-generator';
+import { XAPIProfile } from '../types/types';
+import bundledProfile from './files/xapi_profiles.json';
+
+/**
+ * Generates the statements of the bundled course like the generate script does without a server
+ */
+const generate = async (seed: number) => {
+    const filesDir = path.join(__dirname, 'files');
+    const courseDataGenerator = new CourseDataGenerator();
+    const lomData = courseDataGenerator.parseLOMFiles([fs.readFileSync(path.join(filesDir, 'lom11.xml'), 'utf8')]);
+    const courseData = courseDataGenerator.buildCourseData(
+        fs.readFileSync(path.join(filesDir, 'ims_common_cartridge.xml'), 'utf8'), lomData, bundledProfile as XAPIProfile);
+
+    const learners = new LearnerGenerator().generateLearnerProfiles(3, seed)
+        .map(learner => ({ ...learner, courseId: courseData.id }));
+    const generator = new XAPIGenerator(courseData, courseDataGenerator.parseVerbs(bundledProfile), learners);
+    const { statements } = await generator.generateStatements(2, seed);
+    return { courseData, learners, statements };
+};
+
+describe('XAPIGenerator', () => {
+    test('the same seed yields the same statements', async () => {
+        const first = await generate(7);
+        const second = await generate(7);
+
+        expect(first.statements.length).toBeGreaterThan(0);
+        expect(second.statements).toEqual(first.statements);
+        expect((await generate(8)).statements).not.toEqual(first.statements);
+    });
+
+    test('statements belong to the generated learners and the course', async () => {
+        const { courseData, learners, statements } = await generate(7);
+        const emails = new Set(learners.map(learner => learner.email));
+
+        statements.forEach(statement => {
+            expect(emails.has(statement.actor.mbox)).toBe(true);
+            expect(statement.context.extensions?.[Extensions.COURSE_ID]).toBe(courseData.id);
+        });
+    });
+});
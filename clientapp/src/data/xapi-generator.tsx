@@ -2,10 +2,30 @@ import { v4 as uuidv4 } from 'uuid';
 import LearnerGenerator from './learner-generator';
 import CourseDataGenerator from './course-data-generator';
 import LearningSessionGenerator from './session-generator';
+import { Extensions } from './activity-generator';
+import { Random, createRandom, randomBytes } from './random';
 import { XAPIService } from '../services/xapi-service';
+import GenerationJobService from '../services/generation-job-service';
+import SessionService from '../services/session-service';
 import VerbService from '../services/verb-service';
 import LearnerService from '../services/learner-service';
-import { CourseData, Verb, LearnerProfile, XAPIStatement, LearningSession, LearningInteraction, Activity } from '../types/types';
+import { CourseData, Verb, LearnerProfile, XAPIStatement, LearningSession, LearningInteraction, Activity, GenerationOptions, GeneratedLearnerData } from '../types/types';
+
+/**
+ * Start date of the simulated course if none is given
+ * @returns June 27th 2024 plus two weeks
+ */
+export const defaultCourseStartDate = (): Date => {
+    const courseStartDate = new Date(2024, 5, 27);
+    courseStartDate.setDate(courseStartDate.getDate() + 14);
+    return courseStartDate;
+};
+
+// Generation yields to the event loop after this many milliseconds, so the browser can render the progress
+const YIELD_INTERVAL_MS = 50;
+
+// Statements per upload request if no batch size is given, stays well below the request size limit of the server
+const DEFAULT_BATCH_SIZE = 1000;
 
 /**
  * Generates xAPI statements from simulated learning sessions and learner profiles
@@ -14,12 +34,16 @@ class XAPIGenerator {
     private courseData: CourseData;
     private verbs: Verb[];
     private learners: LearnerProfile[] = [];
-    private statements: XAPIStatement[] = [];
     private dataService: XAPIService;
+    private jobService: GenerationJobService;
+    private sessionService: SessionService;
     private sessionGenerator!: LearningSessionGenerator;
+    private random: Random = Math.random;
 
     constructor(courseData: CourseData, verbs: Verb[], learners: LearnerProfile[]) {
         this.dataService = new XAPIService();
+        this.jobService = new GenerationJobService();
+        this.sessionService = new SessionService();
         this.courseData = courseData;
         this.verbs = verbs;
         this.learners = learners;
@@ -27,95 +51,203 @@ class XAPIGenerator {
 
     /**
      * Generates and saves xAPI statements for multiple learners over a given time period.
+     * Statements are generated learner by learner and uploaded in batches together with the sessions, so the cohort size is not limited by memory.
+     * With a job id the uploaded statements are recorded in the job, a resumed job skips the statements it already uploaded.
      * @param totalLearners - The total number of learners to generate statements for.
      * @param numberOfWeeks - The number of weeks to simulate.
-     * @returns A Promise that resolves when all statements have been generated and saved.
+     * @param replaceExisting - Whether the stored statements of the course are reset before the new statements are appended.
+     * @param seed - Optional seed, the same seed, learners and number of weeks always yield the same statements.
+     * @param options - Course start date, activity rules, upload batch size, job and progress callback.
+     * @returns A Promise resolving to the number of generated and uploaded statements.
      */
-    async generateAndSaveStatements(totalLearners: number, numberOfWeeks: number): Promise<{
-        sessions: Map<string, LearningSession[]>;
-        statements: XAPIStatement[];
+    async generateAndSaveStatements(totalLearners: number, numberOfWeeks: number, replaceExisting: boolean = true, seed?: number, options: GenerationOptions = {}): Promise<{
+        generated: number;
+        uploaded: number;
     }> {
         try {
+            return await this.saveGeneratedData(this.streamLearners(numberOfWeeks, seed, options), replaceExisting, options);
+        } catch (error) {
+            console.error('Error in generate and save process:', error);
+            throw error;
+        }
+    }
 
-            // 1. Initialize data
-            this.sessionGenerator = new LearningSessionGenerator(this.courseData, numberOfWeeks, this.verbs,);
+    /**
+     * Uploads the statements of a stream of learners in batches, failed requests are retried by the API client.
+     * The sessions of a learner are stored before the first batch with statements of the learner.
+     * @param learners - Learners with their sessions and statements in generation order.
+     * @param replaceExisting - Whether the stored statements and sessions of the course are reset before the first upload.
+     * @param options - Upload batch size, job and progress callback.
+     * @returns A Promise resolving to the number of streamed and uploaded statements.
+     */
+    async saveGeneratedData(learners: AsyncIterable<GeneratedLearnerData>, replaceExisting: boolean, options: GenerationOptions = {}): Promise<{
+        generated: number;
+        uploaded: number;
+    }> {
+        const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+        const job = options.jobId ? await this.jobService.getJob(options.jobId) : undefined;
+        const skipped = job?.uploaded || 0;
 
-            // 2. Set course start date (e.g., 2 weeks from now)
-            const courseStartDate = new Date(2024, 5, 27);
-            courseStartDate.setDate(courseStartDate.getDate() + 14);
+        try {
+            // A resumed job already removed the existing statements
+            if (replaceExisting && skipped === 0) {
+                const removed = await this.dataService.resetDataset(this.courseData.id);
+                console.log(`Removed ${removed} existing statements`);
+            }
 
-            const sessions = await this.generateAllSessions(courseStartDate);
-            const allLearningSessions = Array.from(sessions.values()).flatMap((sessions) => sessions);
+            let generated = 0;
+            let uploaded = skipped;
+            let batch: XAPIStatement[] = [];
+            let sessions: LearningSession[] = [];
 
-            this.statements = [];
-            let progressCount = 0;
-            const totalSteps = allLearningSessions.length;
+            const upload = async () => {
+                if (sessions.length > 0) {
+                    await this.sessionService.saveSessions(this.courseData.id, sessions);
+                    sessions = [];
+                }
+                if (batch.length > 0) {
+                    await this.dataService.saveBulkStatements(batch);
+                }
+                uploaded += batch.length;
+                batch = [];
+                if (job) {
+                    await this.jobService.updateJob(job.id, { uploaded });
+                }
+            };
 
-            allLearningSessions.forEach((session) => {
+            for await (const learner of learners) {
+                // Sessions of learners whose statements were all uploaded before are stored already
+                if (generated + learner.statements.length > skipped) {
+                    sessions.push(...learner.sessions);
+                }
 
-                // Process each activity and its events
-                for (const activity of session.activities) {
-                    for (const event of activity.interactions) {
-                        this.statements.push(this.createStatement(
-                            session.learner,
-                            event.timestamp,
-                            event.verb,
-                            event,
-                            activity.activity
-                        ));
+                for (const statement of learner.statements) {
+                    generated++;
+                    if (generated <= skipped) continue;
+
+                    batch.push(statement);
+                    if (batch.length >= batchSize) {
+                        await upload();
                     }
                 }
-                progressCount++;
-            });
+            }
+            if (batch.length > 0 || sessions.length > 0) {
+                await upload();
+            }
 
-            try {
-                // Save all statements in one operation
-                await this.dataService.saveBulkStatements(this.statements);
+            if (job) {
+                await this.jobService.updateJob(job.id, { status: 'completed' });
+            }
+            console.log(`Saved ${uploaded - skipped} statements` + (skipped > 0 ? `, ${skipped} were saved before` : ''));
 
-                console.log('All statements saved successfully');
+            return { generated, uploaded: uploaded - skipped };
+        } catch (error) {
+            console.error('Error saving statements:', error);
+            if (job) {
+                const message = error instanceof Error ? error.message : String(error);
+                await this.jobService.updateJob(job.id, { status: 'failed', error: message }).catch(() => undefined);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Generates xAPI statements for all learners over a given time period without saving them.
+     * Keeps all sessions and statements in memory, use streamStatements for large cohorts.
+     * @param numberOfWeeks - The number of weeks to simulate.
+     * @param seed - Optional seed, the same seed, learners and number of weeks always yield the same statements.
+     * @param options - Course start date, activity rules and progress callback.
+     * @returns A Promise resolving to the sessions grouped by learner ID and the generated statements.
+     */
+    async generateStatements(numberOfWeeks: number, seed?: number, options: GenerationOptions = {}): Promise<{
+        sessions: Map<string, LearningSession[]>;
+        statements: XAPIStatement[];
+    }> {
+        const sessions = new Map<string, LearningSession[]>();
+        const statements: XAPIStatement[] = [];
 
-                //this.printStatementsStatistics(sessions);
+        for await (const chunk of this.streamLearners(numberOfWeeks, seed, options)) {
+            sessions.set(chunk.learner.id, chunk.sessions);
+            statements.push(...chunk.statements);
+        }
 
-                return {
-                    sessions,
-                    statements: this.statements
-                };
-            } catch (error) {
-                console.error('Error saving statements:', error);
-                throw error;
+        return {
+            sessions,
+            statements
+        };
+    }
+
+    /**
+     * Generates xAPI statements learner by learner, only the statements of one learner are kept in memory.
+     * Yields the same statements in the same order as generateStatements.
+     * @param numberOfWeeks - The number of weeks to simulate.
+     * @param seed - Optional seed, the same seed, learners and number of weeks always yield the same statements.
+     * @param options - Course start date, activity rules and progress callback.
+     * @returns An async iterator of the generated statements.
+     */
+    async *streamStatements(numberOfWeeks: number, seed?: number, options: GenerationOptions = {}): AsyncGenerator<XAPIStatement> {
+        for await (const chunk of this.streamLearners(numberOfWeeks, seed, options)) {
+            for (const statement of chunk.statements) {
+                yield statement;
             }
-        } catch (error) {
-            console.error('Error in generate and save process:', error);
-            throw error;
         }
     }
 
     /**
-     * Generates learning sessions for all learners and returns them grouped by learner ID.
-     * @param courseStartDate - The start date of the course.
-     * @returns A Map of learner IDs to their corresponding learning sessions.
+     * Generates the sessions and statements of one learner after the other.
+     * @param numberOfWeeks - The number of weeks to simulate.
+     * @param seed - Optional seed of the generation run.
+     * @param options - Course start date, activity rules and progress callback.
+     * @returns An async iterator of the learners with their sessions and statements.
      */
-    async generateAllSessions(courseStartDate: Date) {
-        try {
-            // Generate sessions for each learner
-            const allSessions = new Map<string, LearningSession[]>();
+    async *streamLearners(numberOfWeeks: number, seed?: number, options: GenerationOptions = {}): AsyncGenerator<GeneratedLearnerData> {
+        // 1. Initialize data
+        this.random = createRandom(seed);
+        this.sessionGenerator = new LearningSessionGenerator(this.courseData, numberOfWeeks, this.verbs, this.random, options.activityConfig, options.calendar);
 
-            for (const learner of this.learners) {
-                const learnerSessions = this.sessionGenerator.generateLearnerSessions(
-                    learner,
-                    courseStartDate
-                );
+        // 2. Set course start date
+        const courseStartDate = options.courseStartDate || defaultCourseStartDate();
 
-                allSessions.set(learner.id, learnerSessions);
+        let lastYield = Date.now();
+        let statementCount = 0;
+
+        for (let index = 0; index < this.learners.length; index++) {
+            const learner = this.learners[index];
+            let sessions: LearningSession[];
+            try {
+                sessions = this.sessionGenerator.generateLearnerSessions(learner, courseStartDate);
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+                console.error('Failed to generate sessions:', errorMessage);
+                throw new Error(`Session generation failed: ${errorMessage}`);
             }
 
-            return allSessions;
+            // Process each activity and its events
+            const statements: XAPIStatement[] = [];
+            for (const session of sessions) {
+                for (const activity of session.activities) {
+                    for (const event of activity.interactions) {
+                        statements.push(this.createStatement(
+                            session.learner,
+                            event.timestamp,
+                            event.verb,
+                            event,
+                            activity.activity
+                        ));
+                    }
+                }
+            }
+            statementCount += statements.length;
 
-        } catch (error: unknown) {
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-            console.error('Failed to generate sessions:', errorMessage);
-            throw new Error(`Session generation failed: ${errorMessage}`);
+            yield { learner, sessions, statements };
+
+            if (options.onProgress && Date.now() - lastYield > YIELD_INTERVAL_MS) {
+                options.onProgress({ phase: 'sessions', completed: index + 1, total: this.learners.length, statements: statementCount });
+                await new Promise(resolve => setTimeout(resolve, 0));
+                lastYield = Date.now();
+            }
         }
+        options.onProgress?.({ phase: 'sessions', completed: this.learners.length, total: this.learners.length, statements: statementCount });
     }
 
     /**
@@ -139,13 +271,15 @@ class XAPIGenerator {
         // Generate result based on interaction or learner profile
         try {
             const result = interaction.result;
+            // Questions, searches and badges replace the activity as object
+            const interactionObject = interaction.object;
             const statement: XAPIStatement = {
                 actor: {
                     mbox: learner.email,
                 },
                 timestamp: timestamp.toJSON(),
                 version: "1.0.0",
-                id: uuidv4(),
+                id: uuidv4({ random: randomBytes(this.random) }),
                 ...(result && { result }),
                 verb: {
                     id: verb.id,
@@ -153,28 +287,52 @@ class XAPIGenerator {
                         en: verb.prefLabel
                     }
                 },
-                object: {
-                    id: activity.href,
-                    definition: {
-                        type: activity.objectType,
-                        name: {
-                            en: activity.title
+                object: interactionObject
+                    ? {
+                        id: interactionObject.id,
+                        definition: {
+                            type: interactionObject.type,
+                            name: {
+                                en: interactionObject.name
+                            },
+                            ...(interactionObject.description && { description: { en: interactionObject.description } }),
+                            ...(interactionObject.interactionType && {
+                                interactionType: interactionObject.interactionType,
+                                correctResponsesPattern: interactionObject.correctResponsesPattern,
+                                choices: interactionObject.choices
+                            })
                         },
-                        description: {
-                            en: activity.description
+                        objectType: 'Activity'
+                    }
+                    : {
+                        id: activity.href,
+                        definition: {
+                            type: activity.objectType,
+                            name: {
+                                en: activity.title
+                            },
+                            description: {
+                                en: activity.description
+                            },
+                            extensions: {
+                                'https://w3id.org/learning-analytics/learning-management-system/external-id': activity.id
+                            }
                         },
-                        extensions: {
-                            'https://w3id.org/learning-analytics/learning-management-system/external-id': activity.id
-                        }
+                        objectType: 'Activity'
                     },
-                    objectType: 'Activity'
-                },
                 context: {
-                    instructor: {
+                    instructor: interaction.instructor || {
                         mbox: `mailto:instructor@example.com`,
                     },
+                    ...(interaction.registration && { registration: interaction.registration }),
+                    ...(interactionObject?.parentId && {
+                        contextActivities: {
+                            parent: [{ id: interactionObject.parentId, objectType: 'Activity' }]
+                        }
+                    }),
                     extensions: {
-                        'https://example.com/activities/extensions/course_id': activity?.id
+                        ...interaction.extensions,
+                        [Extensions.COURSE_ID]: this.courseData.id
                     }
                 }
             };
@@ -0,0 +1,81 @@
+import { ExcludeVoided, MergeStatementChanges, MergeStatements, VOIDED_VERB } from './helper';
+import { XAPIStatement } from '../types/types';
+
+const statement = (id: string, mbox = 'mailto:a@example.com'): XAPIStatement => ({
+    id,
+    actor: { mbox },
+    timestamp: '2024-05-01T10:00:00.000Z',
+    version: '1.0.3',
+    verb: { id: 'http://adlnet.gov/expapi/verbs/launched', display: { en: 'launched' } },
+    object: { id: 'https://example.org/video', objectType: 'Activity', definition: { type: 'video', name: { en: 'Video' } } },
+    context: {}
+});
+
+const voiding = (id: string, voidedId: string): XAPIStatement => ({
+    ...statement(id),
+    verb: { id: VOIDED_VERB, display: { en: 'voided' } },
+    object: { id: voidedId, objectType: 'StatementRef', definition: { type: '', name: { en: '' } } }
+});
+
+const ids = (statements: XAPIStatement[]) => statements.map(statement => statement.id);
+
+describe('ExcludeVoided', () => {
+    test('removes voided and voiding statements', () => {
+        const statements = [statement('a'), statement('b'), voiding('v', 'a')];
+        expect(ids(ExcludeVoided(statements))).toEqual(['b']);
+    });
+
+    test('keeps statements that no voiding statement references', () => {
+        expect(ids(ExcludeVoided([statement('a'), voiding('v', 'unknown')]))).toEqual(['a']);
+    });
+});
+
+describe('MergeStatements', () => {
+    test('appends new statements and skips known ones', () => {
+        const statements = [statement('a'), statement('b')];
+        const merged = MergeStatements(statements, [statement('b'), statement('c')]);
+
+        expect(ids(merged)).toEqual(['a', 'b', 'c']);
+        expect(merged[0]).toBe(statements[0]);
+    });
+
+    test('removes statements voided by streamed statements', () => {
+        const merged = MergeStatements([statement('a'), statement('b')], [voiding('v', 'a'), statement('c')]);
+        expect(ids(merged)).toEqual(['b', 'c']);
+    });
+
+    test('leaves out streamed statements voided in the same batch', () => {
+        const merged = MergeStatements([statement('a')], [statement('c'), voiding('v', 'c')]);
+        expect(ids(merged)).toEqual(['a']);
+    });
+
+    test('returns the same array if nothing changed', () => {
+        const statements = [statement('a')];
+
+        expect(MergeStatements(statements, [statement('a')])).toBe(statements);
+        expect(MergeStatements(statements, [voiding('v', 'unknown')])).toBe(statements);
+    });
+});
+
+describe('MergeStatementChanges', () => {
+    const ownStatements = (candidate: XAPIStatement) => candidate.actor.mbox === 'mailto:a@example.com';
+
+    test('appends the included statements and removes the removed ones', () => {
+        const merged = MergeStatementChanges([statement('a'), statement('b')], {
+            added: [statement('c'), statement('d', 'mailto:b@example.com'), statement('b')],
+            removedIds: new Set(['a'])
+        }, ownStatements);
+
+        expect(ids(merged)).toEqual(['b', 'c']);
+    });
+
+    test('returns the same array if nothing changed', () => {
+        const statements = [statement('a')];
+        const merged = MergeStatementChanges(statements, {
+            added: [statement('d', 'mailto:b@example.com')],
+            removedIds: new Set(['unknown'])
+        }, ownStatements);
+
+        expect(merged).toBe(statements);
+    });
+});
@@ -1,3 +1,10 @@
+import { StatementChanges, XAPIStatement } from '../types/types';
+
+/**
+ * Verb of statements voiding another statement
+ */
+export const VOIDED_VERB = 'http://adlnet.gov/expapi/verbs/voided';
+
 /**
  * Parses an ISO 8601 duration string (PT format) into minutes.
  * @param {string | null} duration - Duration string in PT format (e.g., "PT1H30M15S") or null
@@ -13,4 +20,61 @@ export const ParseDuration = (duration: string | null): number => {
     return (
         (parseInt(hours || '0') * 60) + parseInt(minutes || '0') + Math.ceil(parseInt(seconds || '0') / 60)
     );
+};
+
+/**
+ * Removes voiding statements and the statements they void.
+ * The server leaves voided statements out of every result, this also covers statements loaded before they were voided.
+ * @param {XAPIStatement[]} statements - Statements as loaded from the server
+ * @returns {XAPIStatement[]} - Statements that count for the dashboards
+ */
+export const ExcludeVoided = (statements: XAPIStatement[]): XAPIStatement[] => {
+    const voidedIds = new Set(statements
+        .filter(statement => statement.verb.id === VOIDED_VERB)
+        .map(statement => statement.object.id));
+
+    return statements.filter(statement => statement.verb.id !== VOIDED_VERB && !voidedIds.has(statement.id));
+};
+
+/**
+ * Merges streamed statements into the loaded statements.
+ * New statements are appended, so the loaded statements keep their positions unless a streamed statement voids one of them.
+ * @param {XAPIStatement[]} statements - Statements shown by the dashboards
+ * @param {XAPIStatement[]} incoming - Streamed statements, voiding statements and statements already known included
+ * @returns {XAPIStatement[]} - Merged statements, the same array if nothing changed
+ */
+export const MergeStatements = (statements: XAPIStatement[], incoming: XAPIStatement[]): XAPIStatement[] => {
+    const knownIds = new Set(statements.map(statement => statement.id));
+    const voidedIds = new Set(incoming
+        .filter(statement => statement.verb.id === VOIDED_VERB)
+        .map(statement => statement.object.id));
+
+    const added = ExcludeVoided(incoming).filter(statement => !knownIds.has(statement.id));
+    const kept = statements.some(statement => voidedIds.has(statement.id))
+        ? statements.filter(statement => !voidedIds.has(statement.id))
+        : statements;
+
+    return added.length > 0 || kept !== statements ? [...kept, ...added] : statements;
+};
+
+/**
+ * Merges changes of the app's statements into statements a dashboard loaded itself.
+ * Added statements are appended, so the loaded statements keep their positions unless they were removed.
+ * @param {XAPIStatement[]} statements - Statements loaded by the dashboard
+ * @param {StatementChanges} changes - Statements added to and removed from the app's statements
+ * @param {Function} include - Selects the added statements that belong to the loaded statements
+ * @returns {XAPIStatement[]} - Merged statements, the same array if nothing changed
+ */
+export const MergeStatementChanges = (
+    statements: XAPIStatement[],
+    { added, removedIds }: StatementChanges,
+    include: (statement: XAPIStatement) => boolean
+): XAPIStatement[] => {
+    const knownIds = new Set(statements.map(statement => statement.id));
+    const included = added.filter(statement => !knownIds.has(statement.id) && include(statement));
+    const kept = statements.some(statement => removedIds.has(statement.id))
+        ? statements.filter(statement => !removedIds.has(statement.id))
+        : statements;
+
+    return included.length > 0 || kept !== statements ? [...kept, ...included] : statements;
 };
\ No newline at end of file
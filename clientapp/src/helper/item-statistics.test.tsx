@@ -0,0 +1,74 @@
+import { analyzeItems } from './item-statistics';
+import { XAPIStatement } from '../types/types';
+
+const QUIZ = 'https://example.org/quiz';
+
+// Responses of four attempts to three questions keyed a, from the strongest to the weakest attempt
+const MATRIX = [
+    ['a', 'a', 'a'],
+    ['a', 'a', 'b'],
+    ['b', 'a', 'c'],
+    ['c', 'b', 'b']
+];
+
+const answer = (registration: string, question: number, response: string): XAPIStatement => ({
+    id: `${registration}-${question}`,
+    actor: { mbox: 'mailto:a@example.com' },
+    timestamp: '2024-05-01T10:00:00.000Z',
+    version: '1.0.3',
+    verb: { id: 'http://adlnet.gov/expapi/verbs/answered', display: { en: 'answered' } },
+    object: {
+        id: `${QUIZ}/question-${question}`,
+        objectType: 'Activity',
+        definition: {
+            type: 'http://adlnet.gov/expapi/activities/cmi.interaction',
+            name: { en: `Quiz - Question ${question}` },
+            interactionType: 'choice',
+            correctResponsesPattern: ['a'],
+            choices: ['a', 'b', 'c'].map(id => ({ id, description: { en: id } }))
+        }
+    },
+    result: { response, success: response === 'a' },
+    context: { registration, contextActivities: { parent: [{ id: QUIZ, objectType: 'Activity' }] } }
+});
+
+/**
+ * Answers of the attempts of the matrix, each attempt repeated so the questions have enough responses to be flagged
+ */
+const answers = (repetitions: number) => Array.from({ length: repetitions }, (_, repetition) =>
+    MATRIX.flatMap((responses, attempt) =>
+        responses.map((response, question) => answer(`${repetition}-${attempt}`, question + 1, response)))).flat();
+
+describe('analyzeItems', () => {
+    test('computes p-value, point-biserial and choice shares of each question', () => {
+        const [first, second, third] = analyzeItems(answers(1), QUIZ);
+
+        expect([first.name, second.name, third.name]).toEqual(['Question 1', 'Question 2', 'Question 3']);
+        expect([first.pValue, second.pValue, third.pValue]).toEqual([0.5, 0.75, 0.25]);
+
+        // Rest scores 1, 0.5, 0.5 and 0 with a standard deviation of 1/sqrt(8), means 0.75 and 0.25 of right and wrong answers
+        expect(first.pointBiserial).toBeCloseTo(Math.SQRT1_2, 10);
+        // Rest scores 1, 0.5, 0 and 0 with a variance of 0.171875, means 0.5 and 0, three of four answers right
+        expect(second.pointBiserial).toBeCloseTo(0.5 / Math.sqrt(0.171875) * Math.sqrt(0.75 * 0.25), 10);
+
+        // The strongest attempt forms the upper group and the weakest the lower group
+        expect(first.choices).toEqual([
+            { id: 'a', isKey: true, share: 0.5, upperShare: 1, lowerShare: 0 },
+            { id: 'b', isKey: false, share: 0.25, upperShare: 0, lowerShare: 0 },
+            { id: 'c', isKey: false, share: 0.25, upperShare: 0, lowerShare: 1 }
+        ]);
+    });
+
+    test('flags questions with enough responses only', () => {
+        expect(analyzeItems(answers(1), QUIZ).flatMap(item => item.flags)).toEqual([]);
+
+        const items = analyzeItems(answers(5), QUIZ);
+        expect(items.map(item => item.responses)).toEqual([20, 20, 20]);
+        expect(items[0].pointBiserial).toBeCloseTo(Math.SQRT1_2, 10);
+        expect(items.map(item => item.flags)).toEqual([[], ['Distractor C is hardly chosen'], []]);
+    });
+
+    test('leaves out answers to the questions of other activities', () => {
+        expect(analyzeItems(answers(1), 'https://example.org/other')).toEqual([]);
+    });
+});
@@ -0,0 +1,160 @@
+import { XAPIStatement } from '../types/types';
+
+const ANSWERED_VERB = 'http://adlnet.gov/expapi/verbs/answered';
+// Items with fewer responses are listed but not flagged
+const MIN_RESPONSES = 20;
+// Share of attempts in the upper and lower group of the distractor analysis
+const GROUP_SHARE = 0.27;
+// Flagging thresholds of classical test theory
+const MIN_P_VALUE = 0.2;
+const MAX_P_VALUE = 0.9;
+const MIN_POINT_BISERIAL = 0.2;
+// Distractors picked in fewer of the wrong answers do not work
+const MIN_DISTRACTOR_SHARE = 0.1;
+
+export interface ChoiceStatistics {
+    id: string;
+    isKey: boolean;
+    share: number;
+    upperShare: number;
+    lowerShare: number;
+}
+
+export interface ItemStatistics {
+    id: string;
+    name: string;
+    responses: number;
+    pValue: number;
+    pointBiserial: number | null;
+    choices: ChoiceStatistics[];
+    flags: string[];
+}
+
+interface ItemResponse {
+    itemId: string;
+    response?: string;
+    success: boolean;
+}
+
+/**
+ * Computes the classical item analysis of the questions of an activity
+ *
+ * Answers are grouped into attempts by their registration. Per question this yields:
+ * - p-value: share of correct answers
+ * - Point-biserial: correlation of a correct answer with the share of the other questions of the attempt answered correctly
+ * - Distractor analysis: share of each choice overall and in the best and worst 27% of the attempts
+ *
+ * @param {XAPIStatement[]} statements - Statements to analyze
+ * @param {string} activityIri - Object id of the activity
+ * @returns {ItemStatistics[]} Statistics per question, ordered by question name
+ */
+export const analyzeItems = (statements: XAPIStatement[], activityIri: string): ItemStatistics[] => {
+    const attempts = new Map<string, ItemResponse[]>();
+    const definitions = new Map<string, XAPIStatement['object']>();
+
+    statements
+        .filter(statement =>
+            statement.verb.id === ANSWERED_VERB &&
+            statement.context.contextActivities?.parent?.some(parent => parent.id === activityIri))
+        .forEach(statement => {
+            // Statements without registration are grouped per learner
+            const attemptKey = statement.context.registration || statement.actor.mbox;
+            if (!attempts.has(attemptKey)) attempts.set(attemptKey, []);
+            attempts.get(attemptKey)!.push({
+                itemId: statement.object.id,
+                response: statement.result?.response,
+                success: statement.result?.success === true
+            });
+            definitions.set(statement.object.id, statement.object);
+        });
+
+    const attemptList = Array.from(attempts.values()).map(responses => ({
+        responses,
+        correct: responses.filter(response => response.success).length
+    }));
+
+    const ranked = [...attemptList].sort((a, b) => a.correct / a.responses.length - b.correct / b.responses.length);
+    const groupSize = Math.max(1, Math.round(ranked.length * GROUP_SHARE));
+    const lowerGroup = new Set(ranked.slice(0, groupSize));
+    const upperGroup = new Set(ranked.slice(-groupSize));
+
+    return Array.from(definitions.entries()).map(([itemId, object]) => {
+        const answers: { success: boolean; response?: string; restScore: number | null; upper: boolean; lower: boolean }[] = [];
+        attemptList.forEach(attempt => {
+            attempt.responses
+                .filter(response => response.itemId === itemId)
+                .forEach(response => answers.push({
+                    success: response.success,
+                    response: response.response,
+                    restScore: attempt.responses.length > 1
+                        ? (attempt.correct - (response.success ? 1 : 0)) / (attempt.responses.length - 1)
+                        : null,
+                    upper: upperGroup.has(attempt),
+                    lower: lowerGroup.has(attempt)
+                }));
+        });
+
+        const pValue = answers.filter(answer => answer.success).length / answers.length;
+
+        // Point-biserial correlation of the answer with the rest score
+        let pointBiserial: number | null = null;
+        const scored = answers.filter(answer => answer.restScore !== null);
+        const restScores = scored.map(answer => answer.restScore as number);
+        const mean = restScores.reduce((sum, score) => sum + score, 0) / Math.max(restScores.length, 1);
+        const deviation = Math.sqrt(restScores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / Math.max(restScores.length, 1));
+        const correctRest = scored.filter(answer => answer.success).map(answer => answer.restScore as number);
+        const wrongRest = scored.filter(answer => !answer.success).map(answer => answer.restScore as number);
+        if (deviation > 0 && correctRest.length > 0 && wrongRest.length > 0) {
+            const share = correctRest.length / scored.length;
+            const meanCorrect = correctRest.reduce((sum, score) => sum + score, 0) / correctRest.length;
+            const meanWrong = wrongRest.reduce((sum, score) => sum + score, 0) / wrongRest.length;
+            pointBiserial = ((meanCorrect - meanWrong) / deviation) * Math.sqrt(share * (1 - share));
+        }
+
+        const key = object.definition.correctResponsesPattern?.[0];
+        const choiceIds = object.definition.choices?.map(choice => choice.id)
+            || Array.from(new Set(answers.map(answer => answer.response).filter((response): response is string => !!response))).sort();
+        const upperAnswers = answers.filter(answer => answer.upper);
+        const lowerAnswers = answers.filter(answer => answer.lower);
+        const shareOf = (group: typeof answers, choice: string) =>
+            group.length > 0 ? group.filter(answer => answer.response === choice).length / group.length : 0;
+
+        const choices = choiceIds.map(choice => ({
+            id: choice,
+            isKey: choice === key,
+            share: shareOf(answers, choice),
+            upperShare: shareOf(upperAnswers, choice),
+            lowerShare: shareOf(lowerAnswers, choice)
+        }));
+
+        const flags: string[] = [];
+        if (answers.length >= MIN_RESPONSES) {
+            if (pValue < MIN_P_VALUE) flags.push('Too hard');
+            if (pValue > MAX_P_VALUE) flags.push('Too easy');
+            if (pointBiserial !== null && pointBiserial < 0) {
+                flags.push('Negative discrimination, check the key');
+            } else if (pointBiserial !== null && pointBiserial < MIN_POINT_BISERIAL) {
+                flags.push('Low discrimination');
+            }
+            choices.filter(choice => !choice.isKey).forEach(choice => {
+                if (choice.share < MIN_DISTRACTOR_SHARE * (1 - pValue)) {
+                    flags.push(`Distractor ${choice.id.toUpperCase()} is hardly chosen`);
+                } else if (choice.upperShare > choice.lowerShare) {
+                    flags.push(`Distractor ${choice.id.toUpperCase()} attracts strong learners`);
+                }
+            });
+        }
+
+        const name = object.definition.name.en;
+        return {
+            id: itemId,
+            // Question names repeat the activity title
+            name: name.includes(' - ') ? name.substring(name.lastIndexOf(' - ') + 3) : name,
+            responses: answers.length,
+            pValue,
+            pointBiserial,
+            choices,
+            flags
+        };
+    }).sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+};
@@ -0,0 +1,35 @@
+import { extendsStatements } from './statement-aggregate';
+import { XAPIStatement } from '../types/types';
+
+const statement = (id: string): XAPIStatement => ({
+    id,
+    actor: { mbox: 'mailto:a@example.com' },
+    timestamp: '2024-05-01T10:00:00.000Z',
+    version: '1.0.3',
+    verb: { id: 'http://adlnet.gov/expapi/verbs/experienced', display: { en: 'experienced' } },
+    object: {
+        id: 'https://example.org/activity',
+        objectType: 'Activity',
+        definition: { type: 'http://adlnet.gov/expapi/activities/lesson', name: { en: 'Activity' } }
+    },
+    context: { registration: 'attempt' }
+});
+
+describe('extendsStatements', () => {
+    const [a, b, c, d] = ['a', 'b', 'c', 'd'].map(statement);
+
+    test('statements with appended ones extend the previous statements', () => {
+        expect(extendsStatements([a, b], [a, b, c])).toBe(true);
+        expect(extendsStatements([a, b], [a, b])).toBe(true);
+        expect(extendsStatements([], [a])).toBe(true);
+    });
+
+    test('a statement replaced in the middle is a change of the previous statements', () => {
+        expect(extendsStatements([a, b, c], [a, d, c, b])).toBe(false);
+    });
+
+    test('removed statements or new copies of them are a change of the previous statements', () => {
+        expect(extendsStatements([a, b, c], [a, c])).toBe(false);
+        expect(extendsStatements([a], [statement('a')])).toBe(false);
+    });
+});
@@ -0,0 +1,62 @@
+import { DependencyList, useRef } from 'react';
+import { XAPIStatement } from '../types/types';
+
+/**
+ * Folds statements into an aggregate and derives the value shown by a widget from it
+ */
+export interface StatementAggregator<TAggregate, TResult> {
+    // Empty aggregate
+    create: () => TAggregate;
+    // Adds a statement to the aggregate
+    add: (aggregate: TAggregate, statement: XAPIStatement) => void;
+    // Value of the widget, derived anew whenever statements were added
+    result: (aggregate: TAggregate) => TResult;
+}
+
+/**
+ * Checks whether statements only extend the previous statements by appended ones
+ * @param previous - Statements of the last aggregation
+ * @param statements - Current statements
+ * @returns True if the previous statements are a prefix of the current ones
+ */
+export const extendsStatements = (previous: XAPIStatement[], statements: XAPIStatement[]): boolean =>
+    statements.length >= previous.length && previous.every((statement, index) => statements[index] === statement);
+
+/**
+ * Aggregates statements incrementally.
+ * Statements appended since the last render, like streamed statements, are added to the current aggregate.
+ * Any other change of the statements or of the dependencies starts a new aggregate.
+ * @param {XAPIStatement[]} statements - Statements of the widget
+ * @param {StatementAggregator} aggregator - Functions creating, extending and reading the aggregate
+ * @param {DependencyList} deps - Values the aggregator depends on
+ * @returns Result of the aggregate
+ */
+export const useStatementAggregate = <TAggregate, TResult>(
+    statements: XAPIStatement[],
+    aggregator: StatementAggregator<TAggregate, TResult>,
+    deps: DependencyList = []
+): TResult => {
+    const state = useRef<{ statements: XAPIStatement[]; deps: DependencyList; aggregate: TAggregate; result: TResult } | null>(null);
+
+    // The aggregator is defined in the render of the widget, it changes with the dependencies only
+    const previous = state.current;
+    const sameDeps = previous !== null && previous.deps.length === deps.length &&
+        previous.deps.every((dep, index) => Object.is(dep, deps[index]));
+    if (previous !== null && sameDeps && previous.statements === statements) {
+        return previous.result;
+    }
+
+    let aggregate: TAggregate;
+    let added = statements;
+    if (previous !== null && sameDeps && extendsStatements(previous.statements, statements)) {
+        aggregate = previous.aggregate;
+        added = statements.slice(previous.statements.length);
+    } else {
+        aggregate = aggregator.create();
+    }
+
+    added.forEach(statement => aggregator.add(aggregate, statement));
+    const result = aggregator.result(aggregate);
+    state.current = { statements, deps, aggregate, result };
+    return result;
+};
@@ -0,0 +1,66 @@
+import { useEffect, useRef, useState } from 'react';
+import { StatementChanges, XAPIStatement } from '../types/types';
+import { extendsStatements } from './statement-aggregate';
+
+// Streamed statements refresh the metrics aggregated by the server at most this often
+export const METRICS_REFRESH_MS = 10000;
+
+/**
+ * Reports how the statements of the app changed since the last render.
+ * Dashboards that load statements themselves merge the changes instead of loading their statements again.
+ * @param {XAPIStatement[]} statements - Statements of the app
+ * @param {Function} onChange - Called with the added and removed statements, not if the statements stayed the same
+ */
+export const useStatementChanges = (
+    statements: XAPIStatement[],
+    onChange: (changes: StatementChanges) => void
+): void => {
+    const previous = useRef(statements);
+    const handler = useRef(onChange);
+    handler.current = onChange;
+
+    useEffect(() => {
+        const last = previous.current;
+        previous.current = statements;
+        if (last === statements) return;
+
+        // Streamed batches only append statements, other changes are compared by id
+        if (extendsStatements(last, statements)) {
+            handler.current({ added: statements.slice(last.length), removedIds: new Set() });
+            return;
+        }
+
+        const lastIds = new Set(last.map(statement => statement.id));
+        const currentIds = new Set(statements.map(statement => statement.id));
+        handler.current({
+            added: statements.filter(statement => !lastIds.has(statement.id)),
+            removedIds: new Set(last.filter(statement => !currentIds.has(statement.id)).map(statement => statement.id))
+        });
+    }, [statements]);
+};
+
+/**
+ * Follows a value at most once per interval, the latest value is always taken over in the end.
+ * Widgets aggregated by the server depend on the throttled statements, so streamed batches refresh them
+ * without a request per batch.
+ * @param {T} value - Value to follow, e.g. the statements of the app
+ * @param {number} intervalMs - Minimum time between two changes of the returned value
+ * @returns {T} Throttled value
+ */
+export const useThrottledValue = <T,>(value: T, intervalMs: number = METRICS_REFRESH_MS): T => {
+    const [throttled, setThrottled] = useState(value);
+    const lastChange = useRef(0);
+
+    useEffect(() => {
+        if (Object.is(value, throttled)) return;
+
+        const timer = setTimeout(() => {
+            lastChange.current = Date.now();
+            setThrottled(value);
+        }, Math.max(lastChange.current + intervalMs - Date.now(), 0));
+
+        return () => clearTimeout(timer);
+    }, [value, throttled, intervalMs]);
+
+    return throttled;
+};
@@ -0,0 +1,85 @@
+import { ActivityMetrics, AnalyticsOverview, CourseData, LearnerMetrics, MetricsRange, SectionMetrics } from '../types/types';
+import { SectionMetricsRequest } from '../types/api';
+import { apiClient } from './api-client';
+
+// Section metrics are posted because of the size of the section list, but only read
+const SECTION_METRICS_RETRIES = 2;
+
+/**
+ * Query parameters of the analytics endpoints
+ * @param courseId - Optional course the metrics are restricted to
+ * @param range - Optional time window of the statements
+ * @returns Query parameters, empty values are left out by the API client
+ */
+const metricsQuery = (courseId?: string, range: MetricsRange = {}) => ({
+    courseId,
+    from: range.from?.toISOString(),
+    to: range.to?.toISOString()
+});
+
+/**
+ * Service for retrieving dashboard metrics aggregated by the server
+ * Voided statements are excluded from all metrics
+ */
+class AnalyticsService {
+    /**
+     * Retrieves metrics per learner
+     * @param courseId - Optional course the metrics are restricted to
+     * @param range - Optional time window of the statements
+     * @param signal - Optional abort signal
+     * @returns Promise with one entry per learner mbox
+     * @throws Error if the API request fails
+     */
+    public async getLearnerMetrics(courseId?: string, range?: MetricsRange, signal?: AbortSignal): Promise<LearnerMetrics[]> {
+        return apiClient.get<LearnerMetrics[]>('/analytics/learners', { query: metricsQuery(courseId, range), signal });
+    }
+
+    /**
+     * Retrieves metrics per activity, identified by the LMS external id
+     * @param courseId - Optional course the metrics are restricted to
+     * @param range - Optional time window of the statements
+     * @param signal - Optional abort signal
+     * @returns Promise with one entry per activity
+     * @throws Error if the API request fails
+     */
+    public async getActivityMetrics(courseId?: string, range?: MetricsRange, signal?: AbortSignal): Promise<ActivityMetrics[]> {
+        return apiClient.get<ActivityMetrics[]>('/analytics/activities', { query: metricsQuery(courseId, range), signal });
+    }
+
+    /**
+     * Retrieves metrics per course section
+     * Only statements of the given course are taken into account
+     * @param courseData - Course structure mapping sections to their activities
+     * @param range - Optional time window of the statements
+     * @param signal - Optional abort signal
+     * @returns Promise with one entry per section that has statements
+     * @throws Error if the API request fails
+     */
+    public async getSectionMetrics(courseData: CourseData, range?: MetricsRange, signal?: AbortSignal): Promise<SectionMetrics[]> {
+        const sections = courseData.sections.map(section => ({
+            title: section.title,
+            activityIds: section.activities.map(activity => activity.id)
+        }));
+
+        return apiClient.post<SectionMetrics[], SectionMetricsRequest>('/analytics/sections', {
+            query: metricsQuery(courseData.id, range),
+            body: { sections },
+            retries: SECTION_METRICS_RETRIES,
+            signal
+        });
+    }
+
+    /**
+     * Retrieves course wide totals and verb usage
+     * @param courseId - Optional course the totals are restricted to
+     * @param range - Optional time window of the statements
+     * @param signal - Optional abort signal
+     * @returns Promise with the overview
+     * @throws Error if the API request fails
+     */
+    public async getOverview(courseId?: string, range?: MetricsRange, signal?: AbortSignal): Promise<AnalyticsOverview> {
+        return apiClient.get<AnalyticsOverview>('/analytics/overview', { query: metricsQuery(courseId, range), signal });
+    }
+}
+
+export default AnalyticsService;
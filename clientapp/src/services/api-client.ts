@@ -0,0 +1,297 @@
+import { ErrorResponse } from '../types/api';
+import { authHeaders } from './auth-session';
+
+declare global {
+    interface Window {
+        // Set by public/config.js, so a build can be deployed to another host without rebuilding it
+        ANALYTICS_DASHBOARD_CONFIG?: { apiUrl?: string };
+    }
+}
+
+// API of a server started locally with the default port
+const DEFAULT_API_URL = 'http://localhost:5050/api';
+
+// Reads and idempotent writes are retried this often after network or server errors, waiting twice as long before each retry
+const DEFAULT_RETRIES = 2;
+const RETRY_DELAY_MS = 1000;
+
+/**
+ * Retries of uploads that are safe to resend, the server accepts statements and sessions it already stored
+ */
+export const UPLOAD_RETRIES = 4;
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type QueryValue = string | number | boolean | null | undefined;
+
+/**
+ * Options of a single API request
+ */
+export interface ApiRequestOptions<TBody = unknown> {
+    // Query parameters, parameters without value or with an empty string are left out
+    query?: Record<string, QueryValue>;
+    // Sent as JSON
+    body?: TBody;
+    headers?: Record<string, string>;
+    // Cancels the request and any pending retry
+    signal?: AbortSignal;
+    // Retries after network errors, server errors and 429, by default only requests without a POST or PATCH body are retried
+    retries?: number;
+    // How the response body is read, json by default, stream returns the body unread
+    responseType?: 'json' | 'blob' | 'stream' | 'none';
+    // Sends the request without the authorization header of the logged in user
+    anonymous?: boolean;
+}
+
+/**
+ * Failed API request with the HTTP status and the error body of the server
+ */
+export class ApiError extends Error {
+    status: number;
+    body?: ErrorResponse;
+
+    constructor(status: number, body?: ErrorResponse) {
+        const message = body?.message
+            ? body.error ? `${body.message}: ${body.error}` : body.message
+            : `HTTP error! status: ${status}`;
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+        this.body = body;
+    }
+
+    /**
+     * Server errors and rate limits may pass, a rejected request fails the same way on every retry
+     */
+    get retryable(): boolean {
+        return this.status >= 500 || this.status === 429;
+    }
+}
+
+/**
+ * Tells an aborted request from a failed one
+ * @param error - Error thrown by a request
+ * @returns Whether the request was cancelled by its abort signal
+ */
+export const isAbortError = (error: unknown): boolean =>
+    typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError';
+
+/**
+ * Waits before a retry
+ * @param ms - Milliseconds to wait
+ * @param signal - Optional abort signal ending the wait early
+ * @throws AbortError if the signal aborts
+ */
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    const abortError = () => Object.assign(new Error('The request was aborted'), { name: 'AbortError' });
+    if (signal?.aborted) {
+        reject(abortError());
+        return;
+    }
+
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Reads the error body of a failed response, servers and proxies do not always answer with JSON
+ * @param response - Failed response
+ * @returns Error body, undefined if the response has none
+ */
+const readErrorBody = async (response: Response): Promise<ErrorResponse | undefined> => {
+    const text = await response.text().catch(() => '');
+    try {
+        const body = JSON.parse(text);
+        if (body && typeof body.message === 'string') return body;
+    } catch {
+        // Plain text error pages of a proxy are reported as message
+    }
+    return text ? { message: `HTTP error! status: ${response.status}, message: ${text}` } : undefined;
+};
+
+/**
+ * Event of a Server-Sent Events stream
+ */
+export interface ServerSentEvent {
+    event: string;
+    data: string;
+}
+
+/**
+ * Reads the events of a Server-Sent Events stream until it ends
+ * Comments and the retry field are skipped, lines of a multi-line data field are joined by newlines
+ * @param stream - Response body of an event stream
+ * @param onEvent - Called with every complete event
+ * @throws AbortError if the request of the stream is aborted
+ */
+export const readEventStream = async (stream: ReadableStream<Uint8Array>, onEvent: (event: ServerSentEvent) => void): Promise<void> => {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let event = 'message';
+    let data: string[] = [];
+
+    const handleLine = (line: string) => {
+        if (line === '') {
+            if (data.length > 0) onEvent({ event, data: data.join('\n') });
+            event = 'message';
+            data = [];
+            return;
+        }
+
+        const separator = line.indexOf(':');
+        const field = separator < 0 ? line : line.slice(0, separator);
+        const value = separator < 0 ? '' : line.slice(separator + 1).replace(/^ /, '');
+        if (field === 'event') event = value;
+        if (field === 'data') data.push(value);
+    };
+
+    let chunk = await reader.read();
+    while (!chunk.done) {
+        buffer += decoder.decode(chunk.value, { stream: true });
+        const lines = buffer.split(/\r\n|\r|\n/);
+        buffer = lines.pop() ?? '';
+        lines.forEach(handleLine);
+        chunk = await reader.read();
+    }
+};
+
+/**
+ * Client of the dashboard server API shared by all services
+ * The base URL is taken from configure, the runtime config of public/config.js, the REACT_APP_API_URL
+ * environment variable at build time or the local default, in this order. A relative URL like /api addresses
+ * the host the app is served from, e.g. behind a reverse proxy.
+ */
+class ApiClient {
+    private configuredUrl?: string;
+
+    /**
+     * Overrides the base URL, e.g. with a command line option
+     * @param baseUrl - Absolute URL or path of the API, undefined restores the default lookup
+     */
+    public configure(baseUrl?: string): void {
+        this.configuredUrl = baseUrl;
+    }
+
+    /**
+     * Base URL of the API without trailing slash
+     */
+    public get baseUrl(): string {
+        const runtimeUrl = typeof window !== 'undefined' ? window.ANALYTICS_DASHBOARD_CONFIG?.apiUrl : undefined;
+        const url = this.configuredUrl || runtimeUrl || process.env.REACT_APP_API_URL || DEFAULT_API_URL;
+        return url.replace(/\/+$/, '');
+    }
+
+    /**
+     * Resolves an API path to an absolute URL
+     * @param path - Path below the base URL, starting with a slash
+     * @param query - Optional query parameters
+     * @returns Absolute URL
+     * @throws Error if the base URL is relative and there is no page to resolve it against
+     */
+    public url(path: string, query?: Record<string, QueryValue>): string {
+        const base = this.baseUrl;
+        const pageUrl = typeof window !== 'undefined' ? window.location.href : undefined;
+        if (!pageUrl && !/^[a-z][a-z\d+.-]*:/i.test(base)) {
+            throw new Error(`The API url ${base} is relative, use an absolute url outside of the browser`);
+        }
+
+        const url = new URL(`${base}${path}`, pageUrl);
+        Object.entries(query || {}).forEach(([name, value]) => {
+            if (value !== undefined && value !== null && value !== '') {
+                url.searchParams.set(name, String(value));
+            }
+        });
+        return url.toString();
+    }
+
+    public get<T>(path: string, options?: ApiRequestOptions<never>): Promise<T> {
+        return this.request<T>('GET', path, options);
+    }
+
+    public post<T, TBody = unknown>(path: string, options?: ApiRequestOptions<TBody>): Promise<T> {
+        return this.request<T>('POST', path, options);
+    }
+
+    public put<T, TBody = unknown>(path: string, options?: ApiRequestOptions<TBody>): Promise<T> {
+        return this.request<T>('PUT', path, options);
+    }
+
+    public patch<T, TBody = unknown>(path: string, options?: ApiRequestOptions<TBody>): Promise<T> {
+        return this.request<T>('PATCH', path, options);
+    }
+
+    public delete<T>(path: string, options?: ApiRequestOptions<never>): Promise<T> {
+        return this.request<T>('DELETE', path, options);
+    }
+
+    /**
+     * Sends a request, retrying network errors, server errors and rate limits with exponential backoff
+     * @param method - HTTP method
+     * @param path - Path below the base URL
+     * @param options - Query, body, headers, abort signal, retries and response type
+     * @returns Parsed response body
+     * @throws ApiError if the server answers with an error status, AbortError if the signal aborts, Error if the server is not reachable
+     */
+    public async request<T>(method: HttpMethod, path: string, options: ApiRequestOptions = {}): Promise<T> {
+        const { query, body, signal, responseType = 'json' } = options;
+        const retries = options.retries ?? (method === 'POST' || method === 'PATCH' ? 0 : DEFAULT_RETRIES);
+        const url = this.url(path, query);
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const response = await fetch(url, {
+                    method,
+                    signal,
+                    headers: {
+                        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+                        ...options.headers,
+                        ...(!options.anonymous && authHeaders())
+                    },
+                    body: body !== undefined ? JSON.stringify(body) : undefined
+                });
+
+                if (!response.ok) {
+                    throw new ApiError(response.status, await readErrorBody(response));
+                }
+                if (responseType === 'blob') {
+                    return await response.blob() as T;
+                }
+                if (responseType === 'stream') {
+                    return response.body as T;
+                }
+                if (responseType === 'none' || response.status === 204) {
+                    return undefined as T;
+                }
+                return await response.json();
+            } catch (error) {
+                if (isAbortError(error)) {
+                    throw error;
+                }
+
+                // fetch rejects with a TypeError if the server is not reachable
+                const retryable = error instanceof ApiError ? error.retryable : error instanceof TypeError;
+                if (!retryable || attempt >= retries) {
+                    console.error(`${method} ${path} failed:`, error);
+                    throw error;
+                }
+
+                const delay = RETRY_DELAY_MS * Math.pow(2, attempt);
+                console.warn(`${method} ${path} failed, retrying in ${delay} ms`);
+                await wait(delay, signal);
+            }
+        }
+    }
+}
+
+/**
+ * Client used by all services
+ */
+export const apiClient = new ApiClient();
@@ -0,0 +1,49 @@
+import { AuthUser } from '../types/types';
+import { LoginRequest, LoginResponse } from '../types/api';
+import { apiClient } from './api-client';
+import { clearSession, readSession, storeSession } from './auth-session';
+
+/**
+ * Service for logging in and out of the dashboard
+ * The session is kept in local storage until it expires or the user logs out
+ */
+class AuthService {
+    /**
+     * Logs in with username and password
+     * @param username - Login name
+     * @param password - Password
+     * @returns Promise with the logged in user
+     * @throws ApiError with the message of the server if the credentials are invalid or the API request fails
+     */
+    public async login(username: string, password: string): Promise<AuthUser> {
+        try {
+            const session = await apiClient.post<LoginResponse, LoginRequest>('/auth/login', {
+                body: { username, password },
+                anonymous: true
+            });
+
+            storeSession(session);
+            return session.user;
+        } catch (error) {
+            console.error('Error logging in:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Discards the stored session
+     */
+    public logout(): void {
+        clearSession();
+    }
+
+    /**
+     * Retrieves the logged in user
+     * @returns User or null if nobody is logged in or the session expired
+     */
+    public getCurrentUser(): AuthUser | null {
+        return readSession()?.user ?? null;
+    }
+}
+
+export default AuthService;
@@ -0,0 +1,44 @@
+import { AuthSession } from '../types/types';
+
+const SESSION_KEY = 'analytics-dashboard-session';
+
+/**
+ * Reads the stored login session, expired sessions are discarded
+ * @returns Session or null if nobody is logged in
+ */
+export const readSession = (): AuthSession | null => {
+    try {
+        const session: AuthSession | null = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+        if (session && new Date(session.expiresAt) > new Date()) {
+            return session;
+        }
+    } catch (error) {
+        console.warn('Invalid stored session:', error);
+    }
+    localStorage.removeItem(SESSION_KEY);
+    return null;
+};
+
+/**
+ * Keeps a login session until it expires or is cleared
+ * @param session - Session returned by the login
+ */
+export const storeSession = (session: AuthSession): void => {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+};
+
+/**
+ * Discards the stored login session
+ */
+export const clearSession = (): void => {
+    localStorage.removeItem(SESSION_KEY);
+};
+
+/**
+ * Authorization header of the logged in user, to be sent with every API request
+ * @returns Header object, empty if nobody is logged in
+ */
+export const authHeaders = (): Record<string, string> => {
+    const session = readSession();
+    return session ? { Authorization: `Bearer ${session.token}` } : {};
+};
@@ -0,0 +1,52 @@
+import { CourseData, CoursePackage, CourseSummary, XAPIProfile } from '../types/types';
+import { CourseImportResponse } from '../types/api';
+import { apiClient } from './api-client';
+
+/**
+ * Service for interacting with the courses collection in database
+ */
+class CourseService {
+    /**
+     * Stores an imported course package
+     * Replaces a course with the same id and the stored LOM metadata
+     * @param coursePackage - Course structure, LOM metadata and xAPI profile
+     * @throws Error if the API request fails
+     */
+    public async importCourse(coursePackage: CoursePackage): Promise<void> {
+        await apiClient.post<CourseImportResponse, CoursePackage>('/courses', { body: coursePackage });
+    }
+
+    /**
+     * Retrieves all stored courses, most recently imported first
+     * @param signal - Optional abort signal
+     * @returns Promise with array of course summaries
+     * @throws Error if the API request fails
+     */
+    public async getCourses(signal?: AbortSignal): Promise<CourseSummary[]> {
+        return apiClient.get<CourseSummary[]>('/courses', { signal });
+    }
+
+    /**
+     * Retrieves the structure of a stored course
+     * @param courseId - Manifest identifier of the course
+     * @param signal - Optional abort signal
+     * @returns Promise with the course data
+     * @throws Error if the course does not exist or the API request fails
+     */
+    public async getCourse(courseId: string, signal?: AbortSignal): Promise<CourseData> {
+        return apiClient.get<CourseData>(`/courses/${encodeURIComponent(courseId)}`, { signal });
+    }
+
+    /**
+     * Retrieves the xAPI profile imported with a course
+     * @param courseId - Manifest identifier of the course
+     * @param signal - Optional abort signal
+     * @returns Promise with the xAPI profile
+     * @throws Error if the course does not exist or the API request fails
+     */
+    public async getProfile(courseId: string, signal?: AbortSignal): Promise<XAPIProfile> {
+        return apiClient.get<XAPIProfile>(`/courses/${encodeURIComponent(courseId)}/profile`, { signal });
+    }
+}
+
+export default CourseService;
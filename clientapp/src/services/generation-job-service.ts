@@ -0,0 +1,65 @@
+import { GenerationJob, GenerationJobSettings } from '../types/types';
+import { GenerationJobRequest, GenerationJobUpdate } from '../types/api';
+import { apiClient, ApiError, UPLOAD_RETRIES } from './api-client';
+
+/**
+ * Service for the resumable generation jobs stored on the server
+ */
+class GenerationJobService {
+    /**
+     * Starts a generation job
+     * @param courseId - Course the data is generated for
+     * @param settings - Settings reproducing the generated learners and statements
+     * @returns Created job
+     * @throws Error if the API request fails
+     */
+    public async createJob(courseId: string, settings: GenerationJobSettings): Promise<GenerationJob> {
+        return apiClient.post<GenerationJob, GenerationJobRequest>('/generation-jobs', { body: { courseId, settings } });
+    }
+
+    /**
+     * Retrieves a generation job with its settings
+     * @param jobId - Job id
+     * @returns Job
+     * @throws Error if the job does not exist or the API request fails
+     */
+    public async getJob(jobId: string): Promise<GenerationJob> {
+        try {
+            return await apiClient.get<GenerationJob>(`/generation-jobs/${encodeURIComponent(jobId)}`);
+        } catch (error) {
+            if (error instanceof ApiError && error.status === 404) {
+                throw new Error(`Generation job ${jobId} not found`);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves the unfinished generation jobs of a course, most recent first
+     * @param courseId - Course id
+     * @param signal - Optional abort signal
+     * @returns Running and failed jobs without their settings
+     * @throws Error if the API request fails
+     */
+    public async getUnfinishedJobs(courseId: string, signal?: AbortSignal): Promise<GenerationJob[]> {
+        const jobs = await apiClient.get<GenerationJob[]>('/generation-jobs', { query: { courseId }, signal });
+        return jobs.filter(job => job.status !== 'completed');
+    }
+
+    /**
+     * Records the progress or outcome of a generation job
+     * Repeating an update has no further effect, so failed updates are retried
+     * @param jobId - Job id
+     * @param update - Uploaded statements, whether the learners are stored, status and error message
+     * @returns Updated job
+     * @throws Error if the API request fails
+     */
+    public async updateJob(jobId: string, update: GenerationJobUpdate): Promise<GenerationJob> {
+        return apiClient.patch<GenerationJob, GenerationJobUpdate>(`/generation-jobs/${encodeURIComponent(jobId)}`, {
+            body: update,
+            retries: UPLOAD_RETRIES
+        });
+    }
+}
+
+export default GenerationJobService;
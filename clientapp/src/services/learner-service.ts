@@ -1,72 +1,39 @@
 import { LearnerProfile } from '../types/types';
-
-/**
- * Interface for API response when storing learners
- */
-interface StoreLearnerResponse {
-    message: string;
-    insertedIds?: { [key: number]: string };
-    error?: string;
-}
+import { InsertResponse } from '../types/api';
+import { apiClient } from './api-client';
 
 /**
  * Service class for managing learner profiles in MongoDB
  * Handles API communication for storing and retrieving learner data
  */
 class LearnerService {
-    private apiUrl = 'http://localhost:5050/api';
-
     /**
      * Store multiple learner profiles in the database
-     * Clears existing data before inserting new profiles
+     * Clears existing data before inserting new profiles, only the learners of the course if one is given
      * 
      * @param learnerProfiles - Array of learner profiles to store
+     * @param courseId - Optional course the learners are enrolled in
+     * @param append - Keeps the stored learners instead of clearing them
      * @returns Promise with the storage operation result
      * @throws Error if the API request fails
      */
-    public async storeLearnerProfiles(learnerProfiles: LearnerProfile[]): Promise<StoreLearnerResponse> {
-        try {
-            const response = await fetch(`${this.apiUrl}/learners`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(learnerProfiles)
-            });
-
-            const data = await response.json();
-
-            if (!response.ok) {
-                throw new Error(data.message || 'Failed to store learner profiles');
-            }
-
-            return data;
-        } catch (error) {
-            console.error('error storing lerarners:', error);
-            throw error;
-        }
+    public async storeLearnerProfiles(learnerProfiles: LearnerProfile[], courseId?: string, append: boolean = false): Promise<InsertResponse> {
+        return apiClient.post<InsertResponse, LearnerProfile[]>('/learners', {
+            query: { courseId, append: append || undefined },
+            body: learnerProfiles
+        });
     }
 
     /**
      * Retrieve all learner profiles from the database
      * 
+     * @param courseId - Optional course whose learners are retrieved
+     * @param signal - Optional abort signal
      * @returns Promise with array of learner profiles
      * @throws Error if the API request fails
      */
-    public async getLearnerProfiles(): Promise<LearnerProfile[]> {
-        try {
-            const response = await fetch(`${this.apiUrl}/learners`);
-
-            if (!response.ok) {
-                const data = await response.json();
-                throw new Error(data.message || 'Failed to fetch learner profiles');
-            }
-
-            return await response.json();
-        } catch (error) {
-            console.error('error fecthing lerarner profiles:', error);
-            throw error;
-        }
+    public async getLearnerProfiles(courseId?: string, signal?: AbortSignal): Promise<LearnerProfile[]> {
+        return apiClient.get<LearnerProfile[]>('/learners', { query: { courseId }, signal });
     }
 
 }
@@ -1,4 +1,6 @@
 import { LomData } from '../types/types';
+import { MessageResponse } from '../types/api';
+import { apiClient } from './api-client';
 
 
 /**
@@ -6,61 +8,31 @@ import { LomData } from '../types/types';
  */
 class LOMDataService {
 
-    private apiUrl = 'http://localhost:5050/api';
-
     /**
      * Stores LOM data in a MongoDB database after fetching and transforming XML metadata from URLs.
      * @returns A `Promise` that resolves when the data is stored successfully.
      * @throws An error if the data cannot be stored.
      */
     async storeLomDataInMongoDB(lomData: LomData[]): Promise<void> {
-
-        try
-        {
-            const existingdata = await this.getLomData();
-            if (existingdata.length > 0) {
-                console.log('lom data already exists in database');
-                return;
-            }
-
-            const response = await fetch(`${this.apiUrl}/lom`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(lomData)
-            });
-            console.log(`Stored ${lomData.length} LOM data documents in database`);
-
-            if (!response.ok) {
-                const errorMessage = await response.text();
-                throw new Error(`HTTP error! status: ${response.status}, message: ${errorMessage}`);
-            }
-
-            const result = await response.json();
-            console.log(result.message);
-        } catch (error) {
-            console.error('Error storing LOM data:', error);
-            throw error;
+        const existingdata = await this.getLomData();
+        if (existingdata.length > 0) {
+            console.log('lom data already exists in database');
+            return;
         }
+
+        const result = await apiClient.post<MessageResponse, LomData[]>('/lom', { body: lomData });
+        console.log(result.message);
     }
 
     /**
      * Fetches LOM data from the MongoDB database.
+     * @param courseId - Optional course whose LOM data is fetched.
+     * @param signal - Optional abort signal.
      * @returns A `Promise` that resolves to an array of `LomData`.
      * @throws An error if the data cannot be retrieved.
      */
-    async getLomData(): Promise<LomData[]> {
-        try {
-            const response = await fetch(`${this.apiUrl}/lom`);
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-            }
-            return await response.json();
-        } catch (error) {
-            console.error('Error fetching LOM:', error);
-            throw error;
-        }
+    async getLomData(courseId?: string, signal?: AbortSignal): Promise<LomData[]> {
+        return apiClient.get<LomData[]>('/lom', { query: { courseId }, signal });
     }
 }
 
@@ -78,7 +78,7 @@ const RecommendationService: React.FC<RecommendationServiceProps> = ({
      */
     const analyzeStatements = (statements: XAPIStatement[], learnerEmail: string): Record<string, ActivityHistory> => {
         return statements
-            .filter(s => s.actor.mbox === learnerEmail)
+            .filter(s => s.actor.mbox === learnerEmail && !s.context.contextActivities?.parent)
             .reduce((acc, statement) => {
                 const activityId = getActivityId(statement);
                 if (!acc[activityId]) {
@@ -0,0 +1,78 @@
+import { LearningSession, SessionQueryOptions, StoredSession, StoredSessionActivity } from '../types/types';
+import { SessionReconstructionResponse, SessionUpload, SessionUploadResponse } from '../types/api';
+import { apiClient, UPLOAD_RETRIES } from './api-client';
+
+/**
+ * Service for the learning sessions stored on the server
+ */
+class SessionService {
+    /**
+     * Stores generated sessions, resending a session replaces the stored one, so failed uploads are retried
+     * @param courseId - Course of the sessions
+     * @param sessions - Generated sessions
+     * @returns Number of newly stored sessions
+     * @throws ApiError if the server rejects the sessions, Error if the request fails
+     */
+    public async saveSessions(courseId: string, sessions: LearningSession[]): Promise<number> {
+        const result = await apiClient.post<SessionUploadResponse, SessionUpload[]>('/sessions', {
+            query: { courseId },
+            body: sessions.map(session => this.toStoredSession(session)),
+            retries: UPLOAD_RETRIES
+        });
+        return result.insertedCount;
+    }
+
+    /**
+     * Retrieves sessions, learners only receive their own sessions
+     * @param options - Course, learner and bounds of the start time
+     * @param signal - Optional abort signal
+     * @returns Sessions ordered by learner and start time
+     * @throws Error if the API request fails
+     */
+    public async getSessions(options: SessionQueryOptions = {}, signal?: AbortSignal): Promise<StoredSession[]> {
+        return apiClient.get<StoredSession[]>('/sessions', {
+            query: {
+                courseId: options.courseId,
+                learner: options.learner,
+                from: options.from && new Date(options.from).toISOString(),
+                to: options.to && new Date(options.to).toISOString()
+            },
+            signal
+        });
+    }
+
+    /**
+     * Reconstructs the sessions of the learners without generated sessions from the statements of a course
+     * @param courseId - Course id
+     * @returns Number of learners and reconstructed sessions
+     * @throws Error if the API request fails
+     */
+    public async reconstructSessions(courseId: string): Promise<SessionReconstructionResponse> {
+        return apiClient.post<SessionReconstructionResponse>('/sessions/reconstruct', { query: { courseId } });
+    }
+
+    /**
+     * Converts a generated session to the stored format
+     * @param session - Generated session
+     * @returns Session without id, course and source, these are set by the server
+     */
+    private toStoredSession(session: LearningSession): SessionUpload {
+        return {
+            learner: session.learner.email,
+            startTime: session.startTime.toISOString(),
+            endTime: session.endTime.toISOString(),
+            totalDuration: session.totalDuration,
+            activities: session.activities.map((activity): StoredSessionActivity => ({
+                activityId: activity.activity.href,
+                title: activity.activity.title,
+                startTime: activity.startTime.toISOString(),
+                endTime: activity.endTime.toISOString(),
+                duration: activity.duration,
+                completed: activity.completed,
+                statements: activity.interactions.length
+            }))
+        };
+    }
+}
+
+export default SessionService;
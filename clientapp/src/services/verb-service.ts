@@ -1,4 +1,6 @@
 import { Verb } from "../types/types";
+import { InsertResponse } from "../types/api";
+import { apiClient } from "./api-client";
 
 
 export const usedVerbs = [
@@ -21,61 +23,32 @@ export const usedVerbs = [
  */
 class VerbService {
 
-    private apiUrl = 'http://localhost:5050/api';
-
     /**
      * Stores verbs in a MongoDB database after fetching and transforming json data from URL.
      * @returns A `Promise` that resolves when the data is stored successfully.
      * @throws An error if the data cannot be stored.
      */
     async storeVerbsInMongoDB(verbs: Verb[]): Promise<void> {
-        try {
-
-            // First check if data already exists
-            const existingdata = await this.getVerbs();
-            if (existingdata.length > 0) {
-                console.log('verbs already exists in database');
-                return;
-            }
-
-            // Store in MongoDB
-            const response = await fetch(`${this.apiUrl}/verbs`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(verbs)
-            });
-
-            if (!response.ok) {
-                const errorMessage = await response.text();
-                throw new Error(`HTTP error! status: ${response.status}, message: ${errorMessage}`);
-            }
-
-            const result = await response.json();
-            console.log(result.message);
-        } catch (error) {
-            console.error('Error storing verbs:', error);
-            throw error;
+        // First check if data already exists
+        const existingdata = await this.getVerbs();
+        if (existingdata.length > 0) {
+            console.log('verbs already exists in database');
+            return;
         }
+
+        // Store in MongoDB
+        const result = await apiClient.post<InsertResponse, Verb[]>('/verbs', { body: verbs });
+        console.log(result.message);
     }
 
     /**
      * Fetches verbs from the MongoDB database.
+     * @param signal - Optional abort signal.
      * @returns A `Promise` that resolves to an array of `Verbs`.
      * @throws An error if the data cannot be retrieved.
      */
-    async getVerbs(): Promise<Verb[]> {
-        try {
-            const response = await fetch(`${this.apiUrl}/verbs`);
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-            }
-            return await response.json();
-        } catch (error) {
-            console.error('Error fetching verbs:', error);
-            throw error;
-        }
+    async getVerbs(signal?: AbortSignal): Promise<Verb[]> {
+        return apiClient.get<Verb[]>('/verbs', { signal });
     }
 }
 
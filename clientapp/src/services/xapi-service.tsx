@@ -1,51 +1,245 @@
-import { XAPIStatement } from "../types/types";
+import { XAPIStatement, XAPIStatementResult, StatementQueryOptions } from "../types/types";
+import { CorrectionRequest, DatasetResetResponse, StatementCorrection, StatementValidationResponse } from "../types/api";
+import { apiClient, ApiError, isAbortError, readEventStream, ServerSentEvent, UPLOAD_RETRIES } from "./api-client";
+
+/**
+ * xAPI version sent with every request to the Statements resource
+ */
+export const XAPI_VERSION = '1.0.3';
+
+// Delay before the statement stream reconnects after it ended or failed
+const STREAM_RECONNECT_MS = 5000;
 
 /**
  * Service for interacting with xAPI statements collection in database
  */
 export class XAPIService {
-    private apiUrl = 'http://localhost:5050/api';
+    private readonly headers = { 'X-Experience-API-Version': XAPI_VERSION };
 
     /**
-     * Saves multiple xAPI statements in bulk
+     * Appends multiple xAPI statements in bulk
+     * Statements with an id that already exists with different content are rejected by the server,
+     * resending stored statements has no effect, so failed uploads are retried
      * @param statements - Array of xAPI statements to save
-     * @throws Error if save operation fails
-     */
-    async saveBulkStatements(statements: XAPIStatement[]): Promise<void> {
-        try {
-            const response = await fetch(`${this.apiUrl}/statements`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(statements)
-            });
+     * @returns Ids of the stored statements
+     * @throws ApiError if the server rejects the statements, Error if the request fails
+     */
+    async saveBulkStatements(statements: XAPIStatement[]): Promise<string[]> {
+        return apiClient.post<string[], XAPIStatement[]>('/statements', {
+            body: statements,
+            headers: this.headers,
+            retries: UPLOAD_RETRIES
+        });
+    }
 
-            if (!response.ok) {
-                const errorMessage = await response.text();
-                throw new Error(`HTTP error! status: ${response.status}, message: ${errorMessage}`);
-            }
-        } catch (error) {
-            console.error('Error saving statements:', error);
-            throw error;
+    /**
+     * Stores a single xAPI statement under its id
+     * Repeating the call with the same statement has no further effect
+     * @param statement - xAPI statement with id
+     * @throws ApiError if the statement conflicts with a stored one, Error if the request fails
+     */
+    async putStatement(statement: XAPIStatement): Promise<void> {
+        await apiClient.put<void, XAPIStatement>('/statements', {
+            query: { statementId: statement.id },
+            body: statement,
+            headers: this.headers,
+            responseType: 'none'
+        });
+    }
+
+    /**
+     * Validates statements against the server's xAPI profile without storing them
+     * @param statements - Array of xAPI statements to check
+     * @returns Overall result and one report per statement
+     * @throws Error if the request fails
+     */
+    async validateStatements(statements: XAPIStatement[]): Promise<StatementValidationResponse> {
+        return apiClient.post<StatementValidationResponse, XAPIStatement[]>('/statements/validate', {
+            body: statements,
+            headers: this.headers,
+            retries: UPLOAD_RETRIES
+        });
+    }
+
+    /**
+     * Removes all stored statements, or only those of a single course
+     * @param courseId - Optional course whose statements are removed
+     * @returns Number of removed statements
+     * @throws Error if the reset fails
+     */
+    async resetDataset(courseId?: string): Promise<number> {
+        const result = await apiClient.delete<DatasetResetResponse>('/admin/dataset', { query: { courseId } });
+        return result.deletedCount;
+    }
+
+    /**
+     * Retracts a statement, the server voids it and records the reason in the audit trail
+     * @param statementId - Id of the statement to void
+     * @param reason - Reason shown in the audit trail
+     * @returns Audit entry
+     * @throws ApiError if the statement does not exist or is already voided, Error if the request fails
+     */
+    async voidStatement(statementId: string, reason: string): Promise<StatementCorrection> {
+        return apiClient.delete<StatementCorrection>(`/statements/${encodeURIComponent(statementId)}`, { query: { reason } });
+    }
+
+    /**
+     * Corrects the result of a statement, the server voids it and stores a copy with the corrected result
+     * @param statementId - Id of the statement to correct
+     * @param correction - New score properties or success and the reason
+     * @returns Audit entry naming the corrected statement
+     * @throws ApiError if the statement cannot be corrected, Error if the request fails
+     */
+    async correctStatement(statementId: string, correction: CorrectionRequest): Promise<StatementCorrection> {
+        return apiClient.post<StatementCorrection, CorrectionRequest>(`/statements/${encodeURIComponent(statementId)}/correction`, {
+            body: correction
+        });
+    }
+
+    /**
+     * Retrieves the audit trail of voided and corrected statements
+     * @param courseId - Optional course of the statements
+     * @param signal - Optional abort signal
+     * @returns Audit entries, newest first
+     * @throws Error if fetch operation fails
+     */
+    async getCorrections(courseId?: string, signal?: AbortSignal): Promise<StatementCorrection[]> {
+        return apiClient.get<StatementCorrection[]>('/corrections', { query: { courseId }, signal });
+    }
+
+    /**
+     * Translates query options into the parameters of the Statements resource
+     * @param options - Filters and paging options
+     * @returns Query parameters
+     */
+    private buildQuery(options: StatementQueryOptions): Record<string, string | undefined> {
+        const toIsoString = (value?: Date | string) => value ? new Date(value).toISOString() : undefined;
+
+        return {
+            agent: options.mbox ? JSON.stringify({ mbox: options.mbox }) : undefined,
+            verb: options.verb,
+            externalId: options.externalId,
+            courseId: options.courseId,
+            from: toIsoString(options.from),
+            to: toIsoString(options.to),
+            limit: options.limit?.toString(),
+            ascending: options.ascending ? 'true' : undefined
+        };
+    }
+
+    /**
+     * Retrieves a single page of xAPI statements
+     * @param options - Filters and paging options, ignored when a more link is given
+     * @param more - More link of the previous page
+     * @param signal - Optional abort signal
+     * @returns Statement result with the statements and the link to the next page
+     * @throws Error if fetch operation fails
+     */
+    async getStatementsPage(options: StatementQueryOptions = {}, more?: string, signal?: AbortSignal): Promise<XAPIStatementResult> {
+        if (!more) {
+            return apiClient.get<XAPIStatementResult>('/statements', { query: this.buildQuery(options), headers: this.headers, signal });
         }
+
+        // More links are paths on the server, which serves the API below /api, the base URL may use another prefix
+        const link = new URL(more, 'http://more.invalid');
+        const path = link.pathname.replace(/^\/api(?=\/)/, '');
+        return apiClient.get<XAPIStatementResult>(path, {
+            query: Object.fromEntries(link.searchParams),
+            headers: this.headers,
+            signal
+        });
     }
 
     /**
-     * Retrieves all xAPI statements from the LRS
+     * Retrieves all xAPI statements matching the options from the LRS
+     * Follows the more links of the statement result until all pages are loaded
+     * @param options - Filters and page size, by default all statements are loaded
+     * @param signal - Optional abort signal
      * @returns Array of stored xAPI statements
      * @throws Error if fetch operation fails
      */
-    async getStatements(): Promise<XAPIStatement[]> {
-        try {
-            const response = await fetch(`${this.apiUrl}/statements`);
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
+    async getStatements(options: StatementQueryOptions = {}, signal?: AbortSignal): Promise<XAPIStatement[]> {
+        const statements: XAPIStatement[] = [];
+        let result = await this.getStatementsPage(options, undefined, signal);
+        statements.push(...result.statements);
+
+        while (result.more) {
+            result = await this.getStatementsPage(options, result.more, signal);
+            statements.push(...result.statements);
+        }
+
+        return statements;
+    }
+
+    /**
+     * Exports the statements matching the options as a file
+     * Learner identities are exported as the pseudonymization mode of the server shows them
+     * @param options - Filters of the exported statements
+     * @param output - json for a single array, ndjson for one statement per line
+     * @returns File content
+     * @throws Error if the export fails
+     */
+    async exportStatements(options: StatementQueryOptions = {}, output: 'json' | 'ndjson' = 'ndjson'): Promise<Blob> {
+        return apiClient.get<Blob>('/export/statements', {
+            query: { ...this.buildQuery(options), output },
+            responseType: 'blob'
+        });
+    }
+
+    /**
+     * Follows the statements stored while the dashboard is open
+     * Reconnects after the stream ended or failed and asks for the statements stored since the newest received one,
+     * so none is missed. A statement may be passed twice.
+     * @param options - Course of the statements and stored time of the newest statement already loaded
+     * @param onStatements - Called with every received batch, voiding statements included
+     * @param signal - Ends following the statements
+     * @returns Promise resolving once the signal aborts
+     * @throws ApiError if the server rejects the stream, e.g. after the login expired
+     */
+    async followStatements(
+        options: { courseId?: string; since?: string },
+        onStatements: (statements: XAPIStatement[]) => void,
+        signal: AbortSignal
+    ): Promise<void> {
+        let since = options.since;
+
+        // Reconnects resume after the last received statement
+        const handleEvent = ({ event, data }: ServerSentEvent) => {
+            if (event !== 'statements') return;
+
+            const statements: XAPIStatement[] = JSON.parse(data);
+            statements.forEach(statement => {
+                if (statement.stored && (!since || statement.stored > since)) since = statement.stored;
+            });
+            onStatements(statements);
+        };
+
+        while (!signal.aborted) {
+            try {
+                const stream = await apiClient.get<ReadableStream<Uint8Array>>('/statements/stream', {
+                    query: { courseId: options.courseId, since },
+                    signal,
+                    responseType: 'stream'
+                });
+                await readEventStream(stream, handleEvent);
+            } catch (error) {
+                if (isAbortError(error)) return;
+                if (error instanceof ApiError && !error.retryable) throw error;
+                console.warn('Statement stream interrupted:', error);
             }
-            return await response.json();
-        } catch (error) {
-            console.error('Error fetching statements:', error);
-            throw error;
+
+            await new Promise(resolve => setTimeout(resolve, STREAM_RECONNECT_MS));
         }
     }
+
+    /**
+     * Retrieves the most recent xAPI statements by timestamp
+     * @param limit - Number of statements to load
+     * @param signal - Optional abort signal
+     * @returns Array of xAPI statements, newest first
+     * @throws Error if fetch operation fails
+     */
+    async getLatestStatements(limit: number = 3, signal?: AbortSignal): Promise<XAPIStatement[]> {
+        return apiClient.get<XAPIStatement[]>('/statements/latest', { query: { limit }, signal });
+    }
 }
@@ -0,0 +1,386 @@
+/*
+ * Request and response bodies of the server API, generated from server/openapi/spec.mjs.
+ * Do not edit, change the OpenAPI document and run npm run openapi-types in the server directory.
+ */
+
+/**
+ * Body of every error response
+ */
+export interface ErrorResponse {
+    message: string;
+    // Details of a server error
+    error?: string;
+    details?: ValidationIssue[];
+    reports?: StatementValidationReport[];
+    duplicateIds?: string[];
+    conflictingIds?: string[];
+    invalidVoidingIds?: string[];
+}
+
+/**
+ * Part of a request violating the API contract
+ */
+export interface ValidationIssue {
+    location: 'path' | 'query' | 'body';
+    // JSON pointer into the location, empty for the location itself
+    path: string;
+    message: string;
+}
+
+export interface MessageResponse {
+    message: string;
+}
+
+export interface InsertResponse {
+    message: string;
+    insertedIds?: Record<string, string>;
+}
+
+export interface About {
+    version: string[];
+}
+
+export type UserRole = 'admin' | 'educator' | 'content-creator' | 'learner' | 'statement-writer';
+
+export interface User {
+    username: string;
+    role: UserRole;
+    // Links learners to their learner profile and statements
+    email?: string;
+}
+
+export interface UserRequest {
+    username: string;
+    password: string;
+    role: UserRole;
+    // Required for learners
+    email?: string;
+}
+
+export interface LoginRequest {
+    username: string;
+    password: string;
+}
+
+export interface LoginResponse {
+    token: string;
+    expiresAt: string;
+    user: User;
+}
+
+/**
+ * xAPI statement, the properties beyond the structure are checked against the xAPI profile of its course. By default (XAPI_PROFILE_VALIDATION=warn) violations of the profile templates are stored and listed in X-Profile-Warnings, strict rejects them with 400
+ */
+export interface Statement {
+    id?: string;
+    actor: object;
+    verb: object;
+    object: object;
+    result?: object;
+    context?: object;
+    timestamp?: string;
+    stored?: string;
+    version?: string;
+}
+
+export interface StatementResult {
+    statements: Statement[];
+    // Path of the next page, empty on the last page
+    more: string;
+}
+
+export interface StatementValidationIssue {
+    // JSONPath into the statement
+    location: string;
+    message: string;
+}
+
+export interface StatementValidationReport {
+    index: number;
+    id: string;
+    errors: StatementValidationIssue[];
+    warnings: StatementValidationIssue[];
+}
+
+export interface StatementValidationResponse {
+    valid: boolean;
+    reports: StatementValidationReport[];
+}
+
+export interface StatementScore {
+    raw?: number;
+    scaled?: number;
+    min?: number;
+    max?: number;
+}
+
+/**
+ * Corrected result of a statement, the given score properties replace those of the statement
+ */
+export interface CorrectionRequest {
+    score?: StatementScore;
+    // Passed and failed statements change their verb with the success
+    success?: boolean;
+    reason: string;
+}
+
+export type CorrectionAction = 'void' | 'correct';
+
+/**
+ * Audit entry of a voided or corrected statement
+ */
+export interface StatementCorrection {
+    action: CorrectionAction;
+    statementId: string;
+    voidingStatementId: string;
+    // Replacement of a corrected statement
+    correctedStatementId: string | null;
+    courseId: string | null;
+    // Actor of the statement as mbox, openid, sha1:<mbox_sha1sum> or account:<name>@<homePage>
+    learner: string;
+    activityId: string;
+    verb: string;
+    previousResult: {
+        score?: StatementScore;
+        success?: boolean;
+        completion?: boolean;
+        duration?: string;
+    } | null;
+    correctedResult: {
+        score?: StatementScore;
+        success?: boolean;
+        completion?: boolean;
+        duration?: string;
+    } | null;
+    reason: string;
+    // Username of the educator
+    user: string;
+    createdAt: string;
+}
+
+export interface DatasetResetResponse {
+    message: string;
+    deletedCount: number;
+}
+
+export interface PseudonymList {
+    mode: 'off' | 'display' | 'ingestion';
+    format: 'hash' | 'alias';
+    pseudonyms: {
+        pseudonym: string;
+        identity: string;
+    }[];
+}
+
+export interface LearnerMetrics {
+    // Learner mbox, null for other learners if a learner asks
+    learner: string | null;
+    completedActivities: number;
+    statements: number;
+    averageScore: number | null;
+    passed: number;
+    failed: number;
+    attempts: number;
+    // Minutes
+    totalDuration: number;
+}
+
+export interface ActivityMetrics {
+    // LMS external id
+    activityId: string;
+    learners: number;
+    scores: number[];
+    completions: number;
+    statements: number;
+    averageScore: number | null;
+    passed: number;
+    failed: number;
+    attempts: number;
+    // Minutes
+    totalDuration: number;
+}
+
+export interface SectionMetrics {
+    section: string;
+    learners: number;
+    completions: number;
+    statements: number;
+    averageScore: number | null;
+    passed: number;
+    failed: number;
+    attempts: number;
+    // Minutes
+    totalDuration: number;
+}
+
+export interface SectionMetricsRequest {
+    sections: {
+        title: string;
+        activityIds: string[];
+    }[];
+}
+
+export interface AnalyticsOverview {
+    totalStatements: number;
+    learners: number;
+    verbUsage: {
+        verb: string;
+        count: number;
+    }[];
+}
+
+/**
+ * Course structure, the activities are described by the LOM data
+ */
+export interface Course {
+    id: string;
+    title?: string;
+    description?: string;
+    sections: {
+        title?: string;
+        activities?: object[];
+    }[];
+}
+
+export interface CourseSummary {
+    id: string;
+    title?: string;
+    description?: string;
+    importedAt: string;
+}
+
+export interface XAPIProfile {
+    id?: string;
+    concepts?: object[];
+    templates: object[];
+}
+
+export interface CoursePackage {
+    course: Course;
+    lom?: LomData[];
+    profile: XAPIProfile;
+}
+
+export interface CourseImportResponse {
+    message: string;
+    id: string;
+}
+
+/**
+ * IEEE LOM metadata of an activity
+ */
+export interface LomData {
+    courseId?: string;
+    general?: object;
+    educational?: object;
+    classification?: object;
+    relation?: object[];
+}
+
+export interface Verb {
+    id: string;
+    type?: string;
+    prefLabel?: string;
+    definition?: string;
+}
+
+/**
+ * Simulated learner with the metrics of its persona
+ */
+export interface LearnerProfile {
+    id: string;
+    email: string;
+    courseId?: string;
+    personaType?: string;
+    metrics?: object;
+}
+
+export type GenerationJobStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * Settings reproducing the generated learners and statements
+ */
+export interface GenerationJobSettings {
+    learners: number;
+    weeks: number;
+    seed: number;
+    firstLearnerId?: number;
+    replaceExisting?: boolean;
+    courseStartDate: string;
+    scenario: object;
+    calendar?: object;
+    activityConfig?: object;
+}
+
+export interface GenerationJobRequest {
+    courseId: string;
+    settings: GenerationJobSettings;
+}
+
+export interface GenerationJobUpdate {
+    uploaded?: number;
+    learnersStored?: boolean;
+    status?: GenerationJobStatus;
+    error?: string;
+}
+
+export interface GenerationJob {
+    id: string;
+    courseId: string;
+    status: GenerationJobStatus;
+    settings?: GenerationJobSettings;
+    learnersStored: boolean;
+    // Statements acknowledged by the server in generation order
+    uploaded: number;
+    error?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type SessionSource = 'generated' | 'reconstructed';
+
+export interface SessionActivity {
+    activityId: string;
+    title?: string;
+    startTime: string;
+    endTime: string;
+    // Minutes
+    duration?: number;
+    completed?: boolean;
+    statements?: number;
+}
+
+/**
+ * Generated session, id, course and source are set by the server
+ */
+export interface SessionUpload {
+    // Learner mbox
+    learner: string;
+    startTime: string;
+    endTime: string;
+    // Minutes
+    totalDuration: number;
+    activities: SessionActivity[];
+}
+
+export interface Session {
+    id: string;
+    courseId: string;
+    learner: string;
+    source: SessionSource;
+    startTime: string;
+    endTime: string;
+    totalDuration: number;
+    activities: SessionActivity[];
+}
+
+export interface SessionUploadResponse {
+    message: string;
+    insertedCount: number;
+}
+
+export interface SessionReconstructionResponse {
+    message: string;
+    learners: number;
+    sessions: number;
+}
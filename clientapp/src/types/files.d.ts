@@ -0,0 +1,7 @@
+/**
+ * Course files bundled with the app are emitted as assets and resolve to their URL.
+ */
+declare module '*.xml' {
+    const src: string;
+    export default src;
+}
@@ -1,4 +1,12 @@
 
+/**
+ * Agent identified by a mailbox or the SHA1 hash of a mailbox.
+ */
+export interface XAPIAgent {
+    mbox?: string;
+    mbox_sha1sum?: string;
+}
+
 /**
  * Represents a standardized xAPI statement for tracking learning activities.
  * Follows the xAPI specification format for learning experience tracking.
@@ -8,6 +16,7 @@ export interface XAPIStatement {
         mbox: string;
     };
     timestamp: string;
+    stored?: string;
     version: string;
     id: string;
     result?: {
@@ -20,6 +29,8 @@ export interface XAPIStatement {
         completion?: boolean;
         success?: boolean;
         duration?: string;
+        progress?: number;
+        response?: string;
     };
     verb: {
         id: string;
@@ -41,18 +52,172 @@ export interface XAPIStatement {
             extensions?: {
                 [key: string]: string;
             };
+            interactionType?: string;
+            correctResponsesPattern?: string[];
+            choices?: { id: string; description: { en: string } }[];
         };
     };
     context: {
-        instructor?: {
-            mbox: string;
+        instructor?: XAPIAgent;
+        // Groups the statements of one assessment attempt
+        registration?: string;
+        contextActivities?: {
+            parent?: { id: string; objectType: string }[];
         };
         extensions?: {
-            [key: string]: string;
+            [key: string]: string | number;
         };
     };
 }
 
+/**
+ * Represents a page of statements returned by the xAPI Statements resource.
+ * The more property holds the relative URL of the next page or an empty string.
+ */
+export interface XAPIStatementResult {
+    statements: XAPIStatement[];
+    more: string;
+}
+
+/**
+ * Represents the filters and paging options of a statement query.
+ * Timestamps bound the statement timestamp, from is inclusive and to exclusive.
+ */
+export interface StatementQueryOptions {
+    mbox?: string;
+    verb?: string;
+    externalId?: string;
+    courseId?: string;
+    from?: Date | string;
+    to?: Date | string;
+    limit?: number;
+    ascending?: boolean;
+}
+
+/**
+ * Filters of a session query
+ */
+export interface SessionQueryOptions {
+    courseId?: string;
+    // mbox of a single learner
+    learner?: string;
+    // Bounds of the session start time
+    from?: Date | string;
+    to?: Date | string;
+}
+
+/**
+ * Time window of the metrics aggregated by the server.
+ * Timestamps bound the statement timestamp, from is inclusive and to exclusive.
+ */
+export interface MetricsRange {
+    from?: Date;
+    to?: Date;
+}
+
+/**
+ * Statements added to and removed from the statements of the app, e.g. by a streamed batch or a voiding statement
+ */
+export interface StatementChanges {
+    added: XAPIStatement[];
+    removedIds: Set<string>;
+}
+
+/**
+ * Represents a single finding of the server side statement validation.
+ * The location is a JSONPath expression pointing into the statement.
+ */
+export interface StatementValidationIssue {
+    location: string;
+    message: string;
+}
+
+/**
+ * Represents the validation result of one statement against the xAPI profile.
+ * Errors reject the statement, warnings are only reported.
+ */
+export interface StatementValidationReport {
+    index: number;
+    id: string;
+    errors: StatementValidationIssue[];
+    warnings: StatementValidationIssue[];
+}
+
+/**
+ * Represents the metrics the server aggregates for a group of statements.
+ * Scores are percentages of scored statements, durations are minutes.
+ */
+export interface StatementMetrics {
+    statements: number;
+    averageScore: number | null;
+    passed: number;
+    failed: number;
+    attempts: number;
+    totalDuration: number;
+}
+
+/**
+ * Represents the aggregated metrics of a single learner.
+ */
+export interface LearnerMetrics extends StatementMetrics {
+    learner: string;
+    completedActivities: number;
+}
+
+/**
+ * Represents the aggregated metrics of a single activity.
+ * Scores holds the raw values of all scored statements for distribution charts.
+ */
+export interface ActivityMetrics extends StatementMetrics {
+    activityId: string;
+    learners: number;
+    scores: number[];
+    completions: number;
+}
+
+/**
+ * Represents the aggregated metrics of a course section.
+ * Completions count distinct learner and activity pairs.
+ */
+export interface SectionMetrics extends StatementMetrics {
+    section: string;
+    learners: number;
+    completions: number;
+}
+
+/**
+ * Represents course wide totals of the stored statements.
+ */
+export interface AnalyticsOverview {
+    totalStatements: number;
+    learners: number;
+    verbUsage: { verb: string; count: number }[];
+}
+
+/**
+ * Roles of the dashboard users, admins may access all dashboards.
+ */
+export type UserRole = 'admin' | 'educator' | 'content-creator' | 'learner' | 'statement-writer';
+
+/**
+ * Represents a logged in user.
+ * Learners are linked to their learner profile and statements by email.
+ */
+export interface AuthUser {
+    username: string;
+    role: UserRole;
+    email?: string;
+}
+
+/**
+ * Represents a login session with its bearer token.
+ */
+export interface AuthSession {
+    token: string;
+    expiresAt: string;
+    user: AuthUser;
+}
+
 /**
  * Represents a contiguous period of learning activity by a single learner.
  * Tracks the complete timeline of activities and interactions within the session.
@@ -78,6 +243,38 @@ export interface SessionActivity {
     interactions: LearningInteraction[];
 }
 
+/**
+ * Learning session as stored on the server.
+ * Sessions are stored with the generated statements or reconstructed from the launched and exited statements of real data.
+ */
+export interface StoredSession {
+    id: string;
+    courseId: string;
+    // mbox of the learner
+    learner: string;
+    source: 'generated' | 'reconstructed';
+    startTime: string;
+    endTime: string;
+    // Minutes
+    totalDuration: number;
+    activities: StoredSessionActivity[];
+}
+
+/**
+ * Visit of an activity within a stored session
+ */
+export interface StoredSessionActivity {
+    // Object id of the activity in the statements
+    activityId: string;
+    title: string;
+    startTime: string;
+    endTime: string;
+    // Minutes
+    duration: number;
+    completed: boolean;
+    statements: number;
+}
+
 /**
  * Represents a learner's characteristics and performance metrics.
  * Used for analyzing learning patterns and personalizing content.
@@ -85,7 +282,13 @@ export interface SessionActivity {
 export interface LearnerProfile {
     id: string;
     email: string;
-    personaType: 'struggler' | 'average' | 'sprinter' | 'gritty' | 'coaster' | 'outlierA' | 'outlierB' | 'outlierC' | 'outlierD';
+    courseId?: string;
+    // Type of the scenario persona the learner was generated from
+    personaType: string;
+    // Chance of starting an activity before its prerequisites are completed, defaults to the activity rules
+    skipAhead?: number;
+    // Weekly chance of dropping out and returning, learners without a model stay active
+    dropout?: DropoutModel;
     metrics: {
         consistency: number | { start: number; middle: number; end: number; };
         scores: number | { start: number; middle: number; end: number; };
@@ -94,6 +297,217 @@ export interface LearnerProfile {
     };
 }
 
+/**
+ * Weekly chance of a learner abandoning the course and of returning after a break.
+ * Chances are between 0 and 1 and evaluated at the end of each active week.
+ */
+export interface DropoutModel {
+    // Chance of dropping out in a week without attempts
+    hazard: number;
+    // Added to the chance for each failed attempt in the last two weeks
+    failureImpact: number;
+    // Added to the chance scaled by the share of points missed in the attempts of the last two weeks
+    scoreImpact: number;
+    // Chance of returning in each week after the minimum break, 0 for learners who never return
+    reengagement: number;
+    minBreakWeeks: number;
+}
+
+/**
+ * Rules of the simulated activity lifecycle
+ */
+export interface ActivityConfig {
+    maxAttempts: number;
+    passingScore: number;
+    progressThreshold: number;
+    minSessionTime: number;
+    baseActivityDuration: number;
+    // Chance of starting an activity before its prerequisites are completed, unless the persona sets its own
+    skipAheadProbability: number;
+    // Questions in the item bank of each activity
+    itemBankSize: number;
+    // Questions drawn from the item bank for each attempt
+    questionsPerAttempt: number;
+}
+
+/**
+ * Generated data of a single learner
+ */
+export interface GeneratedLearnerData {
+    learner: LearnerProfile;
+    sessions: LearningSession[];
+    statements: XAPIStatement[];
+}
+
+/**
+ * Progress of a running data generation, reported per phase
+ */
+export interface GenerationProgress {
+    phase: 'learners' | 'sessions' | 'uploading';
+    completed: number;
+    total: number;
+    // Statements generated so far
+    statements?: number;
+}
+
+/**
+ * Settings of a statement generation run besides the cohort and the number of weeks
+ */
+export interface GenerationOptions {
+    courseStartDate?: Date;
+    activityConfig?: ActivityConfig;
+    calendar?: CalendarModel;
+    // Statements per upload request, 1000 by default
+    batchSize?: number;
+    // Job recording the upload progress, statements the job already uploaded are skipped
+    jobId?: string;
+    onProgress?: (progress: GenerationProgress) => void;
+}
+
+/**
+ * Everything needed to reproduce the learners and statements of a generation job
+ */
+export interface GenerationJobSettings {
+    learners: number;
+    // Id of the first generated learner, appended learners continue the ids of the stored learners
+    firstLearnerId: number;
+    weeks: number;
+    // Always set, runs without a seed cannot be reproduced
+    seed: number;
+    replaceExisting: boolean;
+    // ISO date of the first course day
+    courseStartDate: string;
+    scenario: LearnerScenario;
+    calendar?: CalendarModel;
+    activityConfig?: ActivityConfig;
+}
+
+/**
+ * Generation run stored on the server, resumed after an interrupted upload by its id
+ */
+export interface GenerationJob {
+    id: string;
+    courseId: string;
+    status: 'running' | 'completed' | 'failed';
+    // Omitted in job lists
+    settings?: GenerationJobSettings;
+    learnersStored: boolean;
+    // Statements acknowledged by the server in generation order
+    uploaded: number;
+    error?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Qualitative level of a persona metric
+ */
+export type MetricLevel = 'very low' | 'low' | 'average' | 'high' | 'very high';
+
+/**
+ * Value of a persona metric, either constant or changing over the start, middle and end phase of a course.
+ * Levels are mapped to fixed values, numbers between 0 and 1 are used as they are.
+ */
+export type PersonaMetric = MetricLevel | number | { start: MetricLevel | number; middle: MetricLevel | number; end: MetricLevel | number; };
+
+/**
+ * Learner type of a scenario with its share of the simulated cohort
+ */
+export interface PersonaDefinition {
+    type: string;
+    share: number;
+    description?: string;
+    // Chance between 0 and 1 of starting an activity before its prerequisites are completed
+    skipAhead?: number;
+    // Settings missing from the dropout model default to 0, the minimum break to 2 weeks
+    dropout?: Partial<DropoutModel>;
+    metrics: {
+        consistency: PersonaMetric;
+        scores: PersonaMetric;
+        duration: PersonaMetric;
+        effort: PersonaMetric;
+    };
+}
+
+/**
+ * Cohort definition the learner profiles are generated from
+ */
+export interface LearnerScenario {
+    name: string;
+    description?: string;
+    personas: PersonaDefinition[];
+}
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+/**
+ * Local hours a group of learners starts their sessions in.
+ * Start hours are spread evenly between startHour and endHour, or concentrated around peakHour if given.
+ */
+export interface Chronotype {
+    startHour: number;
+    endHour: number;
+    peakHour?: number;
+}
+
+/**
+ * Time zone of a share of the learners, as IANA name like Europe/Berlin
+ */
+export interface TimeZoneShare {
+    timeZone: string;
+    share: number;
+}
+
+/**
+ * Days without sessions, e.g. holidays. Dates are given as YYYY-MM-DD and include the last day.
+ */
+export interface BlackoutPeriod {
+    name?: string;
+    start: string;
+    end: string;
+}
+
+/**
+ * Assessment due at the end of a course week, learners study more in the days before
+ */
+export interface AssessmentDeadline {
+    name?: string;
+    // Course week (1-based) the assessment is due at the end of
+    week: number;
+    // Days before the due date with more sessions
+    leadDays: number;
+    // Factor the chance of a session on these days is multiplied with
+    boost: number;
+    // Additional sessions of the weeks overlapping the lead days
+    extraSessions: number;
+}
+
+/**
+ * Calendar effects applied when learning sessions are scheduled
+ */
+export interface CalendarModel {
+    name: string;
+    description?: string;
+    // Relative chance of a session on each day of the week, 0 for no sessions
+    weekdayWeights: Record<Weekday, number>;
+    // Time zones learners are assigned to by share, learners use the local time zone of the generator if empty
+    timeZones: TimeZoneShare[];
+    chronotypes: Record<string, Chronotype>;
+    defaultChronotype: string;
+    // Chronotype of the learners of a persona type, all others use the default chronotype
+    personaChronotypes: Record<string, string>;
+    blackoutPeriods: BlackoutPeriod[];
+    deadlines: AssessmentDeadline[];
+}
+
+/**
+ * Problem found while validating a scenario or calendar model, located by a JSON path
+ */
+export interface ScenarioValidationIssue {
+    location: string;
+    message: string;
+}
+
 /**
  * Represents a learning activity with its metadata and characteristics.
  * Contains information about the activity's content and expected interaction patterns.
@@ -113,6 +527,9 @@ export interface Activity {
     objectType: string;
     probability: number;
     rating: number;
+    // Ids of the activities to complete first, declared by LOM "requires" relations.
+    // Without declared prerequisites the activities of the previous section are required.
+    prerequisites?: string[];
 }
 
 /**
@@ -145,6 +562,48 @@ export interface CourseData {
     };
 }
 
+/**
+ * Represents a stored course as listed by the server.
+ */
+export interface CourseSummary {
+    id: string;
+    title: string;
+    description: string;
+    importedAt: string;
+}
+
+/**
+ * Represents an xAPI profile document with its verb concepts and statement templates.
+ */
+export interface XAPIProfile {
+    id: string;
+    concepts: XAPIConcept[];
+    templates: XAPITemplate[];
+    [key: string]: unknown;
+}
+
+/**
+ * Represents a concept of an xAPI profile, the generator reads its verbs.
+ * Labels and definitions are language maps.
+ */
+export interface XAPIConcept {
+    id: string;
+    type: string;
+    prefLabel: Record<string, string>;
+    definition: Record<string, string>;
+    [key: string]: unknown;
+}
+
+/**
+ * Represents the contents of an imported course package.
+ * Holds the course structure, the LOM metadata of its activities and its xAPI profile.
+ */
+export interface CoursePackage {
+    course: CourseData;
+    lom: LomData[];
+    profile: XAPIProfile;
+}
+
 /**
  * Represents a template for creating standardized xAPI statements.
  * Defines the structure and rules for tracking specific types of learning interactions.
@@ -184,6 +643,7 @@ export interface Verb {
  * Provides standardized descriptive data about learning objects.
  */
 export interface LomData {
+    courseId?: string;
     general: {
         identifier: {
             entry: string;
@@ -230,6 +690,17 @@ export interface LomData {
             };
         };
     };
+    // Relations to other resources, "requires" relations declare prerequisites
+    relation?: {
+        kind: {
+            value: string;
+        };
+        resource: {
+            identifier: {
+                entry: string;
+            };
+        };
+    }[];
 }
 
 /**
@@ -250,5 +721,48 @@ export interface LearningInteraction {
         completion?: boolean;
         duration?: string;
         progress?: number;
+        response?: string;
     };
+    // Object of the statement if it is not the activity itself
+    object?: InteractionObject;
+    // Context extensions in addition to the course id, keyed by extension IRI
+    extensions?: Record<string, string | number>;
+    // Instructor of the statement if it is not the default instructor, e.g. a recommender
+    instructor?: XAPIAgent;
+    // Assessment attempt the interaction belongs to
+    registration?: string;
+}
+
+/**
+ * Represents a statement object related to an activity, like a question of the activity,
+ * the course search or a badge.
+ */
+export interface InteractionObject {
+    id: string;
+    type: string;
+    name: string;
+    description?: string;
+    // Activity the object belongs to, added as parent context activity
+    parentId?: string;
+    // cmi.interaction definition of questions
+    interactionType?: 'choice';
+    correctResponsesPattern?: string[];
+    choices?: { id: string; description: { en: string } }[];
+}
+
+/**
+ * Represents a multiple choice question of an activity's item bank.
+ * Answers follow the three parameter logistic model of item response theory:
+ * the chance of a correct answer is guessing + (1 - guessing) / (1 + e^(-discrimination * (ability - difficulty))).
+ */
+export interface AssessmentItem {
+    question: InteractionObject;
+    // Ability at which half of the non-guessed answers are correct, on the same scale as the learner ability
+    difficulty: number;
+    // Slope of the response curve, flawed items have a discrimination near or below 0
+    discrimination: number;
+    // Chance of a correct answer by guessing
+    guessing: number;
+    // Relative chance of each wrong choice being picked, keyed by choice id
+    distractorWeights: Record<string, number>;
 }
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt);
+
+// Roles match the dashboards of the client, admins may access everything
+// Statement writers are xAPI clients like LMS plugins, they may only store statements
+export const ROLES = {
+    admin: "admin",
+    educator: "educator",
+    contentCreator: "content-creator",
+    learner: "learner",
+    statementWriter: "statement-writer"
+};
+
+const KEY_LENGTH = 64;
+const DEFAULT_TOKEN_TTL = 8 * 60 * 60;
+
+const authSecret = process.env.AUTH_SECRET || randomBytes(32).toString("hex");
+if (!process.env.AUTH_SECRET) {
+    console.warn("AUTH_SECRET is not set, issued tokens are only valid until the server restarts");
+}
+
+const tokenTtl = Number(process.env.AUTH_TOKEN_TTL) || DEFAULT_TOKEN_TTL;
+
+/**
+ * Hashes a password with scrypt and a random salt
+ * @param password - Plain text password
+ * @returns Hash in the form scrypt$salt$key, salt and key base64 encoded
+ */
+export async function hashPassword(password) {
+    const salt = randomBytes(16);
+    const key = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString("base64")}$${key.toString("base64")}`;
+}
+
+/**
+ * Checks a password against a hash created by hashPassword
+ * @param password - Plain text password
+ * @param passwordHash - Stored hash
+ * @returns True if the password matches
+ */
+export async function verifyPassword(password, passwordHash) {
+    const [scheme, salt, key] = String(passwordHash).split("$");
+    if (scheme !== "scrypt" || !salt || !key) {
+        return false;
+    }
+
+    const expected = Buffer.from(key, "base64");
+    const actual = await scryptAsync(password, Buffer.from(salt, "base64"), expected.length);
+    return timingSafeEqual(actual, expected);
+}
+
+const sign = (payload) => createHmac("sha256", authSecret).update(payload).digest("base64url");
+
+/**
+ * Issues a signed bearer token for a user
+ * @param user - User with username and role
+ * @returns Token and its expiry as ISO date
+ */
+export function createToken(user) {
+    const expires = Math.floor(Date.now() / 1000) + tokenTtl;
+    const payload = Buffer.from(JSON.stringify({
+        sub: user.username,
+        role: user.role,
+        exp: expires
+    })).toString("base64url");
+
+    return {
+        token: `${payload}.${sign(payload)}`,
+        expiresAt: new Date(expires * 1000).toISOString()
+    };
+}
+
+/**
+ * Verifies the signature and expiry of a bearer token
+ * @param token - Token issued by createToken
+ * @returns Token payload or null if the token is invalid or expired
+ */
+export function verifyToken(token) {
+    const [payload, signature] = String(token).split(".");
+    if (!payload || !signature) {
+        return null;
+    }
+
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        return null;
+    }
+
+    try {
+        const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+        return claims.exp > Date.now() / 1000 ? claims : null;
+    } catch {
+        return null;
+    }
+}
@@ -1,11 +1,15 @@
 import dotenv from 'dotenv';
 import { MongoClient } from "mongodb";
+import { DocumentDatabase } from "./document-store.mjs";
 
 dotenv.config();
 
 const connectionString = process.env.MONGODB_URI || "";
 const dbName = process.env.MONGODB_DB_NAME || "";
 
+// mongodb for a MongoDB server, sqlite for a single file, memory for development and tests
+export const STORAGE_BACKENDS = ["mongodb", "sqlite", "memory"];
+
 export async function connectToMongoDB() {
     const client = new MongoClient(connectionString);
     try {
@@ -16,4 +20,28 @@ export async function connectToMongoDB() {
         console.error("Connection error:", e);
         throw e;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Opens the storage backend given by STORAGE_BACKEND, MongoDB by default
+ * The SQLite and in-memory backends provide the part of the MongoDB collection API the
+ * repositories use, so the rest of the server does not depend on the backend
+ * @returns Database handed to the routes
+ * @throws Error if the backend is unknown or cannot be opened
+ */
+export async function connectToDatabase() {
+    const backend = process.env.STORAGE_BACKEND || "mongodb";
+    switch (backend) {
+        case "mongodb":
+            return connectToMongoDB();
+        case "sqlite": {
+            const { openSqliteDatabase } = await import("./sqlite-store.mjs");
+            return openSqliteDatabase(process.env.SQLITE_PATH || "analytics-dashboard.sqlite");
+        }
+        case "memory":
+            console.warn("Using the in-memory storage, all data is lost when the server stops");
+            return new DocumentDatabase();
+        default:
+            throw new Error(`STORAGE_BACKEND must be one of ${STORAGE_BACKENDS.join(", ")}, got ${backend}`);
+    }
+}
@@ -0,0 +1,61 @@
+/*
+ * Audit trail of the statements voided or corrected by educators
+ * Every entry names the user, the reason and the results before and after, the statements themselves are never changed.
+ */
+
+/**
+ * Removes the database id of an audit entry
+ * @param correction - Stored entry
+ * @returns Entry as returned by the API
+ */
+const publicCorrection = (correction) => {
+    const { _id, ...rest } = correction;
+    return rest;
+};
+
+/**
+ * Records a voided or corrected statement
+ * A statement is voided at most once, the unique index makes the entry a claim concurrent corrections compete for
+ * @param db - Database of the storage backend
+ * @param correction - Audit entry
+ * @returns Stored entry
+ * @throws Error with code 11000 if another correction voided the statement
+ */
+export async function recordCorrection(db, correction) {
+    const collection = await db.collection("statement_corrections");
+    await collection.createIndex({ statementId: 1 }, { unique: true });
+    await collection.insertOne({ ...correction });
+    return publicCorrection(correction);
+}
+
+/**
+ * Removes the audit entry of a correction whose statements could not be stored
+ * @param db - Database of the storage backend
+ * @param statementId - Id of the statement the correction voided
+ */
+export async function removeCorrection(db, statementId) {
+    const collection = await db.collection("statement_corrections");
+    await collection.deleteOne({ statementId });
+}
+
+/**
+ * Lists the audit trail, newest first
+ * @param db - Database of the storage backend
+ * @param courseId - Optional course of the voided statements
+ * @returns Audit entries
+ */
+export async function findCorrections(db, courseId) {
+    const collection = await db.collection("statement_corrections");
+    const corrections = await collection.find(courseId ? { courseId } : {}).sort({ createdAt: -1 }).toArray();
+    return corrections.map(publicCorrection);
+}
+
+/**
+ * Removes the audit trail of a course or all entries, used when the statements are reset
+ * @param db - Database of the storage backend
+ * @param courseId - Optional course
+ */
+export async function deleteCorrections(db, courseId) {
+    const collection = await db.collection("statement_corrections");
+    await collection.deleteMany(courseId ? { courseId } : {});
+}
@@ -0,0 +1,18 @@
+/**
+ * Loads the xAPI profiles imported with courses
+ * @param db - Database of the storage backend
+ * @param courseIds - Course ids, duplicates and null are ignored
+ * @returns Map of course id to xAPI profile, courses without profile are left out
+ */
+export async function findCourseProfiles(db, courseIds) {
+    const ids = Array.from(new Set(courseIds.filter(Boolean)));
+    if (ids.length === 0) {
+        return new Map();
+    }
+
+    const collection = await db.collection("courses");
+    const courses = await collection.find({ id: { $in: ids } })
+        .project({ _id: 0, id: 1, profile: 1 })
+        .toArray();
+    return new Map(courses.filter(course => course.profile).map(course => [course.id, course.profile]));
+}
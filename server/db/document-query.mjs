@@ -0,0 +1,460 @@
+import { ObjectId } from "mongodb";
+
+/*
+ * Query language of the document store, the subset of MongoDB filters, expressions and
+ * aggregation stages the server uses. Unsupported operators throw, so a query that only
+ * MongoDB understands fails loudly instead of matching the wrong documents.
+ *
+ * Supported subset, test/document-query.test.mjs runs the same cases against MongoDB if TEST_MONGODB_URI is set:
+ * - Filters: equality and $eq, $ne, $in, $nin, $gt, $gte, $lt, $lte, $exists on dotted paths,
+ *   $and, $or and $expr. Paths match the elements of arrays, null matches missing fields and
+ *   comparisons only match values of the same type.
+ * - Expressions: field paths, $$ variables, $literal, $eq, $ne, $and, $or, $in, $cond, $switch,
+ *   $ifNull, $concat, $let, $isNumber, $type, $add, $multiply, $divide, $ceil, $toInt, $size,
+ *   $arrayElemAt, $setDifference, $filter, $getField and $regexFind.
+ * - Stages: $match, $addFields, $project of top level fields, $group with $sum, $avg, $push and
+ *   $addToSet, $sort, $limit, $skip and $facet.
+ * - Updates of the document store: $set, $setOnInsert, $max and $inc, updateMany, bulk updateOne and replaceOne.
+ *
+ * Known differences to MongoDB:
+ * - Sort keys do not descend into arrays, MongoDB sorts by the smallest or largest element.
+ * - Strings are ordered by UTF-16 code units, MongoDB orders UTF-8 bytes. Both only differ for
+ *   characters outside the Basic Multilingual Plane.
+ * - Sorting is stable, MongoDB returns documents with equal sort keys in any order.
+ * - $divide by zero yields Infinity and $toInt truncates strings like "1.5", MongoDB fails on both.
+ * - insertMany stores all documents or none, ordered MongoDB inserts keep the documents before
+ *   the first error. Only unique indexes have an effect, lookups scan the collection.
+ */
+
+const unsupported = (kind, name) => {
+    throw new Error(`Unsupported ${kind} in the document store: ${name}`);
+};
+
+const isPlainObject = (value) =>
+    value !== null && typeof value === "object" && !Array.isArray(value) && !(value instanceof ObjectId) && !(value instanceof Date);
+
+/**
+ * Copies a document, object ids are immutable and shared
+ * @param value - Document or value
+ * @returns Deep copy
+ */
+export function clone(value) {
+    if (Array.isArray(value)) return value.map(clone);
+    if (isPlainObject(value)) {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)]));
+    }
+    return value;
+}
+
+// Types in the order MongoDB sorts them
+const typeRank = (value) => {
+    if (value === undefined || value === null) return 0;
+    if (typeof value === "number") return 1;
+    if (typeof value === "string") return 2;
+    if (isPlainObject(value)) return 3;
+    if (Array.isArray(value)) return 4;
+    if (value instanceof ObjectId) return 5;
+    if (typeof value === "boolean") return 6;
+    if (value instanceof Date) return 7;
+    return 8;
+};
+
+/**
+ * Orders two values like MongoDB, values of different types are ordered by type
+ * @returns Negative, zero or positive
+ */
+export function compareValues(a, b) {
+    const rankA = typeRank(a);
+    const rankB = typeRank(b);
+    if (rankA !== rankB) return rankA - rankB;
+
+    switch (rankA) {
+        case 0:
+            return 0;
+        case 3:
+        case 4:
+            return canonicalKey(a).localeCompare(canonicalKey(b));
+        case 5:
+            return a.toHexString().localeCompare(b.toHexString());
+        case 7:
+            return a.getTime() - b.getTime();
+        default:
+            return a < b ? -1 : a > b ? 1 : 0;
+    }
+}
+
+/**
+ * Key identifying equal values, used for sets and groups
+ * @param value - Any value
+ * @returns String equal for equal values
+ */
+export function canonicalKey(value) {
+    if (value === undefined) return "undefined";
+    if (value instanceof ObjectId) return `ObjectId(${value.toHexString()})`;
+    if (value instanceof Date) return `Date(${value.toISOString()})`;
+    if (Array.isArray(value)) return `[${value.map(canonicalKey).join(",")}]`;
+    if (isPlainObject(value)) {
+        return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalKey(value[key])}`).join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
+
+const equals = (a, b) => canonicalKey(a) === canonicalKey(b);
+
+/**
+ * Value of a dotted path, without descending into arrays
+ * @param document - Document
+ * @param path - Dotted path
+ * @returns Value or undefined
+ */
+export function getPath(document, path) {
+    return path.split(".").reduce((value, key) => (isPlainObject(value) || Array.isArray(value) ? value[key] : undefined), document);
+}
+
+/**
+ * Sets the value of a dotted path, creating the objects on the way
+ * @param document - Document to change
+ * @param path - Dotted path
+ * @param value - New value
+ */
+export function setPath(document, path, value) {
+    const keys = path.split(".");
+    const parent = keys.slice(0, -1).reduce((object, key) => {
+        if (!isPlainObject(object[key])) object[key] = {};
+        return object[key];
+    }, document);
+    parent[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Values a filter on a dotted path is compared with, arrays match by their elements
+ * like in MongoDB, so { "context.contextActivities.parent.id": id } finds the id in any parent
+ */
+const candidates = (value, keys) => {
+    if (keys.length === 0) {
+        return Array.isArray(value) ? [value, ...value] : [value];
+    }
+    const [key, ...rest] = keys;
+    if (Array.isArray(value)) {
+        return /^\d+$/.test(key)
+            ? candidates(value[Number(key)], rest)
+            : value.filter(isPlainObject).flatMap(item => candidates(item, keys));
+    }
+    return isPlainObject(value) ? candidates(value[key], rest) : [undefined];
+};
+
+// null matches missing fields like in MongoDB
+const matchesValue = (candidate, value) => value === null ? candidate === undefined || candidate === null : equals(candidate, value);
+
+const comparison = (test) => (values, operand) =>
+    values.some(value => value !== undefined && typeRank(value) === typeRank(operand) && test(compareValues(value, operand)));
+
+const fieldOperators = {
+    $eq: (values, operand) => values.some(value => matchesValue(value, operand)),
+    $ne: (values, operand) => !values.some(value => matchesValue(value, operand)),
+    $in: (values, operand) => operand.some(item => values.some(value => matchesValue(value, item))),
+    $nin: (values, operand) => !operand.some(item => values.some(value => matchesValue(value, item))),
+    $gt: comparison(order => order > 0),
+    $gte: comparison(order => order >= 0),
+    $lt: comparison(order => order < 0),
+    $lte: comparison(order => order <= 0),
+    $exists: (values, operand) => values.some(value => value !== undefined) === Boolean(operand)
+};
+
+const matchesField = (document, path, condition) => {
+    const values = candidates(document, path.split("."));
+    const isOperatorObject = isPlainObject(condition) && Object.keys(condition).some(key => key.startsWith("$"));
+    if (!isOperatorObject) {
+        return fieldOperators.$eq(values, condition);
+    }
+    return Object.entries(condition).every(([operator, operand]) =>
+        (fieldOperators[operator] || unsupported("query operator", operator))(values, operand));
+};
+
+/**
+ * Tests a document against a MongoDB filter
+ * @param document - Stored document
+ * @param filter - Filter with field conditions, $and, $or and $expr
+ * @returns Whether the document matches
+ */
+export function matches(document, filter = {}) {
+    return Object.entries(filter).every(([key, condition]) => {
+        switch (key) {
+            case "$and":
+                return condition.every(part => matches(document, part));
+            case "$or":
+                return condition.some(part => matches(document, part));
+            case "$expr":
+                return isTruthy(evaluate(condition, document));
+            default:
+                return key.startsWith("$") ? unsupported("query operator", key) : matchesField(document, key, condition);
+        }
+    });
+}
+
+const isTruthy = (value) => value !== undefined && value !== null && value !== false && value !== 0;
+
+// Field paths of expressions collect the values of arrays of documents, like "$totals.statements"
+const resolveFieldPath = (value, keys) => {
+    if (keys.length === 0 || value === undefined || value === null) return keys.length === 0 ? value : undefined;
+    if (Array.isArray(value)) {
+        return value.map(item => resolveFieldPath(item, keys)).filter(item => item !== undefined);
+    }
+    return isPlainObject(value) ? resolveFieldPath(value[keys[0]], keys.slice(1)) : undefined;
+};
+
+const numeric = (values, combine) => values.some(value => value === null || value === undefined) ? null : values.reduce(combine);
+
+const typeName = (value) => {
+    if (value === undefined) return "missing";
+    if (value === null) return "null";
+    if (typeof value === "string") return "string";
+    if (typeof value === "number") return Number.isInteger(value) ? "int" : "double";
+    if (typeof value === "boolean") return "bool";
+    if (Array.isArray(value)) return "array";
+    if (value instanceof ObjectId) return "objectId";
+    if (value instanceof Date) return "date";
+    return "object";
+};
+
+const expressionOperators = {
+    $literal: (operand) => operand,
+    $eq: (operand, document, vars) => {
+        const [a, b] = operand.map(part => evaluate(part, document, vars));
+        return equals(a, b);
+    },
+    $ne: (operand, document, vars) => !expressionOperators.$eq(operand, document, vars),
+    $and: (operand, document, vars) => operand.every(part => isTruthy(evaluate(part, document, vars))),
+    $or: (operand, document, vars) => operand.some(part => isTruthy(evaluate(part, document, vars))),
+    $in: (operand, document, vars) => {
+        const [value, array] = operand.map(part => evaluate(part, document, vars));
+        return array.some(item => equals(item, value));
+    },
+    $cond: (operand, document, vars) => {
+        const [condition, then, otherwise] = Array.isArray(operand) ? operand : [operand.if, operand.then, operand.else];
+        return evaluate(isTruthy(evaluate(condition, document, vars)) ? then : otherwise, document, vars);
+    },
+    $switch: (operand, document, vars) => {
+        const branch = operand.branches.find(({ case: condition }) => isTruthy(evaluate(condition, document, vars)));
+        return evaluate(branch ? branch.then : operand.default, document, vars);
+    },
+    // The first value that is not null or missing, the last expression is the replacement
+    $ifNull: (operand, document, vars) => {
+        const values = operand.map(part => evaluate(part, document, vars));
+        const found = values.slice(0, -1).find(value => value !== undefined && value !== null);
+        return found !== undefined ? found : values[values.length - 1];
+    },
+    $concat: (operand, document, vars) => {
+        const values = operand.map(part => evaluate(part, document, vars));
+        return values.some(value => value === undefined || value === null) ? null : values.join("");
+    },
+    $let: (operand, document, vars) => {
+        const scope = { ...vars };
+        Object.entries(operand.vars).forEach(([name, expression]) => {
+            scope[name] = evaluate(expression, document, vars);
+        });
+        return evaluate(operand.in, document, scope);
+    },
+    $isNumber: (operand, document, vars) => typeof evaluate(operand, document, vars) === "number",
+    $type: (operand, document, vars) => typeName(evaluate(operand, document, vars)),
+    $add: (operand, document, vars) => numeric(operand.map(part => evaluate(part, document, vars)), (a, b) => a + b),
+    $multiply: (operand, document, vars) => numeric(operand.map(part => evaluate(part, document, vars)), (a, b) => a * b),
+    $divide: (operand, document, vars) => numeric(operand.map(part => evaluate(part, document, vars)), (a, b) => a / b),
+    $ceil: (operand, document, vars) => {
+        const value = evaluate(operand, document, vars);
+        return value === null || value === undefined ? null : Math.ceil(value);
+    },
+    $toInt: (operand, document, vars) => {
+        const value = evaluate(operand, document, vars);
+        if (value === null || value === undefined) return null;
+        const number = Number(value);
+        if (!Number.isFinite(number)) unsupported("conversion to int of", JSON.stringify(value));
+        return Math.trunc(number);
+    },
+    $size: (operand, document, vars) => evaluate(operand, document, vars).length,
+    $arrayElemAt: (operand, document, vars) => {
+        const [array, index] = operand.map(part => evaluate(part, document, vars));
+        if (!Array.isArray(array)) return null;
+        return array[index < 0 ? array.length + index : index];
+    },
+    $setDifference: (operand, document, vars) => {
+        const [values, removed] = operand.map(part => evaluate(part, document, vars));
+        const removedKeys = new Set(removed.map(canonicalKey));
+        return uniqueValues(values).filter(value => !removedKeys.has(canonicalKey(value)));
+    },
+    $filter: (operand, document, vars) => {
+        const name = operand.as || "this";
+        return (evaluate(operand.input, document, vars) || [])
+            .filter(item => isTruthy(evaluate(operand.cond, document, { ...vars, [name]: item })));
+    },
+    $getField: (operand, document, vars) => {
+        const field = evaluate(operand.field, document, vars);
+        const input = evaluate(operand.input, document, vars);
+        return isPlainObject(input) ? input[field] : undefined;
+    },
+    $regexFind: (operand, document, vars) => {
+        const input = evaluate(operand.input, document, vars);
+        if (input === null || input === undefined) return null;
+        const match = new RegExp(operand.regex, operand.options).exec(input);
+        return match && {
+            match: match[0],
+            idx: match.index,
+            captures: match.slice(1).map(capture => capture === undefined ? null : capture)
+        };
+    }
+};
+
+/**
+ * Evaluates an aggregation expression
+ * @param expression - Field path, variable, operator or literal
+ * @param document - Current document
+ * @param vars - Variables of $let and $filter
+ * @returns Value of the expression
+ */
+export function evaluate(expression, document, vars = {}) {
+    if (typeof expression === "string" && expression.startsWith("$$")) {
+        const [name, ...keys] = expression.slice(2).split(".");
+        return resolveFieldPath(vars[name], keys);
+    }
+    if (typeof expression === "string" && expression.startsWith("$")) {
+        return resolveFieldPath(document, expression.slice(1).split("."));
+    }
+    if (Array.isArray(expression)) {
+        return expression.map(item => evaluate(item, document, vars));
+    }
+    if (isPlainObject(expression)) {
+        const keys = Object.keys(expression);
+        if (keys.length === 1 && keys[0].startsWith("$")) {
+            const operator = expressionOperators[keys[0]] || unsupported("expression operator", keys[0]);
+            return operator(expression[keys[0]], document, vars);
+        }
+        return Object.fromEntries(keys.map(key => [key, evaluate(expression[key], document, vars)]));
+    }
+    return expression;
+}
+
+const uniqueValues = (values) => {
+    const seen = new Map();
+    values.forEach(value => {
+        const key = canonicalKey(value);
+        if (!seen.has(key)) seen.set(key, value);
+    });
+    return Array.from(seen.values());
+};
+
+/**
+ * Orders documents by a MongoDB sort specification
+ * @param documents - Documents, sorted in place
+ * @param specification - Object mapping dotted paths to 1 or -1
+ * @returns The sorted documents
+ */
+export function sortDocuments(documents, specification) {
+    const keys = Object.entries(specification);
+    return documents.sort((a, b) => {
+        for (const [path, direction] of keys) {
+            const order = compareValues(getPath(a, path), getPath(b, path));
+            if (order !== 0) return order * direction;
+        }
+        return 0;
+    });
+}
+
+/**
+ * Applies a projection of top level fields, either inclusive with computed fields or exclusive
+ * @param document - Document
+ * @param projection - MongoDB projection
+ * @returns Projected document
+ */
+export function project(document, projection) {
+    const entries = Object.entries(projection);
+    const inclusive = entries.some(([key, value]) => key !== "_id" && value !== 0 && value !== false);
+    if (!inclusive) {
+        const result = { ...document };
+        entries.forEach(([key]) => delete result[key]);
+        return result;
+    }
+
+    const result = projection._id === 0 || projection._id === false || document._id === undefined ? {} : { _id: document._id };
+    entries.filter(([key]) => key !== "_id" || !(projection._id === 0 || projection._id === false)).forEach(([key, value]) => {
+        if (value === 1 || value === true) {
+            if (document[key] !== undefined) result[key] = document[key];
+        } else if (value !== 0 && value !== false) {
+            result[key] = evaluate(value, document);
+        }
+    });
+    return result;
+}
+
+const accumulators = {
+    $sum: () => ({
+        value: 0,
+        add(value) { if (typeof value === "number") this.value += value; },
+        result() { return this.value; }
+    }),
+    $avg: () => ({
+        sum: 0,
+        count: 0,
+        add(value) { if (typeof value === "number") { this.sum += value; this.count++; } },
+        result() { return this.count > 0 ? this.sum / this.count : null; }
+    }),
+    $push: () => ({
+        values: [],
+        add(value) { if (value !== undefined) this.values.push(value); },
+        result() { return this.values; }
+    }),
+    $addToSet: () => ({
+        values: new Map(),
+        add(value) { if (value !== undefined && !this.values.has(canonicalKey(value))) this.values.set(canonicalKey(value), value); },
+        result() { return Array.from(this.values.values()); }
+    })
+};
+
+const group = (documents, specification) => {
+    const { _id: idExpression, ...fields } = specification;
+    const groups = new Map();
+    documents.forEach(document => {
+        const id = evaluate(idExpression, document) ?? null;
+        const key = canonicalKey(id);
+        if (!groups.has(key)) {
+            groups.set(key, {
+                _id: id,
+                fields: Object.entries(fields).map(([name, accumulator]) => {
+                    const [operator] = Object.keys(accumulator);
+                    return { name, expression: accumulator[operator], state: (accumulators[operator] || unsupported("accumulator", operator))() };
+                })
+            });
+        }
+        groups.get(key).fields.forEach(field => field.state.add(evaluate(field.expression, document)));
+    });
+    return Array.from(groups.values()).map(({ _id, fields: states }) =>
+        Object.fromEntries([["_id", _id], ...states.map(field => [field.name, field.state.result()])]));
+};
+
+const stages = {
+    $match: (documents, filter) => documents.filter(document => matches(document, filter)),
+    $addFields: (documents, fields) => documents.map(document => {
+        const result = { ...document };
+        Object.entries(fields).forEach(([path, expression]) => setPath(result, path, evaluate(expression, document)));
+        return result;
+    }),
+    $project: (documents, projection) => documents.map(document => project(document, projection)),
+    $group: group,
+    $sort: (documents, specification) => sortDocuments([...documents], specification),
+    $limit: (documents, limit) => documents.slice(0, limit),
+    $skip: (documents, skip) => documents.slice(skip),
+    $facet: (documents, facets) => [Object.fromEntries(Object.entries(facets).map(([name, pipeline]) =>
+        [name, aggregate(documents, pipeline)]))]
+};
+
+/**
+ * Runs an aggregation pipeline
+ * @param documents - Input documents, not changed
+ * @param pipeline - Array of stages
+ * @returns Output documents
+ */
+export function aggregate(documents, pipeline) {
+    return pipeline.reduce((current, stage) => {
+        const [name] = Object.keys(stage);
+        return (stages[name] || unsupported("aggregation stage", name))(current, stage[name]);
+    }, documents);
+}
@@ -0,0 +1,326 @@
+import { ObjectId } from "mongodb";
+import { aggregate, canonicalKey, clone, getPath, matches, project, setPath, sortDocuments } from "./document-query.mjs";
+
+/**
+ * Error of a write violating a unique index, carries the MongoDB duplicate key code the routes check for
+ */
+class DuplicateKeyError extends Error {
+    constructor(collection, index) {
+        super(`E11000 duplicate key error collection: ${collection} index: ${index}`);
+        this.code = 11000;
+    }
+}
+
+/**
+ * Result of find, sorted, limited and projected when it is read
+ */
+class DocumentCursor {
+    constructor(documents) {
+        this.documents = documents;
+        this.sortSpecification = null;
+        this.limitCount = 0;
+        this.projection = null;
+    }
+
+    sort(specification) {
+        this.sortSpecification = specification;
+        return this;
+    }
+
+    limit(count) {
+        this.limitCount = count;
+        return this;
+    }
+
+    project(projection) {
+        this.projection = projection;
+        return this;
+    }
+
+    // Documents are sorted in memory anyway
+    allowDiskUse() {
+        return this;
+    }
+
+    async toArray() {
+        let documents = this.sortSpecification ? sortDocuments([...this.documents], this.sortSpecification) : this.documents;
+        if (this.limitCount > 0) documents = documents.slice(0, this.limitCount);
+        return documents.map(document => clone(this.projection ? project(document, this.projection) : document));
+    }
+
+    async *[Symbol.asyncIterator]() {
+        yield* await this.toArray();
+    }
+}
+
+const indexName = (keys) => Object.entries(keys).map(([path, direction]) => `${path}_${direction}`).join("_");
+
+/**
+ * Collection of the document store, implements the part of the MongoDB collection API the server uses
+ * Documents are held in memory, every change is passed to the persistence of the store
+ */
+class DocumentCollection {
+    constructor(name, documents, persistence) {
+        this.name = name;
+        this.documents = documents;
+        this.persistence = persistence;
+        this.uniqueIndexes = [];
+    }
+
+    filter(filter) {
+        return this.documents.filter(document => matches(document, filter));
+    }
+
+    find(filter = {}) {
+        return new DocumentCursor(this.filter(filter));
+    }
+
+    async findOne(filter = {}, { projection } = {}) {
+        const document = this.documents.find(candidate => matches(candidate, filter));
+        return document ? clone(projection ? project(document, projection) : document) : null;
+    }
+
+    async countDocuments(filter = {}, { limit } = {}) {
+        const count = this.filter(filter).length;
+        return limit ? Math.min(count, limit) : count;
+    }
+
+    async distinct(path, filter = {}) {
+        const values = new Map();
+        this.filter(filter).forEach(document => {
+            const value = getPath(document, path);
+            (Array.isArray(value) ? value : [value]).filter(item => item !== undefined)
+                .forEach(item => values.set(canonicalKey(item), item));
+        });
+        return Array.from(values.values());
+    }
+
+    aggregate(pipeline) {
+        return new DocumentCursor(aggregate(this.documents, pipeline));
+    }
+
+    /**
+     * Rejects documents whose unique keys are taken by another document or repeated among them
+     * @param candidates - New or changed documents
+     * @param replaced - Stored documents the candidates replace
+     * @throws DuplicateKeyError
+     */
+    checkUnique(candidates, replaced = []) {
+        this.uniqueIndexes.forEach(index => {
+            const paths = Object.keys(index.key);
+            const keyOf = (document) => canonicalKey(paths.map(path => getPath(document, path) ?? null));
+            const excluded = new Set(replaced);
+            const taken = new Set(this.documents.filter(document => !excluded.has(document)).map(keyOf));
+            candidates.forEach(document => {
+                const key = keyOf(document);
+                if (taken.has(key)) throw new DuplicateKeyError(this.name, index.name);
+                taken.add(key);
+            });
+        });
+    }
+
+    async insertOne(document) {
+        const { insertedIds } = await this.insertMany([document]);
+        return { acknowledged: true, insertedId: insertedIds[0] };
+    }
+
+    // All documents are inserted or none, unlike ordered inserts of MongoDB that stop at the first error
+    async insertMany(documents) {
+        documents.forEach(document => {
+            if (document._id === undefined) document._id = new ObjectId();
+        });
+        const stored = documents.map(clone);
+        this.checkUnique(stored);
+        stored.forEach(document => this.documents.push(document));
+        this.persistence.write(this.name, stored);
+        return {
+            acknowledged: true,
+            insertedCount: stored.length,
+            insertedIds: Object.fromEntries(documents.map((document, index) => [index, document._id]))
+        };
+    }
+
+    async deleteOne(filter) {
+        const document = this.documents.find(candidate => matches(candidate, filter));
+        return this.remove(document ? [document] : []);
+    }
+
+    async deleteMany(filter = {}) {
+        return this.remove(this.filter(filter));
+    }
+
+    remove(documents) {
+        const removed = new Set(documents);
+        this.documents = this.documents.filter(document => !removed.has(document));
+        this.persistence.remove(this.name, documents);
+        return { acknowledged: true, deletedCount: documents.length };
+    }
+
+    async replaceOne(filter, replacement, { upsert = false } = {}) {
+        const document = this.documents.find(candidate => matches(candidate, filter));
+        if (!document) {
+            if (!upsert) return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 0 };
+            const { insertedId } = await this.insertOne({ ...replacement });
+            return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 1, upsertedId: insertedId };
+        }
+
+        const updated = { ...clone(replacement), _id: document._id };
+        this.checkUnique([updated], [document]);
+        this.replace(document, updated);
+        return { acknowledged: true, matchedCount: 1, modifiedCount: 1, upsertedCount: 0 };
+    }
+
+    replace(document, updated) {
+        this.documents[this.documents.indexOf(document)] = updated;
+        this.persistence.write(this.name, [updated]);
+    }
+
+    /**
+     * Applies $set, $setOnInsert, $max and $inc to a copy of a document
+     * @param document - Current document, the fields of the filter for an upsert
+     * @param update - MongoDB update document
+     * @param inserting - Whether $setOnInsert applies
+     * @returns Updated copy
+     */
+    applyUpdate(document, update, inserting) {
+        const updated = clone(document);
+        Object.entries(update).forEach(([operator, fields]) => {
+            Object.entries(fields).forEach(([path, value]) => {
+                const current = getPath(updated, path);
+                switch (operator) {
+                    case "$set":
+                        setPath(updated, path, clone(value));
+                        break;
+                    case "$setOnInsert":
+                        if (inserting) setPath(updated, path, clone(value));
+                        break;
+                    case "$max":
+                        if (current === undefined || current === null || value > current) setPath(updated, path, value);
+                        break;
+                    case "$inc":
+                        setPath(updated, path, (current || 0) + value);
+                        break;
+                    default:
+                        throw new Error(`Unsupported update operator in the document store: ${operator}`);
+                }
+            });
+        });
+        return updated;
+    }
+
+    async updateOne(filter, update, { upsert = false } = {}) {
+        const document = this.documents.find(candidate => matches(candidate, filter));
+        if (document) {
+            const updated = this.applyUpdate(document, update, false);
+            this.checkUnique([updated], [document]);
+            this.replace(document, updated);
+            return { acknowledged: true, matchedCount: 1, modifiedCount: 1, upsertedCount: 0 };
+        }
+        if (!upsert) {
+            return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 0 };
+        }
+
+        // Like MongoDB, an upsert starts with the equality conditions of the filter
+        const base = Object.fromEntries(Object.entries(filter).filter(([key, value]) =>
+            !key.startsWith("$") && (value === null || typeof value !== "object" || value instanceof ObjectId)));
+        const { insertedId } = await this.insertOne(this.applyUpdate(base, update, true));
+        return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 1, upsertedId: insertedId };
+    }
+
+    async updateMany(filter, update) {
+        const documents = this.filter(filter);
+        const updated = documents.map(document => this.applyUpdate(document, update, false));
+        this.checkUnique(updated, documents);
+        documents.forEach((document, index) => {
+            this.documents[this.documents.indexOf(document)] = updated[index];
+        });
+        this.persistence.write(this.name, updated);
+        return { acknowledged: true, matchedCount: documents.length, modifiedCount: documents.length, upsertedCount: 0 };
+    }
+
+    async findOneAndUpdate(filter, update, { upsert = false, returnDocument = "before" } = {}) {
+        const before = await this.findOne(filter);
+        await this.updateOne(filter, update, { upsert });
+        if (returnDocument !== "after") return before;
+        return before ? this.findOne({ _id: before._id }) : upsert ? this.findOne(filter) : null;
+    }
+
+    async bulkWrite(operations) {
+        let upsertedCount = 0;
+        let modifiedCount = 0;
+        for (const operation of operations) {
+            const [type] = Object.keys(operation);
+            const { filter, update, replacement, upsert } = operation[type];
+            let result;
+            if (type === "updateOne") {
+                result = await this.updateOne(filter, update, { upsert });
+            } else if (type === "replaceOne") {
+                result = await this.replaceOne(filter, replacement, { upsert });
+            } else {
+                throw new Error(`Unsupported bulk operation in the document store: ${type}`);
+            }
+            upsertedCount += result.upsertedCount;
+            modifiedCount += result.modifiedCount;
+        }
+        return { acknowledged: true, upsertedCount, modifiedCount };
+    }
+
+    // Only unique indexes have an effect, lookups scan the documents
+    async createIndex(key, { unique = false } = {}) {
+        const name = indexName(key);
+        if (unique && !this.uniqueIndexes.some(index => index.name === name)) {
+            const index = { name, key };
+            this.uniqueIndexes.push(index);
+            try {
+                this.checkUnique(this.documents, this.documents);
+            } catch (error) {
+                this.uniqueIndexes = this.uniqueIndexes.filter(other => other !== index);
+                throw error;
+            }
+        }
+        return name;
+    }
+
+    async indexes() {
+        return [{ name: "_id_", key: { _id: 1 } }, ...this.uniqueIndexes.map(index => ({ ...index, unique: true }))];
+    }
+
+    async dropIndex(name) {
+        this.uniqueIndexes = this.uniqueIndexes.filter(index => index.name !== name);
+    }
+
+    async dropIndexes() {
+        this.uniqueIndexes = [];
+    }
+}
+
+/**
+ * Persistence that keeps nothing, the documents are lost when the server stops
+ */
+const memoryPersistence = {
+    load: () => [],
+    write: () => {},
+    remove: () => {}
+};
+
+/**
+ * Database of the document store, a stand-in for the MongoDB database of the driver
+ * Collections are loaded from the persistence on first use and held in memory
+ */
+export class DocumentDatabase {
+    /**
+     * @param persistence - Object with load(collection), write(collection, documents) and remove(collection, documents),
+     * in-memory if omitted
+     */
+    constructor(persistence = memoryPersistence) {
+        this.persistence = persistence;
+        this.collections = new Map();
+    }
+
+    collection(name) {
+        if (!this.collections.has(name)) {
+            this.collections.set(name, new DocumentCollection(name, this.persistence.load(name), this.persistence));
+        }
+        return this.collections.get(name);
+    }
+}
@@ -0,0 +1,101 @@
+import { randomUUID } from "crypto";
+
+/*
+ * Generation jobs of the data generator
+ * The requests are validated against the OpenAPI schemas by the routes, the repository trusts its input.
+ */
+
+export const JOB_STATUSES = ["running", "completed", "failed"];
+
+/**
+ * Removes the database id of a job document
+ * @param job - Stored job
+ * @returns Job as returned by the API
+ */
+const publicJob = (job) => {
+    const { _id, ...rest } = job;
+    return rest;
+};
+
+/**
+ * Creates a generation job
+ * The settings reproduce the generated learners and statements, so an interrupted upload can be resumed
+ * @param db - Database of the storage backend
+ * @param job - Object with the courseId and the generator settings
+ * @returns Stored job
+ */
+export async function createGenerationJob(db, { courseId, settings }) {
+    const collection = await db.collection("generation_jobs");
+    await collection.createIndex({ id: 1 }, { unique: true });
+
+    const now = new Date().toISOString();
+    const job = {
+        id: randomUUID(),
+        courseId,
+        status: "running",
+        settings,
+        learnersStored: false,
+        uploaded: 0,
+        createdAt: now,
+        updatedAt: now
+    };
+    await collection.insertOne(job);
+
+    return publicJob(job);
+}
+
+/**
+ * Looks up a generation job
+ * @param db - Database of the storage backend
+ * @param id - Job id
+ * @returns Job or null
+ */
+export async function findGenerationJob(db, id) {
+    const collection = await db.collection("generation_jobs");
+    const job = await collection.findOne({ id });
+    return job && publicJob(job);
+}
+
+/**
+ * Lists generation jobs, most recent first
+ * @param db - Database of the storage backend
+ * @param filter - Optional courseId and status
+ * @returns Jobs without their settings
+ */
+export async function listGenerationJobs(db, { courseId, status } = {}) {
+    const collection = await db.collection("generation_jobs");
+    return collection.find({
+        ...(courseId && { courseId }),
+        ...(status && { status })
+    })
+        .project({ _id: 0, settings: 0 })
+        .sort({ createdAt: -1 })
+        .toArray();
+}
+
+/**
+ * Records the progress of a generation job
+ * The uploaded count only grows, so a late report of an earlier batch does not move it back
+ * @param db - Database of the storage backend
+ * @param id - Job id
+ * @param update - Optional uploaded count, learnersStored flag, status and error message
+ * @returns Updated job or null if it does not exist
+ */
+export async function updateGenerationJob(db, id, { uploaded, learnersStored, status, error }) {
+    const collection = await db.collection("generation_jobs");
+    const job = await collection.findOneAndUpdate(
+        { id },
+        {
+            $set: {
+                ...(learnersStored !== undefined && { learnersStored }),
+                ...(status !== undefined && { status }),
+                ...(error !== undefined && { error }),
+                updatedAt: new Date().toISOString()
+            },
+            ...(uploaded !== undefined && { $max: { uploaded } })
+        },
+        { returnDocument: "after" }
+    );
+
+    return job && publicJob(job);
+}
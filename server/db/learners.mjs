@@ -0,0 +1,34 @@
+/**
+ * Stores learner profiles
+ * Without append the stored learners are replaced, those of the course if a course is given, otherwise all
+ * @param db - Database of the storage backend
+ * @param learners - Learner profiles, stamped with the course id
+ * @param options - Optional courseId and append flag
+ * @returns Ids of the stored documents by position
+ */
+export async function storeLearners(db, learners, { courseId, append = false } = {}) {
+    const collection = await db.collection("learner_profiles");
+    if (courseId && !append) {
+        await collection.deleteMany({ courseId });
+    } else if (!append) {
+        await collection.dropIndexes();
+        await collection.deleteMany({});
+    }
+
+    const result = await collection.insertMany(learners.map(learner => ({ ...learner, ...(courseId && { courseId }) })));
+    return result.insertedIds;
+}
+
+/**
+ * Lists learner profiles
+ * @param db - Database of the storage backend
+ * @param filter - Optional courseId and email
+ * @returns Learner profiles
+ */
+export async function findLearners(db, { courseId, email } = {}) {
+    const collection = await db.collection("learner_profiles");
+    return collection.find({
+        ...(courseId && { courseId }),
+        ...(email && { email })
+    }).toArray();
+}
@@ -0,0 +1,43 @@
+const LEGACY_LOM_INDEX = "general.identifier.entry_1";
+
+/**
+ * Replaces the LOM metadata of a course
+ * Documents are stamped with the course id, LOM identifiers are unique per course
+ * @param db - Database of the storage backend
+ * @param lomData - Array of LOM data documents
+ * @param courseId - Course the documents belong to, null for documents without course
+ * @returns Number of stored documents
+ */
+export async function replaceLomData(db, lomData, courseId = null) {
+    const collection = await db.collection("lom_data");
+
+    // LOM identifiers used to be unique across all courses
+    const indexes = await collection.indexes().catch(() => []);
+    if (indexes.some(index => index.name === LEGACY_LOM_INDEX)) {
+        await collection.dropIndex(LEGACY_LOM_INDEX);
+    }
+
+    await collection.createIndex(
+        { courseId: 1, 'general.identifier.entry': 1 },
+        { unique: true }
+    );
+
+    await collection.deleteMany({ courseId });
+    if (lomData.length === 0) {
+        return 0;
+    }
+
+    const result = await collection.insertMany(lomData.map(lom => ({ ...lom, courseId })));
+    return result.insertedCount;
+}
+
+/**
+ * Lists LOM metadata
+ * @param db - Database of the storage backend
+ * @param courseId - Optional course, all documents without
+ * @returns LOM data documents
+ */
+export async function findLomData(db, courseId) {
+    const collection = await db.collection("lom_data");
+    return collection.find(courseId ? { courseId } : {}).toArray();
+}
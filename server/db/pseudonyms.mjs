@@ -0,0 +1,61 @@
+/**
+ * Stores the pseudonyms of identities for re-identification by admins
+ * @param db - Database of the storage backend
+ * @param pseudonymizer - Configured pseudonymizer
+ * @param identities - Original identities
+ */
+export async function recordPseudonyms(db, pseudonymizer, identities) {
+    if (pseudonymizer.mode === "off" || identities.length === 0) {
+        return;
+    }
+
+    const collection = await db.collection("pseudonyms");
+    await collection.createIndex({ pseudonym: 1 }, { unique: true });
+
+    const unique = Array.from(new Set(identities));
+    await collection.bulkWrite(unique.map(identity => ({
+        updateOne: {
+            filter: { pseudonym: pseudonymizer.pseudonym(identity) },
+            update: { $setOnInsert: { identity, createdAt: new Date().toISOString() } },
+            upsert: true
+        }
+    })), { ordered: false });
+}
+
+/**
+ * Lists pseudonyms with their original identities
+ * @param db - Database of the storage backend
+ * @param pseudonymizer - Configured pseudonymizer
+ * @param pseudonym - Optional pseudonym to look up
+ * @returns Array of { pseudonym, identity }
+ */
+export async function listPseudonyms(db, pseudonymizer, pseudonym) {
+    if (pseudonymizer.mode === "off") {
+        return [];
+    }
+
+    const collection = await db.collection("pseudonyms");
+    return collection.find(pseudonym ? { pseudonym } : {})
+        .project({ _id: 0, pseudonym: 1, identity: 1 })
+        .sort({ pseudonym: 1 })
+        .toArray();
+}
+
+/**
+ * Maps a pseudonym shown by the API back to the identity stored in the database
+ * Only needed in display mode, otherwise identities are stored as they are shown. Pseudonyms are recorded when
+ * their identities are stored.
+ * @param db - Database of the storage backend
+ * @param pseudonymizer - Configured pseudonymizer
+ * @param identity - Identity as sent by the client
+ * @returns Stored identity, null if the identity is no recorded pseudonym
+ */
+export async function resolveIdentity(db, pseudonymizer, identity) {
+    if (pseudonymizer.mode !== "display" || !identity) {
+        return identity;
+    }
+
+    const collection = await db.collection("pseudonyms");
+    const mapping = await collection.findOne({ pseudonym: identity });
+    return mapping ? mapping.identity : null;
+}
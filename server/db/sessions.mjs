@@ -0,0 +1,202 @@
+import { randomUUID } from "crypto";
+import { SESSION_SOURCES, reconstructLearnerSessions } from "../xapi/sessions.mjs";
+import { streamLearnerStatements } from "./statements.mjs";
+
+// Sessions per bulk write of a reconstruction
+const RECONSTRUCTION_BATCH_SIZE = 1000;
+
+/**
+ * Validation error of a session request, reported to the client with status 400
+ */
+export class SessionInputError extends Error {
+    constructor(message) {
+        super(message);
+        this.name = "SessionInputError";
+    }
+}
+
+/**
+ * Checks the shape of a session sent by the client
+ * @param session - Session with learner, start and end time, duration and activities
+ * @param index - Position in the request for error messages
+ * @throws SessionInputError if a field is missing or invalid
+ */
+const validateSession = (session, index) => {
+    const isTime = (value) => typeof value === "string" && !isNaN(Date.parse(value));
+
+    if (!session || typeof session !== "object") {
+        throw new SessionInputError(`Invalid input: session ${index} is no object`);
+    }
+    if (typeof session.learner !== "string" || !session.learner) {
+        throw new SessionInputError(`Invalid input: session ${index} has no learner`);
+    }
+    if (!isTime(session.startTime) || !isTime(session.endTime)) {
+        throw new SessionInputError(`Invalid input: session ${index} needs startTime and endTime as ISO timestamps`);
+    }
+    if (typeof session.totalDuration !== "number" || session.totalDuration < 0) {
+        throw new SessionInputError(`Invalid input: session ${index} needs a non-negative totalDuration in minutes`);
+    }
+    if (!Array.isArray(session.activities) || session.activities.some(activity =>
+        !activity || typeof activity.activityId !== "string" || !isTime(activity.startTime) || !isTime(activity.endTime))) {
+        throw new SessionInputError(`Invalid input: session ${index} needs activities with activityId, startTime and endTime`);
+    }
+};
+
+/**
+ * Stores sessions of a course, a session resent with the same learner and start time replaces the stored one
+ * @param db - Database of the storage backend
+ * @param courseId - Course of the sessions
+ * @param sessions - Sessions with the learner as identified in the statements, see agentKey
+ * @param source - generated or reconstructed
+ * @returns Number of sessions stored for the first time
+ * @throws SessionInputError if a session is invalid
+ */
+export async function storeSessions(db, courseId, sessions, source) {
+    if (typeof courseId !== "string" || !courseId) {
+        throw new SessionInputError('Invalid input: expected a courseId');
+    }
+    if (!SESSION_SOURCES.includes(source)) {
+        throw new SessionInputError(`Invalid input: source must be one of ${SESSION_SOURCES.join(", ")}`);
+    }
+    sessions.forEach(validateSession);
+    if (sessions.length === 0) {
+        return 0;
+    }
+
+    const collection = await db.collection("learning_sessions");
+    await collection.createIndex({ courseId: 1, learner: 1, startTime: 1, source: 1 }, { unique: true });
+
+    const result = await collection.bulkWrite(sessions.map(session => ({
+        updateOne: {
+            filter: { courseId, learner: session.learner, startTime: session.startTime, source },
+            update: {
+                $set: {
+                    endTime: session.endTime,
+                    totalDuration: session.totalDuration,
+                    activities: session.activities.map(activity => ({
+                        activityId: activity.activityId,
+                        title: activity.title || activity.activityId,
+                        startTime: activity.startTime,
+                        endTime: activity.endTime,
+                        duration: activity.duration ?? 0,
+                        completed: activity.completed === true,
+                        statements: activity.statements ?? 0
+                    }))
+                },
+                $setOnInsert: { id: randomUUID() }
+            },
+            upsert: true
+        }
+    })), { ordered: false });
+
+    return result.upsertedCount;
+}
+
+/**
+ * Parses a time bound of a session query
+ * @param value - Timestamp or date of the query
+ * @param name - Parameter name for error messages
+ * @returns ISO timestamp comparable with the stored start times, undefined without value
+ * @throws SessionInputError if the value is no valid timestamp
+ */
+const parseTimeBound = (value, name) => {
+    if (!value) return undefined;
+    const time = new Date(value);
+    if (isNaN(time.getTime())) {
+        throw new SessionInputError(`Invalid ${name} parameter: ${value}`);
+    }
+    return time.toISOString();
+};
+
+/**
+ * Lists sessions ordered by learner and start time
+ * @param db - Database of the storage backend
+ * @param filter - Optional courseId, learner mbox, source and from/to bounds of the start time
+ * @returns Sessions
+ * @throws SessionInputError if a time bound is invalid
+ */
+export async function findSessions(db, { courseId, learner, source, from, to } = {}) {
+    from = parseTimeBound(from, "from");
+    to = parseTimeBound(to, "to");
+
+    const collection = await db.collection("learning_sessions");
+    return collection.find({
+        ...(courseId && { courseId }),
+        ...(learner && { learner }),
+        ...(source && { source }),
+        ...((from || to) && {
+            startTime: {
+                ...(from && { $gte: from }),
+                ...(to && { $lt: to })
+            }
+        })
+    })
+        .project({ _id: 0 })
+        .sort({ learner: 1, startTime: 1 })
+        .toArray();
+}
+
+/**
+ * Removes the sessions of a course
+ * @param db - Database of the storage backend
+ * @param courseId - Course, all sessions are removed without
+ * @param source - Optional source of the removed sessions
+ * @returns Number of removed sessions
+ */
+export async function deleteSessions(db, courseId, source) {
+    const collection = await db.collection("learning_sessions");
+    const result = await collection.deleteMany({
+        ...(courseId && { courseId }),
+        ...(source && { source })
+    });
+    return result.deletedCount;
+}
+
+/**
+ * Reconstructs the sessions of a course from its statements and replaces the reconstructed sessions stored before
+ * Learners with generated sessions are skipped, their sessions are known
+ * @param db - Database of the storage backend
+ * @param courseId - Course to reconstruct
+ * @returns Number of learners and reconstructed sessions
+ */
+export async function reconstructSessions(db, courseId) {
+    const sessions = await db.collection("learning_sessions");
+
+    await deleteSessions(db, courseId, "reconstructed");
+    const generated = new Set(await sessions.distinct("learner", { courseId, source: "generated" }));
+    const cursor = await streamLearnerStatements(db, courseId);
+
+    let learners = 0;
+    let stored = 0;
+    let pending = [];
+    let learner = null;
+    let learnerStatements = [];
+
+    const flush = async () => {
+        if (pending.length > 0) {
+            stored += await storeSessions(db, courseId, pending, "reconstructed");
+            pending = [];
+        }
+    };
+
+    const finishLearner = async () => {
+        if (learner && !generated.has(learner)) {
+            learners++;
+            pending.push(...reconstructLearnerSessions(learnerStatements).map(session => ({ ...session, learner })));
+            if (pending.length >= RECONSTRUCTION_BATCH_SIZE) await flush();
+        }
+        learnerStatements = [];
+    };
+
+    for await (const statement of cursor) {
+        if (statement.learner !== learner) {
+            await finishLearner();
+            learner = statement.learner;
+        }
+        learnerStatements.push(statement);
+    }
+    await finishLearner();
+    await flush();
+
+    return { learners, sessions: stored };
+}
@@ -0,0 +1,48 @@
+import { BSON } from "mongodb";
+import { DocumentDatabase } from "./document-store.mjs";
+
+const { EJSON } = BSON;
+
+/**
+ * Opens a document store kept in a SQLite file
+ * Every document is a row of JSON keyed by collection and object id. The collections are read
+ * into memory on first use and every change is written through, so the file is always current.
+ * better-sqlite3 is only loaded for this backend and needs to be installed for it.
+ * @param path - Path of the database file, created if it does not exist
+ * @returns Database with the collection API of the MongoDB driver
+ */
+export async function openSqliteDatabase(path) {
+    const { default: Database } = await import("better-sqlite3");
+    const sqlite = new Database(path);
+    sqlite.pragma("journal_mode = WAL");
+    sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS documents (
+            collection TEXT NOT NULL,
+            id TEXT NOT NULL,
+            document TEXT NOT NULL,
+            PRIMARY KEY (collection, id)
+        )
+    `);
+
+    const select = sqlite.prepare("SELECT document FROM documents WHERE collection = ? ORDER BY rowid");
+    const upsert = sqlite.prepare(`
+        INSERT INTO documents (collection, id, document) VALUES (?, ?, ?)
+        ON CONFLICT (collection, id) DO UPDATE SET document = excluded.document
+    `);
+    const remove = sqlite.prepare("DELETE FROM documents WHERE collection = ? AND id = ?");
+
+    // A batch of documents is written in one transaction
+    const write = sqlite.transaction((collection, documents) => {
+        documents.forEach(document => upsert.run(collection, document._id.toString(), EJSON.stringify(document, { relaxed: true })));
+    });
+    const removeAll = sqlite.transaction((collection, documents) => {
+        documents.forEach(document => remove.run(collection, document._id.toString()));
+    });
+
+    console.log(`Using SQLite database ${path}`);
+    return new DocumentDatabase({
+        load: (collection) => select.all(collection).map(row => EJSON.parse(row.document, { relaxed: true })),
+        write,
+        remove: removeAll
+    });
+}
@@ -0,0 +1,189 @@
+import { ObjectId } from "mongodb";
+import { VOIDED_VERB, courseCondition, agentKeyExpression, isVoidingStatement } from "../xapi/statements.mjs";
+import { baseMatch } from "../xapi/analytics.mjs";
+import { publishStatements } from "../xapi/statement-events.mjs";
+
+/*
+ * Repository of the xAPI statements
+ * Voided statements stay stored but are left out of every query except the single statement lookup. They carry
+ * voided: true, set when their voiding statement is stored. The flag is no part of the statements returned.
+ */
+
+const statementCollection = (db) => db.collection("xapi_statements");
+
+// Condition of every query leaving out voided statements
+const NOT_VOIDED = { voided: { $ne: true } };
+
+// Projection leaving out the voided flag
+const WITHOUT_FLAG = { projection: { voided: 0 } };
+
+/**
+ * Creates the indexes of the statements, called once when the database is opened
+ * Statements voided before the voided flag was stored are flagged as well.
+ * @param db - Database of the storage backend
+ */
+export async function prepareStatements(db) {
+    const collection = statementCollection(db);
+    await collection.createIndex({ id: 1 }, { unique: true });
+    await collection.createIndex({ voided: 1 });
+    await collection.createIndex({ 'object.id': 1 });
+
+    const voidedIds = await collection.distinct('object.id', { 'verb.id': VOIDED_VERB, ...NOT_VOIDED });
+    if (voidedIds.length > 0) {
+        await collection.updateMany({ id: { $in: voidedIds }, ...NOT_VOIDED }, { $set: { voided: true } });
+    }
+}
+
+/**
+ * Looks up a statement by its statement id, voided or not
+ * @param db - Database of the storage backend
+ * @param id - Statement id
+ * @returns Statement with the voided flag or null
+ */
+export async function findStatement(db, id) {
+    const document = await statementCollection(db).findOne({ id });
+    if (!document) {
+        return null;
+    }
+    const { voided = false, ...statement } = document;
+    return { statement, voided };
+}
+
+/**
+ * Looks up a statement by its database id or its statement id
+ * @param db - Database of the storage backend
+ * @param key - 24 digit hex database id or statement id
+ * @returns Statement or null
+ */
+export async function findStatementByKey(db, key) {
+    const query = /^[0-9a-f]{24}$/i.test(key) ? { _id: new ObjectId(key) } : { id: key };
+    return statementCollection(db).findOne(query, WITHOUT_FLAG);
+}
+
+/**
+ * Looks up the stored statements with the given ids
+ * @param db - Database of the storage backend
+ * @param ids - Statement ids
+ * @returns Stored statements
+ */
+export async function findStatementsByIds(db, ids) {
+    return statementCollection(db).find({ id: { $in: ids } }).project(WITHOUT_FLAG.projection).toArray();
+}
+
+/**
+ * Builds the filter of a statement query without voided statements
+ */
+const queryFilter = (conditions) => ({ $and: [...conditions, NOT_VOIDED] });
+
+/**
+ * Queries statements in storage order, the order of the more links of the Statements resource
+ * @param db - Database of the storage backend
+ * @param conditions - Filter conditions of parseStatementQuery
+ * @param options - ascending order and limit
+ * @returns Statements, not voided
+ */
+export async function findStatements(db, conditions, { ascending = false, limit = 0 } = {}) {
+    return statementCollection(db).find(queryFilter(conditions))
+        .sort({ _id: ascending ? 1 : -1 })
+        .limit(limit)
+        .toArray();
+}
+
+/**
+ * Iterates over the statements of a query without holding them in memory
+ * @param db - Database of the storage backend
+ * @param conditions - Filter conditions of parseStatementQuery
+ * @param options - ascending order
+ * @returns Async iterable cursor
+ */
+export async function streamStatements(db, conditions, { ascending = false } = {}) {
+    return statementCollection(db).find(queryFilter(conditions))
+        .sort({ _id: ascending ? 1 : -1 });
+}
+
+/**
+ * Iterates over the statements of a course ordered by learner and timestamp, for reconstructing sessions
+ * Only the fields describing the learning activity are read, the learner is the key of the actor (see agentKey)
+ * @param db - Database of the storage backend
+ * @param courseId - Course of the statements
+ * @returns Async iterable cursor, the statements of one learner follow each other
+ */
+export async function streamLearnerStatements(db, courseId) {
+    return statementCollection(db).aggregate([
+        {
+            $match: {
+                ...courseCondition(courseId),
+                ...NOT_VOIDED,
+                'verb.id': { $ne: VOIDED_VERB }
+            }
+        },
+        { $addFields: { learner: agentKeyExpression("actor") } },
+        { $match: { learner: { $ne: null } } },
+        { $project: { _id: 0, learner: 1, actor: 1, verb: 1, object: 1, context: 1, result: 1, timestamp: 1 } },
+        { $sort: { learner: 1, timestamp: 1 } }
+    ], { allowDiskUse: true });
+}
+
+/**
+ * Lists the most recent statements by timestamp, voiding statements are left out as well
+ * @param db - Database of the storage backend
+ * @param limit - Number of statements
+ * @returns Statements, newest first
+ */
+export async function findLatestStatements(db, limit) {
+    return statementCollection(db)
+        .find({ ...NOT_VOIDED, 'verb.id': { $ne: VOIDED_VERB } })
+        .sort({ timestamp: -1 })
+        .limit(limit)
+        .toArray();
+}
+
+/**
+ * Stores new statements, statement ids are unique
+ * The statements voided by the voiding statements are flagged, statements whose voiding statement was stored
+ * before them are stored flagged. The stored statements are published to the open statement streams.
+ * @param db - Database of the storage backend
+ * @param statements - Statements that are not stored yet
+ * @throws Error with code 11000 if a statement id is taken
+ */
+export async function insertStatements(db, statements) {
+    const collection = statementCollection(db);
+    const targetIds = statements.filter(isVoidingStatement).map(statement => statement.object.id);
+    const voidedIds = new Set([
+        ...targetIds,
+        ...await collection.distinct('object.id', {
+            'verb.id': VOIDED_VERB,
+            'object.id': { $in: statements.map(statement => statement.id) }
+        })
+    ]);
+
+    await collection.insertMany(statements.map(statement =>
+        voidedIds.has(statement.id) ? { ...statement, voided: true } : statement));
+    if (targetIds.length > 0) {
+        await collection.updateMany({ id: { $in: targetIds } }, { $set: { voided: true } });
+    }
+    publishStatements(statements);
+}
+
+/**
+ * Removes the statements of a course or all statements
+ * @param db - Database of the storage backend
+ * @param courseId - Optional course
+ * @returns Number of removed statements
+ */
+export async function deleteStatements(db, courseId) {
+    const result = await statementCollection(db).deleteMany(courseId ? courseCondition(courseId) : {});
+    return result.deletedCount;
+}
+
+/**
+ * Runs an analytics pipeline on the statements, voided statements are excluded
+ * @param db - Database of the storage backend
+ * @param filter - Optional courseId and from/to timestamps the statements are restricted to
+ * @param buildPipeline - Function building the pipeline from the base $match stage
+ * @returns Aggregation results
+ */
+export async function aggregateStatements(db, filter, buildPipeline) {
+    const match = baseMatch(filter);
+    return statementCollection(db).aggregate(buildPipeline(match), { allowDiskUse: true }).toArray();
+}
@@ -0,0 +1,89 @@
+import { ROLES, hashPassword } from "../auth/credentials.mjs";
+
+/**
+ * Validation error of user input, reported to the client with status 400
+ */
+export class UserInputError extends Error {
+    constructor(message) {
+        super(message);
+        this.name = "UserInputError";
+    }
+}
+
+/**
+ * Removes the password hash and database id of a user document
+ * @param user - Stored user
+ * @returns User as returned by the API
+ */
+export function publicUser(user) {
+    const { _id, passwordHash, ...rest } = user;
+    return rest;
+}
+
+/**
+ * Looks up a user by name
+ * @param db - Database of the storage backend
+ * @param username - Login name
+ * @returns Stored user or null
+ */
+export async function findUser(db, username) {
+    const collection = await db.collection("users");
+    return collection.findOne({ username });
+}
+
+/**
+ * Creates or replaces a user, the password is stored as scrypt hash
+ * Learners are linked to their statements and learner profile by email
+ * @param db - Database of the storage backend
+ * @param user - Object with username, password, role and optional email
+ * @returns Stored user without password hash
+ * @throws UserInputError if a field is missing or invalid
+ */
+export async function saveUser(db, { username, password, role, email }) {
+    if (typeof username !== "string" || !username.trim()) {
+        throw new UserInputError('Invalid input: expected a username');
+    }
+    if (typeof password !== "string" || password.length < 8) {
+        throw new UserInputError('Invalid input: expected a password with at least 8 characters');
+    }
+    if (!Object.values(ROLES).includes(role)) {
+        throw new UserInputError(`Invalid input: role must be one of ${Object.values(ROLES).join(", ")}`);
+    }
+    if (role === ROLES.learner && (typeof email !== "string" || !email)) {
+        throw new UserInputError('Invalid input: learners need the email of their learner profile');
+    }
+
+    const collection = await db.collection("users");
+    await collection.createIndex({ username: 1 }, { unique: true });
+
+    const user = {
+        username: username.trim(),
+        passwordHash: await hashPassword(password),
+        role,
+        ...(email && { email }),
+        createdAt: new Date().toISOString()
+    };
+    await collection.replaceOne({ username: user.username }, user, { upsert: true });
+
+    return publicUser(user);
+}
+
+/**
+ * Creates the admin account given by ADMIN_USERNAME and ADMIN_PASSWORD if it does not exist
+ * @param db - Database of the storage backend
+ */
+export async function ensureAdminUser(db) {
+    const username = process.env.ADMIN_USERNAME;
+    const password = process.env.ADMIN_PASSWORD;
+    if (!username || !password) {
+        console.warn("ADMIN_USERNAME or ADMIN_PASSWORD is not set, no admin account is created");
+        return;
+    }
+
+    if (await findUser(db, username)) {
+        return;
+    }
+
+    await saveUser(db, { username, password, role: ROLES.admin });
+    console.log(`Created admin account ${username}`);
+}
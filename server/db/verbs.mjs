@@ -0,0 +1,25 @@
+/**
+ * Replaces all verbs, verb ids are unique
+ * @param db - Database of the storage backend
+ * @param verbs - Verbs of the xAPI profile
+ * @returns Ids of the stored documents by position
+ */
+export async function replaceVerbs(db, verbs) {
+    const collection = await db.collection("verbs");
+    await collection.dropIndexes();
+    await collection.deleteMany({});
+    await collection.createIndex({ id: 1 }, { unique: true });
+
+    const result = await collection.insertMany(verbs);
+    return result.insertedIds;
+}
+
+/**
+ * Lists all verbs
+ * @param db - Database of the storage backend
+ * @returns Verbs
+ */
+export async function findVerbs(db) {
+    const collection = await db.collection("verbs");
+    return collection.find({}).toArray();
+}
@@ -2,21 +2,34 @@ import express from "express";
 import cors from "cors";
 import "./loadEnvironment.mjs";
 import "express-async-errors";
-import { connectToMongoDB } from "./db/conn.mjs";
+import { connectToDatabase } from "./db/conn.mjs";
+import { ensureAdminUser } from "./db/users.mjs";
+import { prepareStatements } from "./db/statements.mjs";
+import { getPseudonymizer } from "./xapi/pseudonyms.mjs";
 import router from "./routes/api.mjs";
+import { errorHandler } from "./middleware/errors.mjs";
 
 const PORT = process.env.PORT || 5050;
 const app = express();
 
 (async () => {
     try {
-        const db = await connectToMongoDB();
+        // Fail early on an invalid pseudonymization configuration
+        getPseudonymizer();
+
+        const db = await connectToDatabase();
+        await prepareStatements(db);
+        await ensureAdminUser(db);
         app.use(express.json({ limit: "10mb" })); 
-        app.use(cors());
+        // Browsers only let clients read the listed response headers
+        app.use(cors({ exposedHeaders: ["X-Profile-Warnings", "X-Experience-API-Consistent-Through"] }));
 
         // Load the /api routes
         app.use("/api", router(db));
 
+        // JSON errors for invalid bodies and errors the routes did not handle
+        app.use(errorHandler);
+
         // start the Express server
         app.listen(PORT, () => {
             console.log(`Server is running on port: ${PORT}`);
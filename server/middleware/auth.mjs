@@ -0,0 +1,76 @@
+import { ROLES, verifyPassword, verifyToken } from "../auth/credentials.mjs";
+import { findUser } from "../db/users.mjs";
+import { getPseudonymizer } from "../xapi/pseudonyms.mjs";
+
+const unauthorized = (res, message) => {
+    res.set("WWW-Authenticate", 'Basic realm="xAPI", Bearer');
+    return res.status(401).json({ message });
+};
+
+/**
+ * Resolves the user of a request from its Authorization header.
+ * Bearer tokens are issued by /auth/login, Basic credentials are accepted for
+ * xAPI clients posting statements. Requests without credentials pass through
+ * without user, invalid credentials are rejected with 401.
+ */
+export const authenticate = (db) => async (req, res, next) => {
+    const header = req.get("Authorization");
+    if (!header) {
+        return next();
+    }
+
+    const [scheme, value = ""] = header.split(" ");
+    let user = null;
+
+    if (/^bearer$/i.test(scheme)) {
+        const claims = verifyToken(value);
+        user = claims && await findUser(db, claims.sub);
+        if (!user || user.role !== claims.role) {
+            return unauthorized(res, 'Invalid or expired token');
+        }
+    } else if (/^basic$/i.test(scheme)) {
+        const decoded = Buffer.from(value, "base64").toString("utf8");
+        const separator = decoded.indexOf(":");
+        user = separator > 0 && await findUser(db, decoded.slice(0, separator));
+        if (!user || !await verifyPassword(decoded.slice(separator + 1), user.passwordHash)) {
+            return unauthorized(res, 'Invalid username or password');
+        }
+    } else {
+        return unauthorized(res, `Unsupported authorization scheme: ${scheme}`);
+    }
+
+    req.user = { username: user.username, role: user.role, email: user.email };
+    next();
+};
+
+/**
+ * Restricts a route to the given roles, admins are always allowed.
+ * Requests without user are rejected with 401, other roles with 403.
+ */
+export const requireRole = (...roles) => (req, res, next) => {
+    if (!req.user) {
+        return unauthorized(res, 'Authentication required');
+    }
+
+    if (req.user.role !== ROLES.admin && !roles.includes(req.user.role)) {
+        return res.status(403).json({
+            message: `Role ${req.user.role} may not access this resource`
+        });
+    }
+
+    next();
+};
+
+/**
+ * Email of the requesting learner as stored in statements and learner profiles,
+ * learners may only read their own data
+ * @param req - Authenticated request
+ * @returns Stored email of the learner or null for all other roles
+ */
+export const learnerEmail = (req) => req.user?.role === ROLES.learner
+    ? getPseudonymizer().stored(req.user.email)
+    : null;
+
+// Roles shared by several routes, statement writers only reach the routes storing statements
+export const ALL_ROLES = [ROLES.educator, ROLES.contentCreator, ROLES.learner];
+export const STAFF_ROLES = [ROLES.educator, ROLES.contentCreator];
@@ -0,0 +1,30 @@
+/**
+ * Answers requests to unknown API routes with the JSON error envelope instead of the HTML page of Express
+ */
+export const notFound = (req, res) => {
+    res.status(404).json({ message: `Unknown route: ${req.method} ${req.baseUrl}${req.path}` });
+};
+
+/**
+ * Reports errors that escaped the route handlers with the JSON error envelope.
+ * Bodies that are no valid JSON or exceed the size limit of the parser are the
+ * fault of the client, everything else is a server error. Express recognizes
+ * error handlers by their four arguments.
+ */
+export const errorHandler = (error, req, res, _next) => {
+    if (res.headersSent) {
+        return res.end();
+    }
+    if (error.type === "entity.parse.failed") {
+        return res.status(400).json({ message: 'Invalid input: the request body is no valid JSON', error: error.message });
+    }
+    if (error.type === "entity.too.large") {
+        return res.status(413).json({ message: `Request body exceeds the limit of ${error.limit} bytes` });
+    }
+
+    console.error(`Error handling ${req.method} ${req.originalUrl}:`, error);
+    res.status(error.status >= 400 && error.status < 500 ? error.status : 500).json({
+        message: 'Error handling the request',
+        error: error.message
+    });
+};
@@ -0,0 +1,106 @@
+import Ajv from "ajv";
+import { openApiSpec } from "../openapi/spec.mjs";
+
+// Issues reported per request, a large upload may violate the schema in every statement
+const MAX_ISSUES = 20;
+
+const SPEC_ID = "openapi.json";
+
+// Query and path parameters arrive as strings and are coerced to their schema type, bodies are checked as sent
+const createAjv = (coerceTypes) => {
+    const ajv = new Ajv({ allErrors: true, jsonPointers: true, nullable: true, coerceTypes });
+    ajv.addSchema({ $id: SPEC_ID, components: openApiSpec.components }, SPEC_ID);
+    return ajv;
+};
+const parameterAjv = createAjv(true);
+const bodyAjv = createAjv(false);
+
+// References of the operations point into the components of the registered document
+const withSpecRefs = (schema) => JSON.parse(JSON.stringify(schema), (key, value) =>
+    key === "$ref" && value.startsWith("#/") ? `${SPEC_ID}${value}` : value);
+
+const operations = new Map(Object.values(openApiSpec.paths).flatMap(pathItem =>
+    Object.values(pathItem).map(operation => [operation.operationId, operation])));
+
+/**
+ * Compiles the schema of the path or query parameters of an operation
+ * @param parameters - Parameters of the operation
+ * @param location - path or query
+ * @returns Validation function or null if the operation has no such parameters
+ */
+const compileParameters = (parameters, location) => {
+    const selected = parameters.filter(parameter => parameter.in === location);
+    if (selected.length === 0) {
+        return null;
+    }
+    return parameterAjv.compile(withSpecRefs({
+        type: "object",
+        required: selected.filter(parameter => parameter.required).map(parameter => parameter.name),
+        properties: Object.fromEntries(selected.map(parameter => [parameter.name, parameter.schema]))
+    }));
+};
+
+/**
+ * Converts the errors of a validation function to the issues of the error envelope
+ * The summary errors of oneOf and anyOf are left out, the errors of their alternatives are reported
+ * @param validate - Validation function that failed
+ * @param location - Part of the request that was validated
+ * @returns Issues with location, JSON pointer and message
+ */
+const toIssues = (validate, location) => {
+    const alternatives = validate.errors.filter(error => !["oneOf", "anyOf"].includes(error.keyword));
+    return (alternatives.length > 0 ? alternatives : validate.errors).map(error => {
+        if (error.keyword === "required") {
+            return { location, path: `${error.dataPath}/${error.params.missingProperty}`, message: "is required" };
+        }
+        if (error.keyword === "additionalProperties") {
+            return { location, path: `${error.dataPath}/${error.params.additionalProperty}`, message: "is not allowed" };
+        }
+        return { location, path: error.dataPath, message: error.message };
+    });
+};
+
+/**
+ * Validates the path parameters, query parameters and JSON body of a request against
+ * an operation of the OpenAPI document. Headers are checked by the route middlewares.
+ * Invalid requests are rejected with 400 and the violations as details, the request
+ * itself is passed on unchanged.
+ * @param operationId - Operation of the OpenAPI document
+ * @throws Error if the document has no such operation
+ */
+export const validateRequest = (operationId) => {
+    const operation = operations.get(operationId);
+    if (!operation) {
+        throw new Error(`Unknown OpenAPI operation: ${operationId}`);
+    }
+
+    const parameters = operation.parameters || [];
+    const validatePath = compileParameters(parameters, "path");
+    const validateQuery = compileParameters(parameters, "query");
+    const bodySchema = operation.requestBody?.content["application/json"].schema;
+    const validateBody = bodySchema && bodyAjv.compile(withSpecRefs(bodySchema));
+
+    return (req, res, next) => {
+        const issues = [];
+        if (validatePath && !validatePath({ ...req.params })) {
+            issues.push(...toIssues(validatePath, "path"));
+        }
+        if (validateQuery && !validateQuery({ ...req.query })) {
+            issues.push(...toIssues(validateQuery, "query"));
+        }
+        if (validateBody && !validateBody(req.body)) {
+            issues.push(...toIssues(validateBody, "body"));
+        }
+
+        if (issues.length > 0) {
+            // The deepest issue is the most specific one, e.g. the statement property rather than the failed alternative
+            const first = issues.reduce((deepest, issue) =>
+                issue.path.split("/").length > deepest.path.split("/").length ? issue : deepest);
+            return res.status(400).json({
+                message: `Invalid input: ${first.location}${first.path} ${first.message}`,
+                details: issues.slice(0, MAX_ISSUES)
+            });
+        }
+        next();
+    };
+};
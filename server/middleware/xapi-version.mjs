@@ -0,0 +1,25 @@
+export const XAPI_VERSION = "1.0.3";
+
+/**
+ * Enforces the X-Experience-API-Version header required by the xAPI spec.
+ * Every response carries the version the server implements, requests must
+ * announce a 1.0.x version or are rejected with 400.
+ */
+export const xapiVersion = (req, res, next) => {
+    res.set("X-Experience-API-Version", XAPI_VERSION);
+
+    const requestedVersion = req.get("X-Experience-API-Version");
+    if (!requestedVersion) {
+        return res.status(400).json({
+            message: 'Missing X-Experience-API-Version header'
+        });
+    }
+
+    if (!/^1\.0(\.\d+)?$/.test(requestedVersion)) {
+        return res.status(400).json({
+            message: `Unsupported xAPI version: ${requestedVersion}`
+        });
+    }
+
+    next();
+};
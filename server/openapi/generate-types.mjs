@@ -0,0 +1,113 @@
+import { writeFile } from "fs/promises";
+import { fileURLToPath } from "url";
+import { openApiSpec } from "./spec.mjs";
+
+// The client types live next to the dashboard types, the services import them from there
+const OUTPUT = new URL("../../clientapp/src/types/api.ts", import.meta.url);
+
+const INDENT = "    ";
+
+const identifier = /^[A-Za-z_$][\w$]*$/;
+
+// The client code uses single quoted strings
+const literal = (value) => typeof value === "string" ? `'${value.replace(/['\\]/g, "\\$&")}'` : String(value);
+
+/**
+ * Converts a schema of the OpenAPI document to a TypeScript type
+ * Objects without properties are typed as object, so the richer dashboard types stay assignable to them
+ * @param schema - Schema object or reference
+ * @param depth - Nesting depth of inline object types
+ * @returns TypeScript type expression
+ */
+const toType = (schema, depth = 0) => {
+    const type = baseType(schema, depth);
+    return schema.nullable ? `${type} | null` : type;
+};
+
+const baseType = (schema, depth) => {
+    if (schema.$ref) {
+        return schema.$ref.split("/").pop();
+    }
+    if (schema.enum) {
+        return schema.enum.map(literal).join(" | ");
+    }
+    // Alternatives of an object type that only differ in their required properties constrain its values, not its type
+    if (schema.properties) {
+        return objectType(schema, depth);
+    }
+    if (schema.oneOf || schema.anyOf) {
+        return (schema.oneOf || schema.anyOf).map(option => wrap(toType(option, depth))).join(" | ");
+    }
+    if (schema.allOf) {
+        return schema.allOf.map(part => wrap(toType(part, depth))).join(" & ");
+    }
+
+    switch (schema.type) {
+        case "string":
+            return "string";
+        case "integer":
+        case "number":
+            return "number";
+        case "boolean":
+            return "boolean";
+        case "array":
+            return `${wrap(toType(schema.items, depth))}[]`;
+        case "object":
+            return objectType(schema, depth);
+        default:
+            return "unknown";
+    }
+};
+
+// Unions and intersections are parenthesized inside array, union and intersection types
+const wrap = (type) => /[|&]/.test(type) && !type.startsWith("{") ? `(${type})` : type;
+
+const objectType = (schema, depth) => {
+    const properties = Object.entries(schema.properties || {});
+    if (properties.length === 0) {
+        return typeof schema.additionalProperties === "object"
+            ? `Record<string, ${toType(schema.additionalProperties, depth)}>`
+            : "object";
+    }
+
+    const required = new Set(schema.required || []);
+    const indent = INDENT.repeat(depth + 1);
+    const members = properties.map(([name, property]) => {
+        const key = identifier.test(name) ? name : literal(name);
+        const comment = property.description ? `${indent}// ${property.description}\n` : "";
+        return `${comment}${indent}${key}${required.has(name) ? "" : "?"}: ${toType(property, depth + 1)};`;
+    });
+    return `{\n${members.join("\n")}\n${INDENT.repeat(depth)}}`;
+};
+
+/**
+ * Renders a named schema as exported interface or type alias
+ * @param name - Name of the schema in the components
+ * @param schema - Schema object
+ * @returns TypeScript declaration with the description as doc comment
+ */
+const declaration = (name, schema) => {
+    const comment = schema.description ? `/**\n * ${schema.description}\n */\n` : "";
+    const type = toType(schema);
+    return type.startsWith("{") && !schema.nullable
+        ? `${comment}export interface ${name} ${type}`
+        : `${comment}export type ${name} = ${type};`;
+};
+
+/**
+ * Renders the TypeScript types of all schemas of the OpenAPI document
+ * @returns Contents of the generated module
+ */
+export const generateTypes = () => [
+    "/*",
+    " * Request and response bodies of the server API, generated from server/openapi/spec.mjs.",
+    " * Do not edit, change the OpenAPI document and run npm run openapi-types in the server directory.",
+    " */",
+    "",
+    ...Object.entries(openApiSpec.components.schemas).map(([name, schema]) => `${declaration(name, schema)}\n`)
+].join("\n");
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+    await writeFile(OUTPUT, generateTypes());
+    console.log(`Wrote ${fileURLToPath(OUTPUT)}`);
+}
@@ -0,0 +1,950 @@
+import { ROLES } from "../auth/credentials.mjs";
+import { JOB_STATUSES } from "../db/generation-jobs.mjs";
+import { XAPI_VERSION } from "../middleware/xapi-version.mjs";
+import { PSEUDONYMIZATION_MODES, PSEUDONYM_FORMATS } from "../xapi/pseudonyms.mjs";
+import { SESSION_SOURCES } from "../xapi/sessions.mjs";
+import { CORRECTION_ACTIONS } from "../xapi/corrections.mjs";
+import { MAX_PAGE_SIZE, STATEMENT_FORMATS } from "../xapi/statements.mjs";
+
+const ref = (name) => ({ $ref: `#/components/schemas/${name}` });
+
+const json = (description, schema) => ({ description, content: { "application/json": { schema } } });
+
+const arrayOf = (schema, minItems) => ({ type: "array", items: schema, ...(minItems && { minItems }) });
+
+const query = (name, schema, description, required = false) => ({ name, in: "query", required, description, schema });
+
+const path = (name, description) => ({ name, in: "path", required: true, description, schema: { type: "string", minLength: 1 } });
+
+// Error responses shared by the operations, all use the error envelope
+const errors = (...statuses) => Object.fromEntries(statuses.map(status => [status, {
+    $ref: `#/components/responses/${{
+        400: "BadRequest",
+        401: "Unauthorized",
+        403: "Forbidden",
+        404: "NotFound",
+        409: "Conflict",
+        500: "ServerError"
+    }[status]}`
+}]));
+
+const courseIdQuery = query("courseId", { type: "string" }, "Course the request is restricted to");
+
+// Time window of the statements the metrics are computed from
+const analyticsQuery = [
+    courseIdQuery,
+    query("from", { type: "string", format: "date-time" }, "Statements at or after this timestamp"),
+    query("to", { type: "string", format: "date-time" }, "Statements before this timestamp")
+];
+
+const xapiVersionHeader = {
+    name: "X-Experience-API-Version",
+    in: "header",
+    required: true,
+    description: "xAPI version of the client, 1.0.x",
+    schema: { type: "string", example: XAPI_VERSION }
+};
+
+// Set when stored statements have warnings of the xAPI profile
+const profileWarningsHeader = {
+    description: "JSON array of { location, message, count }, each distinct warning with the number of statements",
+    schema: { type: "string" }
+};
+
+// Filters of the Statements resource, shared with the export
+const statementFilters = [
+    query("agent", { type: "string" }, "JSON encoded Agent identified by mbox, mbox_sha1sum, openid or account"),
+    query("verb", { type: "string" }, "Verb id"),
+    query("activity", { type: "string" }, "Object id"),
+    query("registration", { type: "string" }, "Registration of the context"),
+    query("related_activities", { type: "string", enum: ["true", "false"] }, "Also match context activities"),
+    query("related_agents", { type: "string", enum: ["true", "false"] }, "Also match authority, team and instructor"),
+    query("since", { type: "string" }, "Stored after this ISO 8601 timestamp"),
+    query("until", { type: "string" }, "Stored at or before this ISO 8601 timestamp"),
+    query("format", { type: "string", enum: STATEMENT_FORMATS }, "Format of the returned statements"),
+    query("ascending", { type: "string", enum: ["true", "false"] }, "Oldest statements first"),
+    query("externalId", { type: "string" }, "LMS external id of the object"),
+    courseIdQuery,
+    query("from", { type: "string" }, "Timestamp at or after this ISO 8601 timestamp"),
+    query("to", { type: "string" }, "Timestamp before this ISO 8601 timestamp")
+];
+
+const statementMetrics = {
+    statements: { type: "integer" },
+    averageScore: { type: "number", nullable: true },
+    passed: { type: "integer" },
+    failed: { type: "integer" },
+    attempts: { type: "integer" },
+    totalDuration: { type: "number", description: "Minutes" }
+};
+
+// Result of a statement as recorded in the audit trail of corrections
+const statementOutcome = {
+    type: "object",
+    nullable: true,
+    properties: {
+        score: ref("StatementScore"),
+        success: { type: "boolean" },
+        completion: { type: "boolean" },
+        duration: { type: "string" }
+    }
+};
+
+const schemas = {
+    ErrorResponse: {
+        type: "object",
+        description: "Body of every error response",
+        required: ["message"],
+        properties: {
+            message: { type: "string" },
+            error: { type: "string", description: "Details of a server error" },
+            details: arrayOf(ref("ValidationIssue")),
+            reports: arrayOf(ref("StatementValidationReport")),
+            duplicateIds: arrayOf({ type: "string" }),
+            conflictingIds: arrayOf({ type: "string" }),
+            invalidVoidingIds: arrayOf({ type: "string" })
+        }
+    },
+    ValidationIssue: {
+        type: "object",
+        description: "Part of a request violating the API contract",
+        required: ["location", "path", "message"],
+        properties: {
+            location: { type: "string", enum: ["path", "query", "body"] },
+            path: { type: "string", description: "JSON pointer into the location, empty for the location itself" },
+            message: { type: "string" }
+        }
+    },
+    MessageResponse: {
+        type: "object",
+        required: ["message"],
+        properties: { message: { type: "string" } }
+    },
+    InsertResponse: {
+        type: "object",
+        required: ["message"],
+        properties: {
+            message: { type: "string" },
+            insertedIds: { type: "object", additionalProperties: { type: "string" } }
+        }
+    },
+    About: {
+        type: "object",
+        required: ["version"],
+        properties: { version: arrayOf({ type: "string" }) }
+    },
+    UserRole: { type: "string", enum: Object.values(ROLES) },
+    User: {
+        type: "object",
+        required: ["username", "role"],
+        properties: {
+            username: { type: "string" },
+            role: ref("UserRole"),
+            email: { type: "string", description: "Links learners to their learner profile and statements" }
+        }
+    },
+    UserRequest: {
+        type: "object",
+        required: ["username", "password", "role"],
+        properties: {
+            username: { type: "string", minLength: 1 },
+            password: { type: "string", minLength: 8 },
+            role: ref("UserRole"),
+            email: { type: "string", description: "Required for learners" }
+        }
+    },
+    LoginRequest: {
+        type: "object",
+        required: ["username", "password"],
+        properties: {
+            username: { type: "string" },
+            password: { type: "string" }
+        }
+    },
+    LoginResponse: {
+        type: "object",
+        required: ["token", "expiresAt", "user"],
+        properties: {
+            token: { type: "string" },
+            expiresAt: { type: "string", format: "date-time" },
+            user: ref("User")
+        }
+    },
+    Statement: {
+        type: "object",
+        description: "xAPI statement, the properties beyond the structure are checked against the xAPI profile of its course. " +
+            "By default (XAPI_PROFILE_VALIDATION=warn) violations of the profile templates are stored and listed in X-Profile-Warnings, " +
+            "strict rejects them with 400",
+        required: ["actor", "verb", "object"],
+        properties: {
+            id: { type: "string", format: "uuid" },
+            actor: { type: "object" },
+            verb: { type: "object" },
+            object: { type: "object" },
+            result: { type: "object" },
+            context: { type: "object" },
+            timestamp: { type: "string" },
+            stored: { type: "string" },
+            version: { type: "string" }
+        }
+    },
+    StatementResult: {
+        type: "object",
+        required: ["statements", "more"],
+        properties: {
+            statements: arrayOf(ref("Statement")),
+            more: { type: "string", description: "Path of the next page, empty on the last page" }
+        }
+    },
+    StatementValidationIssue: {
+        type: "object",
+        required: ["location", "message"],
+        properties: {
+            location: { type: "string", description: "JSONPath into the statement" },
+            message: { type: "string" }
+        }
+    },
+    StatementValidationReport: {
+        type: "object",
+        required: ["index", "id", "errors", "warnings"],
+        properties: {
+            index: { type: "integer" },
+            id: { type: "string" },
+            errors: arrayOf(ref("StatementValidationIssue")),
+            warnings: arrayOf(ref("StatementValidationIssue"))
+        }
+    },
+    StatementValidationResponse: {
+        type: "object",
+        required: ["valid", "reports"],
+        properties: {
+            valid: { type: "boolean" },
+            reports: arrayOf(ref("StatementValidationReport"))
+        }
+    },
+    StatementScore: {
+        type: "object",
+        additionalProperties: false,
+        minProperties: 1,
+        properties: {
+            raw: { type: "number" },
+            scaled: { type: "number", minimum: -1, maximum: 1 },
+            min: { type: "number" },
+            max: { type: "number" }
+        }
+    },
+    CorrectionRequest: {
+        type: "object",
+        description: "Corrected result of a statement, the given score properties replace those of the statement",
+        required: ["reason"],
+        anyOf: [{ required: ["score"] }, { required: ["success"] }],
+        additionalProperties: false,
+        properties: {
+            score: ref("StatementScore"),
+            success: { type: "boolean", description: "Passed and failed statements change their verb with the success" },
+            reason: { type: "string", minLength: 1 }
+        }
+    },
+    CorrectionAction: { type: "string", enum: CORRECTION_ACTIONS },
+    StatementCorrection: {
+        type: "object",
+        description: "Audit entry of a voided or corrected statement",
+        required: ["action", "statementId", "voidingStatementId", "correctedStatementId", "courseId", "learner",
+            "activityId", "verb", "previousResult", "correctedResult", "reason", "user", "createdAt"],
+        properties: {
+            action: ref("CorrectionAction"),
+            statementId: { type: "string" },
+            voidingStatementId: { type: "string" },
+            correctedStatementId: { type: "string", nullable: true, description: "Replacement of a corrected statement" },
+            courseId: { type: "string", nullable: true },
+            learner: { type: "string", description: "Actor of the statement as mbox, openid, sha1:<mbox_sha1sum> or account:<name>@<homePage>" },
+            activityId: { type: "string" },
+            verb: { type: "string" },
+            previousResult: statementOutcome,
+            correctedResult: statementOutcome,
+            reason: { type: "string" },
+            user: { type: "string", description: "Username of the educator" },
+            createdAt: { type: "string", format: "date-time" }
+        }
+    },
+    DatasetResetResponse: {
+        type: "object",
+        required: ["message", "deletedCount"],
+        properties: {
+            message: { type: "string" },
+            deletedCount: { type: "integer" }
+        }
+    },
+    PseudonymList: {
+        type: "object",
+        required: ["mode", "format", "pseudonyms"],
+        properties: {
+            mode: { type: "string", enum: PSEUDONYMIZATION_MODES },
+            format: { type: "string", enum: PSEUDONYM_FORMATS },
+            pseudonyms: arrayOf({
+                type: "object",
+                required: ["pseudonym", "identity"],
+                properties: {
+                    pseudonym: { type: "string" },
+                    identity: { type: "string" }
+                }
+            })
+        }
+    },
+    LearnerMetrics: {
+        type: "object",
+        required: ["learner", "completedActivities", ...Object.keys(statementMetrics)],
+        properties: {
+            learner: { type: "string", nullable: true, description: "Learner mbox, null for other learners if a learner asks" },
+            completedActivities: { type: "integer" },
+            ...statementMetrics
+        }
+    },
+    ActivityMetrics: {
+        type: "object",
+        required: ["activityId", "learners", "scores", "completions", ...Object.keys(statementMetrics)],
+        properties: {
+            activityId: { type: "string", description: "LMS external id" },
+            learners: { type: "integer" },
+            scores: arrayOf({ type: "number" }),
+            completions: { type: "integer" },
+            ...statementMetrics
+        }
+    },
+    SectionMetrics: {
+        type: "object",
+        required: ["section", "learners", "completions", ...Object.keys(statementMetrics)],
+        properties: {
+            section: { type: "string" },
+            learners: { type: "integer" },
+            completions: { type: "integer" },
+            ...statementMetrics
+        }
+    },
+    SectionMetricsRequest: {
+        type: "object",
+        required: ["sections"],
+        properties: {
+            sections: arrayOf({
+                type: "object",
+                required: ["title", "activityIds"],
+                properties: {
+                    title: { type: "string" },
+                    activityIds: arrayOf({ type: "string" })
+                }
+            })
+        }
+    },
+    AnalyticsOverview: {
+        type: "object",
+        required: ["totalStatements", "learners", "verbUsage"],
+        properties: {
+            totalStatements: { type: "integer" },
+            learners: { type: "integer" },
+            verbUsage: arrayOf({
+                type: "object",
+                required: ["verb", "count"],
+                properties: {
+                    verb: { type: "string" },
+                    count: { type: "integer" }
+                }
+            })
+        }
+    },
+    Course: {
+        type: "object",
+        description: "Course structure, the activities are described by the LOM data",
+        required: ["id", "sections"],
+        properties: {
+            id: { type: "string", minLength: 1 },
+            title: { type: "string" },
+            description: { type: "string" },
+            sections: arrayOf({
+                type: "object",
+                properties: {
+                    title: { type: "string" },
+                    activities: arrayOf({ type: "object" })
+                }
+            })
+        }
+    },
+    CourseSummary: {
+        type: "object",
+        required: ["id", "importedAt"],
+        properties: {
+            id: { type: "string" },
+            title: { type: "string" },
+            description: { type: "string" },
+            importedAt: { type: "string", format: "date-time" }
+        }
+    },
+    XAPIProfile: {
+        type: "object",
+        required: ["templates"],
+        properties: {
+            id: { type: "string" },
+            concepts: arrayOf({ type: "object" }),
+            templates: arrayOf({ type: "object" })
+        }
+    },
+    CoursePackage: {
+        type: "object",
+        required: ["course", "profile"],
+        properties: {
+            course: ref("Course"),
+            lom: arrayOf(ref("LomData")),
+            profile: ref("XAPIProfile")
+        }
+    },
+    CourseImportResponse: {
+        type: "object",
+        required: ["message", "id"],
+        properties: {
+            message: { type: "string" },
+            id: { type: "string" }
+        }
+    },
+    LomData: {
+        type: "object",
+        description: "IEEE LOM metadata of an activity",
+        properties: {
+            courseId: { type: "string" },
+            general: { type: "object" },
+            educational: { type: "object" },
+            classification: { type: "object" },
+            relation: arrayOf({ type: "object" })
+        }
+    },
+    Verb: {
+        type: "object",
+        required: ["id"],
+        properties: {
+            id: { type: "string", minLength: 1 },
+            type: { type: "string" },
+            prefLabel: { type: "string" },
+            definition: { type: "string" }
+        }
+    },
+    LearnerProfile: {
+        type: "object",
+        description: "Simulated learner with the metrics of its persona",
+        required: ["id", "email"],
+        properties: {
+            id: { type: "string", minLength: 1 },
+            email: { type: "string", minLength: 1 },
+            courseId: { type: "string" },
+            personaType: { type: "string" },
+            metrics: { type: "object" }
+        }
+    },
+    GenerationJobStatus: { type: "string", enum: JOB_STATUSES },
+    GenerationJobSettings: {
+        type: "object",
+        description: "Settings reproducing the generated learners and statements",
+        required: ["learners", "weeks", "seed", "courseStartDate", "scenario"],
+        properties: {
+            learners: { type: "integer", minimum: 1 },
+            weeks: { type: "integer", minimum: 1 },
+            seed: { type: "integer" },
+            firstLearnerId: { type: "integer" },
+            replaceExisting: { type: "boolean" },
+            courseStartDate: { type: "string" },
+            scenario: { type: "object" },
+            calendar: { type: "object" },
+            activityConfig: { type: "object" }
+        }
+    },
+    GenerationJobRequest: {
+        type: "object",
+        required: ["courseId", "settings"],
+        properties: {
+            courseId: { type: "string", minLength: 1 },
+            settings: ref("GenerationJobSettings")
+        }
+    },
+    GenerationJobUpdate: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+            uploaded: { type: "integer", minimum: 0 },
+            learnersStored: { type: "boolean" },
+            status: ref("GenerationJobStatus"),
+            error: { type: "string" }
+        }
+    },
+    GenerationJob: {
+        type: "object",
+        required: ["id", "courseId", "status", "learnersStored", "uploaded", "createdAt", "updatedAt"],
+        properties: {
+            id: { type: "string" },
+            courseId: { type: "string" },
+            status: ref("GenerationJobStatus"),
+            settings: ref("GenerationJobSettings"),
+            learnersStored: { type: "boolean" },
+            uploaded: { type: "integer", description: "Statements acknowledged by the server in generation order" },
+            error: { type: "string" },
+            createdAt: { type: "string", format: "date-time" },
+            updatedAt: { type: "string", format: "date-time" }
+        }
+    },
+    SessionSource: { type: "string", enum: SESSION_SOURCES },
+    SessionActivity: {
+        type: "object",
+        required: ["activityId", "startTime", "endTime"],
+        properties: {
+            activityId: { type: "string", minLength: 1 },
+            title: { type: "string" },
+            startTime: { type: "string", format: "date-time" },
+            endTime: { type: "string", format: "date-time" },
+            duration: { type: "number", minimum: 0, description: "Minutes" },
+            completed: { type: "boolean" },
+            statements: { type: "integer", minimum: 0 }
+        }
+    },
+    SessionUpload: {
+        type: "object",
+        description: "Generated session, id, course and source are set by the server",
+        required: ["learner", "startTime", "endTime", "totalDuration", "activities"],
+        properties: {
+            learner: { type: "string", minLength: 1, description: "Learner mbox" },
+            startTime: { type: "string", format: "date-time" },
+            endTime: { type: "string", format: "date-time" },
+            totalDuration: { type: "number", minimum: 0, description: "Minutes" },
+            activities: arrayOf(ref("SessionActivity"))
+        }
+    },
+    Session: {
+        type: "object",
+        required: ["id", "courseId", "learner", "source", "startTime", "endTime", "totalDuration", "activities"],
+        properties: {
+            id: { type: "string" },
+            courseId: { type: "string" },
+            learner: { type: "string" },
+            source: ref("SessionSource"),
+            startTime: { type: "string", format: "date-time" },
+            endTime: { type: "string", format: "date-time" },
+            totalDuration: { type: "number" },
+            activities: arrayOf(ref("SessionActivity"))
+        }
+    },
+    SessionUploadResponse: {
+        type: "object",
+        required: ["message", "insertedCount"],
+        properties: {
+            message: { type: "string" },
+            insertedCount: { type: "integer" }
+        }
+    },
+    SessionReconstructionResponse: {
+        type: "object",
+        required: ["message", "learners", "sessions"],
+        properties: {
+            message: { type: "string" },
+            learners: { type: "integer" },
+            sessions: { type: "integer" }
+        }
+    }
+};
+
+/**
+ * OpenAPI 3 description of the /api routes
+ * Requests are validated against it by the validateRequest middleware, the client types are generated from it
+ * with npm run openapi-types
+ */
+export const openApiSpec = {
+    openapi: "3.0.3",
+    info: {
+        title: "Adaptive Learning Analytics Dashboard API",
+        version: "1.0.0",
+        description: "Learning record store following xAPI 1.0.3 with the learners, courses, metrics and sessions of the dashboards. " +
+            "Roles are given per operation, admins may use every operation."
+    },
+    servers: [{ url: "/api" }],
+    security: [{ bearerAuth: [] }, { basicAuth: [] }],
+    paths: {
+        "/about": {
+            get: {
+                operationId: "getAbout",
+                summary: "xAPI About resource",
+                security: [],
+                responses: { 200: json("Supported xAPI versions", ref("About")) }
+            }
+        },
+        "/openapi.json": {
+            get: {
+                operationId: "getOpenApiSpec",
+                summary: "This document",
+                security: [],
+                responses: { 200: json("OpenAPI document", { type: "object" }) }
+            }
+        },
+        "/auth/login": {
+            post: {
+                operationId: "login",
+                summary: "Exchange username and password for a bearer token",
+                security: [],
+                requestBody: { required: true, content: { "application/json": { schema: ref("LoginRequest") } } },
+                responses: { 200: json("Token and user", ref("LoginResponse")), ...errors(400, 401, 500) }
+            }
+        },
+        "/auth/me": {
+            get: {
+                operationId: "getCurrentUser",
+                summary: "User of the current token, all roles",
+                responses: { 200: json("User", ref("User")), ...errors(401) }
+            }
+        },
+        "/users": {
+            get: {
+                operationId: "listUsers",
+                summary: "List all accounts, admin",
+                responses: { 200: json("Users", arrayOf(ref("User"))), ...errors(401, 403, 500) }
+            },
+            post: {
+                operationId: "saveUser",
+                summary: "Create an account or replace the account with the same username, admin",
+                requestBody: { required: true, content: { "application/json": { schema: ref("UserRequest") } } },
+                responses: { 201: json("Stored user", ref("User")), ...errors(400, 401, 403, 500) }
+            }
+        },
+        "/users/{username}": {
+            delete: {
+                operationId: "deleteUser",
+                summary: "Remove an account other than the own one, admin",
+                parameters: [path("username", "Username")],
+                responses: { 204: { description: "Removed" }, ...errors(400, 401, 403, 404, 500) }
+            }
+        },
+        "/statements": {
+            get: {
+                operationId: "getStatements",
+                summary: "Query statements, learners only receive their own statements, all roles",
+                description: "Follows the xAPI Statements resource. With statementId or voidedStatementId a single statement is returned.",
+                parameters: [
+                    xapiVersionHeader,
+                    query("statementId", { type: "string" }, "Id of a single statement"),
+                    query("voidedStatementId", { type: "string" }, "Id of a single voided statement"),
+                    ...statementFilters,
+                    query("limit", { type: "integer", minimum: 0 }, `Page size, 0 and larger values are capped at ${MAX_PAGE_SIZE}`),
+                    query("attachments", { type: "string", enum: ["true", "false"] }, "Accepted for compatibility, attachments are not stored"),
+                    query("cursor", { type: "string" }, "Position of the next page, taken from the more link")
+                ],
+                responses: {
+                    200: json("Statement result or single statement", { oneOf: [ref("StatementResult"), ref("Statement")] }),
+                    ...errors(400, 401, 403, 404, 500)
+                }
+            },
+            post: {
+                operationId: "storeStatements",
+                summary: "Append a statement or an array of statements, resent statements are accepted, statement-writer",
+                description: "Voiding statements are rejected with 403 unless sent by an admin, educators void statements " +
+                    "with DELETE /statements/{id}, which records them in the audit trail.",
+                parameters: [xapiVersionHeader],
+                requestBody: {
+                    required: true,
+                    content: { "application/json": { schema: { oneOf: [ref("Statement"), arrayOf(ref("Statement"), 1)] } } }
+                },
+                responses: {
+                    200: { ...json("Ids of the statements", arrayOf({ type: "string" })), headers: { "X-Profile-Warnings": profileWarningsHeader } },
+                    ...errors(400, 401, 403, 409, 500)
+                }
+            },
+            put: {
+                operationId: "putStatement",
+                summary: "Store a statement under a client chosen id, statement-writer",
+                description: "Voiding statements are rejected with 403 unless sent by an admin, see POST /statements.",
+                parameters: [xapiVersionHeader, query("statementId", { type: "string", format: "uuid" }, "Id of the statement", true)],
+                requestBody: { required: true, content: { "application/json": { schema: ref("Statement") } } },
+                responses: {
+                    204: { description: "Stored", headers: { "X-Profile-Warnings": profileWarningsHeader } },
+                    ...errors(400, 401, 403, 409, 500)
+                }
+            }
+        },
+        "/statements/latest": {
+            get: {
+                operationId: "getLatestStatements",
+                summary: "Most recent statements by timestamp, educator and content creator",
+                parameters: [query("limit", { type: "integer", minimum: 0 }, "Number of statements, 3 by default")],
+                responses: { 200: json("Statements, newest first", arrayOf(ref("Statement"))), ...errors(400, 401, 403, 500) }
+            }
+        },
+        "/statements/stream": {
+            get: {
+                operationId: "streamStatements",
+                summary: "Server-Sent Events of newly stored statements, learners only receive their own statements, all roles",
+                description: "Every statements event carries a JSON array of statements, voiding statements included. " +
+                    "With since the statements stored after it are sent first. Statements may be sent twice.",
+                parameters: [
+                    courseIdQuery,
+                    query("since", { type: "string" }, "Also send the statements stored after this ISO 8601 timestamp")
+                ],
+                responses: {
+                    200: { description: "Event stream", content: { "text/event-stream": { schema: { type: "string" } } } },
+                    ...errors(400, 401, 403)
+                }
+            }
+        },
+        "/statements/{id}": {
+            get: {
+                operationId: "getStatement",
+                summary: "Single statement by statement id or database id, educator and content creator",
+                parameters: [path("id", "Statement id or database id of the statement")],
+                responses: { 200: json("Statement", ref("Statement")), ...errors(401, 403, 404, 500) }
+            },
+            delete: {
+                operationId: "voidStatement",
+                summary: "Retract a statement by voiding it, educator",
+                description: "The statement is kept and voided by a statement of the educator, it is left out of all queries and metrics.",
+                parameters: [
+                    path("id", "Statement id"),
+                    query("reason", { type: "string", minLength: 1 }, "Reason recorded in the audit trail", true)
+                ],
+                responses: { 200: json("Audit entry", ref("StatementCorrection")), ...errors(400, 401, 403, 404, 409, 500) }
+            }
+        },
+        "/statements/{id}/correction": {
+            post: {
+                operationId: "correctStatement",
+                summary: "Correct the result of a statement, educator",
+                description: "The statement is voided and replaced by a copy with the corrected result and a new id.",
+                parameters: [path("id", "Statement id")],
+                requestBody: { required: true, content: { "application/json": { schema: ref("CorrectionRequest") } } },
+                responses: { 201: json("Audit entry", ref("StatementCorrection")), ...errors(400, 401, 403, 404, 409, 500) }
+            }
+        },
+        "/corrections": {
+            get: {
+                operationId: "listCorrections",
+                summary: "Audit trail of voided and corrected statements, newest first, educator",
+                parameters: [courseIdQuery],
+                responses: { 200: json("Audit entries", arrayOf(ref("StatementCorrection"))), ...errors(400, 401, 403, 500) }
+            }
+        },
+        "/statements/validate": {
+            post: {
+                operationId: "validateStatements",
+                summary: "Check statements against the xAPI profile without storing them, statement-writer",
+                requestBody: {
+                    required: true,
+                    content: { "application/json": { schema: { oneOf: [{ type: "object" }, arrayOf({ type: "object" }, 1)] } } }
+                },
+                responses: { 200: json("Report per statement", ref("StatementValidationResponse")), ...errors(400, 401, 403, 500) }
+            }
+        },
+        "/export/statements": {
+            get: {
+                operationId: "exportStatements",
+                summary: "Export statements as file, educator and content creator",
+                parameters: [
+                    query("output", { type: "string", enum: ["json", "ndjson"] }, "Single array or one statement per line"),
+                    ...statementFilters
+                ],
+                responses: {
+                    200: {
+                        description: "Statements",
+                        content: {
+                            "application/json": { schema: arrayOf(ref("Statement")) },
+                            "application/x-ndjson": { schema: { type: "string" } }
+                        }
+                    },
+                    ...errors(400, 401, 403, 500)
+                }
+            }
+        },
+        "/admin/dataset": {
+            delete: {
+                operationId: "resetDataset",
+                summary: "Remove the statements and sessions, all or of a course, admin",
+                parameters: [courseIdQuery],
+                responses: { 200: json("Number of removed statements", ref("DatasetResetResponse")), ...errors(401, 403, 500) }
+            }
+        },
+        "/admin/pseudonyms": {
+            get: {
+                operationId: "listPseudonyms",
+                summary: "Re-identify pseudonymized learners, admin",
+                parameters: [query("pseudonym", { type: "string" }, "Single pseudonym to look up")],
+                responses: { 200: json("Pseudonyms with their identity", ref("PseudonymList")), ...errors(401, 403, 500) }
+            }
+        },
+        "/analytics/learners": {
+            get: {
+                operationId: "getLearnerMetrics",
+                summary: "Metrics per learner, learners see the others without identity, all roles",
+                parameters: analyticsQuery,
+                responses: { 200: json("Metrics per learner", arrayOf(ref("LearnerMetrics"))), ...errors(401, 403, 500) }
+            }
+        },
+        "/analytics/activities": {
+            get: {
+                operationId: "getActivityMetrics",
+                summary: "Metrics per activity, educator and content creator",
+                parameters: analyticsQuery,
+                responses: { 200: json("Metrics per activity", arrayOf(ref("ActivityMetrics"))), ...errors(401, 403, 500) }
+            }
+        },
+        "/analytics/sections": {
+            post: {
+                operationId: "getSectionMetrics",
+                summary: "Metrics per course section, educator and content creator",
+                parameters: analyticsQuery,
+                requestBody: { required: true, content: { "application/json": { schema: ref("SectionMetricsRequest") } } },
+                responses: { 200: json("Metrics per section", arrayOf(ref("SectionMetrics"))), ...errors(400, 401, 403, 500) }
+            }
+        },
+        "/analytics/overview": {
+            get: {
+                operationId: "getOverview",
+                summary: "Course wide totals and verb usage, educator and content creator",
+                parameters: analyticsQuery,
+                responses: { 200: json("Totals", ref("AnalyticsOverview")), ...errors(401, 403, 500) }
+            }
+        },
+        "/courses": {
+            get: {
+                operationId: "listCourses",
+                summary: "Stored courses, most recently imported first, all roles",
+                responses: { 200: json("Courses", arrayOf(ref("CourseSummary"))), ...errors(401, 403, 500) }
+            },
+            post: {
+                operationId: "importCourse",
+                summary: "Store an imported course package, replaces the course with the same id, content creator",
+                requestBody: { required: true, content: { "application/json": { schema: ref("CoursePackage") } } },
+                responses: { 201: json("Imported course", ref("CourseImportResponse")), ...errors(400, 401, 403, 500) }
+            }
+        },
+        "/courses/{id}": {
+            get: {
+                operationId: "getCourse",
+                summary: "Structure of a course, all roles",
+                parameters: [path("id", "Manifest identifier of the course")],
+                responses: { 200: json("Course", ref("Course")), ...errors(401, 403, 404, 500) }
+            }
+        },
+        "/courses/{id}/profile": {
+            get: {
+                operationId: "getCourseProfile",
+                summary: "xAPI profile imported with a course, all roles",
+                parameters: [path("id", "Manifest identifier of the course")],
+                responses: { 200: json("xAPI profile", ref("XAPIProfile")), ...errors(401, 403, 404, 500) }
+            }
+        },
+        "/generation-jobs": {
+            get: {
+                operationId: "listGenerationJobs",
+                summary: "Generation jobs without their settings, most recent first, admin",
+                parameters: [courseIdQuery, query("status", ref("GenerationJobStatus"), "Status of the jobs")],
+                responses: { 200: json("Jobs", arrayOf(ref("GenerationJob"))), ...errors(400, 401, 403, 500) }
+            },
+            post: {
+                operationId: "createGenerationJob",
+                summary: "Start a generation job, its id resumes an interrupted upload, admin",
+                requestBody: { required: true, content: { "application/json": { schema: ref("GenerationJobRequest") } } },
+                responses: { 201: json("Created job", ref("GenerationJob")), ...errors(400, 401, 403, 500) }
+            }
+        },
+        "/generation-jobs/{id}": {
+            get: {
+                operationId: "getGenerationJob",
+                summary: "Generation job with its settings, admin",
+                parameters: [path("id", "Job id")],
+                responses: { 200: json("Job", ref("GenerationJob")), ...errors(401, 403, 404, 500) }
+            },
+            patch: {
+                operationId: "updateGenerationJob",
+                summary: "Record the progress or outcome of a generation job, admin",
+                parameters: [path("id", "Job id")],
+                requestBody: { required: true, content: { "application/json": { schema: ref("GenerationJobUpdate") } } },
+                responses: { 200: json("Updated job", ref("GenerationJob")), ...errors(400, 401, 403, 404, 500) }
+            }
+        },
+        "/sessions": {
+            get: {
+                operationId: "listSessions",
+                summary: "Learning sessions ordered by learner and start time, learners only receive their own, all roles",
+                parameters: [
+                    courseIdQuery,
+                    query("learner", { type: "string" }, "Learner mbox"),
+                    query("source", ref("SessionSource"), "Generated or reconstructed sessions"),
+                    query("from", { type: "string" }, "Sessions starting at or after this timestamp"),
+                    query("to", { type: "string" }, "Sessions starting before this timestamp")
+                ],
+                responses: { 200: json("Sessions", arrayOf(ref("Session"))), ...errors(400, 401, 403, 500) }
+            },
+            post: {
+                operationId: "storeSessions",
+                summary: "Store the sessions of generated learners, resent sessions replace the stored ones, admin",
+                parameters: [query("courseId", { type: "string", minLength: 1 }, "Course of the sessions", true)],
+                requestBody: { required: true, content: { "application/json": { schema: arrayOf(ref("SessionUpload"), 1) } } },
+                responses: { 201: json("Number of new sessions", ref("SessionUploadResponse")), ...errors(400, 401, 403, 500) }
+            }
+        },
+        "/sessions/reconstruct": {
+            post: {
+                operationId: "reconstructSessions",
+                summary: "Reconstruct the sessions of learners without generated sessions from the statements, admin",
+                parameters: [query("courseId", { type: "string", minLength: 1 }, "Course to reconstruct", true)],
+                responses: { 200: json("Number of learners and sessions", ref("SessionReconstructionResponse")), ...errors(400, 401, 403, 500) }
+            }
+        },
+        "/lom": {
+            get: {
+                operationId: "listLomData",
+                summary: "LOM metadata, all or of a course, all roles",
+                parameters: [courseIdQuery],
+                responses: { 200: json("LOM data", arrayOf(ref("LomData"))), ...errors(401, 403, 500) }
+            },
+            post: {
+                operationId: "storeLomData",
+                summary: "Replace the LOM metadata, all or of a course, content creator",
+                parameters: [courseIdQuery],
+                requestBody: { required: true, content: { "application/json": { schema: arrayOf(ref("LomData"), 1) } } },
+                responses: { 201: json("Number of stored documents", ref("MessageResponse")), ...errors(400, 401, 403, 500) }
+            }
+        },
+        "/verbs": {
+            get: {
+                operationId: "listVerbs",
+                summary: "Verbs of the xAPI profile, all roles",
+                responses: { 200: json("Verbs", arrayOf(ref("Verb"))), ...errors(401, 403, 500) }
+            },
+            post: {
+                operationId: "storeVerbs",
+                summary: "Replace the verbs, admin",
+                requestBody: { required: true, content: { "application/json": { schema: arrayOf(ref("Verb"), 1) } } },
+                responses: { 201: json("Stored verbs", ref("InsertResponse")), ...errors(400, 401, 403, 500) }
+            }
+        },
+        "/learners": {
+            get: {
+                operationId: "listLearners",
+                summary: "Learner profiles, all or of a course, learners only receive their own profile, all roles",
+                parameters: [courseIdQuery],
+                responses: { 200: json("Learner profiles", arrayOf(ref("LearnerProfile"))), ...errors(401, 403, 500) }
+            },
+            post: {
+                operationId: "storeLearners",
+                summary: "Store learner profiles, replaces the learners of the course unless append is true, admin",
+                parameters: [courseIdQuery, query("append", { type: "string", enum: ["true", "false"] }, "Keep the stored learners")],
+                requestBody: { required: true, content: { "application/json": { schema: arrayOf(ref("LearnerProfile"), 1) } } },
+                responses: { 201: json("Stored learners", ref("InsertResponse")), ...errors(400, 401, 403, 500) }
+            }
+        }
+    },
+    components: {
+        securitySchemes: {
+            bearerAuth: { type: "http", scheme: "bearer", description: "Token issued by /auth/login" },
+            basicAuth: { type: "http", scheme: "basic", description: "Username and password, for xAPI clients" }
+        },
+        responses: {
+            BadRequest: json("Invalid request", ref("ErrorResponse")),
+            Unauthorized: json("Missing or invalid credentials", ref("ErrorResponse")),
+            Forbidden: json("The role of the user may not use the operation", ref("ErrorResponse")),
+            NotFound: json("Not found", ref("ErrorResponse")),
+            Conflict: json("Conflicts with stored data", ref("ErrorResponse")),
+            ServerError: json("Server error", ref("ErrorResponse"))
+        },
+        schemas
+    }
+};
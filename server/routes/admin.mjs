@@ -0,0 +1,59 @@
+import express from "express";
+import { requireRole } from "../middleware/auth.mjs";
+import { ROLES } from "../auth/credentials.mjs";
+import { getPseudonymizer } from "../xapi/pseudonyms.mjs";
+import { listPseudonyms } from "../db/pseudonyms.mjs";
+import { deleteSessions } from "../db/sessions.mjs";
+import { deleteCorrections } from "../db/corrections.mjs";
+import { deleteStatements } from "../db/statements.mjs";
+import { validateRequest } from "../middleware/validate.mjs";
+
+const adminRouter = (db) => {
+    const router = express.Router();
+
+    // Reset the statement dataset, the only operation that removes statements
+    // With a courseId only the statements of that course are removed, sessions and the audit trail of
+    // corrections are removed with their statements
+    router.delete("/admin/dataset", requireRole(ROLES.admin), validateRequest("resetDataset"), async (req, res) => {
+        try {
+            const deletedCount = await deleteStatements(db, req.query.courseId);
+            await deleteSessions(db, req.query.courseId);
+            await deleteCorrections(db, req.query.courseId);
+
+            res.status(200).json({
+                message: `Removed ${deletedCount} statements`,
+                deletedCount
+            });
+        } catch (error) {
+            console.error('Error resetting dataset:', error);
+            res.status(500).json({
+                message: 'Error resetting dataset',
+                error: error.message
+            });
+        }
+    });
+
+    // Re-identification of pseudonymized learners, optionally of a single pseudonym
+    router.get("/admin/pseudonyms", requireRole(ROLES.admin), validateRequest("listPseudonyms"), async (req, res) => {
+        try {
+            const pseudonymizer = getPseudonymizer();
+            const pseudonyms = await listPseudonyms(db, pseudonymizer, req.query.pseudonym);
+
+            res.status(200).json({
+                mode: pseudonymizer.mode,
+                format: pseudonymizer.format,
+                pseudonyms
+            });
+        } catch (error) {
+            console.error('Error fetching pseudonyms:', error);
+            res.status(500).json({
+                message: 'Error fetching pseudonyms',
+                error: error.message
+            });
+        }
+    });
+
+    return router;
+};
+
+export default adminRouter;
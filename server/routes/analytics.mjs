@@ -0,0 +1,90 @@
+import express from "express";
+import {
+    learnerMetricsPipeline,
+    activityMetricsPipeline,
+    sectionMetricsPipeline,
+    overviewPipeline
+} from "../xapi/analytics.mjs";
+import { requireRole, learnerEmail, ALL_ROLES, STAFF_ROLES } from "../middleware/auth.mjs";
+import { getPseudonymizer } from "../xapi/pseudonyms.mjs";
+import { aggregateStatements } from "../db/statements.mjs";
+import { validateRequest } from "../middleware/validate.mjs";
+
+// Course and time window of the metrics, from/to are validated as date-time by the spec
+const analyticsFilter = (req) => ({
+    courseId: req.query.courseId,
+    from: req.query.from,
+    to: req.query.to
+});
+
+const analyticsRouter = (db) => {
+    const router = express.Router();
+
+    // Metrics per learner, learners see the metrics of the others without their identity
+    router.get("/analytics/learners", requireRole(...ALL_ROLES), validateRequest("getLearnerMetrics"), async (req, res) => {
+        try {
+            const metrics = await aggregateStatements(db, analyticsFilter(req), learnerMetricsPipeline);
+            const ownMbox = learnerEmail(req);
+            const pseudonymizer = getPseudonymizer();
+            res.json(metrics.map(entry => ({
+                ...entry,
+                learner: !ownMbox || entry.learner === ownMbox ? pseudonymizer.displayed(entry.learner, ownMbox) : null
+            })));
+        } catch (error) {
+            console.error('Error computing learner metrics:', error);
+            res.status(500).json({
+                message: 'Error computing learner metrics',
+                error: error.message
+            });
+        }
+    });
+
+    // Metrics per activity
+    router.get("/analytics/activities", requireRole(...STAFF_ROLES), validateRequest("getActivityMetrics"), async (req, res) => {
+        try {
+            res.json(await aggregateStatements(db, analyticsFilter(req), activityMetricsPipeline));
+        } catch (error) {
+            console.error('Error computing activity metrics:', error);
+            res.status(500).json({
+                message: 'Error computing activity metrics',
+                error: error.message
+            });
+        }
+    });
+
+    // Metrics per course section, the body maps section titles to their activity ids
+    router.post("/analytics/sections", requireRole(...STAFF_ROLES), validateRequest("getSectionMetrics"), async (req, res) => {
+        try {
+            const { sections } = req.body;
+            if (sections.length === 0) {
+                return res.json([]);
+            }
+
+            res.json(await aggregateStatements(db, analyticsFilter(req), match => sectionMetricsPipeline(match, sections)));
+        } catch (error) {
+            console.error('Error computing section metrics:', error);
+            res.status(500).json({
+                message: 'Error computing section metrics',
+                error: error.message
+            });
+        }
+    });
+
+    // Course wide totals and verb usage
+    router.get("/analytics/overview", requireRole(...STAFF_ROLES), validateRequest("getOverview"), async (req, res) => {
+        try {
+            const [overview] = await aggregateStatements(db, analyticsFilter(req), overviewPipeline);
+            res.json(overview);
+        } catch (error) {
+            console.error('Error computing overview:', error);
+            res.status(500).json({
+                message: 'Error computing overview',
+                error: error.message
+            });
+        }
+    });
+
+    return router;
+};
+
+export default analyticsRouter;
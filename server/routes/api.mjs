@@ -1,73 +1,66 @@
 import express from "express";
-import { ObjectId } from "mongodb";
-
+import statementsRouter from "./statements.mjs";
+import correctionsRouter from "./corrections.mjs";
+import adminRouter from "./admin.mjs";
+import analyticsRouter from "./analytics.mjs";
+import coursesRouter from "./courses.mjs";
+import authRouter from "./auth.mjs";
+import generationJobsRouter from "./generation-jobs.mjs";
+import sessionsRouter from "./sessions.mjs";
+import { replaceLomData, findLomData } from "../db/lom-data.mjs";
+import { replaceVerbs, findVerbs } from "../db/verbs.mjs";
+import { storeLearners, findLearners } from "../db/learners.mjs";
+import { authenticate, requireRole, learnerEmail, ALL_ROLES } from "../middleware/auth.mjs";
+import { ROLES } from "../auth/credentials.mjs";
+import { getPseudonymizer } from "../xapi/pseudonyms.mjs";
+import { recordPseudonyms } from "../db/pseudonyms.mjs";
+import { validateRequest } from "../middleware/validate.mjs";
+import { notFound } from "../middleware/errors.mjs";
+import { openApiSpec } from "../openapi/spec.mjs";
+
+// The routes are described by openapi/spec.mjs, change both together and regenerate the client types with npm run openapi-types
 const apiRouter = (db) => {
     const router = express.Router();
 
-    // Get a list of XAPI statements
-    router.get("/statements", async (req, res, next) => {
-        let collection = await db.collection("xapi_statements");
-        let results = await collection.find({}).toArray();
-        res.send(results).status(200);
+    // The OpenAPI document, public like the xAPI About resource
+    router.get("/openapi.json", validateRequest("getOpenApiSpec"), (req, res) => {
+        res.json(openApiSpec);
     });
 
-    // Fetch the latest XAPI statements
-    router.get("/statements/latest", async (req, res, next) => {
-        let collection = await db.collection("xapi_statements");
-        let results = await collection.find({})
-            .sort({ timestamp: -1 })
-            .limit(3)
-            .toArray();
-        res.send(results).status(200);
-    });
+    // Resolve the user of every request, routes declare the roles they require
+    router.use(authenticate(db));
 
-    // Get a single XAPI statement
-    router.get("/statements/:id", async (req, res, next) => {
-        let collection = await db.collection("xapi_statements");
-        let query = { _id: ObjectId(req.params.id) };
-        let result = await collection.findOne(query);
-        if (!result) res.send("Not found").status(404);
-        else res.send(result).status(200);
-    });
+    // Login and user accounts
+    router.use(authRouter(db));
 
-    // Add a new XAPI statement
-    router.post("/statements", async (req, res, next) => {
-        let collection = await db.collection("xapi_statements");
+    // xAPI Statements and About resources
+    router.use(statementsRouter(db));
 
-        //remove all statements
-        await collection.deleteMany({});
+    // Voiding and correction of statements by educators
+    router.use(correctionsRouter(db));
 
-        let newStatements = req.body;
-        let result = await collection.insertMany(newStatements);
-        res.send(result).status(204);
-    });
+    // Administrative operations
+    router.use(adminRouter(db));
 
-    // Add new LOM
-    router.post("/lom", async (req, res) => {
-        try {
-            const collection = await db.collection("lom_data");
+    // Precomputed dashboard metrics
+    router.use(analyticsRouter(db));
 
-            // Drop all entries
-            await collection.deleteMany({});
+    // Imported course packages
+    router.use(coursesRouter(db));
 
-            const lomDataArray = req.body;
-            if (!Array.isArray(lomDataArray) || lomDataArray.length === 0) {
-                return res.status(400).json({
-                    message: 'Invalid input: expected non-empty array of LOM data'
-                });
-            }
+    // Resumable runs of the data generator
+    router.use(generationJobsRouter(db));
 
-            // Create unique index
-            await collection.createIndex(
-                { 'general.identifier.entry': 1 },
-                { unique: true }
-            );
+    // Learning sessions, generated or reconstructed from the statements
+    router.use(sessionsRouter(db));
 
-            const result = await collection.insertMany(lomDataArray);
+    // Add new LOM, replaces the LOM data of the course given by courseId
+    router.post("/lom", requireRole(ROLES.contentCreator), validateRequest("storeLomData"), async (req, res) => {
+        try {
+            const insertedCount = await replaceLomData(db, req.body, req.query.courseId || null);
 
             res.status(201).json({
-                message: `Successfully stored ${result.insertedCount} LOM data documents`,
-                insertedIds: result.insertedIds
+                message: `Successfully stored ${insertedCount} LOM data documents`
             });
 
         } catch (error) {
@@ -79,12 +72,10 @@ const apiRouter = (db) => {
         }
     });
 
-    // Get all LOM data
-    router.get("/lom", async (req, res) => {
+    // Get all LOM data, optionally of a single course
+    router.get("/lom", requireRole(...ALL_ROLES), validateRequest("listLomData"), async (req, res) => {
         try {
-            const collection = await db.collection("lom_data");
-            const data = await collection.find({}).toArray();
-            res.json(data);
+            res.json(await findLomData(db, req.query.courseId));
         } catch (error) {
             console.error('Error fetching LOM data:', error);
             res.status(500).json({
@@ -95,41 +86,13 @@ const apiRouter = (db) => {
     });
 
     // Add Verbs
-    router.post("/verbs", async (req, res) => {
+    router.post("/verbs", requireRole(ROLES.admin), validateRequest("storeVerbs"), async (req, res) => {
         try {
-            const collection = await db.collection("verbs");
-
-            // Drop all indexes
-            await collection.dropIndexes();
-
-            // Drop all entries
-            await collection.deleteMany({});
-
-            const existingCount = await collection.countDocuments();
-            if (existingCount > 0) {
-                return res.status(400).json({
-                    message: 'Verbs already exist in database'
-                });
-            }
-
-            const verbs = req.body;
-            if (!Array.isArray(verbs) || verbs.length === 0) {
-                return res.status(400).json({
-                    message: 'Invalid input: expected non-empty array of verbs'
-                });
-            }
-
-            //Create unique index
-            await collection.createIndex(
-                { 'id': 1 },
-                { unique: true }
-            );
-
-            const result = await collection.insertMany(verbs);
+            const insertedIds = await replaceVerbs(db, req.body);
 
             res.status(201).json({
-                message: `Successfully stored ${result.insertedCount} verbs`,
-                insertedIds: result.insertedIds
+                message: `Successfully stored ${req.body.length} verbs`,
+                insertedIds
             });
 
         } catch (error) {
@@ -142,11 +105,9 @@ const apiRouter = (db) => {
     });
 
     // Get all Verbs
-    router.get("/verbs", async (req, res) => {
+    router.get("/verbs", requireRole(...ALL_ROLES), validateRequest("listVerbs"), async (req, res) => {
         try {
-            const collection = await db.collection("verbs");
-            const data = await collection.find({}).toArray();
-            res.json(data);
+            res.json(await findVerbs(db));
         } catch (error) {
             console.error('Error fetching verbs:', error);
             res.status(500).json({
@@ -156,29 +117,23 @@ const apiRouter = (db) => {
         }
     });
 
-    // Add Learner Profiles
-    router.post("/learners", async (req, res) => {
+    // Add Learner Profiles, replaces the learners of the course given by courseId unless append=true
+    router.post("/learners", requireRole(ROLES.admin), validateRequest("storeLearners"), async (req, res) => {
         try {
-            const collection = await db.collection("learner_profiles");
-
-            // Drop all indexes
-            await collection.dropIndexes();
-
-            // Drop all entries
-            await collection.deleteMany({});
-
             const learners = req.body;
-            if (!Array.isArray(learners) || learners.length === 0) {
-                return res.status(400).json({
-                    message: 'Invalid input: expected non-empty array of learners'
-                });
-            }
 
-            const result = await collection.insertMany(learners);
+            // Learner emails are pseudonymized like statement actors
+            const pseudonymizer = getPseudonymizer();
+            await recordPseudonyms(db, pseudonymizer, learners.map(learner => learner.email).filter(Boolean));
+
+            const insertedIds = await storeLearners(db, learners.map(learner => ({
+                ...learner,
+                ...(learner.email && { email: pseudonymizer.stored(learner.email) })
+            })), { courseId: req.query.courseId, append: req.query.append === "true" });
 
             res.status(201).json({
-                message: `Successfully stored ${result.insertedCount} learners`,
-                insertedIds: result.insertedIds
+                message: `Successfully stored ${learners.length} learners`,
+                insertedIds
             });
 
         } catch (error) {
@@ -190,12 +145,14 @@ const apiRouter = (db) => {
         }
     });
 
-    // Get all learner profiles
-    router.get("/learners", async (req, res) => {
+    // Get all learner profiles, optionally of a single course, learners only get their own profile
+    router.get("/learners", requireRole(...ALL_ROLES), validateRequest("listLearners"), async (req, res) => {
         try {
-            const collection = await db.collection("learner_profiles");
-            const data = await collection.find({}).toArray();
-            res.json(data);
+            const ownEmail = learnerEmail(req);
+            const data = await findLearners(db, { courseId: req.query.courseId, email: ownEmail });
+
+            const pseudonymizer = getPseudonymizer();
+            res.json(data.map(learner => ({ ...learner, email: pseudonymizer.displayed(learner.email, ownEmail) })));
         } catch (error) {
             console.error('Error fetching learners:', error);
             res.status(500).json({
@@ -205,6 +162,9 @@ const apiRouter = (db) => {
         }
     });
 
+    // Unknown routes answer with the error envelope like all others
+    router.use(notFound);
+
     return router;
 };
 
@@ -0,0 +1,96 @@
+import express from "express";
+import { ROLES, createToken, verifyPassword } from "../auth/credentials.mjs";
+import { UserInputError, findUser, publicUser, saveUser } from "../db/users.mjs";
+import { requireRole, ALL_ROLES } from "../middleware/auth.mjs";
+import { validateRequest } from "../middleware/validate.mjs";
+
+const authRouter = (db) => {
+    const router = express.Router();
+
+    // Exchange username and password for a bearer token
+    router.post("/auth/login", validateRequest("login"), async (req, res) => {
+        try {
+            const { username, password } = req.body;
+
+            const user = await findUser(db, username);
+            if (!user || !await verifyPassword(password, user.passwordHash)) {
+                return res.status(401).json({ message: 'Invalid username or password' });
+            }
+
+            res.status(200).json({
+                ...createToken(user),
+                user: publicUser(user)
+            });
+        } catch (error) {
+            console.error('Error logging in:', error);
+            res.status(500).json({
+                message: 'Error logging in',
+                error: error.message
+            });
+        }
+    });
+
+    // The user of the current token
+    router.get("/auth/me", requireRole(...ALL_ROLES, ROLES.statementWriter), validateRequest("getCurrentUser"), (req, res) => {
+        res.json(req.user);
+    });
+
+    // List all accounts
+    router.get("/users", requireRole(ROLES.admin), validateRequest("listUsers"), async (req, res) => {
+        try {
+            const collection = await db.collection("users");
+            const users = await collection.find({}).sort({ username: 1 }).toArray();
+            res.json(users.map(publicUser));
+        } catch (error) {
+            console.error('Error fetching users:', error);
+            res.status(500).json({
+                message: 'Error fetching users',
+                error: error.message
+            });
+        }
+    });
+
+    // Create an account or replace the account with the same username
+    router.post("/users", requireRole(ROLES.admin), validateRequest("saveUser"), async (req, res) => {
+        try {
+            const user = await saveUser(db, req.body || {});
+            res.status(201).json(user);
+        } catch (error) {
+            if (error instanceof UserInputError) {
+                return res.status(400).json({ message: error.message });
+            }
+            console.error('Error storing user:', error);
+            res.status(500).json({
+                message: 'Error storing user',
+                error: error.message
+            });
+        }
+    });
+
+    // Remove an account, admins cannot remove themselves
+    router.delete("/users/:username", requireRole(ROLES.admin), validateRequest("deleteUser"), async (req, res) => {
+        try {
+            if (req.params.username === req.user.username) {
+                return res.status(400).json({ message: 'Cannot remove the current user' });
+            }
+
+            const collection = await db.collection("users");
+            const result = await collection.deleteOne({ username: req.params.username });
+            if (result.deletedCount === 0) {
+                return res.status(404).json({ message: `User ${req.params.username} not found` });
+            }
+
+            res.status(204).end();
+        } catch (error) {
+            console.error('Error removing user:', error);
+            res.status(500).json({
+                message: 'Error removing user',
+                error: error.message
+            });
+        }
+    });
+
+    return router;
+};
+
+export default authRouter;
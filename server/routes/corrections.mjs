@@ -0,0 +1,162 @@
+import express from "express";
+import { requireRole } from "../middleware/auth.mjs";
+import { ROLES } from "../auth/credentials.mjs";
+import { agentKey, isVoidingStatement, statementCourseId } from "../xapi/statements.mjs";
+import { buildVoidingStatement, buildCorrectedStatement } from "../xapi/corrections.mjs";
+import { validateStatements } from "../xapi/profile-validator.mjs";
+import { getPseudonymizer } from "../xapi/pseudonyms.mjs";
+import { recordPseudonyms } from "../db/pseudonyms.mjs";
+import { findStatement, insertStatements } from "../db/statements.mjs";
+import { findCourseProfiles } from "../db/courses.mjs";
+import { recordCorrection, removeCorrection, findCorrections } from "../db/corrections.mjs";
+import { validateRequest } from "../middleware/validate.mjs";
+
+const correctionsRouter = (db) => {
+    const router = express.Router();
+
+    /**
+     * Looks up a statement that may be voided
+     * @param id - Statement id
+     * @returns The statement or the status and message of the error response
+     */
+    const findCorrectable = async (id) => {
+        const found = await findStatement(db, id);
+        if (!found) {
+            return { status: 404, message: `Statement ${id} not found` };
+        }
+        if (found.voided) {
+            return { status: 409, message: `Statement ${id} is already voided` };
+        }
+        if (isVoidingStatement(found.statement)) {
+            return { status: 400, message: 'Voiding statements cannot be voided' };
+        }
+        return { statement: found.statement };
+    };
+
+    /**
+     * Voids a statement, stores its corrected replacement if given and records both in the audit trail
+     * The audit entry is recorded first, so of concurrent corrections of a statement only one stores its statements
+     * @param user - Educator voiding the statement
+     * @param statement - Statement to void
+     * @param reason - Reason given by the educator
+     * @param correction - New score and success, null to only void the statement
+     * @returns Audit entry or the validation reports of rejected statements
+     * @throws Error with code 11000 if the statement was voided by a concurrent correction
+     */
+    const correctStatement = async (user, statement, reason, correction) => {
+        const stored = new Date().toISOString();
+        const pseudonymizer = getPseudonymizer();
+        const voiding = buildVoidingStatement(statement, user, stored);
+        const corrected = correction && buildCorrectedStatement(statement, correction, stored);
+        const statements = [pseudonymizer.storeStatement(voiding), ...(corrected ? [corrected] : [])];
+
+        const courseProfiles = await findCourseProfiles(db, [statementCourseId(statement)]);
+        const rejected = (await validateStatements(statements, courseProfiles)).filter(report => report.errors.length > 0);
+        if (rejected.length > 0) {
+            return { rejected };
+        }
+
+        await recordPseudonyms(db, pseudonymizer, pseudonymizer.statementIdentities(voiding));
+        const entry = await recordCorrection(db, {
+            action: corrected ? "correct" : "void",
+            statementId: statement.id,
+            voidingStatementId: voiding.id,
+            correctedStatementId: corrected ? corrected.id : null,
+            courseId: statementCourseId(statement),
+            learner: agentKey(statement.actor),
+            activityId: statement.object?.id,
+            verb: statement.verb?.id,
+            previousResult: statement.result ?? null,
+            correctedResult: corrected ? corrected.result : null,
+            reason,
+            user: user.username,
+            createdAt: stored
+        });
+
+        try {
+            await insertStatements(db, statements);
+        } catch (error) {
+            await removeCorrection(db, statement.id);
+            throw error;
+        }
+        return { correction: entry };
+    };
+
+    /**
+     * Audit entry as returned by the API, learners are shown as the pseudonymization mode shows them
+     */
+    const displayCorrection = (correction) => ({
+        ...correction,
+        learner: getPseudonymizer().displayed(correction.learner)
+    });
+
+    // Retract a statement, it is voided by a statement of the educator and not removed
+    router.delete("/statements/:id", requireRole(ROLES.educator), validateRequest("voidStatement"), async (req, res) => {
+        try {
+            const { statement, status, message } = await findCorrectable(req.params.id);
+            if (!statement) {
+                return res.status(status).json({ message });
+            }
+
+            const { correction, rejected } = await correctStatement(req.user, statement, req.query.reason, null);
+            if (rejected) {
+                return res.status(400).json({ message: 'Voiding statement failed validation', reports: rejected });
+            }
+
+            res.status(200).json(displayCorrection(correction));
+        } catch (error) {
+            if (error.code === 11000) {
+                return res.status(409).json({ message: `Statement ${req.params.id} is already voided` });
+            }
+            console.error('Error voiding statement:', error);
+            res.status(500).json({
+                message: 'Error voiding statement',
+                error: error.message
+            });
+        }
+    });
+
+    // Correct the result of a statement, the statement is voided and replaced by a copy with the corrected result
+    router.post("/statements/:id/correction", requireRole(ROLES.educator), validateRequest("correctStatement"), async (req, res) => {
+        try {
+            const { statement, status, message } = await findCorrectable(req.params.id);
+            if (!statement) {
+                return res.status(status).json({ message });
+            }
+
+            const { correction, rejected } = await correctStatement(req.user, statement, req.body.reason, req.body);
+            if (rejected) {
+                return res.status(400).json({ message: 'Corrected statement failed validation', reports: rejected });
+            }
+
+            res.status(201).json(displayCorrection(correction));
+        } catch (error) {
+            if (error.code === 11000) {
+                return res.status(409).json({ message: `Statement ${req.params.id} is already voided` });
+            }
+            console.error('Error correcting statement:', error);
+            res.status(500).json({
+                message: 'Error correcting statement',
+                error: error.message
+            });
+        }
+    });
+
+    // Audit trail of voided and corrected statements, optionally of a single course
+    router.get("/corrections", requireRole(ROLES.educator), validateRequest("listCorrections"), async (req, res) => {
+        try {
+            const corrections = await findCorrections(db, req.query.courseId);
+            res.json(corrections.map(displayCorrection));
+        } catch (error) {
+            console.error('Error fetching corrections:', error);
+            res.status(500).json({
+                message: 'Error fetching corrections',
+                error: error.message
+            });
+        }
+    });
+
+    return router;
+};
+
+export default correctionsRouter;
@@ -0,0 +1,101 @@
+import express from "express";
+import { replaceLomData } from "../db/lom-data.mjs";
+import { requireRole, ALL_ROLES } from "../middleware/auth.mjs";
+import { ROLES } from "../auth/credentials.mjs";
+import { validateRequest } from "../middleware/validate.mjs";
+
+const coursesRouter = (db) => {
+    const router = express.Router();
+
+    // Store an imported course package, replaces the course with the same id and its LOM metadata
+    router.post("/courses", requireRole(ROLES.contentCreator), validateRequest("importCourse"), async (req, res) => {
+        try {
+            const { course, lom = [], profile } = req.body;
+
+            const courses = await db.collection("courses");
+            await courses.createIndex({ id: 1 }, { unique: true });
+            await courses.replaceOne(
+                { id: course.id },
+                { ...course, profile, importedAt: new Date().toISOString() },
+                { upsert: true }
+            );
+
+            await replaceLomData(db, lom, course.id);
+
+            res.status(201).json({
+                message: `Successfully imported course ${course.id} with ${lom.length} LOM data documents`,
+                id: course.id
+            });
+        } catch (error) {
+            console.error('Error importing course:', error);
+            res.status(500).json({
+                message: 'Error importing course',
+                error: error.message
+            });
+        }
+    });
+
+    // List stored courses, most recently imported first
+    router.get("/courses", requireRole(...ALL_ROLES), validateRequest("listCourses"), async (req, res) => {
+        try {
+            const collection = await db.collection("courses");
+            const courses = await collection.find({})
+                .project({ _id: 0, id: 1, title: 1, description: 1, importedAt: 1 })
+                .sort({ importedAt: -1 })
+                .toArray();
+            res.json(courses);
+        } catch (error) {
+            console.error('Error fetching courses:', error);
+            res.status(500).json({
+                message: 'Error fetching courses',
+                error: error.message
+            });
+        }
+    });
+
+    // Get the structure of a single course
+    router.get("/courses/:id", requireRole(...ALL_ROLES), validateRequest("getCourse"), async (req, res) => {
+        try {
+            const collection = await db.collection("courses");
+            const course = await collection.findOne(
+                { id: req.params.id },
+                { projection: { _id: 0, profile: 0, importedAt: 0 } }
+            );
+            if (!course) {
+                return res.status(404).json({ message: `Course ${req.params.id} not found` });
+            }
+            res.json(course);
+        } catch (error) {
+            console.error('Error fetching course:', error);
+            res.status(500).json({
+                message: 'Error fetching course',
+                error: error.message
+            });
+        }
+    });
+
+    // Get the xAPI profile imported with a course
+    router.get("/courses/:id/profile", requireRole(...ALL_ROLES), validateRequest("getCourseProfile"), async (req, res) => {
+        try {
+            const collection = await db.collection("courses");
+            const course = await collection.findOne(
+                { id: req.params.id },
+                { projection: { _id: 0, profile: 1 } }
+            );
+            if (!course) {
+                return res.status(404).json({ message: `Course ${req.params.id} not found` });
+            }
+            res.json(course.profile);
+        } catch (error) {
+            console.error('Error fetching xAPI profile:', error);
+            res.status(500).json({
+                message: 'Error fetching xAPI profile',
+                error: error.message
+            });
+        }
+    });
+
+    return router;
+};
+
+export default coursesRouter;
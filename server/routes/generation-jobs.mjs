@@ -0,0 +1,83 @@
+import express from "express";
+import { requireRole } from "../middleware/auth.mjs";
+import { ROLES } from "../auth/credentials.mjs";
+import {
+    createGenerationJob,
+    findGenerationJob,
+    listGenerationJobs,
+    updateGenerationJob
+} from "../db/generation-jobs.mjs";
+import { validateRequest } from "../middleware/validate.mjs";
+
+const generationJobsRouter = (db) => {
+    const router = express.Router();
+
+    // Start a generation job, its id resumes an interrupted upload
+    router.post("/generation-jobs", requireRole(ROLES.admin), validateRequest("createGenerationJob"), async (req, res) => {
+        try {
+            const job = await createGenerationJob(db, req.body);
+            res.status(201).json(job);
+        } catch (error) {
+            console.error('Error creating generation job:', error);
+            res.status(500).json({
+                message: 'Error creating generation job',
+                error: error.message
+            });
+        }
+    });
+
+    // List generation jobs without their settings, optionally of a single course or status
+    router.get("/generation-jobs", requireRole(ROLES.admin), validateRequest("listGenerationJobs"), async (req, res) => {
+        try {
+            const jobs = await listGenerationJobs(db, {
+                courseId: req.query.courseId,
+                status: req.query.status
+            });
+            res.json(jobs);
+        } catch (error) {
+            console.error('Error fetching generation jobs:', error);
+            res.status(500).json({
+                message: 'Error fetching generation jobs',
+                error: error.message
+            });
+        }
+    });
+
+    // Get a generation job with the settings needed to resume it
+    router.get("/generation-jobs/:id", requireRole(ROLES.admin), validateRequest("getGenerationJob"), async (req, res) => {
+        try {
+            const job = await findGenerationJob(db, req.params.id);
+            if (!job) {
+                return res.status(404).json({ message: `Generation job ${req.params.id} not found` });
+            }
+            res.json(job);
+        } catch (error) {
+            console.error('Error fetching generation job:', error);
+            res.status(500).json({
+                message: 'Error fetching generation job',
+                error: error.message
+            });
+        }
+    });
+
+    // Record the upload progress or the outcome of a generation job
+    router.patch("/generation-jobs/:id", requireRole(ROLES.admin), validateRequest("updateGenerationJob"), async (req, res) => {
+        try {
+            const job = await updateGenerationJob(db, req.params.id, req.body);
+            if (!job) {
+                return res.status(404).json({ message: `Generation job ${req.params.id} not found` });
+            }
+            res.json(job);
+        } catch (error) {
+            console.error('Error updating generation job:', error);
+            res.status(500).json({
+                message: 'Error updating generation job',
+                error: error.message
+            });
+        }
+    });
+
+    return router;
+};
+
+export default generationJobsRouter;
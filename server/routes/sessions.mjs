@@ -0,0 +1,105 @@
+import express from "express";
+import { requireRole, learnerEmail, ALL_ROLES } from "../middleware/auth.mjs";
+import { ROLES } from "../auth/credentials.mjs";
+import { getPseudonymizer } from "../xapi/pseudonyms.mjs";
+import { recordPseudonyms, resolveIdentity } from "../db/pseudonyms.mjs";
+import { SessionInputError, storeSessions, findSessions, reconstructSessions } from "../db/sessions.mjs";
+import { validateRequest } from "../middleware/validate.mjs";
+
+const sessionsRouter = (db) => {
+    const router = express.Router();
+
+    // Store the sessions of generated learners, the course is given by courseId
+    router.post("/sessions", requireRole(ROLES.admin), validateRequest("storeSessions"), async (req, res) => {
+        try {
+            const sessions = req.body;
+            if (!Array.isArray(sessions) || sessions.length === 0) {
+                return res.status(400).json({
+                    message: 'Invalid input: expected non-empty array of sessions'
+                });
+            }
+
+            // Learners are pseudonymized like statement actors
+            const pseudonymizer = getPseudonymizer();
+            await recordPseudonyms(db, pseudonymizer, sessions.map(session => session?.learner).filter(Boolean));
+
+            const insertedCount = await storeSessions(db, req.query.courseId, sessions.map(session => ({
+                ...session,
+                learner: session?.learner && pseudonymizer.stored(session.learner)
+            })), "generated");
+
+            res.status(201).json({
+                message: `Successfully stored ${sessions.length} sessions, ${insertedCount} of them new`,
+                insertedCount
+            });
+        } catch (error) {
+            if (error instanceof SessionInputError) {
+                return res.status(400).json({ message: error.message });
+            }
+            console.error('Error storing sessions:', error);
+            res.status(500).json({
+                message: 'Error storing sessions',
+                error: error.message
+            });
+        }
+    });
+
+    // Get the sessions of a course, optionally of a single learner, source and period of time
+    // Learners only receive their own sessions
+    router.get("/sessions", requireRole(...ALL_ROLES), validateRequest("listSessions"), async (req, res) => {
+        try {
+            const ownEmail = learnerEmail(req);
+            const pseudonymizer = getPseudonymizer();
+            const learner = ownEmail || await resolveIdentity(db, pseudonymizer, req.query.learner);
+            // A learner shown under an unknown pseudonym has no sessions
+            if (req.query.learner && !learner) {
+                return res.json([]);
+            }
+
+            const sessions = await findSessions(db, {
+                courseId: req.query.courseId,
+                learner,
+                source: req.query.source,
+                from: req.query.from,
+                to: req.query.to
+            });
+            res.json(sessions.map(session => ({ ...session, learner: pseudonymizer.displayed(session.learner, ownEmail) })));
+        } catch (error) {
+            if (error instanceof SessionInputError) {
+                return res.status(400).json({ message: error.message });
+            }
+            console.error('Error fetching sessions:', error);
+            res.status(500).json({
+                message: 'Error fetching sessions',
+                error: error.message
+            });
+        }
+    });
+
+    // Reconstruct the sessions of learners without generated sessions from the statements of the course
+    router.post("/sessions/reconstruct", requireRole(ROLES.admin), validateRequest("reconstructSessions"), async (req, res) => {
+        try {
+            const courseId = req.query.courseId;
+            if (!courseId) {
+                return res.status(400).json({ message: 'Missing courseId parameter' });
+            }
+
+            const { learners, sessions } = await reconstructSessions(db, courseId);
+            res.status(200).json({
+                message: `Reconstructed ${sessions} sessions of ${learners} learners`,
+                learners,
+                sessions
+            });
+        } catch (error) {
+            console.error('Error reconstructing sessions:', error);
+            res.status(500).json({
+                message: 'Error reconstructing sessions',
+                error: error.message
+            });
+        }
+    });
+
+    return router;
+};
+
+export default sessionsRouter;
@@ -0,0 +1,503 @@
+import express from "express";
+import { xapiVersion, XAPI_VERSION } from "../middleware/xapi-version.mjs";
+import { requireRole, learnerEmail, ALL_ROLES, STAFF_ROLES } from "../middleware/auth.mjs";
+import { ROLES } from "../auth/credentials.mjs";
+import {
+    StatementQueryError,
+    parseStatementQuery,
+    parseSingleStatementQuery,
+    parseLimit,
+    buildMoreUrl,
+    formatStatement,
+    normalizeStatement,
+    isSameStatement,
+    isVoidingStatement,
+    statementCourseId
+} from "../xapi/statements.mjs";
+import { validateStatements, summarizeWarnings } from "../xapi/profile-validator.mjs";
+import { getPseudonymizer } from "../xapi/pseudonyms.mjs";
+import { subscribeStatements } from "../xapi/statement-events.mjs";
+import { recordPseudonyms, resolveIdentity } from "../db/pseudonyms.mjs";
+import {
+    findStatement,
+    findStatementByKey,
+    findStatements,
+    findStatementsByIds,
+    findLatestStatements,
+    insertStatements,
+    streamStatements
+} from "../db/statements.mjs";
+import { findCourseProfiles } from "../db/courses.mjs";
+import { validateRequest } from "../middleware/validate.mjs";
+
+// Statements per event of the statement stream when catching up
+const STREAM_BATCH_SIZE = 500;
+
+// Clients reconnect after this delay, an idle stream is kept open by comments in the same interval
+const STREAM_RETRY_MS = 15000;
+
+// Warnings of stored statements, the body keeps the format of the xAPI Statements resource
+const PROFILE_WARNINGS_HEADER = "X-Profile-Warnings";
+
+/**
+ * Reports the profile warnings of stored statements in a response header as JSON, see summarizeWarnings
+ * Characters outside of ASCII are escaped, header values are Latin-1
+ * @param res - Express response
+ * @param reports - Validation reports of the statements
+ */
+const setProfileWarnings = (res, reports) => {
+    const warnings = summarizeWarnings(reports);
+    if (warnings.length > 0) {
+        res.set(PROFILE_WARNINGS_HEADER, JSON.stringify(warnings)
+            .replace(/[\u007f-\uffff]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`));
+    }
+};
+
+/**
+ * Finds the voiding statements a user may not store with the Statements resource
+ * Educators void statements with DELETE /statements/:id, which records them in the audit trail. Only admins may
+ * store voiding statements directly.
+ * @param user - Authenticated user of the request
+ * @param statements - Incoming statements
+ * @returns Ids of the rejected voiding statements
+ */
+const findUnauditedVoiding = (user, statements) => user.role === ROLES.admin
+    ? []
+    : statements.filter(isVoidingStatement).map(statement => statement.id);
+
+/**
+ * Rejects voiding statements outside of the audited routes with 403
+ * @param res - Express response
+ * @param voidingIds - Ids found by findUnauditedVoiding
+ */
+const rejectUnauditedVoiding = (res, voidingIds) => res.status(403).json({
+    message: 'Voiding statements are stored with DELETE /statements/:id',
+    voidingIds
+});
+
+const statementsRouter = (db) => {
+    const router = express.Router();
+
+    /**
+     * Replaces the pseudonymized identifier of an agent in a statement query by the stored identity
+     * @param query - Query parameters of the request
+     * @returns Query parameters with the stored identifier, unchanged if the agent cannot be parsed,
+     * null if the identifier is no recorded pseudonym
+     */
+    const resolveAgent = async (query) => {
+        let agent;
+        try {
+            agent = query.agent && JSON.parse(query.agent);
+        } catch {
+            return query;
+        }
+        if (!agent || typeof agent !== "object") {
+            return query;
+        }
+
+        const resolve = (identity) => resolveIdentity(db, getPseudonymizer(), identity);
+        const resolved = {
+            ...agent,
+            ...(typeof agent.mbox === "string" && { mbox: await resolve(agent.mbox) }),
+            ...(typeof agent.openid === "string" && { openid: await resolve(agent.openid) }),
+            ...(typeof agent.account?.name === "string" && { account: { ...agent.account, name: await resolve(agent.account.name) } })
+        };
+        if (resolved.mbox === null || resolved.openid === null || resolved.account?.name === null) {
+            return null;
+        }
+        return { ...query, agent: JSON.stringify(resolved) };
+    };
+
+    /**
+     * Validates statements against the xAPI profiles of their courses
+     * @param statements - Normalized statements
+     * @returns One report per statement
+     */
+    const validate = async (statements) =>
+        validateStatements(statements, await findCourseProfiles(db, statements.map(statementCourseId)));
+
+    /**
+     * Finds voiding statements targeting a voiding statement, which cannot be voided
+     * @param statements - Incoming statements
+     * @returns Ids of the invalid voiding statements
+     */
+    const findInvalidVoiding = async (statements) => {
+        const voiding = statements.filter(isVoidingStatement);
+        if (voiding.length === 0) {
+            return [];
+        }
+
+        const stored = await findStatementsByIds(db, voiding.map(statement => statement.object.id));
+        const voidingIds = new Set([...statements, ...stored].filter(isVoidingStatement).map(statement => statement.id));
+        return voiding.filter(statement => voidingIds.has(statement.object.id)).map(statement => statement.id);
+    };
+
+    // xAPI About resource
+    router.get("/about", validateRequest("getAbout"), (req, res) => {
+        res.json({ version: [XAPI_VERSION] });
+    });
+
+    // Query XAPI statements, follows the xAPI 1.0.3 Statements resource
+    // Learners only receive their own statements
+    router.get("/statements", requireRole(...ALL_ROLES), xapiVersion, validateRequest("getStatements"), async (req, res) => {
+        try {
+            const ownMbox = learnerEmail(req);
+            const pseudonymizer = getPseudonymizer();
+            res.set("X-Experience-API-Consistent-Through", new Date().toISOString());
+
+            // Single statement lookup
+            if (req.query.statementId || req.query.voidedStatementId) {
+                const { id, voided, format } = parseSingleStatementQuery(req.query);
+                const found = await findStatement(db, id);
+
+                if (!found || found.voided !== voided || (ownMbox && found.statement.actor?.mbox !== ownMbox)) {
+                    return res.status(404).json({ message: `Statement ${id} not found` });
+                }
+                return res.status(200).json(formatStatement(pseudonymizer.displayStatement(found.statement, ownMbox), format));
+            }
+
+            // An agent shown under an unknown pseudonym has no statements
+            const resolvedQuery = await resolveAgent(req.query);
+            if (!resolvedQuery) {
+                return res.status(200).json({ statements: [], more: "" });
+            }
+            const query = parseStatementQuery(resolvedQuery);
+
+            // Voided statements are never part of a statement result
+            const results = await findStatements(db, [
+                ...query.conditions,
+                ...(ownMbox ? [{ 'actor.mbox': ownMbox }] : [])
+            ], { ascending: query.ascending, limit: query.limit + 1 });
+
+            const page = results.slice(0, query.limit);
+            const more = results.length > query.limit
+                ? buildMoreUrl(req, page[page.length - 1]._id)
+                : "";
+
+            res.status(200).json({
+                statements: page.map(statement => formatStatement(pseudonymizer.displayStatement(statement, ownMbox), query.format)),
+                more
+            });
+        } catch (error) {
+            if (error instanceof StatementQueryError) {
+                return res.status(400).json({ message: error.message });
+            }
+            console.error('Error fetching statements:', error);
+            res.status(500).json({
+                message: 'Error fetching statements',
+                error: error.message
+            });
+        }
+    });
+
+    // Fetch the latest XAPI statements by timestamp, limit defaults to 3
+    router.get("/statements/latest", requireRole(...STAFF_ROLES), validateRequest("getLatestStatements"), async (req, res) => {
+        try {
+            const results = await findLatestStatements(db, parseLimit(req.query.limit, 3));
+            res.status(200).json(results.map(statement => formatStatement(getPseudonymizer().displayStatement(statement))));
+        } catch (error) {
+            if (error instanceof StatementQueryError) {
+                return res.status(400).json({ message: error.message });
+            }
+            console.error('Error fetching latest statements:', error);
+            res.status(500).json({
+                message: 'Error fetching latest statements',
+                error: error.message
+            });
+        }
+    });
+
+    // Stream newly stored statements as Server-Sent Events, optionally of a single course
+    // With since the statements stored after it are sent first, so a client reconnecting with the stored time of its
+    // newest statement misses none. Statements may be sent twice and are identified by their id.
+    // Learners only receive their own statements.
+    router.get("/statements/stream", requireRole(...ALL_ROLES), validateRequest("streamStatements"), async (req, res) => {
+        const ownMbox = learnerEmail(req);
+        const pseudonymizer = getPseudonymizer();
+        const { courseId, since } = req.query;
+
+        let query;
+        try {
+            query = parseStatementQuery({ ...(courseId && { courseId }), ...(since && { since }) });
+        } catch (error) {
+            if (error instanceof StatementQueryError) {
+                return res.status(400).json({ message: error.message });
+            }
+            throw error;
+        }
+
+        const send = (statements) => {
+            if (statements.length === 0) return;
+            const data = statements.map(statement => formatStatement(pseudonymizer.displayStatement(statement, ownMbox)));
+            res.write(`event: statements\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+
+        res.set({
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            "Connection": "keep-alive",
+            "X-Accel-Buffering": "no"
+        });
+        res.flushHeaders();
+        res.write(`retry: ${STREAM_RETRY_MS}\n\n`);
+
+        // Subscribed before catching up, so no statement stored in between is missed
+        let closed = false;
+        const unsubscribe = subscribeStatements(statements => send(statements.filter(statement =>
+            (!courseId || statementCourseId(statement) === courseId) && (!ownMbox || statement.actor?.mbox === ownMbox))));
+        const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), STREAM_RETRY_MS);
+        req.on("close", () => {
+            closed = true;
+            clearInterval(keepAlive);
+            unsubscribe();
+        });
+
+        if (!since) return;
+        try {
+            const cursor = await streamStatements(db, [
+                ...query.conditions,
+                ...(ownMbox ? [{ 'actor.mbox': ownMbox }] : [])
+            ], { ascending: true });
+
+            let batch = [];
+            for await (const statement of cursor) {
+                if (closed) break;
+                batch.push(statement);
+                if (batch.length === STREAM_BATCH_SIZE) {
+                    send(batch);
+                    batch = [];
+                }
+            }
+            if (!closed) send(batch);
+        } catch (error) {
+            console.error('Error streaming statements:', error);
+            res.end();
+        }
+    });
+
+    // Get a single XAPI statement by its statement id or its database id
+    router.get("/statements/:id", requireRole(...STAFF_ROLES), validateRequest("getStatement"), async (req, res) => {
+        try {
+            const { id } = req.params;
+            const statement = await findStatementByKey(db, id);
+            if (!statement) {
+                return res.status(404).json({ message: `Statement ${id} not found` });
+            }
+            res.status(200).json(formatStatement(getPseudonymizer().displayStatement(statement)));
+        } catch (error) {
+            console.error('Error fetching statement:', error);
+            res.status(500).json({
+                message: 'Error fetching statement',
+                error: error.message
+            });
+        }
+    });
+
+    // Append XAPI statements, accepts a single statement or an array
+    router.post("/statements", requireRole(ROLES.statementWriter), xapiVersion, validateRequest("storeStatements"), async (req, res) => {
+        try {
+            const body = Array.isArray(req.body) ? req.body : [req.body];
+
+            const stored = new Date().toISOString();
+            const pseudonymizer = getPseudonymizer();
+            const received = body.map(statement => normalizeStatement(statement, stored));
+            const newStatements = received.map(pseudonymizer.storeStatement);
+
+            const ids = newStatements.map(statement => statement.id);
+            const batchDuplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+            if (batchDuplicates.length > 0) {
+                return res.status(400).json({
+                    message: 'Statement ids must be unique within a request',
+                    duplicateIds: Array.from(new Set(batchDuplicates))
+                });
+            }
+
+            const voidingIds = findUnauditedVoiding(req.user, newStatements);
+            if (voidingIds.length > 0) {
+                return rejectUnauditedVoiding(res, voidingIds);
+            }
+
+            const reports = await validate(newStatements);
+            const rejected = reports.filter(report => report.errors.length > 0);
+            if (rejected.length > 0) {
+                return res.status(400).json({
+                    message: `${rejected.length} of ${newStatements.length} statements failed validation`,
+                    reports: rejected
+                });
+            }
+
+            const invalidVoidingIds = await findInvalidVoiding(newStatements);
+            if (invalidVoidingIds.length > 0) {
+                return res.status(400).json({
+                    message: 'Voiding statements cannot be voided',
+                    invalidVoidingIds
+                });
+            }
+
+            // Statements resent with identical content are accepted, changed content is a conflict
+            const existing = await findStatementsByIds(db, ids);
+            const existingById = new Map(existing.map(statement => [statement.id, statement]));
+            const conflicts = newStatements
+                .filter((statement, index) => existingById.has(statement.id) &&
+                    !isSameStatement(existingById.get(statement.id), pseudonymizer.storeStatement(body[index])))
+                .map(statement => statement.id);
+
+            if (conflicts.length > 0) {
+                return res.status(409).json({
+                    message: 'Statements with these ids already exist with different content',
+                    conflictingIds: conflicts
+                });
+            }
+
+            const toInsert = newStatements.filter(statement => !existingById.has(statement.id));
+            if (toInsert.length > 0) {
+                await recordPseudonyms(db, pseudonymizer, received.flatMap(pseudonymizer.statementIdentities));
+                await insertStatements(db, toInsert);
+            }
+
+            setProfileWarnings(res, reports);
+            res.status(200).json(ids);
+        } catch (error) {
+            if (error.code === 11000) {
+                return res.status(409).json({
+                    message: 'Statement id already exists',
+                    error: error.message
+                });
+            }
+            console.error('Error storing statements:', error);
+            res.status(500).json({
+                message: 'Error storing statements',
+                error: error.message
+            });
+        }
+    });
+
+    // Export statements for research, json or ndjson, accepts the filters of the Statements resource
+    // Identities are exported as the configured pseudonymization mode shows them
+    router.get("/export/statements", requireRole(...STAFF_ROLES), validateRequest("exportStatements"), async (req, res) => {
+        try {
+            const { output = "json", ...filters } = req.query;
+
+            // An agent shown under an unknown pseudonym has no statements, the export is empty
+            const resolvedFilters = await resolveAgent(filters);
+            const query = parseStatementQuery(resolvedFilters || filters);
+            const cursor = resolvedFilters ? await streamStatements(db, query.conditions, { ascending: query.ascending }) : [];
+
+            const pseudonymizer = getPseudonymizer();
+            const date = new Date().toISOString().slice(0, 10);
+            res.set("Content-Type", output === "ndjson" ? "application/x-ndjson" : "application/json");
+            res.set("Content-Disposition", `attachment; filename="statements-${date}.${output}"`);
+
+            // Statements are written one by one so large exports are not held in memory
+            let first = true;
+            if (output === "json") res.write("[");
+            for await (const statement of cursor) {
+                const line = JSON.stringify(formatStatement(pseudonymizer.displayStatement(statement), query.format));
+                res.write(output === "ndjson" ? `${line}\n` : `${first ? "" : ","}${line}`);
+                first = false;
+            }
+            res.end(output === "json" ? "]" : "");
+        } catch (error) {
+            if (error instanceof StatementQueryError) {
+                return res.status(400).json({ message: error.message });
+            }
+            console.error('Error exporting statements:', error);
+            if (res.headersSent) {
+                return res.end();
+            }
+            res.status(500).json({
+                message: 'Error exporting statements',
+                error: error.message
+            });
+        }
+    });
+
+    // Validate statements against the xAPI profile without storing them
+    router.post("/statements/validate", requireRole(ROLES.statementWriter), validateRequest("validateStatements"), async (req, res) => {
+        try {
+            const body = Array.isArray(req.body) ? req.body : [req.body];
+
+            const stored = new Date().toISOString();
+            const reports = await validate(body.map(statement => normalizeStatement(statement, stored)));
+
+            res.status(200).json({
+                valid: reports.every(report => report.errors.length === 0),
+                reports
+            });
+        } catch (error) {
+            console.error('Error validating statements:', error);
+            res.status(500).json({
+                message: 'Error validating statements',
+                error: error.message
+            });
+        }
+    });
+
+    // Store a single XAPI statement under a client chosen id, repeating the request is a no-op
+    router.put("/statements", requireRole(ROLES.statementWriter), xapiVersion, validateRequest("putStatement"), async (req, res) => {
+        try {
+            const statementId = req.query.statementId;
+            const statement = req.body;
+            if (statement.id && statement.id !== statementId) {
+                return res.status(400).json({ message: 'Statement id does not match statementId parameter' });
+            }
+
+            const pseudonymizer = getPseudonymizer();
+            const received = normalizeStatement({ ...statement, id: statementId }, new Date().toISOString());
+            const newStatement = pseudonymizer.storeStatement(received);
+
+            const voidingIds = findUnauditedVoiding(req.user, [newStatement]);
+            if (voidingIds.length > 0) {
+                return rejectUnauditedVoiding(res, voidingIds);
+            }
+
+            const [report] = await validate([newStatement]);
+            if (report.errors.length > 0) {
+                return res.status(400).json({
+                    message: 'Statement failed validation',
+                    reports: [report]
+                });
+            }
+
+            const invalidVoidingIds = await findInvalidVoiding([newStatement]);
+            if (invalidVoidingIds.length > 0) {
+                return res.status(400).json({
+                    message: 'Voiding statements cannot be voided',
+                    invalidVoidingIds
+                });
+            }
+
+            const [existing] = await findStatementsByIds(db, [statementId]);
+            if (existing) {
+                if (!isSameStatement(existing, pseudonymizer.storeStatement({ ...statement, id: statementId }))) {
+                    return res.status(409).json({
+                        message: `Statement ${statementId} already exists with different content`
+                    });
+                }
+                setProfileWarnings(res, [report]);
+                return res.status(204).send();
+            }
+
+            await recordPseudonyms(db, pseudonymizer, pseudonymizer.statementIdentities(received));
+            await insertStatements(db, [newStatement]);
+            setProfileWarnings(res, [report]);
+            res.status(204).send();
+        } catch (error) {
+            if (error.code === 11000) {
+                return res.status(409).json({
+                    message: 'Statement id already exists',
+                    error: error.message
+                });
+            }
+            console.error('Error storing statement:', error);
+            res.status(500).json({
+                message: 'Error storing statement',
+                error: error.message
+            });
+        }
+    });
+
+    return router;
+};
+
+export default statementsRouter;
@@ -0,0 +1,120 @@
+import { describe, test, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { databases } from "./databases.mjs";
+import { aggregateStatements, insertStatements } from "../db/statements.mjs";
+import {
+    VERBS, activityMetricsPipeline, learnerMetricsPipeline, overviewPipeline, sectionMetricsPipeline
+} from "../xapi/analytics.mjs";
+import { COURSE_ID_EXTENSION, EXTERNAL_ID_EXTENSION, VOIDED_VERB } from "../xapi/statements.mjs";
+
+const LEGACY_COURSE_ID_EXTENSION = "https://example.com/activities/extensions/course_id";
+
+let counter = 0;
+
+const statement = ({ mbox = "mailto:a@example.com", verb = VERBS.scored, activity = "quiz", course = "course",
+    timestamp = "2024-05-01T10:00:00.000Z", result = {} } = {}) => ({
+    id: `statement-${++counter}`,
+    actor: { mbox },
+    verb: { id: verb },
+    object: { id: `https://example.org/${activity}`, definition: { extensions: { [EXTERNAL_ID_EXTENSION]: activity } } },
+    context: { extensions: { [COURSE_ID_EXTENSION]: course } },
+    result,
+    timestamp
+});
+
+databases.forEach(({ name, skip, open }) => describe(`analytics pipelines on ${name}`, { skip }, () => {
+    let db;
+    let close;
+
+    /**
+     * Runs a pipeline like the analytics routes do, voided statements are excluded
+     */
+    const aggregate = (buildPipeline, filter = { courseId: "course" }) => aggregateStatements(db, filter, buildPipeline);
+
+    beforeEach(async () => {
+        ({ db, close } = await open());
+        const voided = statement({ result: { score: { scaled: 0 } } });
+        await insertStatements(db, [
+            statement({ result: { score: { scaled: 0.5 }, duration: "PT1H2M30S" } }),
+            statement({ result: { score: { scaled: 1 } } }),
+            statement({ verb: VERBS.passed, result: { success: true } }),
+            statement({ verb: VERBS.completed, activity: "video", timestamp: "2024-05-03T10:00:00.000Z" }),
+            statement({ mbox: "mailto:b@example.com", verb: VERBS.failed }),
+            statement({ mbox: "mailto:c@example.com", course: "other" }),
+            voided,
+            { ...statement(), object: { objectType: "StatementRef", id: voided.id }, verb: { id: VOIDED_VERB } }
+        ]);
+    });
+
+    afterEach(() => close());
+
+    test("learner metrics leave out voided and voiding statements", async () => {
+        assert.deepEqual(await aggregate(learnerMetricsPipeline), [
+            {
+                learner: "mailto:a@example.com",
+                statements: 4, averageScore: 75, passed: 1, failed: 0, attempts: 1, totalDuration: 63, completedActivities: 1
+            },
+            {
+                learner: "mailto:b@example.com",
+                statements: 1, averageScore: null, passed: 0, failed: 1, attempts: 1, totalDuration: 0, completedActivities: 0
+            }
+        ]);
+    });
+
+    test("activity metrics group by the external id", async () => {
+        const metrics = await aggregate(activityMetricsPipeline);
+        const quiz = metrics.find(activity => activity.activityId === "quiz");
+
+        assert.deepEqual(metrics.map(activity => activity.activityId).sort(), ["quiz", "video"]);
+        assert.equal(quiz.statements, 4);
+        assert.equal(quiz.learners, 2);
+        assert.equal(quiz.averageScore, 75);
+    });
+
+    test("section metrics sum up the activities of a section", async () => {
+        const [section] = await aggregate(match => sectionMetricsPipeline(match, [{ title: "Basics", activityIds: ["quiz", "video"] }]));
+
+        assert.equal(section.section, "Basics");
+        assert.equal(section.statements, 5);
+        assert.equal(section.learners, 2);
+        assert.equal(section.completions, 1);
+    });
+
+    test("the overview counts statements, learners and verbs", async () => {
+        const [overview] = await aggregate(overviewPipeline);
+
+        assert.equal(overview.totalStatements, 5);
+        assert.equal(overview.learners, 2);
+        assert.deepEqual(overview.verbUsage[0], { verb: VERBS.scored, count: 2 });
+    });
+
+    test("statements are restricted to the course and the time range", async () => {
+        const [other] = await aggregate(overviewPipeline, { courseId: "other" });
+        assert.equal(other.totalStatements, 1);
+
+        const [ranged] = await aggregate(overviewPipeline, {
+            courseId: "course", from: "2024-05-01T00:00:00.000Z", to: "2024-05-02T00:00:00.000Z"
+        });
+        assert.equal(ranged.totalStatements, 4);
+
+        const [all] = await aggregate(overviewPipeline, {});
+        assert.equal(all.totalStatements, 6);
+        assert.equal(all.learners, 3);
+    });
+
+    test("statements of the legacy course extension belong to the course", async () => {
+        const legacy = statement({ course: "legacy" });
+        legacy.context.extensions = { [LEGACY_COURSE_ID_EXTENSION]: "legacy" };
+        await db.collection("xapi_statements").insertOne(legacy);
+
+        const [overview] = await aggregate(overviewPipeline, { courseId: "legacy" });
+        assert.equal(overview.totalStatements, 1);
+    });
+
+    test("courses without statements have empty metrics", async () => {
+        assert.deepEqual(await aggregate(learnerMetricsPipeline, { courseId: "empty" }), []);
+
+        const [overview] = await aggregate(overviewPipeline, { courseId: "empty" });
+        assert.deepEqual(overview, { totalStatements: 0, learners: 0, verbUsage: [] });
+    });
+}));
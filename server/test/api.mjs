@@ -0,0 +1,64 @@
+import express from "express";
+import apiRouter from "../routes/api.mjs";
+import { errorHandler } from "../middleware/errors.mjs";
+import { prepareStatements } from "../db/statements.mjs";
+import { saveUser } from "../db/users.mjs";
+import { createToken } from "../auth/credentials.mjs";
+
+/*
+ * Serves the API routes on a free local port for the route tests, set up like index.mjs
+ */
+
+/**
+ * Starts the API on a database
+ * @param db - Database of the storage backend
+ * @returns Function sending requests as a user of a role and a function stopping the server
+ */
+export async function startApi(db) {
+    await prepareStatements(db);
+
+    const app = express();
+    app.use(express.json());
+    app.use("/api", apiRouter(db));
+    app.use(errorHandler);
+
+    const server = await new Promise(resolve => {
+        const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+    });
+    const baseUrl = `http://127.0.0.1:${server.address().port}/api`;
+    const tokens = new Map();
+
+    /**
+     * Sends a request with the bearer token of a user of the role, the user is created on first use
+     * @param role - Role of the user
+     * @param method - HTTP method
+     * @param path - Path below /api
+     * @param body - Optional JSON body
+     * @returns Status and parsed JSON body of the response
+     */
+    const request = async (role, method, path, body) => {
+        if (!tokens.has(role)) {
+            const user = await saveUser(db, { username: role, password: "password", role, email: `${role}@example.com` });
+            tokens.set(role, createToken(user).token);
+        }
+
+        const response = await fetch(`${baseUrl}${path}`, {
+            method,
+            headers: {
+                Authorization: `Bearer ${tokens.get(role)}`,
+                "X-Experience-API-Version": "1.0.3",
+                ...(body !== undefined && { "Content-Type": "application/json" })
+            },
+            ...(body !== undefined && { body: JSON.stringify(body) })
+        });
+        const text = await response.text();
+        return { status: response.status, body: text ? JSON.parse(text) : null };
+    };
+
+    const close = () => new Promise(resolve => {
+        server.closeAllConnections();
+        server.close(resolve);
+    });
+
+    return { request, close };
+}
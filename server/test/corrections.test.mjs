@@ -0,0 +1,176 @@
+import { describe, test, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { databases } from "./databases.mjs";
+import { startApi } from "./api.mjs";
+import { findCorrections, recordCorrection, removeCorrection } from "../db/corrections.mjs";
+import { findStatement, findStatements, findStatementsByIds, insertStatements, prepareStatements } from "../db/statements.mjs";
+import { VERBS } from "../xapi/analytics.mjs";
+import { buildCorrectedStatement, buildVoidingStatement, userAgent } from "../xapi/corrections.mjs";
+import { COURSE_ID_EXTENSION, VOIDED_VERB } from "../xapi/statements.mjs";
+
+const STORED = "2024-05-02T10:00:00.000Z";
+
+const failed = () => ({
+    id: "attempt",
+    actor: { mbox: "mailto:learner@example.com" },
+    verb: { id: VERBS.failed, display: { en: "failed" } },
+    object: { id: "https://example.org/quiz" },
+    result: { score: { scaled: 0.4, raw: 4, max: 10 }, success: false },
+    context: { extensions: { [COURSE_ID_EXTENSION]: "course" } },
+    timestamp: "2024-05-01T10:00:00.000Z",
+    stored: "2024-05-01T10:00:01.000Z",
+    version: "1.0.3"
+});
+
+describe("userAgent", () => {
+    test("identifies users by a mailto: IRI", () => {
+        assert.equal(userAgent({ username: "teacher", email: "teacher@example.com" }).mbox, "mailto:teacher@example.com");
+        assert.equal(userAgent({ username: "teacher", email: "mailto:teacher@example.com" }).mbox, "mailto:teacher@example.com");
+        assert.equal(userAgent({ username: "teacher" }).mbox, "mailto:teacher@users.analytics-dashboard.invalid");
+    });
+});
+
+describe("buildVoidingStatement", () => {
+    test("references the voided statement and keeps its course", () => {
+        const voiding = buildVoidingStatement(failed(), { username: "teacher" }, STORED);
+
+        assert.equal(voiding.actor.name, "teacher");
+        assert.equal(voiding.verb.id, VOIDED_VERB);
+        assert.deepEqual(voiding.object, { objectType: "StatementRef", id: "attempt" });
+        assert.deepEqual(voiding.context, { extensions: { [COURSE_ID_EXTENSION]: "course" } });
+        assert.equal(voiding.timestamp, STORED);
+        assert.equal(voiding.version, "1.0.3");
+    });
+});
+
+describe("buildCorrectedStatement", () => {
+    test("replaces the result and references the corrected statement", () => {
+        const corrected = buildCorrectedStatement({ _id: "database id", ...failed() }, { score: { scaled: 0.8, raw: 8 } }, STORED);
+
+        assert.equal(corrected._id, undefined);
+        assert.notEqual(corrected.id, "attempt");
+        assert.deepEqual(corrected.result, { score: { scaled: 0.8, raw: 8, max: 10 }, success: false });
+        assert.deepEqual(corrected.context.statement, { objectType: "StatementRef", id: "attempt" });
+        assert.equal(corrected.context.extensions[COURSE_ID_EXTENSION], "course");
+        assert.equal(corrected.timestamp, "2024-05-01T10:00:00.000Z");
+        assert.equal(corrected.stored, STORED);
+        assert.equal(corrected.verb.id, VERBS.failed);
+    });
+
+    test("changes failed to passed with the success", () => {
+        const corrected = buildCorrectedStatement(failed(), { success: true }, STORED);
+
+        assert.deepEqual(corrected.verb, { id: VERBS.passed, display: { en: "passed" } });
+        assert.equal(corrected.result.success, true);
+    });
+});
+
+databases.forEach(({ name, skip, open }) => describe(`voiding on ${name}`, { skip }, () => {
+    let db;
+    let close;
+
+    beforeEach(async () => {
+        ({ db, close } = await open());
+        await prepareStatements(db);
+    });
+
+    afterEach(() => close());
+
+    test("voided statements are left out of queries but can be looked up", async () => {
+        await insertStatements(db, [failed()]);
+        await insertStatements(db, [buildVoidingStatement(failed(), { username: "teacher" }, STORED)]);
+
+        assert.deepEqual(await findStatements(db, [{ id: "attempt" }]), []);
+        const { statement, voided } = await findStatement(db, "attempt");
+        assert.equal(voided, true);
+        assert.equal(statement.voided, undefined);
+        assert.equal((await findStatementsByIds(db, ["attempt"]))[0].voided, undefined);
+    });
+
+    test("a statement stored after its voiding statement is voided", async () => {
+        await insertStatements(db, [buildVoidingStatement(failed(), { username: "teacher" }, STORED)]);
+        await insertStatements(db, [failed()]);
+
+        assert.deepEqual(await findStatements(db, [{ id: "attempt" }]), []);
+        assert.equal((await findStatement(db, "attempt")).voided, true);
+    });
+
+    test("statements voided before the voided flag was stored are flagged when the database is prepared", async () => {
+        await db.collection("xapi_statements").insertMany([
+            failed(),
+            buildVoidingStatement(failed(), { username: "teacher" }, STORED)
+        ]);
+        assert.equal((await findStatement(db, "attempt")).voided, false);
+
+        await prepareStatements(db);
+        assert.equal((await findStatement(db, "attempt")).voided, true);
+    });
+
+    test("a statement id is stored once", async () => {
+        await insertStatements(db, [failed()]);
+
+        await assert.rejects(insertStatements(db, [failed()]), error => error.code === 11000);
+    });
+
+    test("the audit trail lists the corrections of a course", async () => {
+        const correction = { statementId: "attempt", courseId: "course", action: "void", createdAt: STORED };
+        await recordCorrection(db, correction);
+        await recordCorrection(db, { ...correction, statementId: "other", courseId: "other" });
+
+        assert.deepEqual(await findCorrections(db, "course"), [correction]);
+        assert.equal((await findCorrections(db)).length, 2);
+    });
+
+    test("a statement is voided at most once", async () => {
+        const correction = { statementId: "attempt", courseId: "course", action: "void", createdAt: STORED };
+        await recordCorrection(db, correction);
+
+        await assert.rejects(recordCorrection(db, { ...correction, action: "correct" }), error => error.code === 11000);
+        assert.deepEqual(await findCorrections(db, "course"), [correction]);
+
+        await removeCorrection(db, "attempt");
+        assert.deepEqual(await findCorrections(db), []);
+    });
+}));
+
+databases.forEach(({ name, skip, open }) => describe(`voiding routes on ${name}`, { skip }, () => {
+    let db;
+    let close;
+    let api;
+
+    beforeEach(async () => {
+        ({ db, close } = await open());
+        api = await startApi(db);
+    });
+
+    afterEach(async () => {
+        await api.close();
+        await close();
+    });
+
+    test("the audit entry names the learner by the identifier of the actor", async () => {
+        const account = { homePage: "https://lms.example.org", name: "learner" };
+        await insertStatements(db, [{ ...failed(), actor: { account } }]);
+
+        const { status, body } = await api.request("educator", "DELETE", "/statements/attempt?reason=Duplicate");
+        assert.equal(status, 200);
+        assert.equal(body.learner, "account:learner@https://lms.example.org");
+        assert.deepEqual((await findCorrections(db, "course")).map(correction => correction.learner), [body.learner]);
+    });
+
+    test("voiding statements are only stored by the audited route unless sent by an admin", async () => {
+        await insertStatements(db, [failed()]);
+        const statement = buildVoidingStatement(failed(), { username: "writer" }, STORED);
+
+        const posted = await api.request("statement-writer", "POST", "/statements", [statement]);
+        assert.equal(posted.status, 403);
+        assert.deepEqual(posted.body.voidingIds, [statement.id]);
+
+        const put = await api.request("statement-writer", "PUT", `/statements?statementId=${statement.id}`, statement);
+        assert.equal(put.status, 403);
+        assert.equal((await findStatement(db, "attempt")).voided, false);
+
+        assert.equal((await api.request("admin", "POST", "/statements", [statement])).status, 200);
+        assert.equal((await findStatement(db, "attempt")).voided, true);
+    });
+}));
@@ -0,0 +1,32 @@
+import { randomUUID } from "crypto";
+import { MongoClient } from "mongodb";
+import { DocumentDatabase } from "../db/document-store.mjs";
+
+/*
+ * Databases the storage tests run against, each test opens an empty database of its own
+ * The in-memory document store always runs. MongoDB is only tested if TEST_MONGODB_URI names a server,
+ * the results of the document store are checked against it then. The test databases are dropped afterwards.
+ */
+
+const mongoUri = process.env.TEST_MONGODB_URI;
+
+/**
+ * Opens an empty MongoDB database
+ * @returns Database and a function dropping it and closing the connection
+ */
+const openMongoDatabase = async () => {
+    const client = await new MongoClient(mongoUri).connect();
+    const db = client.db(`test-${randomUUID()}`);
+    return {
+        db,
+        close: async () => {
+            await db.dropDatabase();
+            await client.close();
+        }
+    };
+};
+
+export const databases = [
+    { name: "the document store", skip: false, open: async () => ({ db: new DocumentDatabase(), close: async () => {} }) },
+    { name: "MongoDB", skip: mongoUri ? false : "TEST_MONGODB_URI is not set", open: openMongoDatabase }
+];
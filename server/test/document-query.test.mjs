@@ -0,0 +1,228 @@
+import { describe, test, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { ObjectId } from "mongodb";
+import { databases } from "./databases.mjs";
+import { aggregate, matches } from "../db/document-query.mjs";
+import { DocumentDatabase } from "../db/document-store.mjs";
+
+/*
+ * The same filters, expressions and stages run against every database, the expected results are the
+ * ones of MongoDB. The document store has to behave the same for the queries of the server.
+ */
+
+const ids = (documents) => documents.map(document => document.n);
+
+databases.forEach(({ name, skip, open }) => describe(`queries on ${name}`, { skip }, () => {
+    let db;
+    let close;
+
+    /**
+     * Stores copies of the documents in a collection of the test database
+     */
+    const insert = async (documents) => {
+        const collection = db.collection("items");
+        await collection.insertMany(structuredClone(documents));
+        return collection;
+    };
+
+    beforeEach(async () => {
+        ({ db, close } = await open());
+    });
+
+    afterEach(() => close());
+
+    describe("filters", () => {
+        const find = async (filter) => ids(await db.collection("items").find(filter).sort({ n: 1 }).toArray());
+
+        beforeEach(() => insert([
+            { n: 1, tags: ["a", "b"], actor: { mbox: "mailto:a@example.com" }, score: 10 },
+            { n: 2, tags: ["c"], actor: { mbox: "mailto:b@example.com" }, score: "10" },
+            { n: 3, parents: [{ id: "x" }, { id: "y" }], score: null },
+            { n: 4, extensions: { "https://example.org/course.id": "c1" } }
+        ]));
+
+        test("equality on an array field matches any element", async () => {
+            assert.deepEqual(await find({ tags: "b" }), [1]);
+        });
+
+        test("equality on an array field matches the whole array", async () => {
+            assert.deepEqual(await find({ tags: ["c"] }), [2]);
+        });
+
+        test("dotted paths descend into arrays of documents", async () => {
+            assert.deepEqual(await find({ "parents.id": "y" }), [3]);
+        });
+
+        test("null matches null and missing fields", async () => {
+            assert.deepEqual(await find({ score: null }), [3, 4]);
+        });
+
+        test("$ne and $nin match documents without the field", async () => {
+            assert.deepEqual(await find({ score: { $ne: 10 } }), [2, 3, 4]);
+            assert.deepEqual(await find({ tags: { $nin: ["a", "c"] } }), [3, 4]);
+        });
+
+        test("comparisons only match values of the same type", async () => {
+            assert.deepEqual(await find({ score: { $gte: 5 } }), [1]);
+            assert.deepEqual(await find({ score: { $gte: "1" } }), [2]);
+        });
+
+        test("$exists is true for fields set to null", async () => {
+            assert.deepEqual(await find({ score: { $exists: true } }), [1, 2, 3]);
+            assert.deepEqual(await find({ score: { $exists: false } }), [4]);
+        });
+
+        test("$and, $or and $expr combine conditions", async () => {
+            assert.deepEqual(await find({ $or: [{ n: 1 }, { "parents.id": "x" }] }), [1, 3]);
+            assert.deepEqual(await find({ $and: [{ n: { $gt: 1 } }, { n: { $lt: 4 } }] }), [2, 3]);
+            assert.deepEqual(await find({ $expr: { $eq: ["$actor.mbox", "mailto:b@example.com"] } }), [2]);
+        });
+
+        test("$getField reads keys containing dots", async () => {
+            assert.deepEqual(await find({
+                $expr: {
+                    $eq: [{ $getField: { field: { $literal: "https://example.org/course.id" }, input: "$extensions" } }, "c1"]
+                }
+            }), [4]);
+        });
+    });
+
+    describe("expressions", () => {
+        const evaluate = async (expression) => {
+            const [{ value }] = await db.collection("items").aggregate([{ $project: { _id: 0, value: expression } }]).toArray();
+            return value;
+        };
+
+        beforeEach(() => insert([{ a: 4, b: 0, name: "x", list: [{ v: 1 }, { v: 2 }], empty: null }]));
+
+        test("$ifNull returns the first value that is neither null nor missing", async () => {
+            assert.equal(await evaluate({ $ifNull: ["$missing", "$empty", "$name", "fallback"] }), "x");
+            assert.equal(await evaluate({ $ifNull: ["$missing", "$empty", "fallback"] }), "fallback");
+        });
+
+        test("$concat is null if any part is null or missing", async () => {
+            assert.equal(await evaluate({ $concat: ["id:", "$name"] }), "id:x");
+            assert.equal(await evaluate({ $concat: ["id:", "$missing"] }), null);
+        });
+
+        test("field paths through arrays collect the values of the elements", async () => {
+            assert.deepEqual(await evaluate("$list.v"), [1, 2]);
+        });
+
+        test("arithmetic with null or missing operands is null", async () => {
+            assert.equal(await evaluate({ $add: ["$a", 1] }), 5);
+            assert.equal(await evaluate({ $multiply: ["$a", "$missing"] }), null);
+        });
+
+        test("$type names the BSON type", async () => {
+            assert.equal(await evaluate({ $type: "$a" }), "int");
+            assert.equal(await evaluate({ $type: "$missing" }), "missing");
+            assert.equal(await evaluate({ $type: "$empty" }), "null");
+        });
+
+        test("$cond, $switch and $filter", async () => {
+            assert.equal(await evaluate({ $cond: [{ $eq: ["$b", 0] }, "zero", "other"] }), "zero");
+            assert.equal(await evaluate({ $switch: { branches: [{ case: { $eq: ["$a", 1] }, then: "one" }], default: "many" } }), "many");
+            assert.deepEqual(await evaluate({ $filter: { input: "$list", as: "item", cond: { $eq: ["$$item.v", 2] } } }), [{ v: 2 }]);
+        });
+    });
+
+    describe("aggregation", () => {
+        const documents = [
+            { n: 1, learner: "a", score: 0.5 },
+            { n: 2, learner: "a", score: "high" },
+            { n: 3, learner: "b", score: 1 },
+            { n: 4, learner: null }
+        ];
+        const run = async (pipeline) => (await insert(documents)).aggregate(pipeline).toArray();
+
+        test("$group with $sum and $avg ignores values that are not numbers", async () => {
+            const groups = await run([
+                { $group: { _id: "$learner", count: { $sum: 1 }, total: { $sum: "$score" }, average: { $avg: "$score" } } },
+                { $sort: { _id: 1 } }
+            ]);
+            assert.deepEqual(groups, [
+                { _id: null, count: 1, total: 0, average: null },
+                { _id: "a", count: 2, total: 0.5, average: 0.5 },
+                { _id: "b", count: 1, total: 1, average: 1 }
+            ]);
+        });
+
+        test("$addToSet keeps distinct values and $push keeps all of them", async () => {
+            const [group] = await (await insert([{ n: 1, v: 1 }, { n: 2, v: 1 }, { n: 3, v: 2 }, { n: 4 }])).aggregate([
+                { $sort: { n: 1 } },
+                { $group: { _id: null, set: { $addToSet: "$v" }, all: { $push: "$v" } } }
+            ]).toArray();
+            // MongoDB does not order the values of $addToSet
+            assert.deepEqual([...group.set].sort(), [1, 2]);
+            assert.deepEqual(group.all, [1, 1, 2]);
+        });
+
+        test("$sort orders null before numbers before strings", async () => {
+            const sorted = await (await insert([{ v: "b" }, { v: 2 }, { v: null }, { v: "a" }, { v: 1 }]))
+                .aggregate([{ $sort: { v: 1 } }]).toArray();
+            assert.deepEqual(sorted.map(document => document.v), [null, 1, 2, "a", "b"]);
+        });
+
+        test("$project includes, excludes and computes top level fields", async () => {
+            const collection = await insert([{ _id: 7, a: 1, b: 2 }]);
+
+            const [included] = await collection.aggregate([{ $project: { a: 1, sum: { $add: ["$a", "$b"] } } }]).toArray();
+            assert.deepEqual(included, { _id: 7, a: 1, sum: 3 });
+
+            const [excluded] = await collection.aggregate([{ $project: { _id: 0, b: 0 } }]).toArray();
+            assert.deepEqual(excluded, { a: 1 });
+        });
+
+        test("$facet runs sub pipelines on the same input", async () => {
+            const [facets] = await run([
+                { $facet: { count: [{ $group: { _id: null, n: { $sum: 1 } } }], first: [{ $sort: { n: 1 } }, { $limit: 1 }] } }
+            ]);
+            assert.equal(facets.count[0].n, 4);
+            assert.deepEqual(ids(facets.first), [1]);
+        });
+    });
+
+    describe("collections", () => {
+        test("unique indexes reject duplicate keys with the MongoDB error code", async () => {
+            const collection = db.collection("items");
+            await collection.createIndex({ id: 1 }, { unique: true });
+            await collection.insertOne({ id: "a" });
+
+            await assert.rejects(collection.insertOne({ id: "a" }), error => error.code === 11000);
+        });
+
+        test("upserts start with the equality conditions of the filter", async () => {
+            const collection = db.collection("items");
+            await collection.updateOne({ key: "k", count: { $gt: 0 } }, { $setOnInsert: { created: true }, $inc: { hits: 1 } }, { upsert: true });
+
+            const { _id, ...stored } = await collection.findOne({ key: "k" });
+            assert.ok(_id instanceof ObjectId);
+            assert.deepEqual(stored, { key: "k", created: true, hits: 1 });
+        });
+
+        test("find sorts, limits and projects like the driver cursor", async () => {
+            const collection = await insert([{ n: 2 }, { n: 3 }, { n: 1 }]);
+
+            const found = await collection.find({ n: { $gt: 1 } }).sort({ n: -1 }).limit(1).project({ _id: 0 }).toArray();
+            assert.deepEqual(found, [{ n: 3 }]);
+        });
+    });
+}));
+
+describe("document store", () => {
+    test("operators and stages outside the subset throw", () => {
+        assert.throws(() => matches({ tags: ["a"] }, { tags: { $regex: "a" } }), /Unsupported query operator/);
+        assert.throws(() => matches({ n: 1 }, { $nor: [{ n: 1 }] }), /Unsupported query operator/);
+        assert.throws(() => aggregate([{ score: [1] }], [{ $unwind: "$score" }]), /Unsupported aggregation stage/);
+    });
+
+    test("insertMany stores all documents or none", async () => {
+        const collection = new DocumentDatabase().collection("items");
+        await collection.createIndex({ id: 1 }, { unique: true });
+        await collection.insertOne({ id: "a" });
+
+        await assert.rejects(collection.insertMany([{ id: "b" }, { id: "a" }]));
+        assert.equal(await collection.countDocuments(), 1);
+    });
+});
@@ -0,0 +1,129 @@
+import { describe, test, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { databases } from "./databases.mjs";
+import { startApi } from "./api.mjs";
+import { createGenerationJob, findGenerationJob, listGenerationJobs, updateGenerationJob } from "../db/generation-jobs.mjs";
+
+const settings = { learners: 3, weeks: 2, seed: 7, scenario: "default" };
+
+databases.forEach(({ name, skip, open }) => describe(`generation jobs on ${name}`, { skip }, () => {
+    let db;
+    let close;
+
+    beforeEach(async () => {
+        ({ db, close } = await open());
+    });
+
+    afterEach(() => close());
+
+    test("a created job keeps the settings reproducing the generated data", async () => {
+        const job = await createGenerationJob(db, { courseId: "course", settings });
+
+        assert.equal(job.status, "running");
+        assert.equal(job.uploaded, 0);
+        assert.deepEqual(job.settings, settings);
+        assert.deepEqual(await findGenerationJob(db, job.id), job);
+        assert.equal(await findGenerationJob(db, "unknown"), null);
+    });
+
+    test("the uploaded count never moves back", async () => {
+        const { id } = await createGenerationJob(db, { courseId: "course", settings });
+
+        await updateGenerationJob(db, id, { uploaded: 100, learnersStored: true });
+        const job = await updateGenerationJob(db, id, { uploaded: 50, status: "completed" });
+
+        assert.equal(job.uploaded, 100);
+        assert.equal(job.learnersStored, true);
+        assert.equal(job.status, "completed");
+        assert.equal(await updateGenerationJob(db, "unknown", { uploaded: 1 }), null);
+    });
+
+    test("jobs are listed by course and status without their settings", async () => {
+        const running = await createGenerationJob(db, { courseId: "course", settings });
+        const failed = await createGenerationJob(db, { courseId: "course", settings });
+        await createGenerationJob(db, { courseId: "other", settings });
+        await updateGenerationJob(db, failed.id, { status: "failed", error: "Upload interrupted" });
+
+        const jobs = await listGenerationJobs(db, { courseId: "course", status: "running" });
+        assert.deepEqual(jobs.map(job => job.id), [running.id]);
+        assert.equal(jobs[0].settings, undefined);
+        assert.equal((await listGenerationJobs(db)).length, 3);
+    });
+
+}));
+
+databases.forEach(({ name, skip, open }) => describe(`generation job routes on ${name}`, { skip }, () => {
+    let db;
+    let close;
+    let api;
+
+    // Settings as the generator sends them
+    const request = {
+        courseId: "course",
+        settings: { learners: 3, weeks: 2, seed: 7, courseStartDate: "2024-05-06", scenario: { name: "default", personas: [] } }
+    };
+
+    beforeEach(async () => {
+        ({ db, close } = await open());
+        api = await startApi(db);
+    });
+
+    afterEach(async () => {
+        await api.close();
+        await close();
+    });
+
+    test("a job is created by admins with its settings", async () => {
+        const { status, body } = await api.request("admin", "POST", "/generation-jobs", request);
+
+        assert.equal(status, 201);
+        assert.equal(body.status, "running");
+        assert.deepEqual(body.settings, request.settings);
+        assert.equal((await api.request("educator", "POST", "/generation-jobs", request)).status, 403);
+    });
+
+    test("jobs without course or complete settings are rejected", async () => {
+        const create = (body) => api.request("admin", "POST", "/generation-jobs", body);
+
+        assert.equal((await create({ settings: request.settings })).status, 400);
+        assert.equal((await create({ ...request, courseId: "" })).status, 400);
+        assert.equal((await create({ ...request, settings: [] })).status, 400);
+        assert.equal((await create({ ...request, settings: { ...request.settings, seed: undefined } })).status, 400);
+        assert.deepEqual(await listGenerationJobs(db), []);
+    });
+
+    test("a job is resumed with the settings it was created with", async () => {
+        const { body: created } = await api.request("admin", "POST", "/generation-jobs", request);
+
+        const { status, body } = await api.request("admin", "GET", `/generation-jobs/${created.id}`);
+        assert.equal(status, 200);
+        assert.deepEqual(body, created);
+        assert.equal((await api.request("admin", "GET", "/generation-jobs/unknown")).status, 404);
+    });
+
+    test("updates record the progress and the uploaded count never moves back", async () => {
+        const { body: created } = await api.request("admin", "POST", "/generation-jobs", request);
+        const update = (body, id = created.id) => api.request("admin", "PATCH", `/generation-jobs/${id}`, body);
+
+        assert.equal((await update({ uploaded: 100, learnersStored: true })).body.uploaded, 100);
+        const { status, body } = await update({ uploaded: 50, status: "completed" });
+
+        assert.equal(status, 200);
+        assert.equal(body.uploaded, 100);
+        assert.equal(body.learnersStored, true);
+        assert.equal(body.status, "completed");
+        assert.equal((await update({ uploaded: 1 }, "unknown")).status, 404);
+    });
+
+    test("invalid updates are rejected and leave the job unchanged", async () => {
+        const { body: created } = await api.request("admin", "POST", "/generation-jobs", request);
+        const update = (body) => api.request("admin", "PATCH", `/generation-jobs/${created.id}`, body);
+
+        assert.equal((await update({ uploaded: -1 })).status, 400);
+        assert.equal((await update({ uploaded: 1.5 })).status, 400);
+        assert.equal((await update({ status: "paused" })).status, 400);
+        assert.equal((await update({ learnersStored: "yes" })).status, 400);
+        assert.equal((await update({ courseId: "other" })).status, 400);
+        assert.deepEqual(await findGenerationJob(db, created.id), created);
+    });
+}));
@@ -0,0 +1,131 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createProfileValidator, evaluateJsonPath, summarizeWarnings, validateStatements } from "../xapi/profile-validator.mjs";
+import { COURSE_ID_EXTENSION } from "../xapi/statements.mjs";
+
+const SCORED = "http://adlnet.gov/expapi/verbs/scored";
+const ASSESSMENT = "http://adlnet.gov/expapi/activities/assessment";
+
+const profile = {
+    templates: [{
+        prefLabel: { en: "Scored assessment" },
+        verb: SCORED,
+        objectActivityType: ASSESSMENT,
+        rules: [
+            { location: "$.result.score.scaled", presence: "included" },
+            { location: "$.result.duration", presence: "recommended" },
+            { location: "$.context.extensions['https://example.org/forbidden']", presence: "excluded" }
+        ]
+    }]
+};
+
+const statement = (properties = {}) => ({
+    actor: { mbox: "mailto:learner@example.com" },
+    verb: { id: SCORED },
+    object: { id: "https://example.org/quiz", definition: { type: ASSESSMENT } },
+    result: { score: { scaled: 0.5 }, duration: "PT5M" },
+    ...properties
+});
+
+describe("evaluateJsonPath", () => {
+    test("reads dot, bracket and wildcard segments", () => {
+        const document = { context: { extensions: { "https://example.org/a.b": 1 } }, list: [{ v: 1 }, { v: 2 }] };
+
+        assert.deepEqual(evaluateJsonPath(document, "$.context.extensions['https://example.org/a.b']"), [1]);
+        assert.deepEqual(evaluateJsonPath(document, "$.list[*].v"), [1, 2]);
+        assert.deepEqual(evaluateJsonPath(document, "$.list[1].v"), [2]);
+        assert.deepEqual(evaluateJsonPath(document, "$.missing.v"), []);
+    });
+
+    test("rejects expressions that are no JSONPath", () => {
+        assert.throws(() => evaluateJsonPath({}, "context.extensions"), /Invalid JSONPath/);
+    });
+});
+
+describe("createProfileValidator", () => {
+    test("accepts a statement satisfying its template", () => {
+        const validate = createProfileValidator(profile, "strict");
+        assert.deepEqual(validate(statement()), { errors: [], warnings: [] });
+    });
+
+    test("accepts every agent identifier and rejects none or several", () => {
+        const validate = createProfileValidator(profile, "off");
+        const actors = [
+            { mbox_sha1sum: "ebd31e95054c018b10727ccffd2ef2ec3a016ee9" },
+            { openid: "https://openid.example.org/learner" },
+            { account: { homePage: "https://lms.example.org", name: "learner" } },
+            { objectType: "Group", member: [{ mbox: "mailto:a@example.com" }] }
+        ];
+        actors.forEach(actor => assert.deepEqual(validate(statement({ actor })).errors, []));
+
+        const unidentified = [{ name: "Learner" }, { mbox: "mailto:a@example.com", openid: "https://openid.example.org/a" },
+            { account: { name: "learner" } }];
+        unidentified.forEach(actor => assert.equal(validate(statement({ actor })).errors[0].location, "$.actor"));
+    });
+
+    test("rejects statements every consumer would fail on in every mode", () => {
+        const validate = createProfileValidator(profile, "off");
+        const { errors } = validate(statement({
+            verb: { id: "http://adlnet.gov/expapi/verbs/voided" },
+            object: { id: "statement-id" },
+            timestamp: "yesterday",
+            result: { score: { raw: 12, max: 10 }, duration: "5 minutes" }
+        }));
+
+        assert.deepEqual(errors.map(error => error.location), [
+            "$.object.objectType", "$.timestamp", "$.result.score.raw", "$.result.duration"
+        ]);
+    });
+
+    test("reports template violations as errors in strict and as warnings in warn mode", () => {
+        const violating = statement({ result: {}, context: { extensions: { "https://example.org/forbidden": true } } });
+
+        const strict = createProfileValidator(profile, "strict")(violating);
+        assert.deepEqual(strict.errors.map(error => error.location), [
+            "$.result.score.scaled", "$.context.extensions['https://example.org/forbidden']"
+        ]);
+        assert.deepEqual(strict.warnings.map(warning => warning.location), ["$.result.duration"]);
+
+        const warn = createProfileValidator(profile, "warn")(violating);
+        assert.deepEqual(warn.errors, []);
+        assert.equal(warn.warnings.length, 3);
+    });
+
+    test("rejects activity types the profile does not allow for the verb", () => {
+        const validate = createProfileValidator(profile, "strict");
+        const { errors } = validate(statement({ object: { id: "https://example.org/video", definition: { type: "https://example.org/video" } } }));
+
+        assert.equal(errors.length, 1);
+        assert.equal(errors[0].location, "$.object.definition.type");
+    });
+
+    test("does not constrain verbs outside of the profile", () => {
+        const validate = createProfileValidator(profile, "strict");
+        assert.deepEqual(validate(statement({ verb: { id: "https://example.org/verbs/liked" }, result: undefined })).errors, []);
+    });
+
+    test("rejects unknown modes", () => {
+        assert.throws(() => createProfileValidator(profile, "lenient"), /Unknown validation mode/);
+    });
+});
+
+describe("validateStatements", () => {
+    test("validates each statement against the profile of its course", async () => {
+        const inCourse = statement({ result: {}, context: { extensions: { [COURSE_ID_EXTENSION]: "course" } } });
+        const reports = await validateStatements([inCourse, statement({ id: "other" })], new Map([["course", profile]]));
+
+        assert.deepEqual(reports.map(report => report.index), [0, 1]);
+        assert.equal(reports[1].id, "other");
+        assert.ok(reports[0].warnings.some(warning => warning.location === "$.result.score.scaled"));
+    });
+
+    test("summarizes each distinct warning with the number of statements", async () => {
+        const validate = createProfileValidator(profile, "warn");
+        const reports = [statement({ result: {} }), statement({ result: {} }), statement()].map(validate);
+
+        assert.deepEqual(summarizeWarnings(reports), [
+            { location: "$.result.score.scaled", message: "Required by template Scored assessment", count: 2 },
+            { location: "$.result.duration", message: "Recommended by template Scored assessment", count: 2 }
+        ]);
+    });
+});
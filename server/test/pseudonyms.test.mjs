@@ -0,0 +1,116 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { databases } from "./databases.mjs";
+import { listPseudonyms, recordPseudonyms, resolveIdentity } from "../db/pseudonyms.mjs";
+import { insertStatements } from "../db/statements.mjs";
+import { createPseudonymizer } from "../xapi/pseudonyms.mjs";
+
+const LEARNER = "mailto:learner@example.com";
+const OTHER = "mailto:other@example.com";
+
+const statement = () => ({
+    id: "statement",
+    actor: { objectType: "Agent", name: "Learner", mbox: LEARNER },
+    verb: { id: "http://adlnet.gov/expapi/verbs/answered" },
+    object: {
+        objectType: "SubStatement",
+        actor: { openid: "https://openid.example.org/peer" },
+        verb: { id: "http://adlnet.gov/expapi/verbs/attempted" },
+        object: { objectType: "Agent", account: { homePage: "https://lms.example.org", name: "tutor" } }
+    },
+    context: {
+        instructor: { name: "Instructor", mbox: OTHER, mbox_sha1sum: "ebd31e95054c018b10727ccffd2ef2ec3a016ee9" },
+        team: { objectType: "Group", member: [{ mbox: LEARNER }, { mbox: OTHER }] }
+    },
+    authority: { mbox: "mailto:lrs@example.com" }
+});
+
+// Every identity of the statement fixture, in the order statementIdentities lists them
+const IDENTITIES = [
+    LEARNER, "mailto:lrs@example.com", "https://openid.example.org/peer", "tutor", OTHER, LEARNER, OTHER
+];
+
+const ingestion = createPseudonymizer({ mode: "ingestion", salt: "salt" });
+const display = createPseudonymizer({ mode: "display", salt: "salt" });
+
+describe("createPseudonymizer", () => {
+    test("requires a salt and known options", () => {
+        assert.throws(() => createPseudonymizer({ mode: "display" }), /PSEUDONYM_SALT/);
+        assert.throws(() => createPseudonymizer({ mode: "hidden", salt: "salt" }), /Unknown pseudonymization mode/);
+        assert.throws(() => createPseudonymizer({ format: "emoji" }), /Unknown pseudonym format/);
+    });
+
+    test("derives stable pseudonyms keeping the shape of an mbox", () => {
+        const alias = createPseudonymizer({ mode: "display", format: "alias", salt: "salt" });
+
+        assert.equal(ingestion.pseudonym(LEARNER), ingestion.pseudonym("mailto:LEARNER@example.com"));
+        assert.match(ingestion.pseudonym(LEARNER), /^mailto:[0-9a-f]{16}@pseudonym\.invalid$/);
+        assert.match(alias.pseudonym(LEARNER), /^mailto:[a-z]+-[a-z]+-[0-9a-f]{4}@pseudonym\.invalid$/);
+        assert.notEqual(ingestion.pseudonym(LEARNER), createPseudonymizer({ mode: "ingestion", salt: "other" }).pseudonym(LEARNER));
+    });
+
+    test("leaves statements unchanged when off", () => {
+        const off = createPseudonymizer();
+        const original = statement();
+
+        assert.equal(off.storeStatement(original), original);
+        assert.equal(off.displayStatement(original), original);
+        assert.equal(off.stored(LEARNER), LEARNER);
+    });
+
+    test("pseudonymizes every agent of a statement on ingestion", () => {
+        const stored = ingestion.storeStatement(statement());
+        const text = JSON.stringify(stored);
+
+        assert.deepEqual(ingestion.statementIdentities(stored), IDENTITIES.map(ingestion.pseudonym));
+        ["learner@example.com", "other@example.com", "openid.example.org", "\"tutor\"", "Learner", "Instructor", "mbox_sha1sum"]
+            .forEach(identifying => assert.ok(!text.includes(identifying), `${identifying} is stored`));
+        assert.equal(stored.object.object.account.homePage, "https://lms.example.org");
+    });
+
+    test("keeps the own identity of a learner in display mode", () => {
+        const shown = display.displayStatement(statement(), LEARNER);
+
+        assert.deepEqual(shown.actor, statement().actor);
+        assert.deepEqual(shown.context.team.member, [{ mbox: LEARNER }, { mbox: display.pseudonym(OTHER) }]);
+        assert.deepEqual(shown.context.instructor, { mbox: display.pseudonym(OTHER) });
+        assert.equal(display.displayed(LEARNER, LEARNER), LEARNER);
+        assert.equal(display.displayed(OTHER, LEARNER), display.pseudonym(OTHER));
+    });
+
+    test("lists the identities of all agents and group members", () => {
+        assert.deepEqual(createPseudonymizer().statementIdentities(statement()), IDENTITIES);
+    });
+});
+
+databases.forEach(({ name, skip, open }) => describe(`pseudonyms on ${name}`, { skip }, () => {
+    test("recorded pseudonyms map back to their identity", async () => {
+        const { db, close } = await open();
+        try {
+            await recordPseudonyms(db, display, [LEARNER, LEARNER, OTHER]);
+
+            assert.equal(await resolveIdentity(db, display, display.pseudonym(LEARNER)), LEARNER);
+            assert.equal(await resolveIdentity(db, ingestion, LEARNER), LEARNER);
+            assert.deepEqual(await listPseudonyms(db, display, display.pseudonym(OTHER)), [
+                { pseudonym: display.pseudonym(OTHER), identity: OTHER }
+            ]);
+            assert.equal((await listPseudonyms(db, display)).length, 2);
+        } finally {
+            await close();
+        }
+    });
+
+    test("identities without recorded pseudonym match nothing", async () => {
+        const { db, close } = await open();
+        try {
+            await insertStatements(db, [statement()]);
+            await recordPseudonyms(db, display, [LEARNER]);
+
+            assert.equal(await resolveIdentity(db, display, display.pseudonym(OTHER)), null);
+            assert.equal(await resolveIdentity(db, display, LEARNER), null);
+            assert.deepEqual(await listPseudonyms(db, display), [{ pseudonym: display.pseudonym(LEARNER), identity: LEARNER }]);
+        } finally {
+            await close();
+        }
+    });
+}));
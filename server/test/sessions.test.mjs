@@ -0,0 +1,119 @@
+import { describe, test, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { databases } from "./databases.mjs";
+import { SessionInputError, findSessions, reconstructSessions, storeSessions } from "../db/sessions.mjs";
+import { insertStatements } from "../db/statements.mjs";
+import { SESSION_VERBS, reconstructLearnerSessions } from "../xapi/sessions.mjs";
+import { COURSE_ID_EXTENSION, VOIDED_VERB } from "../xapi/statements.mjs";
+
+const ANSWERED = "http://adlnet.gov/expapi/verbs/answered";
+
+let counter = 0;
+
+const statement = (verb, activity, time, { actor = { mbox: "mailto:a@example.com" }, parent } = {}) => ({
+    id: `statement-${++counter}`,
+    actor,
+    verb: { id: verb },
+    object: { id: parent ? `${activity}/question` : activity, definition: { name: { en: `Title of ${activity}` } } },
+    context: {
+        extensions: { [COURSE_ID_EXTENSION]: "course" },
+        ...(parent && { contextActivities: { parent: [{ id: activity }] } })
+    },
+    timestamp: `2024-05-01T${time}:00.000Z`
+});
+
+describe("reconstructLearnerSessions", () => {
+    test("groups activity visits separated by less than the gap into sessions", () => {
+        const sessions = reconstructLearnerSessions([
+            statement(SESSION_VERBS.launched, "video", "10:00"),
+            statement(SESSION_VERBS.completed, "video", "10:10"),
+            statement(SESSION_VERBS.exited, "video", "10:12"),
+            statement(SESSION_VERBS.launched, "quiz", "10:30"),
+            statement(ANSWERED, "quiz", "10:35", { parent: true }),
+            statement(SESSION_VERBS.launched, "video", "12:00")
+        ]);
+
+        assert.deepEqual(sessions.map(session => [session.startTime, session.endTime, session.totalDuration]), [
+            ["2024-05-01T10:00:00.000Z", "2024-05-01T10:35:00.000Z", 35],
+            ["2024-05-01T12:00:00.000Z", "2024-05-01T12:00:00.000Z", 0]
+        ]);
+        assert.deepEqual(sessions[0].activities.map(({ activityId, title, duration, completed, statements }) =>
+            ({ activityId, title, duration, completed, statements })), [
+            { activityId: "video", title: "Title of video", duration: 12, completed: true, statements: 3 },
+            { activityId: "quiz", title: "Title of quiz", duration: 5, completed: false, statements: 2 }
+        ]);
+    });
+
+    test("ignores statements outside of a visit", () => {
+        assert.deepEqual(reconstructLearnerSessions([statement(ANSWERED, "quiz", "10:00")]), []);
+    });
+
+    test("a repeated launch ends the open visit of the activity", () => {
+        const [session] = reconstructLearnerSessions([
+            statement(SESSION_VERBS.launched, "video", "10:00"),
+            statement(SESSION_VERBS.launched, "video", "10:05")
+        ]);
+
+        assert.equal(session.activities.length, 2);
+    });
+});
+
+databases.forEach(({ name, skip, open }) => describe(`sessions on ${name}`, { skip }, () => {
+    let db;
+    let close;
+
+    const session = (learner, startTime) => ({
+        learner,
+        startTime,
+        endTime: startTime,
+        totalDuration: 0,
+        activities: [{ activityId: "video", startTime, endTime: startTime }]
+    });
+
+    beforeEach(async () => {
+        ({ db, close } = await open());
+    });
+
+    afterEach(() => close());
+
+    test("a resent session replaces the stored one", async () => {
+        assert.equal(await storeSessions(db, "course", [session("a", "2024-05-01T10:00:00.000Z")], "generated"), 1);
+        assert.equal(await storeSessions(db, "course", [
+            { ...session("a", "2024-05-01T10:00:00.000Z"), totalDuration: 5 },
+            session("a", "2024-05-02T10:00:00.000Z")
+        ], "generated"), 1);
+
+        const stored = await findSessions(db, { courseId: "course" });
+        assert.deepEqual(stored.map(({ startTime, totalDuration }) => [startTime, totalDuration]), [
+            ["2024-05-01T10:00:00.000Z", 5], ["2024-05-02T10:00:00.000Z", 0]
+        ]);
+        assert.equal((await findSessions(db, { from: "2024-05-02" })).length, 1);
+    });
+
+    test("invalid sessions and time bounds are rejected", async () => {
+        await assert.rejects(storeSessions(db, "course", [{ ...session("a", "yesterday") }], "generated"), SessionInputError);
+        await assert.rejects(storeSessions(db, "course", [], "imported"), SessionInputError);
+        await assert.rejects(findSessions(db, { to: "tomorrow" }), SessionInputError);
+    });
+
+    test("reconstruction skips voided statements and learners with generated sessions", async () => {
+        const voided = statement(SESSION_VERBS.launched, "quiz", "09:00");
+        await insertStatements(db, [
+            voided,
+            { ...statement(VOIDED_VERB, "voided", "09:30"), object: { objectType: "StatementRef", id: voided.id } },
+            statement(SESSION_VERBS.launched, "video", "10:00"),
+            statement(SESSION_VERBS.exited, "video", "10:20"),
+            statement(SESSION_VERBS.launched, "video", "10:00", { actor: { mbox: "mailto:b@example.com" } })
+        ]);
+        await storeSessions(db, "course", [session("mailto:b@example.com", "2024-05-01T08:00:00.000Z")], "generated");
+
+        assert.deepEqual(await reconstructSessions(db, "course"), { learners: 1, sessions: 1 });
+        // Reconstructing again replaces the reconstructed sessions
+        assert.deepEqual(await reconstructSessions(db, "course"), { learners: 1, sessions: 1 });
+
+        const [reconstructed] = await findSessions(db, { source: "reconstructed" });
+        assert.equal(reconstructed.learner, "mailto:a@example.com");
+        assert.equal(reconstructed.startTime, "2024-05-01T10:00:00.000Z");
+        assert.equal(reconstructed.totalDuration, 20);
+    });
+}));
@@ -0,0 +1,201 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { ObjectId } from "mongodb";
+import { databases } from "./databases.mjs";
+import {
+    COURSE_ID_EXTENSION, EXTERNAL_ID_EXTENSION, MAX_PAGE_SIZE, StatementQueryError,
+    agentKey, formatStatement, isSameStatement, normalizeStatement, parseSingleStatementQuery, parseStatementQuery
+} from "../xapi/statements.mjs";
+
+const AGENT = JSON.stringify({ mbox: "mailto:a@example.com" });
+const ACCOUNT = { homePage: "https://lms.example.org", name: "b" };
+
+describe("parseStatementQuery", () => {
+    test("translates the filters into query conditions", () => {
+        const { conditions } = parseStatementQuery({
+            agent: AGENT,
+            verb: "http://adlnet.gov/expapi/verbs/launched",
+            activity: "https://example.org/video",
+            registration: "registration",
+            since: "2024-05-01T10:00:00Z",
+            until: "2024-05-02T10:00:00+02:00"
+        });
+
+        assert.deepEqual(conditions, [
+            { 'actor.mbox': "mailto:a@example.com" },
+            { 'verb.id': "http://adlnet.gov/expapi/verbs/launched" },
+            { 'object.id': "https://example.org/video" },
+            { 'context.registration': "registration" },
+            { stored: { $gt: "2024-05-01T10:00:00.000Z" } },
+            { stored: { $lte: "2024-05-02T08:00:00.000Z" } }
+        ]);
+    });
+
+    test("related agents and activities widen the filters", () => {
+        const { conditions } = parseStatementQuery({
+            agent: AGENT, related_agents: "true", activity: "https://example.org/video", related_activities: "true"
+        });
+
+        assert.ok(conditions[0].$or.some(condition => condition["context.instructor.mbox"] === "mailto:a@example.com"));
+        assert.ok(conditions[1].$or.some(condition => condition["context.contextActivities.parent.id"] === "https://example.org/video"));
+    });
+
+    test("agents are matched by any of their identifiers", () => {
+        assert.deepEqual(parseStatementQuery({ agent: JSON.stringify({ account: ACCOUNT }) }).conditions, [
+            { 'actor.account.homePage': ACCOUNT.homePage, 'actor.account.name': ACCOUNT.name }
+        ]);
+        assert.throws(() => parseStatementQuery({ agent: JSON.stringify({ name: "Learner" }) }), StatementQueryError);
+    });
+
+    test("the cursor continues after the last statement in the sort direction", () => {
+        const cursor = new ObjectId();
+
+        assert.deepEqual(parseStatementQuery({ cursor: cursor.toString() }).conditions, [{ _id: { $lt: cursor } }]);
+        assert.deepEqual(parseStatementQuery({ cursor: cursor.toString(), ascending: "true" }).conditions, [{ _id: { $gt: cursor } }]);
+    });
+
+    test("caps the page size", () => {
+        assert.equal(parseStatementQuery({}).limit, MAX_PAGE_SIZE);
+        assert.equal(parseStatementQuery({ limit: "10" }).limit, 10);
+        assert.equal(parseStatementQuery({ limit: "0" }).limit, MAX_PAGE_SIZE);
+        assert.equal(parseStatementQuery({ limit: String(MAX_PAGE_SIZE + 1) }).limit, MAX_PAGE_SIZE);
+    });
+
+    test("rejects malformed parameters", () => {
+        const malformed = [
+            { agent: "a@example.com" },
+            { agent: JSON.stringify({ name: "Learner" }) },
+            { ascending: "yes" },
+            { since: "yesterday" },
+            { limit: "-1" },
+            { cursor: "last" },
+            { format: "full" },
+            { unknown: "value" }
+        ];
+        malformed.forEach(parameters => assert.throws(() => parseStatementQuery(parameters), StatementQueryError));
+    });
+});
+
+databases.forEach(({ name, skip, open }) => describe(`statement queries on ${name}`, { skip }, () => {
+    const statements = [
+        {
+            id: "a1",
+            actor: { mbox: "mailto:a@example.com" },
+            verb: { id: "http://adlnet.gov/expapi/verbs/launched" },
+            object: { id: "https://example.org/video", definition: { extensions: { [EXTERNAL_ID_EXTENSION]: "video" } } },
+            context: { extensions: { [COURSE_ID_EXTENSION]: "course" } },
+            timestamp: "2024-05-01T10:00:00.000Z"
+        },
+        {
+            id: "a2",
+            actor: { mbox: "mailto:a@example.com" },
+            verb: { id: "http://adlnet.gov/expapi/verbs/answered" },
+            object: { id: "https://example.org/video/question" },
+            context: {
+                contextActivities: { parent: [{ id: "https://example.org/video" }] },
+                instructor: { account: ACCOUNT },
+                extensions: { [COURSE_ID_EXTENSION]: "course" }
+            },
+            timestamp: "2024-05-02T10:00:00.000Z"
+        },
+        {
+            id: "b1",
+            actor: { account: ACCOUNT },
+            verb: { id: "http://adlnet.gov/expapi/verbs/launched" },
+            object: { id: "https://example.org/quiz" },
+            context: { extensions: { [COURSE_ID_EXTENSION]: "other" } },
+            timestamp: "2024-05-03T10:00:00.000Z"
+        }
+    ];
+
+    /**
+     * Runs a statement query like the Statements resource does and returns the ids of the result
+     */
+    const query = async (parameters) => {
+        const { db, close } = await open();
+        try {
+            const collection = db.collection("xapi_statements");
+            await collection.insertMany(statements.map(statement => ({ ...statement })));
+            const { conditions, limit, ascending } = parseStatementQuery(parameters);
+            const found = await collection.find(conditions.length > 0 ? { $and: conditions } : {})
+                .sort({ _id: ascending ? 1 : -1 })
+                .limit(limit)
+                .toArray();
+            return found.map(statement => statement.id);
+        } finally {
+            await close();
+        }
+    };
+
+    test("return the newest statements first unless ascending", async () => {
+        assert.deepEqual(await query({}), ["b1", "a2", "a1"]);
+        assert.deepEqual(await query({ ascending: "true", limit: "2" }), ["a1", "a2"]);
+    });
+
+    test("filter by agent, verb and activity", async () => {
+        const agent = JSON.stringify({ account: ACCOUNT });
+        assert.deepEqual(await query({ agent: AGENT }), ["a2", "a1"]);
+        assert.deepEqual(await query({ agent }), ["b1"]);
+        assert.deepEqual(await query({ agent, related_agents: "true" }), ["b1", "a2"]);
+        assert.deepEqual(await query({ verb: "http://adlnet.gov/expapi/verbs/launched" }), ["b1", "a1"]);
+        assert.deepEqual(await query({ activity: "https://example.org/video", related_activities: "true" }), ["a2", "a1"]);
+    });
+
+    test("filter by course, external id and timestamp", async () => {
+        assert.deepEqual(await query({ courseId: "course" }), ["a2", "a1"]);
+        assert.deepEqual(await query({ externalId: "video" }), ["a1"]);
+        assert.deepEqual(await query({ from: "2024-05-02T00:00:00.000Z", to: "2024-05-03T00:00:00.000Z" }), ["a2"]);
+    });
+}));
+
+describe("parseSingleStatementQuery", () => {
+    test("reads the requested statement and the voided variant", () => {
+        assert.deepEqual(parseSingleStatementQuery({ voidedStatementId: "s" }), { id: "s", voided: true, format: "exact" });
+        assert.throws(() => parseSingleStatementQuery({ statementId: "s", voidedStatementId: "s" }), StatementQueryError);
+        assert.throws(() => parseSingleStatementQuery({ statementId: "s", verb: "v" }), StatementQueryError);
+    });
+});
+
+describe("statements", () => {
+    test("agentKey identifies agents by their identifier", () => {
+        assert.equal(agentKey({ mbox: "mailto:a@example.com" }), "mailto:a@example.com");
+        assert.equal(agentKey({ mbox_sha1sum: "ebd31e95" }), "sha1:ebd31e95");
+        assert.equal(agentKey({ account: ACCOUNT }), "account:b@https://lms.example.org");
+        assert.equal(agentKey({ name: "Learner" }), null);
+    });
+
+    test("normalizing sets the properties the client left out", () => {
+        const normalized = normalizeStatement({ actor: { mbox: "mailto:a@example.com" } }, "2024-05-01T10:00:00.000Z");
+
+        assert.match(normalized.id, /^[0-9a-f-]{36}$/);
+        assert.equal(normalized.timestamp, "2024-05-01T10:00:00.000Z");
+        assert.equal(normalized.stored, "2024-05-01T10:00:00.000Z");
+        assert.equal(normalized.version, "1.0.0");
+        assert.equal(normalizeStatement({ id: "s", timestamp: "2024-04-01T10:00:00.000Z" }, "now").timestamp, "2024-04-01T10:00:00.000Z");
+    });
+
+    test("the ids format reduces actor, verb and object to their identifiers", () => {
+        const formatted = formatStatement({
+            _id: new ObjectId(),
+            id: "s",
+            actor: { name: "A", mbox: "mailto:a@example.com" },
+            verb: { id: "http://adlnet.gov/expapi/verbs/answered", display: { en: "answered" } },
+            object: { id: "https://example.org/question", definition: { name: { en: "Question" } } }
+        }, "ids");
+
+        assert.equal(formatted._id, undefined);
+        assert.deepEqual(formatted.actor, { mbox: "mailto:a@example.com" });
+        assert.deepEqual(formatted.verb, { id: "http://adlnet.gov/expapi/verbs/answered" });
+        assert.equal(formatted.object.id, "https://example.org/question");
+        assert.equal(formatted.object.definition, undefined);
+    });
+
+    test("a resent statement is the same regardless of the properties the LRS set", () => {
+        const sent = { actor: { mbox: "mailto:a@example.com" }, verb: { id: "v" }, object: { id: "o" } };
+        const stored = { _id: new ObjectId(), ...normalizeStatement({ ...sent, id: "s" }, "2024-05-01T10:00:00.000Z"), authority: {} };
+
+        assert.equal(isSameStatement(stored, { ...sent, id: "s" }), true);
+        assert.equal(isSameStatement(stored, { ...sent, id: "s", timestamp: "2024-05-02T10:00:00.000Z" }), false);
+        assert.equal(isSameStatement(stored, { ...sent, id: "s", object: { id: "other" } }), false);
+    });
+});
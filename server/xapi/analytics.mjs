@@ -0,0 +1,256 @@
+import { VOIDED_VERB, EXTERNAL_ID_EXTENSION, courseCondition, agentKeyExpression } from "./statements.mjs";
+
+export const VERBS = {
+    scored: "http://adlnet.gov/expapi/verbs/scored",
+    passed: "http://adlnet.gov/expapi/verbs/passed",
+    failed: "http://adlnet.gov/expapi/verbs/failed",
+    completed: "http://adlnet.gov/expapi/verbs/completed"
+};
+
+const isVerb = (verbId) => ({ $eq: ["$verb.id", verbId] });
+
+const isScored = { $and: [isVerb(VERBS.scored), { $isNumber: "$result.score.scaled" }] };
+
+const isCompleted = { $or: [isVerb(VERBS.completed), { $eq: ["$result.completion", true] }] };
+
+/**
+ * Minutes of an ISO 8601 PT duration, computed like ParseDuration in the client:
+ * hours * 60 + minutes + seconds rounded up to full minutes
+ */
+const durationMinutes = {
+    $cond: [
+        { $eq: [{ $type: "$result.duration" }, "string"] },
+        {
+            $let: {
+                vars: {
+                    parts: { $regexFind: { input: "$result.duration", regex: "^PT(?:(\\d+)H)?(?:(\\d+)M)?(?:(\\d+)S)?" } }
+                },
+                in: {
+                    $cond: [
+                        { $eq: ["$$parts", null] },
+                        0,
+                        {
+                            $add: [
+                                { $multiply: [{ $toInt: { $ifNull: [{ $arrayElemAt: ["$$parts.captures", 0] }, "0"] } }, 60] },
+                                { $toInt: { $ifNull: [{ $arrayElemAt: ["$$parts.captures", 1] }, "0"] } },
+                                { $ceil: { $divide: [{ $toInt: { $ifNull: [{ $arrayElemAt: ["$$parts.captures", 2] }, "0"] } }, 60] } }
+                            ]
+                        }
+                    ]
+                }
+            }
+        },
+        0
+    ]
+};
+
+/**
+ * Accumulators shared by all metric groupings
+ */
+const metricAccumulators = {
+    statements: { $sum: 1 },
+    averageScore: { $avg: { $cond: [isScored, { $multiply: ["$result.score.scaled", 100] }, null] } },
+    passed: { $sum: { $cond: [isVerb(VERBS.passed), 1, 0] } },
+    failed: { $sum: { $cond: [isVerb(VERBS.failed), 1, 0] } },
+    totalDuration: { $sum: durationMinutes }
+};
+
+/**
+ * Builds the $match stage every analytics pipeline starts with
+ * Voided statements, flagged by the statement repository, and voiding statements are excluded from all metrics
+ * @param filter - Optional course and from/to ISO timestamps the metrics are restricted to
+ * @returns MongoDB $match stage
+ */
+export function baseMatch({ courseId, from, to } = {}) {
+    return {
+        $match: {
+            voided: { $ne: true },
+            'verb.id': { $ne: VOIDED_VERB },
+            ...(courseId && courseCondition(courseId)),
+            ...((from || to) && {
+                timestamp: {
+                    ...(from && { $gte: new Date(from).toISOString() }),
+                    ...(to && { $lt: new Date(to).toISOString() })
+                }
+            })
+        }
+    };
+}
+
+/**
+ * Adds the external activity id as a top level field, the dotted extension key
+ * cannot be addressed with a field path directly
+ */
+const addActivityId = {
+    $addFields: {
+        activityId: {
+            $getField: {
+                field: { $literal: EXTERNAL_ID_EXTENSION },
+                input: { $ifNull: ["$object.definition.extensions", {}] }
+            }
+        }
+    }
+};
+
+/**
+ * Adds the learner as a top level field, actors are identified by mbox, mbox_sha1sum, openid or account
+ */
+const addLearner = {
+    $addFields: {
+        learner: agentKeyExpression("actor")
+    }
+};
+
+/**
+ * Metrics per learner (actor identifier, see agentKey)
+ * @param match - Base $match stage
+ * @returns Aggregation pipeline
+ */
+export function learnerMetricsPipeline(match) {
+    return [
+        match,
+        addActivityId,
+        addLearner,
+        {
+            $group: {
+                _id: "$learner",
+                ...metricAccumulators,
+                completed: { $addToSet: { $cond: [isCompleted, "$activityId", null] } }
+            }
+        },
+        {
+            $project: {
+                _id: 0,
+                learner: "$_id",
+                statements: 1,
+                averageScore: 1,
+                passed: 1,
+                failed: 1,
+                attempts: { $add: ["$passed", "$failed"] },
+                totalDuration: 1,
+                completedActivities: { $size: { $setDifference: ["$completed", [null]] } }
+            }
+        },
+        { $sort: { learner: 1 } }
+    ];
+}
+
+/**
+ * Metrics per activity (LMS external id extension)
+ * @param match - Base $match stage
+ * @returns Aggregation pipeline
+ */
+export function activityMetricsPipeline(match) {
+    return [
+        match,
+        addActivityId,
+        addLearner,
+        { $match: { activityId: { $ne: null } } },
+        {
+            $group: {
+                _id: "$activityId",
+                ...metricAccumulators,
+                learners: { $addToSet: "$learner" },
+                scores: { $push: { $cond: [isScored, "$result.score.raw", null] } },
+                completedBy: { $addToSet: { $cond: [isCompleted, "$learner", null] } }
+            }
+        },
+        {
+            $project: {
+                _id: 0,
+                activityId: "$_id",
+                statements: 1,
+                learners: { $size: "$learners" },
+                averageScore: 1,
+                scores: { $filter: { input: "$scores", cond: { $isNumber: "$$this" } } },
+                passed: 1,
+                failed: 1,
+                attempts: { $add: ["$passed", "$failed"] },
+                totalDuration: 1,
+                completions: { $size: { $setDifference: ["$completedBy", [null]] } }
+            }
+        },
+        { $sort: { activityId: 1 } }
+    ];
+}
+
+/**
+ * Metrics per course section, sections are passed in since the course structure lives in the client
+ * @param match - Base $match stage
+ * @param sections - Array of { title, activityIds }
+ * @returns Aggregation pipeline
+ */
+export function sectionMetricsPipeline(match, sections) {
+    return [
+        match,
+        addActivityId,
+        addLearner,
+        {
+            $addFields: {
+                section: {
+                    $switch: {
+                        branches: sections.map(section => ({
+                            case: { $in: ["$activityId", section.activityIds] },
+                            then: section.title
+                        })),
+                        default: null
+                    }
+                }
+            }
+        },
+        { $match: { section: { $ne: null } } },
+        {
+            $group: {
+                _id: "$section",
+                ...metricAccumulators,
+                learners: { $addToSet: "$learner" },
+                completed: { $addToSet: { $cond: [isCompleted, { learner: "$learner", activity: "$activityId" }, null] } }
+            }
+        },
+        {
+            $project: {
+                _id: 0,
+                section: "$_id",
+                statements: 1,
+                learners: { $size: "$learners" },
+                averageScore: 1,
+                passed: 1,
+                failed: 1,
+                attempts: { $add: ["$passed", "$failed"] },
+                totalDuration: 1,
+                completions: { $size: { $setDifference: ["$completed", [null]] } }
+            }
+        }
+    ];
+}
+
+/**
+ * Course wide totals and verb usage
+ * @param match - Base $match stage
+ * @returns Aggregation pipeline producing a single document
+ */
+export function overviewPipeline(match) {
+    return [
+        match,
+        addLearner,
+        {
+            $facet: {
+                totals: [
+                    { $group: { _id: null, statements: { $sum: 1 }, learners: { $addToSet: "$learner" } } }
+                ],
+                verbs: [
+                    { $group: { _id: "$verb.id", count: { $sum: 1 } } },
+                    { $project: { _id: 0, verb: "$_id", count: 1 } },
+                    { $sort: { count: -1 } }
+                ]
+            }
+        },
+        {
+            $project: {
+                totalStatements: { $ifNull: [{ $arrayElemAt: ["$totals.statements", 0] }, 0] },
+                learners: { $size: { $ifNull: [{ $arrayElemAt: ["$totals.learners", 0] }, []] } },
+                verbUsage: "$verbs"
+            }
+        }
+    ];
+}
@@ -0,0 +1,77 @@
+import { randomUUID } from "crypto";
+import { VOIDED_VERB, COURSE_ID_EXTENSION, statementCourseId } from "./statements.mjs";
+import { VERBS } from "./analytics.mjs";
+
+export const CORRECTION_ACTIONS = ["void", "correct"];
+
+// Dashboard users without email are identified by an mbox of this domain
+const USER_DOMAIN = "users.analytics-dashboard.invalid";
+
+/**
+ * Agent of a dashboard user voiding or correcting statements
+ * @param user - Authenticated user of the request
+ * @returns xAPI Agent identified by a mailto: IRI
+ */
+export function userAgent(user) {
+    const email = user.email || `${user.username}@${USER_DOMAIN}`;
+    return {
+        objectType: "Agent",
+        name: user.username,
+        mbox: email.startsWith("mailto:") ? email : `mailto:${email}`
+    };
+}
+
+/**
+ * Builds the statement voiding a stored statement
+ * The course context is kept, so the voiding statement is listed and removed together with the course
+ * @param statement - Statement to void
+ * @param user - User voiding the statement
+ * @param stored - ISO timestamp of the voiding
+ * @returns Voiding statement
+ */
+export function buildVoidingStatement(statement, user, stored) {
+    const courseId = statementCourseId(statement);
+    return {
+        id: randomUUID(),
+        actor: userAgent(user),
+        verb: { id: VOIDED_VERB, display: { en: "voided" } },
+        object: { objectType: "StatementRef", id: statement.id },
+        ...(courseId && { context: { extensions: { [COURSE_ID_EXTENSION]: courseId } } }),
+        timestamp: stored,
+        stored,
+        version: statement.version || "1.0.0"
+    };
+}
+
+/**
+ * Builds the statement replacing a voided statement with a corrected result
+ * Everything but the result is kept, including the timestamp of the attempt. The replaced statement is
+ * referenced as context statement. Passed and failed statements change their verb with the success.
+ * @param statement - Statement being corrected
+ * @param correction - New score properties and success
+ * @param stored - ISO timestamp of the correction
+ * @returns Corrected statement with a new id
+ */
+export function buildCorrectedStatement(statement, { score, success }, stored) {
+    const { _id, ...content } = statement;
+    const result = {
+        ...statement.result,
+        ...(score && { score: { ...statement.result?.score, ...score } }),
+        ...(success !== undefined && { success })
+    };
+
+    const outcomeVerb = [VERBS.passed, VERBS.failed].includes(statement.verb?.id) && success !== undefined
+        ? success ? VERBS.passed : VERBS.failed
+        : statement.verb?.id;
+
+    return {
+        ...content,
+        id: randomUUID(),
+        verb: outcomeVerb === statement.verb?.id
+            ? statement.verb
+            : { ...statement.verb, id: outcomeVerb, display: { en: success ? "passed" : "failed" } },
+        result,
+        context: { ...statement.context, statement: { objectType: "StatementRef", id: statement.id } },
+        stored
+    };
+}
@@ -0,0 +1,293 @@
+import { readFile } from "fs/promises";
+import { fileURLToPath } from "url";
+import { VOIDED_VERB, AGENT_IDENTIFIERS, agentIdentifiers, isIdentifiedAgent, statementCourseId } from "./statements.mjs";
+
+// Profile of statements without course or of courses imported without profile, the profile the client bundles
+const DEFAULT_PROFILE_PATH = fileURLToPath(new URL("../../clientapp/src/data/files/xapi_profiles.json", import.meta.url));
+
+// strict: profile violations reject a statement, warn: they are reported only, off: profile is ignored
+const VALIDATION_MODES = ["strict", "warn", "off"];
+
+// Warn by default, the generated and imported statements do not follow every recommendation of the profile
+const validationMode = () => process.env.XAPI_PROFILE_VALIDATION || "warn";
+
+const ISO_8601_DURATION = /^P(?!$)(\d+(\.\d+)?Y)?(\d+(\.\d+)?M)?(\d+(\.\d+)?W)?(\d+(\.\d+)?D)?(T(?=\d)(\d+(\.\d+)?H)?(\d+(\.\d+)?M)?(\d+(\.\d+)?S)?)?$/;
+
+/**
+ * Splits a JSONPath expression like $.context.extensions['https://...'] into its segments
+ * Supports dot notation, quoted bracket notation, array indexes and the [*] wildcard
+ * @param path - JSONPath expression starting with $
+ * @returns Array of property names, indexes or '*'
+ */
+function parseJsonPath(path) {
+    if (!path.startsWith("$")) {
+        throw new Error(`Invalid JSONPath: ${path}`);
+    }
+
+    const segments = [];
+    const pattern = /\.([^.[\]]+)|\[\s*'([^']*)'\s*\]|\[\s*"([^"]*)"\s*\]|\[\s*(\d+|\*)\s*\]/g;
+    let position = 1;
+    let match;
+
+    while ((match = pattern.exec(path)) !== null) {
+        if (match.index !== position) {
+            throw new Error(`Invalid JSONPath: ${path}`);
+        }
+        segments.push(match[1] ?? match[2] ?? match[3] ?? match[4]);
+        position = pattern.lastIndex;
+    }
+
+    if (position !== path.length) {
+        throw new Error(`Invalid JSONPath: ${path}`);
+    }
+
+    return segments;
+}
+
+/**
+ * Evaluates a JSONPath expression against a document
+ * @param document - Object to search
+ * @param path - JSONPath expression
+ * @returns All values found at the location, missing values are omitted
+ */
+export function evaluateJsonPath(document, path) {
+    let current = [document];
+
+    for (const segment of parseJsonPath(path)) {
+        const next = [];
+        current.forEach(value => {
+            if (value === null || typeof value !== "object") return;
+            if (segment === "*") {
+                next.push(...Object.values(value));
+            } else if (value[segment] !== undefined) {
+                next.push(value[segment]);
+            }
+        });
+        current = next;
+    }
+
+    return current.filter(value => value !== null && value !== undefined);
+}
+
+/**
+ * Checks the parts of a statement every consumer relies on, independent of any profile
+ * @param statement - Statement to check
+ * @returns Array of error messages with their location
+ */
+function validateStructure(statement) {
+    const errors = [];
+
+    // Anonymous groups are identified by their members instead
+    const actor = statement.actor;
+    const anonymousGroup = actor?.objectType === "Group" && agentIdentifiers(actor).length === 0;
+    if (anonymousGroup) {
+        if (!Array.isArray(actor.member) || actor.member.length === 0 || !actor.member.every(isIdentifiedAgent)) {
+            errors.push({ location: "$.actor.member", message: 'Members of an anonymous group must be identified agents' });
+        }
+    } else if (!isIdentifiedAgent(actor)) {
+        errors.push({ location: "$.actor", message: `Actor must be identified by exactly one of ${AGENT_IDENTIFIERS.join(', ')}` });
+    }
+    if (!statement.verb || typeof statement.verb.id !== "string") {
+        errors.push({ location: "$.verb.id", message: 'Verb id is required' });
+    }
+    if (!statement.object || typeof statement.object.id !== "string") {
+        errors.push({ location: "$.object.id", message: 'Object id is required' });
+    }
+    if (statement.verb?.id === VOIDED_VERB && statement.object?.objectType !== "StatementRef") {
+        errors.push({ location: "$.object.objectType", message: 'Voiding statements must reference the voided statement by StatementRef' });
+    }
+    if (statement.timestamp !== undefined && isNaN(new Date(statement.timestamp).getTime())) {
+        errors.push({ location: "$.timestamp", message: 'Timestamp must be an ISO 8601 date' });
+    }
+
+    const score = statement.result?.score;
+    if (score) {
+        ["raw", "min", "max", "scaled"].forEach(key => {
+            if (score[key] !== undefined && (typeof score[key] !== "number" || !isFinite(score[key]))) {
+                errors.push({ location: `$.result.score.${key}`, message: `Score ${key} must be a number` });
+            }
+        });
+
+        if (typeof score.min === "number" && typeof score.max === "number" && score.min > score.max) {
+            errors.push({ location: "$.result.score", message: `Score min ${score.min} is greater than max ${score.max}` });
+        }
+        if (typeof score.raw === "number") {
+            if (typeof score.min === "number" && score.raw < score.min) {
+                errors.push({ location: "$.result.score.raw", message: `Score raw ${score.raw} is below min ${score.min}` });
+            }
+            if (typeof score.max === "number" && score.raw > score.max) {
+                errors.push({ location: "$.result.score.raw", message: `Score raw ${score.raw} is above max ${score.max}` });
+            }
+        }
+        if (typeof score.scaled === "number" && (score.scaled < -1 || score.scaled > 1)) {
+            errors.push({ location: "$.result.score.scaled", message: `Score scaled ${score.scaled} is outside [-1, 1]` });
+        }
+    }
+
+    const duration = statement.result?.duration;
+    if (duration !== undefined && (typeof duration !== "string" || !ISO_8601_DURATION.test(duration))) {
+        errors.push({ location: "$.result.duration", message: `Duration ${duration} is not an ISO 8601 duration` });
+    }
+
+    return errors;
+}
+
+/**
+ * Creates a validator for the statement templates of an xAPI profile
+ * @param profile - Parsed xAPI profile document
+ * @param mode - strict, warn or off
+ * @returns Function validating a single statement
+ */
+export function createProfileValidator(profile, mode = "warn") {
+    if (!VALIDATION_MODES.includes(mode)) {
+        throw new Error(`Unknown validation mode: ${mode}`);
+    }
+
+    const templates = profile.templates || [];
+
+    // Verb to allowed activity types, taken from the templates like CourseDataGenerator does
+    const verbToActivityTypes = new Map();
+    templates.forEach(template => {
+        if (!verbToActivityTypes.has(template.verb)) {
+            verbToActivityTypes.set(template.verb, new Set());
+        }
+        verbToActivityTypes.get(template.verb).add(template.objectActivityType);
+    });
+
+    /**
+     * Checks the rules of a template against a statement
+     * @returns Violations of included/excluded rules and missing recommended locations
+     */
+    const checkTemplate = (template, statement) => {
+        const violations = [];
+        const recommendations = [];
+
+        (template.rules || []).forEach(rule => {
+            const present = evaluateJsonPath(statement, rule.location).length > 0;
+            if (rule.presence === "included" && !present) {
+                violations.push({ location: rule.location, message: `Required by template ${template.prefLabel.en}` });
+            } else if (rule.presence === "excluded" && present) {
+                violations.push({ location: rule.location, message: `Not allowed by template ${template.prefLabel.en}` });
+            } else if (rule.presence === "recommended" && !present) {
+                recommendations.push({ location: rule.location, message: `Recommended by template ${template.prefLabel.en}` });
+            }
+        });
+
+        return { violations, recommendations };
+    };
+
+    /**
+     * Checks a statement against the profile templates sharing its verb
+     * @returns Profile violations and recommendations
+     */
+    const checkProfile = (statement) => {
+        const verbId = statement.verb?.id;
+        const allowedTypes = verbToActivityTypes.get(verbId);
+
+        // Verbs outside of the profile are not constrained
+        if (!allowedTypes) {
+            return { violations: [], recommendations: [] };
+        }
+
+        const activityType = statement.object?.definition?.type;
+        if (!allowedTypes.has(activityType)) {
+            return {
+                violations: [{
+                    location: "$.object.definition.type",
+                    message: `Activity type ${activityType} is not allowed for verb ${verbId}, expected ${Array.from(allowedTypes).join(' or ')}`
+                }],
+                recommendations: []
+            };
+        }
+
+        // A statement conforms if it satisfies one of the matching templates, otherwise report the closest one
+        const results = templates
+            .filter(template => template.verb === verbId && template.objectActivityType === activityType)
+            .map(template => checkTemplate(template, statement))
+            .sort((a, b) => a.violations.length - b.violations.length);
+
+        return results[0];
+    };
+
+    /**
+     * Validates a statement
+     * @param statement - Statement to validate
+     * @returns Errors rejecting the statement and warnings that are only reported
+     */
+    return (statement) => {
+        const errors = validateStructure(statement);
+        const warnings = [];
+
+        if (mode !== "off") {
+            const { violations, recommendations } = checkProfile(statement);
+            if (mode === "strict") {
+                errors.push(...violations);
+            } else {
+                warnings.push(...violations);
+            }
+            warnings.push(...recommendations);
+        }
+
+        return { errors, warnings };
+    };
+}
+
+let validatorPromise = null;
+
+/**
+ * Loads the default xAPI profile once and returns its validator
+ * Profile path and mode are read from XAPI_PROFILE_PATH and XAPI_PROFILE_VALIDATION
+ * @returns Promise resolving to the statement validator
+ */
+export function getProfileValidator() {
+    if (!validatorPromise) {
+        const path = process.env.XAPI_PROFILE_PATH || DEFAULT_PROFILE_PATH;
+
+        validatorPromise = readFile(path, "utf8")
+            .then(content => createProfileValidator(JSON.parse(content), validationMode()))
+            .catch(error => {
+                validatorPromise = null;
+                throw error;
+            });
+    }
+    return validatorPromise;
+}
+
+/**
+ * Summarizes the warnings of validation reports, each distinct warning once
+ * @param reports - Reports of validateStatements
+ * @returns Array of { location, message, count } with the number of statements it applies to
+ */
+export function summarizeWarnings(reports) {
+    const summary = new Map();
+    reports.forEach(report => report.warnings.forEach(({ location, message }) => {
+        const key = `${location} ${message}`;
+        if (!summary.has(key)) {
+            summary.set(key, { location, message, count: 0 });
+        }
+        summary.get(key).count++;
+    }));
+    return Array.from(summary.values());
+}
+
+/**
+ * Validates a batch of statements, each against the profile imported with its course
+ * Statements without course or of courses without profile are validated against the default profile
+ * @param statements - Normalized statements
+ * @param courseProfiles - Map of course id to the xAPI profile of the course, see findCourseProfiles
+ * @returns One report per statement with index, id, errors and warnings
+ */
+export async function validateStatements(statements, courseProfiles = new Map()) {
+    const defaultValidator = await getProfileValidator();
+    const courseValidators = new Map(Array.from(courseProfiles, ([courseId, profile]) =>
+        [courseId, createProfileValidator(profile, validationMode())]));
+
+    return statements.map((statement, index) => {
+        const validate = courseValidators.get(statementCourseId(statement)) || defaultValidator;
+        return {
+            index,
+            id: statement.id,
+            ...validate(statement)
+        };
+    });
+}
@@ -0,0 +1,169 @@
+import { createHmac } from "crypto";
+
+// off: identities are stored and shown as sent, display: stored as sent but pseudonymized in every response,
+// ingestion: pseudonymized before they are stored
+export const PSEUDONYMIZATION_MODES = ["off", "display", "ingestion"];
+
+// hash: hex digest, alias: readable adjective-animal name
+export const PSEUDONYM_FORMATS = ["hash", "alias"];
+
+const PSEUDONYM_DOMAIN = "pseudonym.invalid";
+
+const ADJECTIVES = [
+    "amber", "brave", "calm", "clever", "eager", "gentle", "happy", "jolly",
+    "keen", "lively", "mellow", "nimble", "proud", "quiet", "swift", "witty"
+];
+
+const ANIMALS = [
+    "badger", "beaver", "crane", "falcon", "fox", "heron", "koala", "lynx",
+    "marten", "otter", "owl", "panda", "raven", "seal", "tiger", "wolf"
+];
+
+/**
+ * Creates the pseudonymization layer for learner identities
+ * Pseudonyms are salted HMACs, so the same identity always gets the same pseudonym
+ * @param options - mode (off, display or ingestion), format (hash or alias) and salt
+ * @returns Object with functions mapping identities and statements
+ */
+export function createPseudonymizer({ mode = "off", format = "hash", salt = "" } = {}) {
+    if (!PSEUDONYMIZATION_MODES.includes(mode)) {
+        throw new Error(`Unknown pseudonymization mode: ${mode}`);
+    }
+    if (!PSEUDONYM_FORMATS.includes(format)) {
+        throw new Error(`Unknown pseudonym format: ${format}`);
+    }
+    if (mode !== "off" && !salt) {
+        throw new Error("PSEUDONYM_SALT must be set when pseudonymization is enabled");
+    }
+
+    /**
+     * Pseudonym of an identity, keeps the mailto: prefix and email shape of mboxes
+     * @param identity - mbox, openid or account name
+     * @returns Pseudonym
+     */
+    const pseudonym = (identity) => {
+        const prefix = identity.startsWith("mailto:") ? "mailto:" : "";
+        const digest = createHmac("sha256", salt).update(identity.slice(prefix.length).toLowerCase()).digest();
+
+        const local = format === "alias"
+            ? `${ADJECTIVES[digest[0] % ADJECTIVES.length]}-${ANIMALS[digest[1] % ANIMALS.length]}-${digest.subarray(2, 4).toString("hex")}`
+            : digest.subarray(0, 8).toString("hex");
+
+        return identity.includes("@") ? `${prefix}${local}@${PSEUDONYM_DOMAIN}` : local;
+    };
+
+    /**
+     * Replaces the identifying properties of an Agent or Group, including the members of a group
+     * The name is dropped, the hashed mbox cannot be mapped and is dropped as well
+     */
+    const mapAgent = (agent, replace) => {
+        if (!agent || typeof agent !== "object") {
+            return agent;
+        }
+
+        const { name, mbox_sha1sum, ...rest } = agent;
+        return {
+            ...rest,
+            ...(agent.mbox && { mbox: replace(agent.mbox) }),
+            ...(agent.openid && { openid: replace(agent.openid) }),
+            ...(agent.account?.name && { account: { ...agent.account, name: replace(agent.account.name) } }),
+            ...(Array.isArray(agent.member) && { member: agent.member.map(member => mapAgent(member, replace)) })
+        };
+    };
+
+    /**
+     * Applies an agent mapping to every Agent and Group of a statement: actor, authority,
+     * instructor and team of the context, and an Agent, Group or SubStatement object
+     */
+    const mapAgents = (statement, map) => {
+        const { actor, object, context, authority } = statement;
+        const isAgentObject = object?.objectType === "Agent" || object?.objectType === "Group";
+
+        return {
+            ...statement,
+            ...(actor && { actor: map(actor) }),
+            ...(authority && { authority: map(authority) }),
+            ...(isAgentObject && { object: map(object) }),
+            ...(object?.objectType === "SubStatement" && { object: mapAgents(object, map) }),
+            ...(context && {
+                context: {
+                    ...context,
+                    ...(context.instructor && { instructor: map(context.instructor) }),
+                    ...(context.team && { team: map(context.team) })
+                }
+            })
+        };
+    };
+
+    /**
+     * Agents and Groups of a statement, including group members
+     */
+    const statementAgents = (statement) => {
+        const agents = [];
+        mapAgents(statement, agent => {
+            agents.push(agent, ...(Array.isArray(agent.member) ? agent.member : []));
+            return agent;
+        });
+        return agents;
+    };
+
+    return {
+        mode,
+        format,
+        pseudonym,
+
+        /**
+         * Identity as stored in the database
+         */
+        stored: (identity) => mode === "ingestion" && identity ? pseudonym(identity) : identity,
+
+        /**
+         * Identity as returned by the API, learners keep seeing their own identity
+         */
+        displayed: (identity, ownIdentity = null) =>
+            mode === "display" && identity && identity !== ownIdentity ? pseudonym(identity) : identity,
+
+        /**
+         * Statement as stored in the database
+         */
+        storeStatement: (statement) => mode === "ingestion"
+            ? mapAgents(statement, agent => mapAgent(agent, pseudonym))
+            : statement,
+
+        /**
+         * Statement as returned by the API, learners keep seeing their own identity in every agent
+         */
+        displayStatement: (statement, ownIdentity = null) => {
+            if (mode !== "display") {
+                return statement;
+            }
+            const replace = (identity) => ownIdentity && identity === ownIdentity ? identity : pseudonym(identity);
+            return mapAgents(statement, agent => ownIdentity && agent.mbox === ownIdentity ? agent : mapAgent(agent, replace));
+        },
+
+        /**
+         * Identities of all agents and group members of a statement, recorded for re-identification
+         */
+        statementIdentities: (statement) => statementAgents(statement)
+            .flatMap(agent => [agent.mbox, agent.openid, agent.account?.name])
+            .filter(identity => typeof identity === "string" && identity)
+    };
+}
+
+let pseudonymizer = null;
+
+/**
+ * Returns the pseudonymizer configured by PSEUDONYMIZATION_MODE, PSEUDONYM_FORMAT and PSEUDONYM_SALT
+ * @returns Pseudonymizer, created on first use
+ * @throws Error if the configuration is invalid
+ */
+export function getPseudonymizer() {
+    if (!pseudonymizer) {
+        pseudonymizer = createPseudonymizer({
+            mode: process.env.PSEUDONYMIZATION_MODE || "off",
+            format: process.env.PSEUDONYM_FORMAT || "hash",
+            salt: process.env.PSEUDONYM_SALT || ""
+        });
+    }
+    return pseudonymizer;
+}
@@ -0,0 +1,95 @@
+export const SESSION_SOURCES = ["generated", "reconstructed"];
+
+export const SESSION_VERBS = {
+    launched: "http://adlnet.gov/expapi/verbs/launched",
+    exited: "http://adlnet.gov/expapi/verbs/exited",
+    completed: "http://adlnet.gov/expapi/verbs/completed"
+};
+
+// Activity visits starting at most this many minutes after the end of the previous visit belong to the same session
+export const SESSION_GAP_MINUTES = 30;
+
+/**
+ * Activity a statement belongs to, questions and badges name it as parent
+ * @param statement - Stored statement
+ * @returns Activity id
+ */
+const statementActivity = (statement) => statement.context?.contextActivities?.parent?.[0]?.id || statement.object?.id;
+
+/**
+ * Minutes between two timestamps
+ */
+const minutesBetween = (start, end) => (end.getTime() - start.getTime()) / 60000;
+
+/**
+ * Reconstructs the learning sessions of a learner from the statements
+ * An activity visit starts with launched and ends with exited, a visit without exited ends with its last
+ * statement. Visits separated by less than the session gap are grouped into a session.
+ * @param statements - Statements of a single learner, sorted by timestamp
+ * @param gapMinutes - Minutes of inactivity ending a session
+ * @returns Sessions with their activity visits, without learner and course
+ */
+export function reconstructLearnerSessions(statements, gapMinutes = SESSION_GAP_MINUTES) {
+    const open = new Map();
+    const visits = [];
+
+    const close = (activityId) => {
+        visits.push(open.get(activityId));
+        open.delete(activityId);
+    };
+
+    statements.forEach(statement => {
+        const activityId = statementActivity(statement);
+        const timestamp = new Date(statement.timestamp);
+        if (!activityId || isNaN(timestamp.getTime())) return;
+
+        const verbId = statement.verb?.id;
+        if (verbId === SESSION_VERBS.launched) {
+            if (open.has(activityId)) close(activityId);
+            open.set(activityId, {
+                activityId,
+                title: statement.object?.definition?.name?.en || activityId,
+                startTime: timestamp,
+                endTime: timestamp,
+                completed: false,
+                statements: 1
+            });
+            return;
+        }
+
+        // Statements outside of a visit do not belong to an activity of the session
+        const visit = open.get(activityId);
+        if (!visit) return;
+
+        visit.endTime = timestamp;
+        visit.statements++;
+        visit.completed = visit.completed || verbId === SESSION_VERBS.completed || statement.result?.completion === true;
+        if (verbId === SESSION_VERBS.exited) close(activityId);
+    });
+    Array.from(open.keys()).forEach(close);
+
+    const sessions = [];
+    visits
+        .sort((a, b) => a.startTime - b.startTime)
+        .forEach(visit => {
+            const current = sessions[sessions.length - 1];
+            if (current && minutesBetween(current.endTime, visit.startTime) <= gapMinutes) {
+                current.activities.push(visit);
+                if (visit.endTime > current.endTime) current.endTime = visit.endTime;
+            } else {
+                sessions.push({ startTime: visit.startTime, endTime: visit.endTime, activities: [visit] });
+            }
+        });
+
+    return sessions.map(session => ({
+        startTime: session.startTime.toISOString(),
+        endTime: session.endTime.toISOString(),
+        totalDuration: minutesBetween(session.startTime, session.endTime),
+        activities: session.activities.map(visit => ({
+            ...visit,
+            startTime: visit.startTime.toISOString(),
+            endTime: visit.endTime.toISOString(),
+            duration: minutesBetween(visit.startTime, visit.endTime)
+        }))
+    }));
+}
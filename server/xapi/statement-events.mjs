@@ -0,0 +1,31 @@
+import { EventEmitter } from "events";
+
+/*
+ * Notifies the open statement streams of newly stored statements
+ * Subscribers are held by this server process, every process behind a load balancer only sees its own ingestion.
+ */
+
+const events = new EventEmitter();
+
+// Every open stream subscribes, the default limit of 10 listeners would warn about a leak
+events.setMaxListeners(0);
+
+/**
+ * Passes stored statements to all subscribers
+ * @param statements - Statements as stored in the database
+ */
+export function publishStatements(statements) {
+    if (statements.length > 0) {
+        events.emit("statements", statements);
+    }
+}
+
+/**
+ * Subscribes to newly stored statements
+ * @param listener - Called with every stored batch of statements
+ * @returns Function ending the subscription
+ */
+export function subscribeStatements(listener) {
+    events.on("statements", listener);
+    return () => events.off("statements", listener);
+}
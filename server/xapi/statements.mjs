@@ -0,0 +1,442 @@
+import { randomUUID } from "crypto";
+import { ObjectId } from "mongodb";
+
+export const VOIDED_VERB = "http://adlnet.gov/expapi/verbs/voided";
+
+export const EXTERNAL_ID_EXTENSION = "https://w3id.org/learning-analytics/learning-management-system/external-id";
+
+// Course id extension defined by the bundled xAPI profile
+export const COURSE_ID_EXTENSION = "https://awt-lt.fokus.fraunhofer.de/api/traceData/profiles/extensions/course_id";
+
+// Course id extension of statements stored before the profile extension was used, still read
+const LEGACY_COURSE_ID_EXTENSION = "https://example.com/activities/extensions/course_id";
+
+// Upper bound for a single page of the statements resource, also used when a client asks for limit=0
+export const MAX_PAGE_SIZE = 1000;
+
+const STATEMENT_QUERY_PARAMS = [
+    "statementId",
+    "voidedStatementId",
+    "agent",
+    "verb",
+    "activity",
+    "registration",
+    "related_activities",
+    "related_agents",
+    "since",
+    "until",
+    "limit",
+    "format",
+    "attachments",
+    "ascending",
+    "cursor",
+    // Filters beyond the xAPI specification used by the dashboards
+    "externalId",
+    "courseId",
+    "from",
+    "to"
+];
+
+export const STATEMENT_FORMATS = ["exact", "ids", "canonical"];
+
+/**
+ * Raised for malformed statement queries, mapped to 400 by the routes
+ */
+export class StatementQueryError extends Error { }
+
+const parseBoolean = (value, name) => {
+    if (value === undefined) return false;
+    if (value === "true") return true;
+    if (value === "false") return false;
+    throw new StatementQueryError(`${name} must be "true" or "false"`);
+};
+
+const parseTimestamp = (value, name) => {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        throw new StatementQueryError(`${name} must be an ISO 8601 timestamp`);
+    }
+    return date.toISOString();
+};
+
+const parseFormat = (value) => {
+    const format = value || "exact";
+    if (!STATEMENT_FORMATS.includes(format)) {
+        throw new StatementQueryError(`format must be one of ${STATEMENT_FORMATS.join(', ')}`);
+    }
+    return format;
+};
+
+// Inverse functional identifiers of xAPI 1.0.3, an Agent is identified by exactly one of them
+export const AGENT_IDENTIFIERS = ["mbox", "mbox_sha1sum", "openid", "account"];
+
+/**
+ * Lists the inverse functional identifiers an agent carries
+ * @param agent - Agent or Group object
+ * @returns Names of the identifier properties present
+ */
+export function agentIdentifiers(agent) {
+    if (!agent || typeof agent !== "object") return [];
+    return AGENT_IDENTIFIERS.filter(identifier => agent[identifier] !== undefined);
+}
+
+/**
+ * Checks the identifier of an agent, mbox, mbox_sha1sum and openid are strings, an account has homePage and name
+ * @param agent - Agent or Group object
+ * @returns True if the agent carries exactly one well-formed identifier
+ */
+export function isIdentifiedAgent(agent) {
+    const identifiers = agentIdentifiers(agent);
+    if (identifiers.length !== 1) return false;
+
+    const [identifier] = identifiers;
+    return identifier === "account"
+        ? typeof agent.account?.homePage === "string" && typeof agent.account?.name === "string"
+        : typeof agent[identifier] === "string";
+}
+
+/**
+ * Key of an agent as a single string, used to group statements by learner
+ * mbox and openid are kept as they are, so learners identified by email match their profile
+ * @param agent - Agent object
+ * @returns mbox, openid, sha1:<mbox_sha1sum>, account:<name>@<homePage> or null
+ */
+export function agentKey(agent) {
+    if (!agent || typeof agent !== "object") return null;
+    if (typeof agent.mbox === "string") return agent.mbox;
+    if (typeof agent.openid === "string") return agent.openid;
+    if (typeof agent.mbox_sha1sum === "string") return `sha1:${agent.mbox_sha1sum}`;
+    if (typeof agent.account?.name === "string") return `account:${agent.account.name}@${agent.account.homePage}`;
+    return null;
+}
+
+const isString = (path) => ({ $eq: [{ $type: path }, "string"] });
+
+/**
+ * Aggregation expression computing agentKey of the agent at a path
+ * @param path - Path of the agent, e.g. actor
+ * @returns MongoDB expression, null for agents without identifier
+ */
+export function agentKeyExpression(path) {
+    return {
+        $ifNull: [
+            `$${path}.mbox`,
+            `$${path}.openid`,
+            { $cond: [isString(`$${path}.mbox_sha1sum`), { $concat: ["sha1:", `$${path}.mbox_sha1sum`] }, null] },
+            {
+                $cond: [
+                    isString(`$${path}.account.name`),
+                    { $concat: ["account:", `$${path}.account.name`, "@", `$${path}.account.homePage`] },
+                    null
+                ]
+            }
+        ]
+    };
+}
+
+/**
+ * Matches the agent at a path by its inverse functional identifier
+ * @param agent - Agent with one identifier, as checked by isIdentifiedAgent
+ * @param path - Path of the agent in the statement, e.g. actor or context.instructor
+ * @returns MongoDB query condition
+ */
+export function agentCondition(agent, path = "actor") {
+    const [identifier] = agentIdentifiers(agent);
+    if (identifier === "account") {
+        return {
+            [`${path}.account.homePage`]: agent.account.homePage,
+            [`${path}.account.name`]: agent.account.name
+        };
+    }
+    return { [`${path}.${identifier}`]: agent[identifier] };
+}
+
+// Locations of agents in a statement matched by the agent filter with related_agents
+const RELATED_AGENT_PATHS = ["actor", "object", "authority", "context.instructor", "context.team"];
+
+const parseAgent = (value) => {
+    let agent;
+    try {
+        agent = JSON.parse(value);
+    } catch {
+        throw new StatementQueryError('agent must be a JSON encoded Agent object');
+    }
+    if (!isIdentifiedAgent(agent)) {
+        throw new StatementQueryError(`agent must be identified by exactly one of ${AGENT_IDENTIFIERS.join(', ')}`);
+    }
+    return agent;
+};
+
+/**
+ * Reads an extension value in an aggregation expression
+ * @param path - Path of the extensions object, e.g. context.extensions
+ * @param key - Extension IRI
+ * @returns MongoDB expression, missing if the statement has no such extension
+ */
+const extensionField = (path, key) => ({
+    $getField: {
+        field: { $literal: key },
+        input: { $ifNull: [`$${path}`, {}] }
+    }
+});
+
+/**
+ * Matches statements by an extension value, extension keys contain dots and cannot be used as field paths
+ * @param path - Path of the extensions object, e.g. context.extensions
+ * @param key - Extension IRI
+ * @param value - Expected value
+ * @returns MongoDB query condition
+ */
+export function extensionCondition(path, key, value) {
+    return { $expr: { $eq: [extensionField(path, key), value] } };
+}
+
+/**
+ * Matches the statements of a course, identified by the course id context extension or its legacy IRI
+ * @param courseId - Course (manifest) identifier
+ * @returns MongoDB query condition
+ */
+export function courseCondition(courseId) {
+    return {
+        $expr: {
+            $or: [COURSE_ID_EXTENSION, LEGACY_COURSE_ID_EXTENSION]
+                .map(key => ({ $eq: [extensionField("context.extensions", key), courseId] }))
+        }
+    };
+}
+
+/**
+ * Course id of a statement, taken from its context extension
+ * @param statement - Stored statement
+ * @returns Course id or null
+ */
+export function statementCourseId(statement) {
+    const extensions = statement.context?.extensions;
+    return extensions?.[COURSE_ID_EXTENSION] ?? extensions?.[LEGACY_COURSE_ID_EXTENSION] ?? null;
+}
+
+/**
+ * Validates a page size parameter
+ * @param value - Raw query value
+ * @param defaultLimit - Page size used if the parameter is missing
+ * @returns Page size, 0 selects the maximum page size
+ * @throws StatementQueryError if the value is not a non-negative integer
+ */
+export function parseLimit(value, defaultLimit = MAX_PAGE_SIZE) {
+    if (value === undefined) return defaultLimit;
+
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < 0) {
+        throw new StatementQueryError('limit must be a non-negative integer');
+    }
+    return limit === 0 ? MAX_PAGE_SIZE : Math.min(limit, MAX_PAGE_SIZE);
+}
+
+/**
+ * Validates the parameters of a single statement request (statementId or voidedStatementId)
+ * @param query - Express query object
+ * @returns The requested id, whether the voided variant was requested and the response format
+ */
+export function parseSingleStatementQuery(query) {
+    if (query.statementId && query.voidedStatementId) {
+        throw new StatementQueryError('statementId and voidedStatementId cannot be combined');
+    }
+
+    const allowed = ["statementId", "voidedStatementId", "format", "attachments"];
+    const extra = Object.keys(query).filter(key => !allowed.includes(key));
+    if (extra.length > 0) {
+        throw new StatementQueryError(`Unexpected parameter(s) for a single statement request: ${extra.join(', ')}`);
+    }
+
+    return {
+        id: query.statementId || query.voidedStatementId,
+        voided: Boolean(query.voidedStatementId),
+        format: parseFormat(query.format)
+    };
+}
+
+/**
+ * Translates xAPI statement query parameters into MongoDB query parts
+ * @param query - Express query object
+ * @returns Filter conditions, page size, sort direction, format and cursor
+ * @throws StatementQueryError if a parameter is unknown or malformed
+ */
+export function parseStatementQuery(query) {
+    const unknown = Object.keys(query).filter(key => !STATEMENT_QUERY_PARAMS.includes(key));
+    if (unknown.length > 0) {
+        throw new StatementQueryError(`Unknown query parameter(s): ${unknown.join(', ')}`);
+    }
+
+    const conditions = [];
+
+    if (query.agent) {
+        const agent = parseAgent(query.agent);
+        conditions.push(parseBoolean(query.related_agents, "related_agents")
+            ? { $or: RELATED_AGENT_PATHS.map(path => agentCondition(agent, path)) }
+            : agentCondition(agent));
+    }
+
+    if (query.verb) {
+        conditions.push({ 'verb.id': query.verb });
+    }
+
+    if (query.activity) {
+        conditions.push(parseBoolean(query.related_activities, "related_activities")
+            ? {
+                $or: ["object.id", "context.contextActivities.parent.id", "context.contextActivities.grouping.id",
+                    "context.contextActivities.category.id", "context.contextActivities.other.id"]
+                    .map(path => ({ [path]: query.activity }))
+            }
+            : { 'object.id': query.activity });
+    }
+
+    if (query.registration) {
+        conditions.push({ 'context.registration': query.registration });
+    }
+
+    if (query.since) {
+        conditions.push({ stored: { $gt: parseTimestamp(query.since, "since") } });
+    }
+
+    if (query.until) {
+        conditions.push({ stored: { $lte: parseTimestamp(query.until, "until") } });
+    }
+
+    if (query.externalId) {
+        conditions.push(extensionCondition("object.definition.extensions", EXTERNAL_ID_EXTENSION, query.externalId));
+    }
+
+    if (query.courseId) {
+        conditions.push(courseCondition(query.courseId));
+    }
+
+    // Time window on the statement timestamp, since and until refer to the time of storage
+    if (query.from) {
+        conditions.push({ timestamp: { $gte: parseTimestamp(query.from, "from") } });
+    }
+
+    if (query.to) {
+        conditions.push({ timestamp: { $lt: parseTimestamp(query.to, "to") } });
+    }
+
+    const ascending = parseBoolean(query.ascending, "ascending");
+
+    if (query.cursor) {
+        if (!ObjectId.isValid(query.cursor)) {
+            throw new StatementQueryError('cursor is invalid');
+        }
+        const cursorId = new ObjectId(query.cursor);
+        conditions.push({ _id: ascending ? { $gt: cursorId } : { $lt: cursorId } });
+    }
+
+    return {
+        conditions,
+        limit: parseLimit(query.limit),
+        ascending,
+        format: parseFormat(query.format)
+    };
+}
+
+/**
+ * Builds the relative IRL of the next page for a statement result
+ * @param req - Express request of the current page
+ * @param lastId - MongoDB id of the last statement on the current page
+ * @returns Relative URL including all original query parameters
+ */
+export function buildMoreUrl(req, lastId) {
+    const params = new URLSearchParams({ ...req.query, cursor: lastId.toString() });
+    return `${req.baseUrl}${req.path}?${params.toString()}`;
+}
+
+/**
+ * Reduces an agent to its identifier for the ids format, members of anonymous groups keep theirs
+ */
+const agentIds = (agent) => {
+    if (!agent || typeof agent !== "object") return agent;
+    return {
+        ...(agent.objectType && { objectType: agent.objectType }),
+        ...Object.fromEntries(agentIdentifiers(agent).map(identifier => [identifier, agent[identifier]])),
+        ...(Array.isArray(agent.member) && agentIdentifiers(agent).length === 0 && { member: agent.member.map(agentIds) })
+    };
+};
+
+/**
+ * Strips storage internals and applies the requested xAPI format
+ * @param document - Statement as stored in the database
+ * @param format - exact, ids or canonical
+ * @returns Statement ready to be sent to a client
+ */
+export function formatStatement(document, format = "exact") {
+    const statement = { ...document };
+    delete statement._id;
+
+    if (format === "ids") {
+        return {
+            ...statement,
+            actor: agentIds(statement.actor),
+            verb: { id: statement.verb?.id },
+            object: { id: statement.object?.id, objectType: statement.object?.objectType }
+        };
+    }
+
+    return statement;
+}
+
+/**
+ * Applies the LRS controlled properties to an incoming statement
+ * @param statement - Statement as sent by the client
+ * @param stored - ISO timestamp of the ingestion
+ * @returns Statement with id, timestamp, stored and version set
+ */
+export function normalizeStatement(statement, stored) {
+    return {
+        ...statement,
+        id: statement.id || randomUUID(),
+        timestamp: statement.timestamp || stored,
+        stored,
+        version: statement.version || "1.0.0"
+    };
+}
+
+/**
+ * Checks whether a statement voids another statement
+ * @param statement - Stored or incoming statement
+ * @returns True for statements with the voided verb
+ */
+export function isVoidingStatement(statement) {
+    return statement.verb?.id === VOIDED_VERB;
+}
+
+const canonicalize = (value) => {
+    if (Array.isArray(value)) return value.map(canonicalize);
+    if (value && typeof value === "object") {
+        return Object.keys(value).sort().reduce((result, key) => {
+            result[key] = canonicalize(value[key]);
+            return result;
+        }, {});
+    }
+    return value;
+};
+
+// Properties only the LRS sets
+const LRS_PROPERTIES = ["_id", "stored", "authority"];
+
+// Properties the LRS sets if the client leaves them out
+const DEFAULTED_PROPERTIES = ["id", "timestamp", "version"];
+
+/**
+ * Compares a stored statement with a statement sent again, e.g. by a repeated PUT or a retried POST
+ * Properties set by the LRS are ignored, timestamp and version only if the client did not send them
+ * @param stored - Statement already in the database
+ * @param sent - Statement as sent by the client, before normalizeStatement
+ * @returns True if both statements carry the same content
+ */
+export function isSameStatement(stored, sent) {
+    const ignored = [...LRS_PROPERTIES, ...DEFAULTED_PROPERTIES.filter(property => sent[property] === undefined)];
+    const content = (statement) => {
+        const copy = { ...statement };
+        ignored.forEach(property => delete copy[property]);
+        return JSON.stringify(canonicalize(copy));
+    };
+    return content(stored) === content(sent);
+}